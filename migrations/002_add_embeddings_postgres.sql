@@ -0,0 +1,15 @@
+-- Add embeddings columns for deduplication (PostgreSQL)
+-- item_embeddings already exists from 001 with a pgvector column; add the JSON/text columns used by the app
+
+ALTER TABLE item_embeddings ADD COLUMN IF NOT EXISTS embedding_vector TEXT;
+ALTER TABLE item_embeddings ADD COLUMN IF NOT EXISTS canonical_key TEXT;
+ALTER TABLE item_embeddings ADD COLUMN IF NOT EXISTS text_content TEXT;
+ALTER TABLE item_embeddings ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Indexes for efficient deduplication
+CREATE INDEX IF NOT EXISTS idx_embeddings_canonical ON item_embeddings(canonical_key);
+CREATE INDEX IF NOT EXISTS idx_embeddings_created ON item_embeddings(created_at);
+
+-- Update clusters table to include more metadata
+ALTER TABLE clusters ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ DEFAULT NOW();
+ALTER TABLE clusters ADD COLUMN IF NOT EXISTS avg_similarity_score DECIMAL;
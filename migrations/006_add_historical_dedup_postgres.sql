@@ -0,0 +1,61 @@
+-- Migration 006: Add Historical Deduplication Support (PostgreSQL)
+-- Enables cross-run deduplication by storing embeddings persistently
+
+-- Store item embeddings persistently for cross-run deduplication
+CREATE TABLE IF NOT EXISTS item_embeddings_persistent (
+  item_id UUID PRIMARY KEY,
+  embedding_vector TEXT, -- JSON array of embedding (for SQLite compatibility)
+  canonical_key TEXT NOT NULL,
+  text_content TEXT NOT NULL,
+  source_id UUID,
+  channel_id TEXT,
+  channel_name TEXT,
+  published_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  cluster_id UUID,
+  event_type TEXT, -- product_launch, acquisition, etc.
+  entity_list TEXT, -- JSON array of entities
+
+  FOREIGN KEY (cluster_id) REFERENCES clusters(id) ON DELETE SET NULL
+);
+
+-- Indexes for fast historical search
+CREATE INDEX IF NOT EXISTS idx_embeddings_persistent_published
+  ON item_embeddings_persistent(published_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_persistent_cluster
+  ON item_embeddings_persistent(cluster_id);
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_persistent_source
+  ON item_embeddings_persistent(source_id, published_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_persistent_canonical
+  ON item_embeddings_persistent(canonical_key);
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_persistent_event_type
+  ON item_embeddings_persistent(event_type);
+
+-- Add columns to clusters table for temporal context
+ALTER TABLE clusters ADD COLUMN IF NOT EXISTS first_reported_at TIMESTAMPTZ;
+ALTER TABLE clusters ADD COLUMN IF NOT EXISTS first_reported_by TEXT;
+ALTER TABLE clusters ADD COLUMN IF NOT EXISTS story_phase TEXT; -- breaking, follow-up, analysis
+ALTER TABLE clusters ADD COLUMN IF NOT EXISTS time_window TEXT; -- 24h, 7d, 30d
+ALTER TABLE clusters ADD COLUMN IF NOT EXISTS source_diversity DECIMAL DEFAULT 0.5;
+ALTER TABLE clusters ADD COLUMN IF NOT EXISTS cluster_quality_score DECIMAL DEFAULT 0.5;
+
+-- Historical dedup tracking
+CREATE TABLE IF NOT EXISTS historical_dedup_actions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  new_item_id UUID NOT NULL,
+  historical_cluster_id UUID,
+  similarity_score DECIMAL NOT NULL,
+  action TEXT NOT NULL, -- merged, marked_duplicate, kept_separate
+  reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_historical_dedup_item
+  ON historical_dedup_actions(new_item_id);
+
+CREATE INDEX IF NOT EXISTS idx_historical_dedup_cluster
+  ON historical_dedup_actions(historical_cluster_id);
@@ -0,0 +1,33 @@
+-- Migration 007: Add hallucination issues table (PostgreSQL)
+-- Audit trail for items the hallucination detector distrusted (one row per issue)
+
+CREATE TABLE IF NOT EXISTS hallucination_issues (
+  id SERIAL PRIMARY KEY,
+  run_id TEXT, -- Run whose extraction the item came from (NULL outside a pipeline run)
+  video_id TEXT NOT NULL, -- YouTube video ID
+  source_type TEXT NOT NULL CHECK (source_type IN ('news', 'debate', 'dev')),
+  item_title TEXT NOT NULL,
+
+  -- Issue details
+  issue_type TEXT NOT NULL CHECK (issue_type IN ('missing_entity', 'unsupported_claim', 'semantic_mismatch', 'fabricated_detail')),
+  severity TEXT NOT NULL CHECK (severity IN ('critical', 'major', 'minor')),
+  description TEXT NOT NULL,
+  evidence TEXT,
+
+  -- Outcome
+  action TEXT NOT NULL CHECK (action IN ('drop', 'downgrade', 'flag', 'none')),
+  original_confidence TEXT NOT NULL,
+  adjusted_confidence TEXT, -- NULL when item was dropped
+  detector_confidence DECIMAL NOT NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_hallucination_issues_video
+  ON hallucination_issues(video_id);
+
+CREATE INDEX IF NOT EXISTS idx_hallucination_issues_run
+  ON hallucination_issues(run_id, video_id);
+
+CREATE INDEX IF NOT EXISTS idx_hallucination_issues_action
+  ON hallucination_issues(action, created_at DESC);
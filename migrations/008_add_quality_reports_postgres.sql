@@ -0,0 +1,15 @@
+-- Migration 008: Add quality reports table (PostgreSQL)
+-- Stores periodic LLM extraction quality reports (generated weekly by the pipeline)
+
+CREATE TABLE IF NOT EXISTS quality_reports (
+  id SERIAL PRIMARY KEY,
+  run_id UUID NOT NULL, -- Run that triggered the report
+  period_days INTEGER NOT NULL DEFAULT 7,
+  generated_at TIMESTAMPTZ NOT NULL,
+  report TEXT NOT NULL,
+
+  FOREIGN KEY (run_id) REFERENCES runs(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quality_reports_generated
+  ON quality_reports(period_days, generated_at DESC);
@@ -0,0 +1,10 @@
+-- Migration 009: Add per-source watermarks (PostgreSQL)
+-- Incremental cursor so videos missed by failed/skipped runs are caught up
+
+CREATE TABLE IF NOT EXISTS source_watermarks (
+  source_id UUID PRIMARY KEY REFERENCES sources(id),
+  last_published_at TIMESTAMPTZ NOT NULL, -- publishedAt of newest video handled in a successful run
+  last_video_id TEXT NOT NULL,
+  last_run_id UUID REFERENCES runs(id),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
@@ -0,0 +1,12 @@
+-- Migration 010: Add per-video pipeline stage checkpoints (PostgreSQL)
+-- Lets interrupted runs resume each video from its last completed stage
+
+ALTER TABLE videos ADD COLUMN stage TEXT DEFAULT 'discovered'
+  CHECK (stage IN ('discovered', 'transcribed', 'extracted', 'deduped', 'delivered'));
+ALTER TABLE videos ADD COLUMN run_id UUID REFERENCES runs(id); -- Run that last advanced the video
+ALTER TABLE videos ADD COLUMN stage_updated_at TIMESTAMPTZ;
+
+-- Videos that existed before checkpoints were introduced are considered finished
+UPDATE videos SET stage = 'delivered';
+
+CREATE INDEX IF NOT EXISTS idx_videos_stage ON videos(stage, run_id);
@@ -0,0 +1,8 @@
+-- Migration 011: Schema changes for SQLite/PostgreSQL query parity
+-- Transcripts are upserted on video_id (ON CONFLICT needs a unique index in both engines)
+
+-- Keep the newest transcript per video before adding the constraint
+DELETE FROM transcripts
+WHERE rowid NOT IN (SELECT MAX(rowid) FROM transcripts GROUP BY video_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transcripts_video_unique ON transcripts(video_id);
@@ -0,0 +1,48 @@
+-- Migration 011: Schema changes for SQLite/PostgreSQL query parity (PostgreSQL)
+-- The app generates text ids (run_<ms>, cluster_<n>) and writes JSON as serialized strings,
+-- like the SQLite schema. Align column types so the same queries work on both engines.
+
+-- Run ids: UUID -> TEXT (foreign keys dropped while the referenced type changes)
+ALTER TABLE items DROP CONSTRAINT IF EXISTS items_run_id_fkey;
+ALTER TABLE slack_posts DROP CONSTRAINT IF EXISTS slack_posts_run_id_fkey;
+ALTER TABLE videos DROP CONSTRAINT IF EXISTS videos_run_id_fkey;
+ALTER TABLE quality_reports DROP CONSTRAINT IF EXISTS quality_reports_run_id_fkey;
+ALTER TABLE source_watermarks DROP CONSTRAINT IF EXISTS source_watermarks_last_run_id_fkey;
+
+ALTER TABLE runs ALTER COLUMN id DROP DEFAULT;
+ALTER TABLE runs ALTER COLUMN id TYPE TEXT;
+ALTER TABLE items ALTER COLUMN run_id TYPE TEXT;
+ALTER TABLE slack_posts ALTER COLUMN run_id TYPE TEXT;
+ALTER TABLE videos ALTER COLUMN run_id TYPE TEXT;
+ALTER TABLE quality_reports ALTER COLUMN run_id TYPE TEXT;
+ALTER TABLE source_watermarks ALTER COLUMN last_run_id TYPE TEXT;
+
+ALTER TABLE items ADD CONSTRAINT items_run_id_fkey FOREIGN KEY (run_id) REFERENCES runs(id);
+ALTER TABLE slack_posts ADD CONSTRAINT slack_posts_run_id_fkey FOREIGN KEY (run_id) REFERENCES runs(id);
+ALTER TABLE videos ADD CONSTRAINT videos_run_id_fkey FOREIGN KEY (run_id) REFERENCES runs(id);
+ALTER TABLE quality_reports ADD CONSTRAINT quality_reports_run_id_fkey FOREIGN KEY (run_id) REFERENCES runs(id);
+ALTER TABLE source_watermarks ADD CONSTRAINT source_watermarks_last_run_id_fkey FOREIGN KEY (last_run_id) REFERENCES runs(id);
+
+-- Cluster ids: UUID -> TEXT
+ALTER TABLE item_embeddings_persistent DROP CONSTRAINT IF EXISTS item_embeddings_persistent_cluster_id_fkey;
+
+ALTER TABLE clusters ALTER COLUMN id TYPE TEXT;
+ALTER TABLE clusters ALTER COLUMN id SET DEFAULT uuid_generate_v4()::text;
+ALTER TABLE item_embeddings_persistent ALTER COLUMN cluster_id TYPE TEXT;
+ALTER TABLE historical_dedup_actions ALTER COLUMN new_item_id TYPE TEXT;
+ALTER TABLE historical_dedup_actions ALTER COLUMN historical_cluster_id TYPE TEXT;
+
+ALTER TABLE item_embeddings_persistent ADD CONSTRAINT item_embeddings_persistent_cluster_id_fkey
+  FOREIGN KEY (cluster_id) REFERENCES clusters(id) ON DELETE SET NULL;
+
+-- Arrays written as JSON strings by the app
+ALTER TABLE items ALTER COLUMN entities TYPE TEXT USING array_to_json(entities)::text;
+ALTER TABLE items ALTER COLUMN links TYPE TEXT USING array_to_json(links)::text;
+ALTER TABLE clusters ALTER COLUMN member_item_ids TYPE TEXT USING array_to_json(member_item_ids)::text;
+
+-- Keep the newest transcript per video before adding the upsert constraint
+DELETE FROM transcripts a
+USING transcripts b
+WHERE a.video_id = b.video_id AND (a.created_at, a.id::text) < (b.created_at, b.id::text);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transcripts_video_unique ON transcripts(video_id);
@@ -0,0 +1,11 @@
+-- Migration 012: Lossless item storage
+-- item_data holds the full validated item (every schema field) as JSON; flat columns stay for querying.
+-- relevance_score previously held the 0-1 quality score - move it to its own column.
+
+ALTER TABLE items ADD COLUMN item_data TEXT;
+ALTER TABLE items ADD COLUMN quality_score REAL;
+ALTER TABLE items ADD COLUMN item_index INTEGER; -- Rank order within the video
+
+UPDATE items SET quality_score = relevance_score, relevance_score = NULL;
+
+CREATE INDEX IF NOT EXISTS idx_items_video ON items(video_id);
@@ -0,0 +1,11 @@
+-- Migration 013: Store each run's delivered brief
+-- Deduplicated items aren't linked to runs, so the brief is kept as rendered input for the archive
+
+CREATE TABLE IF NOT EXISTS briefs (
+  run_id TEXT PRIMARY KEY REFERENCES runs(id),
+  generated_at TIMESTAMP NOT NULL,
+  brief_data TEXT NOT NULL, -- JSON: deduplicated items per section + stats
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_briefs_generated ON briefs(generated_at DESC);
@@ -0,0 +1,41 @@
+-- Migration 014: Clusters reference deduplicated items by their dedup key (videoId_canonicalKey)
+-- Canonical items aren't rows in items, so the items(id) foreign key rejected every cluster insert.
+-- SQLite can't drop a constraint - rebuild the table with every column, keeping embedding -> cluster links.
+
+CREATE TEMP TABLE cluster_links AS
+  SELECT item_id, cluster_id FROM item_embeddings_persistent WHERE cluster_id IS NOT NULL;
+
+CREATE TABLE clusters_new (
+  id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+  canonical_item_id TEXT, -- Dedup item key, not items.id
+  member_item_ids TEXT, -- JSON array as string
+  similarity_threshold REAL,
+  also_covered_by TEXT, -- JSON array of "channelId/videoId"
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  avg_similarity_score REAL,
+  first_reported_at TIMESTAMP,
+  first_reported_by TEXT,
+  story_phase TEXT, -- breaking, follow-up, analysis
+  time_window TEXT, -- 24h, 7d, 30d
+  source_diversity REAL DEFAULT 0.5,
+  cluster_quality_score REAL DEFAULT 0.5
+);
+
+INSERT INTO clusters_new (
+  id, canonical_item_id, member_item_ids, similarity_threshold, also_covered_by, created_at, avg_similarity_score,
+  first_reported_at, first_reported_by, story_phase, time_window, source_diversity, cluster_quality_score
+)
+  SELECT id, canonical_item_id, member_item_ids, similarity_threshold, also_covered_by, created_at, avg_similarity_score,
+    first_reported_at, first_reported_by, story_phase, time_window, source_diversity, cluster_quality_score
+  FROM clusters;
+
+DROP TABLE clusters;
+ALTER TABLE clusters_new RENAME TO clusters;
+
+UPDATE item_embeddings_persistent
+SET cluster_id = (SELECT cluster_id FROM cluster_links WHERE cluster_links.item_id = item_embeddings_persistent.item_id)
+WHERE item_id IN (SELECT item_id FROM cluster_links);
+
+DROP TABLE cluster_links;
+
+CREATE INDEX IF NOT EXISTS idx_clusters_canonical ON clusters(canonical_item_id);
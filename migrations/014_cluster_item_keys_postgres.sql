@@ -0,0 +1,8 @@
+-- Migration 014: Clusters reference deduplicated items by their dedup key (videoId_canonicalKey) (PostgreSQL)
+-- Canonical items aren't rows in items, so the items(id) foreign key rejected every cluster insert.
+
+ALTER TABLE clusters DROP CONSTRAINT IF EXISTS clusters_canonical_item_id_fkey;
+ALTER TABLE clusters ALTER COLUMN canonical_item_id TYPE TEXT;
+ALTER TABLE clusters ALTER COLUMN also_covered_by TYPE TEXT USING also_covered_by::text;
+
+CREATE INDEX IF NOT EXISTS idx_clusters_canonical ON clusters(canonical_item_id);
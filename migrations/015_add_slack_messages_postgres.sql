@@ -0,0 +1,15 @@
+-- Migration 015: Threaded Slack briefs (PostgreSQL)
+-- Every message of a brief thread (headline + one reply per section) with its ts,
+-- so retries only post what is missing and later runs can reference or update them.
+
+CREATE TABLE IF NOT EXISTS slack_messages (
+  run_id TEXT NOT NULL REFERENCES runs(id),
+  channel_id TEXT NOT NULL,
+  part TEXT NOT NULL, -- 'headline', 'news', 'debate', 'dev', 'deepDives' ('news:2' when a section is split)
+  message_ts TEXT NOT NULL,
+  thread_ts TEXT, -- Headline ts for replies
+  posted_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (run_id, channel_id, part)
+);
+
+CREATE INDEX IF NOT EXISTS idx_slack_messages_ts ON slack_messages(channel_id, message_ts);
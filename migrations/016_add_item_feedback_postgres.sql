@@ -0,0 +1,22 @@
+-- Migration 016: Reader feedback from Slack buttons (PostgreSQL)
+-- One vote per item and Slack user; item details are copied in so ranking can learn from them.
+-- base_weight keeps the configured source weight - sources.weight is recomputed from feedback.
+
+CREATE TABLE IF NOT EXISTS item_feedback (
+  item_key TEXT NOT NULL, -- Dedup item key (videoId_canonicalKey)
+  user_id TEXT NOT NULL,
+  run_id TEXT REFERENCES runs(id),
+  feedback TEXT NOT NULL CHECK (feedback IN ('up', 'down', 'not_ai')),
+  section TEXT,
+  source_channel_id TEXT,
+  video_id TEXT,
+  item_type TEXT,
+  entities TEXT, -- JSON array as string
+  updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (item_key, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_feedback_channel ON item_feedback(source_channel_id);
+
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS base_weight DECIMAL;
+UPDATE sources SET base_weight = weight;
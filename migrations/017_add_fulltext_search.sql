@@ -0,0 +1,122 @@
+-- Migration 017: Full-text search over items and transcript segments
+-- FTS5 indexes kept in sync by triggers. Transcripts are split into one row per caption segment
+-- so a hit carries the second it was said.
+
+-- Items: title weighted separately from summary, entities, dev technologies and raw context
+CREATE VIRTUAL TABLE IF NOT EXISTS items_fts USING fts5(
+  item_id UNINDEXED,
+  title,
+  body,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS items_fts_insert AFTER INSERT ON items BEGIN
+  INSERT INTO items_fts (item_id, title, body)
+  VALUES (
+    NEW.id,
+    NEW.title,
+    COALESCE(NEW.summary, '') || ' ' || COALESCE(NEW.entities, '') || ' ' || COALESCE(CASE WHEN json_valid(NEW.item_data) THEN COALESCE(json_extract(NEW.item_data, '$.affectedTechnologies'), '') || ' ' || COALESCE(json_extract(NEW.item_data, '$.rawContext'), '') END, '')
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS items_fts_update AFTER UPDATE OF title, summary, entities, item_data ON items BEGIN
+  DELETE FROM items_fts WHERE item_id = OLD.id;
+  INSERT INTO items_fts (item_id, title, body)
+  VALUES (
+    NEW.id,
+    NEW.title,
+    COALESCE(NEW.summary, '') || ' ' || COALESCE(NEW.entities, '') || ' ' || COALESCE(CASE WHEN json_valid(NEW.item_data) THEN COALESCE(json_extract(NEW.item_data, '$.affectedTechnologies'), '') || ' ' || COALESCE(json_extract(NEW.item_data, '$.rawContext'), '') END, '')
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS items_fts_delete AFTER DELETE ON items BEGIN
+  DELETE FROM items_fts WHERE item_id = OLD.id;
+END;
+
+INSERT INTO items_fts (item_id, title, body)
+SELECT
+  id,
+  title,
+  COALESCE(summary, '') || ' ' || COALESCE(entities, '') || ' ' || COALESCE(CASE WHEN json_valid(item_data) THEN COALESCE(json_extract(item_data, '$.affectedTechnologies'), '') || ' ' || COALESCE(json_extract(item_data, '$.rawContext'), '') END, '')
+FROM items;
+
+-- Transcript segments: {start, end | duration, text} from transcripts.segments
+CREATE TABLE IF NOT EXISTS transcript_segments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  transcript_id TEXT NOT NULL REFERENCES transcripts(id),
+  video_id TEXT REFERENCES videos(id),
+  start_seconds REAL, -- NULL for transcripts stored without segments
+  end_seconds REAL,
+  text TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_segments_transcript ON transcript_segments(transcript_id);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS transcript_segments_fts USING fts5(
+  text,
+  content = 'transcript_segments',
+  content_rowid = 'id',
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS transcript_segments_fts_insert AFTER INSERT ON transcript_segments BEGIN
+  INSERT INTO transcript_segments_fts (rowid, text) VALUES (NEW.id, NEW.text);
+END;
+
+CREATE TRIGGER IF NOT EXISTS transcript_segments_fts_delete AFTER DELETE ON transcript_segments BEGIN
+  INSERT INTO transcript_segments_fts (transcript_segments_fts, rowid, text) VALUES ('delete', OLD.id, OLD.text);
+END;
+
+CREATE TRIGGER IF NOT EXISTS transcripts_segments_insert AFTER INSERT ON transcripts BEGIN
+  INSERT INTO transcript_segments (transcript_id, video_id, start_seconds, end_seconds, text)
+  SELECT
+    NEW.id,
+    NEW.video_id,
+    json_extract(segment.value, '$.start'),
+    COALESCE(json_extract(segment.value, '$.end'), json_extract(segment.value, '$.start') + json_extract(segment.value, '$.duration')),
+    json_extract(segment.value, '$.text')
+  FROM json_each(CASE WHEN json_valid(NEW.segments) THEN NEW.segments ELSE '[]' END) AS segment
+  WHERE json_extract(segment.value, '$.text') IS NOT NULL;
+
+  INSERT INTO transcript_segments (transcript_id, video_id, text)
+  SELECT NEW.id, NEW.video_id, NEW.text
+  WHERE NOT EXISTS (SELECT 1 FROM transcript_segments WHERE transcript_id = NEW.id);
+END;
+
+-- Upserts of an existing transcript (ON CONFLICT DO UPDATE) land here
+CREATE TRIGGER IF NOT EXISTS transcripts_segments_update AFTER UPDATE OF text, segments ON transcripts BEGIN
+  DELETE FROM transcript_segments WHERE transcript_id = OLD.id;
+
+  INSERT INTO transcript_segments (transcript_id, video_id, start_seconds, end_seconds, text)
+  SELECT
+    NEW.id,
+    NEW.video_id,
+    json_extract(segment.value, '$.start'),
+    COALESCE(json_extract(segment.value, '$.end'), json_extract(segment.value, '$.start') + json_extract(segment.value, '$.duration')),
+    json_extract(segment.value, '$.text')
+  FROM json_each(CASE WHEN json_valid(NEW.segments) THEN NEW.segments ELSE '[]' END) AS segment
+  WHERE json_extract(segment.value, '$.text') IS NOT NULL;
+
+  INSERT INTO transcript_segments (transcript_id, video_id, text)
+  SELECT NEW.id, NEW.video_id, NEW.text
+  WHERE NOT EXISTS (SELECT 1 FROM transcript_segments WHERE transcript_id = NEW.id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS transcripts_segments_delete BEFORE DELETE ON transcripts BEGIN
+  DELETE FROM transcript_segments WHERE transcript_id = OLD.id;
+END;
+
+INSERT INTO transcript_segments (transcript_id, video_id, start_seconds, end_seconds, text)
+SELECT
+  t.id,
+  t.video_id,
+  json_extract(segment.value, '$.start'),
+  COALESCE(json_extract(segment.value, '$.end'), json_extract(segment.value, '$.start') + json_extract(segment.value, '$.duration')),
+  json_extract(segment.value, '$.text')
+FROM transcripts t, json_each(CASE WHEN json_valid(t.segments) THEN t.segments ELSE '[]' END) AS segment
+WHERE json_extract(segment.value, '$.text') IS NOT NULL;
+
+INSERT INTO transcript_segments (transcript_id, video_id, text)
+SELECT t.id, t.video_id, t.text
+FROM transcripts t
+WHERE NOT EXISTS (SELECT 1 FROM transcript_segments ts WHERE ts.transcript_id = t.id);
@@ -0,0 +1,77 @@
+-- Migration 017: Full-text search over items and transcript segments (PostgreSQL)
+-- tsvector columns with GIN indexes kept in sync by triggers. Transcripts are split into one row per
+-- caption segment so a hit carries the second it was said.
+
+-- Items: title (weight A) over summary, entities, dev technologies and raw context (weight B)
+ALTER TABLE items ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+CREATE OR REPLACE FUNCTION items_search_vector_update() RETURNS trigger AS $$
+DECLARE
+  item_context TEXT; -- Dev technologies and raw context from item_data
+BEGIN
+  BEGIN
+    item_context := COALESCE(NEW.item_data::jsonb ->> 'affectedTechnologies', '') || ' ' || COALESCE(NEW.item_data::jsonb ->> 'rawContext', '');
+  EXCEPTION WHEN others THEN
+    item_context := NULL; -- item_data that isn't valid JSON
+  END;
+
+  NEW.search_vector :=
+    setweight(to_tsvector('simple', COALESCE(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(NEW.summary, '') || ' ' || COALESCE(NEW.entities, '') || ' ' || COALESCE(item_context, '')), 'B');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS items_search_vector ON items;
+CREATE TRIGGER items_search_vector
+  BEFORE INSERT OR UPDATE OF title, summary, entities, item_data ON items
+  FOR EACH ROW EXECUTE FUNCTION items_search_vector_update();
+
+UPDATE items SET title = title;
+
+CREATE INDEX IF NOT EXISTS idx_items_search_vector ON items USING GIN (search_vector);
+
+-- Transcript segments: {start, end | duration, text} from transcripts.segments
+CREATE TABLE IF NOT EXISTS transcript_segments (
+  id BIGSERIAL PRIMARY KEY,
+  transcript_id UUID NOT NULL REFERENCES transcripts(id) ON DELETE CASCADE,
+  video_id UUID REFERENCES videos(id),
+  start_seconds DOUBLE PRECISION, -- NULL for transcripts stored without segments
+  end_seconds DOUBLE PRECISION,
+  text TEXT NOT NULL,
+  search_vector TSVECTOR GENERATED ALWAYS AS (to_tsvector('simple', text)) STORED
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_segments_transcript ON transcript_segments(transcript_id);
+CREATE INDEX IF NOT EXISTS idx_transcript_segments_search_vector ON transcript_segments USING GIN (search_vector);
+
+CREATE OR REPLACE FUNCTION transcript_segments_sync() RETURNS trigger AS $$
+BEGIN
+  DELETE FROM transcript_segments WHERE transcript_id = NEW.id;
+
+  IF jsonb_typeof(NEW.segments) = 'array' THEN
+    INSERT INTO transcript_segments (transcript_id, video_id, start_seconds, end_seconds, text)
+    SELECT
+      NEW.id,
+      NEW.video_id,
+      (segment ->> 'start')::double precision,
+      COALESCE((segment ->> 'end')::double precision, (segment ->> 'start')::double precision + (segment ->> 'duration')::double precision),
+      segment ->> 'text'
+    FROM jsonb_array_elements(NEW.segments) AS segment
+    WHERE segment ->> 'text' IS NOT NULL;
+  END IF;
+
+  IF NOT FOUND OR jsonb_typeof(NEW.segments) IS DISTINCT FROM 'array' THEN
+    INSERT INTO transcript_segments (transcript_id, video_id, text) VALUES (NEW.id, NEW.video_id, NEW.text);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Upserts of an existing transcript (ON CONFLICT DO UPDATE) fire the UPDATE branch
+DROP TRIGGER IF EXISTS transcripts_segments_sync ON transcripts;
+CREATE TRIGGER transcripts_segments_sync
+  AFTER INSERT OR UPDATE OF text, segments ON transcripts
+  FOR EACH ROW EXECUTE FUNCTION transcript_segments_sync();
+
+UPDATE transcripts SET text = text;
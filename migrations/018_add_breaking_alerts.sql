@@ -0,0 +1,24 @@
+-- Migration 018: Breaking-news alerts between daily briefs
+-- One row per alerted story, plus every dedup item key known to belong to it, so later
+-- polls don't alert twice and the daily brief can mark the story as already announced.
+-- runs.kind tells alert checks apart from daily brief runs.
+
+ALTER TABLE runs ADD COLUMN kind TEXT NOT NULL DEFAULT 'brief' CHECK (kind IN ('brief', 'alert'));
+
+CREATE TABLE IF NOT EXISTS breaking_alerts (
+  id TEXT PRIMARY KEY, -- Item key of the alerted item
+  run_id TEXT REFERENCES runs(id),
+  title TEXT NOT NULL,
+  video_id TEXT, -- YouTube video ID
+  channel_ids TEXT, -- JSON array of corroborating YouTube channels
+  slack_channel_id TEXT,
+  message_ts TEXT,
+  alerted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS breaking_alert_items (
+  item_key TEXT PRIMARY KEY, -- Dedup item key (videoId_canonicalKey)
+  alert_id TEXT NOT NULL REFERENCES breaking_alerts(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_breaking_alert_items_alert ON breaking_alert_items(alert_id);
@@ -0,0 +1,9 @@
+-- Migration 019: Podcast RSS feeds as a source kind
+-- Podcast sources keep the feed URL in channel_url and a hash of it in channel_id; episodes are stored
+-- as videos whose url is the audio enclosure, with the feed's own transcript (if any) alongside.
+-- kind is validated by the CLI rather than a CHECK, so new kinds don't need a table rebuild.
+
+ALTER TABLE sources ADD COLUMN kind TEXT NOT NULL DEFAULT 'youtube';
+
+ALTER TABLE videos ADD COLUMN transcript_url TEXT;  -- <podcast:transcript url>
+ALTER TABLE videos ADD COLUMN transcript_type TEXT; -- MIME type of transcript_url
@@ -0,0 +1,7 @@
+-- Migration 020: arXiv listing feeds as a source kind (PostgreSQL)
+-- arXiv sources keep the listing feed in channel_url; papers are stored as videos whose url is the
+-- abstract page. keywords narrows a category listing down to papers mentioning one of them.
+
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS keywords TEXT; -- Comma-separated, matched against title and abstract
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS authors TEXT;   -- JSON array of author names (papers)
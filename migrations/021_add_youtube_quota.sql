@@ -0,0 +1,14 @@
+-- Migration 021: Persistent YouTube Data API quota accounting
+-- Units spent per API key and endpoint per quota day. YouTube resets quota at midnight Pacific time,
+-- so day is the Pacific date. Every script sharing a key adds to the same rows; the key itself is
+-- never stored, only a short hash of it.
+
+CREATE TABLE IF NOT EXISTS youtube_quota_usage (
+  day TEXT NOT NULL,      -- YYYY-MM-DD (America/Los_Angeles)
+  key_hash TEXT NOT NULL, -- First 12 hex characters of sha256(API key)
+  endpoint TEXT NOT NULL, -- channels.list, playlistItems.list, videos.list, captions.list, captions.download
+  units INTEGER NOT NULL DEFAULT 0,
+  calls INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (day, key_hash, endpoint)
+);
@@ -0,0 +1,4 @@
+-- Migration 022: Count failed pipeline attempts per video (PostgreSQL)
+-- Videos no tier can transcribe (or extract) would otherwise stay unfinished and be retried every run
+
+ALTER TABLE videos ADD COLUMN failed_attempts INTEGER NOT NULL DEFAULT 0; -- Runs that tried the video without advancing it
@@ -0,0 +1,5 @@
+-- Migration 023: Record failed LLM extractions
+-- Extractions that throw are stored too, so they count against the success rate
+
+ALTER TABLE llm_extraction_metrics ADD COLUMN status TEXT NOT NULL DEFAULT 'success'
+  CHECK (status IN ('success', 'failed'));
@@ -71,7 +71,7 @@ async function resolveChannelIds() {
     console.log(`\n📊 RESOLUTION COMPLETE:`);
     console.log(`   ✅ Successful: ${successCount}`);
     console.log(`   ❌ Failed: ${failureCount}`);
-    console.log(`   💰 YouTube API quota used: ${youtubeService.getQuotaUsage().used} units`);
+    console.log(`   💰 YouTube API quota used: ${(await youtubeService.getQuotaUsage()).session} units`);
 
     // Verify results
     const remainingWithoutId = await db.query(`
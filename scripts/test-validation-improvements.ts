@@ -2,6 +2,8 @@ import 'dotenv/config';
 import { LLMService } from '../src/services/llm.service.js';
 import { LLMMetricsService } from '../src/services/llm-metrics.service.js';
 import { HallucinationDetectorService } from '../src/services/hallucination-detector.service.js';
+import { getDatabase } from '../src/db/database.js';
+import { MigrationRunner } from '../src/db/migrate.js';
 
 /**
  * Test script to validate the new LLM improvements:
@@ -28,7 +30,7 @@ async function testValidationImprovements() {
   const hallucinationDetector = new HallucinationDetectorService(openaiApiKey);
 
   // Ensure metrics table exists
-  await metricsService.ensureMetricsTable();
+  await new MigrationRunner(getDatabase()).migrate();
 
   // Test case 1: News extraction with potential hallucinations
   console.log('\n📰 Test 1: News Extraction with Validation');
@@ -89,8 +89,8 @@ async function testYouTubeIntegration() {
     }
 
     // 7. Show quota usage
-    const quotaUsage = youtubeService.getQuotaUsage();
-    console.log(`📊 Quota usage: ${quotaUsage.used}/${quotaUsage.used + quotaUsage.remaining} (${quotaUsage.percentage.toFixed(1)}%)`);
+    const quotaUsage = await youtubeService.getQuotaUsage();
+    console.log(`📊 Quota usage today: ${quotaUsage.used}/${quotaUsage.used + quotaUsage.remaining} (${quotaUsage.percentage.toFixed(1)}%), ${quotaUsage.session} by this test`);
     
     console.log('✅ YouTube integration test completed!');
 
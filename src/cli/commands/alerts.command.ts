@@ -0,0 +1,64 @@
+import { parseArgs } from 'node:util';
+import { OrchestratorService } from '../../services/orchestrator.service.js';
+import { loadConfig, getMissingEnv } from '../../config/app.config.js';
+import { DEFAULT_ALERT_CONFIG } from '../../config/alert.config.js';
+import { AlertCheckResult } from '../../types/alert.types.js';
+import { CliContext, printResult, assertEnv } from '../output.js';
+
+/**
+ * alerts check [--dry-run] | alerts watch [--interval minutes] [--dry-run] - breaking-news alerts between briefs
+ */
+export async function alertsCommand(args: string[], ctx: CliContext): Promise<number> {
+  const [action, ...rest] = args;
+
+  if (action !== 'check' && action !== 'watch') {
+    throw new Error('Usage: alerts <check|watch> [--interval <minutes>] [--dry-run]');
+  }
+
+  const { values } = parseArgs({
+    args: rest,
+    options: {
+      'dry-run': { type: 'boolean', default: false },
+      interval: { type: 'string' }
+    }
+  });
+
+  assertEnv(getMissingEnv());
+  const config = loadConfig(values['dry-run'] ? { dryRun: true } : {});
+  const orchestrator = new OrchestratorService(config);
+
+  const report = (result: AlertCheckResult) => printResult(ctx, result, result => {
+    console.log(`\n🚨 ${result.runId}: ${result.videosProcessed} videos, ${result.candidates} breaking, ${result.alerted.length} alerted${config.dryRun ? ' (dry run)' : ''}`);
+    result.alerted.forEach(alert => console.log(`   ${alert.item.title} (${alert.channelIds.length} channels)`));
+    result.errors.forEach(error => console.log(`   ❌ ${error}`));
+  });
+
+  try {
+    if (action === 'check') {
+      const result = await orchestrator.runAlertCheck();
+      report(result);
+      return result.errors.length === 0 ? 0 : 1;
+    }
+
+    // A failed check is logged and retried on the next tick; SIGINT/SIGTERM stop between checks
+    const intervalMs = parseFloat(values.interval || String((config.alerts || DEFAULT_ALERT_CONFIG).intervalMinutes)) * 60 * 1000;
+    let stopped = false;
+    let wake = () => {};
+    const stop = () => { stopped = true; wake(); };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+
+    console.log(`👀 Checking for breaking news every ${intervalMs / 60000} minutes`);
+    while (!stopped) {
+      report(await orchestrator.runAlertCheck());
+      if (stopped) break;
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, intervalMs);
+        wake = () => { clearTimeout(timer); resolve(); };
+      });
+    }
+    return 0;
+  } finally {
+    await orchestrator.cleanup();
+  }
+}
@@ -0,0 +1,40 @@
+import { parseArgs } from 'node:util';
+import { getDatabase } from '../../db/database.js';
+import { ArchiveService } from '../../services/archive.service.js';
+import { CliContext, printResult, printTable } from '../output.js';
+
+/**
+ * archive rebuild [--out dir] - regenerate every brief page and the index from the database
+ */
+export async function archiveCommand(args: string[], ctx: CliContext): Promise<number> {
+  const [action, ...rest] = args;
+
+  if (action !== 'rebuild') {
+    throw new Error('Usage: archive rebuild [--out <dir>]');
+  }
+
+  const { values } = parseArgs({
+    args: rest,
+    options: { out: { type: 'string', default: process.env.ARCHIVE_DIR || './archive' } }
+  });
+
+  try {
+    const entries = await new ArchiveService().rebuild(values.out);
+    const rows = entries.map(entry => ({
+      run: entry.runId,
+      date: entry.generatedAt.toISOString().slice(0, 10),
+      news: entry.counts.news,
+      debate: entry.counts.debate,
+      dev: entry.counts.dev,
+      file: `${entry.slug}.html`
+    }));
+
+    printResult(ctx, { outDir: values.out, briefs: rows }, ({ briefs }) => {
+      printTable(briefs, ['date', 'run', 'news', 'debate', 'dev', 'file']);
+      console.log(`\n📚 ${briefs.length} briefs written to ${values.out}`);
+    });
+    return 0;
+  } finally {
+    await getDatabase().close();
+  }
+}
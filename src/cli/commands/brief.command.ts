@@ -0,0 +1,42 @@
+import { OrchestratorService } from '../../services/orchestrator.service.js';
+import { loadConfig, getMissingEnv } from '../../config/app.config.js';
+import { CliContext, printResult, assertEnv } from '../output.js';
+
+/**
+ * brief preview <runId> - render a stored run's brief without posting
+ */
+export async function briefCommand(args: string[], ctx: CliContext): Promise<number> {
+  const [action, runId] = args;
+
+  if (action !== 'preview' || !runId) {
+    throw new Error('Usage: brief preview <runId>');
+  }
+
+  // Processors are constructed with the OpenAI client even though preview never calls it
+  assertEnv(getMissingEnv(['OPENAI_API_KEY']));
+  const orchestrator = new OrchestratorService(loadConfig({ dryRun: true }));
+
+  try {
+    const { briefData, messages } = await orchestrator.previewBrief(runId);
+
+    printResult(ctx, { runId, messages }, ({ messages }) => {
+      console.log(`📋 Brief for ${runId}: ${briefData.newsItems.length} news, ${briefData.debateItems.length} debate, ${briefData.devItems.length} dev\n`);
+      for (const message of messages) {
+        if (message.part !== 'headline') {
+          console.log(`\n${'─'.repeat(12)} 🧵 ${message.part} ${'─'.repeat(12)}`);
+        }
+        for (const block of message.blocks) {
+          if (block.text?.text) {
+            console.log(block.text.text);
+          } else if (block.elements) {
+            console.log(block.elements.map((element: any) => element.text).join(' '));
+          }
+        }
+      }
+    });
+
+    return 0;
+  } finally {
+    await orchestrator.cleanup();
+  }
+}
@@ -0,0 +1,31 @@
+import { parseArgs } from 'node:util';
+import { getDatabase } from '../../db/database.js';
+import { FeedService } from '../../services/feed.service.js';
+import { CliContext, printResult } from '../output.js';
+
+/**
+ * feeds build [--out dir] - regenerate the RSS/Atom feeds from stored briefs
+ */
+export async function feedsCommand(args: string[], ctx: CliContext): Promise<number> {
+  const [action, ...rest] = args;
+
+  if (action !== 'build') {
+    throw new Error('Usage: feeds build [--out <dir>]');
+  }
+
+  const { values } = parseArgs({
+    args: rest,
+    options: { out: { type: 'string', default: process.env.FEED_DIR || './feeds' } }
+  });
+
+  try {
+    const files = await new FeedService().writeFeeds(values.out, { baseUrl: process.env.FEED_BASE_URL || '' });
+
+    printResult(ctx, { outDir: values.out, files }, ({ files }) => {
+      files.forEach(file => console.log(file));
+    });
+    return 0;
+  } finally {
+    await getDatabase().close();
+  }
+}
@@ -0,0 +1,33 @@
+import { parseArgs } from 'node:util';
+import { LLMMetricsService } from '../../services/llm-metrics.service.js';
+import { getDatabase } from '../../db/database.js';
+import { CliContext } from '../output.js';
+
+/**
+ * metrics report [--days N]
+ */
+export async function metricsCommand(args: string[], ctx: CliContext): Promise<number> {
+  const [action, ...rest] = args;
+
+  if (action !== 'report') {
+    throw new Error('Usage: metrics report [--days N]');
+  }
+
+  const { values } = parseArgs({ args: rest, options: { days: { type: 'string', default: '7' } } });
+  const days = parseInt(values.days);
+  const metricsService = new LLMMetricsService();
+
+  try {
+    if (ctx.json) {
+      const endDate = new Date();
+      const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000);
+      const metrics = await metricsService.getAggregatedMetrics(startDate, endDate);
+      process.stdout.write(JSON.stringify(metrics, null, 2) + '\n');
+    } else {
+      console.log(await metricsService.getQualityReport(days));
+    }
+    return 0;
+  } finally {
+    await getDatabase().close();
+  }
+}
@@ -0,0 +1,56 @@
+import { getDatabase } from '../../db/database.js';
+import { MigrationRunner } from '../../db/migrate.js';
+import { MigrationStatus } from '../../types/migration.types.js';
+import { CliContext, printResult, printTable } from '../output.js';
+
+/**
+ * migrate [up] | migrate status | migrate baseline <version>
+ */
+export async function migrateCommand(args: string[], ctx: CliContext): Promise<number> {
+  const [action = 'up', version] = args;
+  const db = getDatabase();
+  const runner = new MigrationRunner(db);
+
+  try {
+    switch (action) {
+      case 'up': {
+        const applied = await runner.migrate();
+        printResult(ctx, { applied: applied.map(file => file.filename) }, () => {});
+        return 0;
+      }
+
+      case 'status': {
+        const statuses = await runner.status();
+        printResult(ctx, statuses, statuses => {
+          printTable(statuses.map(formatStatus), ['version', 'name', 'state', 'applied_at', 'note']);
+        });
+        // Non-zero when something needs attention, so CI can gate on it
+        return statuses.some(s => s.state === 'pending' || s.state === 'changed' || s.state === 'missing') ? 1 : 0;
+      }
+
+      case 'baseline': {
+        if (!version || isNaN(parseInt(version))) {
+          throw new Error('Usage: migrate baseline <version>');
+        }
+        const recorded = await runner.baseline(parseInt(version));
+        printResult(ctx, { baselined: recorded.map(file => file.filename) }, () => {});
+        return 0;
+      }
+
+      default:
+        throw new Error('Usage: migrate [up|status|baseline <version>]');
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+function formatStatus(status: MigrationStatus) {
+  return {
+    version: String(status.version).padStart(3, '0'),
+    name: status.name,
+    state: status.state,
+    applied_at: status.appliedAt || '',
+    note: status.baseline ? 'baseline' : status.note || '',
+  };
+}
@@ -0,0 +1,35 @@
+import { parseArgs } from 'node:util';
+import { OrchestratorService, RunStats } from '../../services/orchestrator.service.js';
+import { loadConfig, getMissingEnv } from '../../config/app.config.js';
+import { CliContext, printResult, assertEnv } from '../output.js';
+
+/**
+ * run [--dry-run] [--resume <runId>]
+ */
+export async function runCommand(args: string[], ctx: CliContext): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      'dry-run': { type: 'boolean', default: false },
+      resume: { type: 'string' }
+    }
+  });
+
+  assertEnv(getMissingEnv());
+  const config = loadConfig(values['dry-run'] ? { dryRun: true } : {});
+  const orchestrator = new OrchestratorService(config);
+
+  try {
+    const result = await orchestrator.runPipeline(values.resume ? { resumeRunId: values.resume } : {});
+
+    printResult(ctx, result, (stats: RunStats) => {
+      console.log(stats.status === 'success'
+        ? `\n🎉 Run ${stats.runId} completed${config.dryRun ? ' (dry run)' : ''}`
+        : `\n💥 Run ${stats.runId} failed: ${stats.errors.join('; ')}`);
+    });
+
+    return result.status === 'success' ? 0 : 1;
+  } finally {
+    await orchestrator.cleanup();
+  }
+}
@@ -0,0 +1,85 @@
+import { parseArgs } from 'node:util';
+import { getDatabase } from '../../db/database.js';
+import { CliContext, printResult, printTable } from '../output.js';
+
+/**
+ * runs list [--limit N] | runs show <runId>
+ */
+export async function runsCommand(args: string[], ctx: CliContext): Promise<number> {
+  const [action, ...rest] = args;
+  const db = getDatabase();
+
+  try {
+    switch (action) {
+      case 'list': {
+        const { values } = parseArgs({ args: rest, options: { limit: { type: 'string', default: '20' } } });
+        const rows = await db.query(`
+          SELECT id, started_at, finished_at, status, stats
+          FROM runs
+          ORDER BY started_at DESC
+          LIMIT ?
+        `, [parseInt(values.limit)]);
+
+        const runs = rows.map(row => {
+          const stats = row.stats ? JSON.parse(row.stats) : {};
+          return {
+            id: row.id,
+            status: row.status,
+            started_at: row.started_at,
+            finished_at: row.finished_at,
+            videos: stats.videosTranscribed ?? 0,
+            items: stats.itemsAfterDedup ?? 0,
+            cost: Number(stats.totalCost ?? 0).toFixed(4)
+          };
+        });
+
+        printResult(ctx, runs, runs => printTable(runs, ['id', 'status', 'started_at', 'videos', 'items', 'cost']));
+        return 0;
+      }
+
+      case 'show': {
+        const [runId] = rest;
+        if (!runId) {
+          throw new Error('Usage: runs show <runId>');
+        }
+
+        const rows = await db.query('SELECT * FROM runs WHERE id = ?', [runId]);
+        const row = rows[0];
+        if (!row) {
+          throw new Error(`Run not found: ${runId}`);
+        }
+
+        const stages = await db.query(`
+          SELECT stage, COUNT(*) AS count FROM videos WHERE run_id = ? GROUP BY stage
+        `, [runId]);
+
+        const run = {
+          id: row.id,
+          status: row.status,
+          startedAt: row.started_at,
+          finishedAt: row.finished_at,
+          stats: row.stats ? JSON.parse(row.stats) : {},
+          errors: row.error_log ? JSON.parse(row.error_log) : [],
+          videoStages: Object.fromEntries(stages.map(stage => [stage.stage, stage.count]))
+        };
+
+        printResult(ctx, run, run => {
+          console.log(`🏃 ${run.id} - ${run.status}`);
+          console.log(`   Started:  ${run.startedAt}`);
+          console.log(`   Finished: ${run.finishedAt || '-'}`);
+          for (const [key, value] of Object.entries(run.stats)) {
+            console.log(`   ${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`);
+          }
+          console.log(`   Video stages: ${JSON.stringify(run.videoStages)}`);
+          run.errors.forEach((error: string) => console.log(`   ❌ ${error}`));
+        });
+        return 0;
+      }
+
+      default:
+        throw new Error('Usage: runs <list|show>');
+    }
+  } finally {
+    await db.close();
+  }
+}
@@ -0,0 +1,54 @@
+import { parseArgs } from 'node:util';
+import { getDatabase } from '../../db/database.js';
+import { SearchService, parseSearchQuery } from '../../services/search.service.js';
+import { CliContext, printResult } from '../output.js';
+
+/**
+ * search <query> [--transcripts] [--limit N] - full-text search over stored items or transcript segments
+ */
+export async function searchCommand(args: string[], ctx: CliContext): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      transcripts: { type: 'boolean', default: false },
+      limit: { type: 'string', default: '10' }
+    }
+  });
+
+  const text = positionals.join(' ');
+  if (!text.trim()) {
+    throw new Error('Usage: search <query> [--transcripts] [--limit N]');
+  }
+
+  const query = parseSearchQuery(text);
+  const limit = parseInt(values.limit);
+  const searchService = new SearchService();
+
+  try {
+    if (values.transcripts) {
+      const results = await searchService.searchTranscripts(query, limit);
+      printResult(ctx, results, results => {
+        if (results.length === 0) console.log('(none)');
+        for (const result of results) {
+          console.log(`▶ ${result.timestamp || '--:--:--'}  ${result.videoTitle}${result.sourceName ? ` (${result.sourceName})` : ''}`);
+          console.log(`   ${result.snippet}`);
+          console.log(`   ${result.url}`);
+        }
+      });
+      return 0;
+    }
+
+    const results = await searchService.search(query, limit);
+    printResult(ctx, results, results => {
+      if (results.length === 0) console.log('(none)');
+      for (const result of results) {
+        const title = 'topic' in result.item ? result.item.topic : result.item.title;
+        console.log(`${result.score.toFixed(2)}  [${result.section}] ${title} (${result.publishedAt.toISOString().slice(0, 10)})`);
+      }
+    });
+    return 0;
+  } finally {
+    await getDatabase().close();
+  }
+}
@@ -0,0 +1,30 @@
+import { parseArgs } from 'node:util';
+import { getDatabase } from '../../db/database.js';
+import { getMissingEnv } from '../../config/app.config.js';
+import { SlackServer } from '../../server/slack.server.js';
+import { CliContext, assertEnv } from '../output.js';
+
+/**
+ * serve [--port N] - Slack endpoint (feedback buttons, /nyheter search) until SIGINT/SIGTERM
+ */
+export async function serveCommand(args: string[], _ctx: CliContext): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: { port: { type: 'string', default: process.env.SLACK_SERVER_PORT || '3000' } }
+  });
+
+  assertEnv(getMissingEnv(['SLACK_SIGNING_SECRET']));
+  const server = new SlackServer({ signingSecret: process.env.SLACK_SIGNING_SECRET!, botToken: process.env.SLACK_BOT_TOKEN });
+
+  try {
+    await server.start(parseInt(values.port));
+    await new Promise<void>(resolve => {
+      process.once('SIGINT', resolve);
+      process.once('SIGTERM', resolve);
+    });
+    return 0;
+  } finally {
+    await server.close();
+    await getDatabase().close();
+  }
+}
@@ -0,0 +1,135 @@
+import { parseArgs } from 'node:util';
+import { getDatabase } from '../../db/database.js';
+import { YouTubeService } from '../../services/youtube.service.js';
+import { PodcastService, podcastChannelId } from '../../services/podcast.service.js';
+import { WrittenSourceService, writtenChannelId } from '../../services/written-source.service.js';
+import { GitHubService, githubChannelId } from '../../services/github.service.js';
+import { ArxivService, arxivChannelId, arxivListingUrl, matchesKeywords, parseKeywords } from '../../services/arxiv.service.js';
+import { SourceKind } from '../../types/source.types.js';
+import { CliContext, printResult, printTable, assertEnv } from '../output.js';
+
+const SOURCE_TYPES = ['news', 'debate', 'dev'];
+const SOURCE_KINDS: SourceKind[] = ['youtube', 'podcast', 'written', 'github', 'arxiv'];
+
+/**
+ * sources list [--all] | sources add --name --type --url [--kind youtube|podcast|written|github|arxiv] [--keywords] [--channel-id] [--weight] | sources disable <id|name>
+ */
+export async function sourcesCommand(args: string[], ctx: CliContext): Promise<number> {
+  const [action, ...rest] = args;
+  const db = getDatabase();
+
+  try {
+    switch (action) {
+      case 'list': {
+        const { values } = parseArgs({ args: rest, options: { all: { type: 'boolean', default: false } } });
+        const rows = await db.query(`
+          SELECT id, name, type, kind, channel_id, keywords, weight, active
+          FROM sources
+          ${values.all ? '' : 'WHERE active = TRUE'}
+          ORDER BY type, name
+        `);
+
+        printResult(ctx, rows, rows => printTable(rows, ['id', 'name', 'type', 'kind', 'channel_id', 'keywords', 'weight', 'active']));
+        return 0;
+      }
+
+      case 'add': {
+        const { values } = parseArgs({
+          args: rest,
+          options: {
+            name: { type: 'string' },
+            type: { type: 'string' },
+            url: { type: 'string' },
+            kind: { type: 'string', default: 'youtube' },
+            keywords: { type: 'string' },
+            'channel-id': { type: 'string' },
+            weight: { type: 'string', default: '1.0' }
+          }
+        });
+
+        if (!values.name || !values.type || !values.url) {
+          throw new Error('Usage: sources add --name <name> --type <news|debate|dev> --url <channelUrl|feedUrl|repoUrl|arxivCategory> [--kind <youtube|podcast|written|github|arxiv>] [--keywords <a,b>] [--channel-id <id>] [--weight <n>]');
+        }
+        if (!SOURCE_TYPES.includes(values.type)) {
+          throw new Error(`Invalid source type: ${values.type} (expected ${SOURCE_TYPES.join(', ')})`);
+        }
+        const kind = values.kind as SourceKind;
+        if (!SOURCE_KINDS.includes(kind)) {
+          throw new Error(`Invalid source kind: ${values.kind} (expected ${SOURCE_KINDS.join(', ')})`);
+        }
+        if (kind === 'github' && values.type !== 'dev') {
+          throw new Error('GitHub sources are release notes for developers - use --type dev');
+        }
+        if (kind === 'arxiv' && values.type !== 'news') {
+          throw new Error('arXiv sources are research papers for the news section - use --type news');
+        }
+        if (values.keywords && kind !== 'arxiv') {
+          throw new Error('--keywords only applies to arXiv sources');
+        }
+
+        let url = values.url;
+        let channelId = values['channel-id'];
+        let episodes: number | undefined;
+        if (kind === 'podcast') {
+          // Fail now rather than on the next run if the URL isn't a podcast feed
+          episodes = (await new PodcastService().fetchFeed(values.url)).episodes.length;
+          channelId ||= podcastChannelId(values.url);
+        } else if (kind === 'written') {
+          // Same for RSS/Atom feeds of articles
+          episodes = (await new WrittenSourceService().fetchFeed(values.url)).entries.length;
+          channelId ||= writtenChannelId(values.url);
+        } else if (kind === 'github') {
+          // Check the repository exists (and is visible to GITHUB_TOKEN)
+          const repository = await new GitHubService(process.env.GITHUB_TOKEN).fetchRepository(values.url);
+          channelId ||= githubChannelId(repository.fullName);
+        } else if (kind === 'arxiv') {
+          // A category ("cs.CL") is stored as its listing feed; count what the keywords let through today
+          const keywords = parseKeywords(values.keywords);
+          url = arxivListingUrl(values.url);
+          const listing = await new ArxivService().fetchListing(url);
+          episodes = listing.papers.filter(paper => matchesKeywords(paper, keywords)).length;
+          channelId ||= arxivChannelId(url, keywords);
+        } else if (!channelId) {
+          assertEnv(process.env.YOUTUBE_API_KEY ? [] : ['YOUTUBE_API_KEY']);
+          const youtubeService = new YouTubeService(process.env.YOUTUBE_API_KEY!);
+          channelId = await youtubeService.resolveChannelId(youtubeService.getChannelIdFromUrl(values.url));
+        }
+
+        await db.run(`
+          INSERT INTO sources (name, type, kind, channel_url, channel_id, keywords, weight, active)
+          VALUES (?, ?, ?, ?, ?, ?, ?, TRUE)
+        `, [values.name, values.type, kind, url, channelId, values.keywords || null, parseFloat(values.weight)]);
+
+        const source = {
+          name: values.name, type: values.type, kind, channel_url: url, channel_id: channelId,
+          ...(values.keywords && { keywords: values.keywords }), ...(episodes !== undefined && { episodes })
+        };
+        const entryNoun = { written: 'articles', arxiv: 'matching papers' }[kind as string] || 'episodes';
+        printResult(ctx, source, source => console.log(
+          `✅ Added ${source.name} (${source.type}, ${source.kind}, ${source.channel_id})${episodes !== undefined ? ` - ${episodes} ${entryNoun} in feed` : ''}`
+        ));
+        return 0;
+      }
+
+      case 'disable': {
+        const [identifier] = rest;
+        if (!identifier) {
+          throw new Error('Usage: sources disable <id|name>');
+        }
+
+        const result = await db.run('UPDATE sources SET active = FALSE WHERE CAST(id AS TEXT) = ? OR name = ?', [identifier, identifier]);
+        if (result.changes === 0) {
+          throw new Error(`Source not found: ${identifier}`);
+        }
+
+        printResult(ctx, { disabled: identifier }, () => console.log(`⏸️ Disabled ${identifier}`));
+        return 0;
+      }
+
+      default:
+        throw new Error('Usage: sources <list|add|disable>');
+    }
+  } finally {
+    await db.close();
+  }
+}
@@ -0,0 +1,32 @@
+import { OrchestratorService, RunStats } from '../../services/orchestrator.service.js';
+import { loadConfig, getMissingEnv } from '../../config/app.config.js';
+import { CliContext, printResult, assertEnv } from '../output.js';
+
+/**
+ * video process <videoId>
+ */
+export async function videoCommand(args: string[], ctx: CliContext): Promise<number> {
+  const [action, videoId] = args;
+
+  if (action !== 'process' || !videoId) {
+    throw new Error('Usage: video process <videoId>');
+  }
+
+  // Single videos are never posted to Slack
+  assertEnv(getMissingEnv(['YOUTUBE_API_KEY', 'OPENAI_API_KEY']));
+  const orchestrator = new OrchestratorService(loadConfig({ dryRun: true }));
+
+  try {
+    const result = await orchestrator.processSingleVideo(videoId);
+
+    printResult(ctx, result, (stats: RunStats) => {
+      const icon = stats.status === 'success' ? '✅' : '❌';
+      console.log(`\n${icon} ${videoId}: ${stats.stats.itemsExtracted} items, $${stats.stats.totalCost.toFixed(4)} (run ${stats.runId})`);
+      stats.errors.forEach(error => console.log(`   ${error}`));
+    });
+
+    return result.status === 'success' ? 0 : 1;
+  } finally {
+    await orchestrator.cleanup();
+  }
+}
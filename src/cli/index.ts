@@ -0,0 +1,93 @@
+import 'dotenv/config';
+import { CliContext } from './output.js';
+import { runCommand } from './commands/run.command.js';
+import { sourcesCommand } from './commands/sources.command.js';
+import { videoCommand } from './commands/video.command.js';
+import { briefCommand } from './commands/brief.command.js';
+import { runsCommand } from './commands/runs.command.js';
+import { metricsCommand } from './commands/metrics.command.js';
+import { migrateCommand } from './commands/migrate.command.js';
+import { archiveCommand } from './commands/archive.command.js';
+import { feedsCommand } from './commands/feeds.command.js';
+import { serveCommand } from './commands/serve.command.js';
+import { searchCommand } from './commands/search.command.js';
+import { alertsCommand } from './commands/alerts.command.js';
+
+type Command = (args: string[], ctx: CliContext) => Promise<number>;
+
+const COMMANDS: Record<string, Command> = {
+  run: runCommand,
+  sources: sourcesCommand,
+  video: videoCommand,
+  brief: briefCommand,
+  runs: runsCommand,
+  metrics: metricsCommand,
+  migrate: migrateCommand,
+  archive: archiveCommand,
+  feeds: feedsCommand,
+  serve: serveCommand,
+  search: searchCommand,
+  alerts: alertsCommand,
+};
+
+const USAGE = `Usage: npm run cli -- <command> [options] [--json]
+
+Commands:
+  run [--dry-run] [--resume <runId>]   Run the full pipeline
+  alerts check [--dry-run]             One breaking-news check (news sources only)
+  alerts watch [--interval <minutes>]  Breaking-news checks on an interval until stopped
+  sources list [--all]                 List sources
+  sources add --name <n> --type <news|debate|dev> --url <channelUrl|feedUrl|repoUrl|arxivCategory> [--kind <youtube|podcast|written|github|arxiv>] [--keywords <a,b>] [--channel-id <id>] [--weight <n>]
+  sources disable <id|name>            Stop fetching from a source
+  video process <videoId>              Transcribe and extract one video (no Slack)
+  brief preview <runId>                Render a run's Slack brief without posting
+  archive rebuild [--out <dir>]        Regenerate the Markdown/HTML brief archive
+  feeds build [--out <dir>]            Regenerate RSS/Atom feeds (news, debate, dev, all)
+  serve [--port N]                     Slack endpoint: feedback buttons and /nyheter search
+  search <query> [--transcripts] [--limit N]
+                                       Full-text search over items, or transcript segments with timestamps
+  runs list [--limit N]                Recent runs
+  runs show <runId>                    Run stats, errors and video stages
+  metrics report [--days N]            LLM extraction quality report
+  migrate [up]                         Apply pending migrations
+  migrate status                       Applied, pending and modified migrations
+  migrate baseline <version>           Mark migrations up to <version> as applied without running them
+
+Global options:
+  --json                               Machine-readable output on stdout`;
+
+async function main(argv: string[]): Promise<number> {
+  const json = argv.includes('--json');
+  const args = argv.filter(arg => arg !== '--json');
+  const [name, ...rest] = args;
+
+  if (!name || name === 'help' || name === '--help' || name === '-h') {
+    console.log(USAGE);
+    return name ? 0 : 1;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    console.error(`❌ Unknown command: ${name}\n`);
+    console.error(USAGE);
+    return 1;
+  }
+
+  // Keep stdout clean for JSON - service logging goes to stderr
+  if (json) {
+    console.log = console.error;
+  }
+
+  try {
+    return await command(rest, { json });
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(code => process.exit(code));
+}
+
+export { main };
@@ -0,0 +1,47 @@
+/**
+ * Shared CLI output helpers - every command prints either human text or JSON
+ */
+
+export interface CliContext {
+  json: boolean;
+}
+
+/**
+ * Print command result as JSON (stdout) or via the human renderer
+ */
+export function printResult<T>(ctx: CliContext, data: T, renderHuman: (data: T) => void): void {
+  if (ctx.json) {
+    process.stdout.write(JSON.stringify(data, null, 2) + '\n');
+  } else {
+    renderHuman(data);
+  }
+}
+
+/**
+ * Print rows as a plain aligned table
+ */
+export function printTable(rows: Record<string, any>[], columns: string[]): void {
+  if (rows.length === 0) {
+    console.log('(none)');
+    return;
+  }
+
+  const format = (value: any) => value === null || value === undefined ? '' : String(value);
+  const widths = columns.map(column =>
+    Math.max(column.length, ...rows.map(row => format(row[column]).length))
+  );
+
+  const line = (values: string[]) => values.map((value, i) => value.padEnd(widths[i] ?? 0)).join('  ').trimEnd();
+  console.log(line(columns));
+  console.log(line(widths.map(width => '-'.repeat(width))));
+  rows.forEach(row => console.log(line(columns.map(column => format(row[column])))));
+}
+
+/**
+ * Throw when required environment variables for a command are missing
+ */
+export function assertEnv(missing: string[]): void {
+  if (missing.length > 0) {
+    throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Alert Configuration
+ *
+ * Thresholds for breaking-news alerts between daily briefs.
+ * Overridden by the ALERT_* environment variables (see app.config.ts).
+ */
+
+import { AlertConfig } from '../types/alert.types.js';
+
+export const DEFAULT_ALERT_CONFIG: AlertConfig = {
+  // Only the top of the LLM's 1-10 relevance scale interrupts people
+  minRelevance: 8,
+
+  // One channel calling something breaking isn't enough - wait for a second source
+  minChannels: 2,
+
+  // Long enough for other channels to catch up on a story, short enough to stay "breaking"
+  windowHours: 12,
+
+  // YouTube quota: each poll lists every news source's uploads
+  intervalMinutes: 15,
+};
@@ -0,0 +1,121 @@
+/**
+ * Application Configuration
+ *
+ * Single place where the pipeline config is read from the environment.
+ * Used by both the scheduled entrypoint (src/index.ts) and the CLI.
+ */
+
+import 'dotenv/config';
+import { OrchestratorConfig } from '../services/orchestrator.service.js';
+import { EmailConfig } from '../services/email.service.js';
+import { DeliveryTargetConfig } from '../types/delivery.types.js';
+import { AlertConfig } from '../types/alert.types.js';
+import { DEFAULT_ALERT_CONFIG } from './alert.config.js';
+import { YouTubeQuotaConfig } from '../types/youtube-quota.types.js';
+import { DEFAULT_YOUTUBE_QUOTA_CONFIG } from './youtube-quota.config.js';
+
+// Keys every command that talks to YouTube, OpenAI and Slack needs
+export const REQUIRED_PIPELINE_ENV = ['YOUTUBE_API_KEY', 'OPENAI_API_KEY', 'SLACK_BOT_TOKEN', 'SLACK_CHANNEL_ID'];
+
+/**
+ * Build orchestrator config from environment variables
+ */
+export function loadConfig(overrides: Partial<OrchestratorConfig> = {}): OrchestratorConfig {
+  return {
+    youtubeApiKey: process.env.YOUTUBE_API_KEY!,
+    openaiApiKey: process.env.OPENAI_API_KEY!,
+    slackBotToken: process.env.SLACK_BOT_TOKEN!,
+    slackChannelId: process.env.SLACK_CHANNEL_ID!,
+    maxVideosPerSource: parseInt(process.env.MAX_VIDEOS_PER_SOURCE || '5'),
+    maxTranscriptionMinutes: parseInt(process.env.MAX_TRANSCRIPTION_MINUTES || '180'),
+    similarityThreshold: parseFloat(process.env.SIMILARITY_THRESHOLD || '0.85'),
+    lookbackHours: parseInt(process.env.LOOKBACK_HOURS || '24'),
+    maxBackfillHours: parseInt(process.env.MAX_BACKFILL_HOURS || '168'),
+    dryRun: process.env.DRY_RUN === 'true',
+    rapidApiKey: process.env.RAPIDAPI_KEY,
+    rapidApiHost: process.env.RAPIDAPI_HOST,
+    rapidApiRateLimit: parseInt(process.env.RAPIDAPI_RATE_LIMIT || '10'),
+    githubToken: process.env.GITHUB_TOKEN,
+    videoConcurrency: parseInt(process.env.VIDEO_CONCURRENCY || '3'),
+    qualityReportChannelId: process.env.SLACK_QUALITY_REPORT_CHANNEL_ID,
+    email: loadEmailConfig(),
+    deliveryTargets: loadDeliveryTargets(),
+    archiveDir: process.env.ARCHIVE_DIR,
+    feedDir: process.env.FEED_DIR,
+    feedBaseUrl: process.env.FEED_BASE_URL,
+    alerts: loadAlertConfig(),
+    youtubeQuota: loadYouTubeQuotaConfig(),
+    ...overrides
+  };
+}
+
+/**
+ * Build SMTP digest config - email delivery is off unless SMTP_HOST and EMAIL_TO are set
+ */
+export function loadEmailConfig(): EmailConfig | undefined {
+  const to = (process.env.EMAIL_TO || '').split(',').map(address => address.trim()).filter(Boolean);
+  if (!process.env.SMTP_HOST || to.length === 0) return undefined;
+
+  const port = parseInt(process.env.SMTP_PORT || '587');
+  return {
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    user: process.env.SMTP_USER || '',
+    pass: process.env.SMTP_PASS || '',
+    from: process.env.EMAIL_FROM || 'ARTI AI-brief <noreply@localhost>',
+    to
+  };
+}
+
+/**
+ * Build breaking-news alert config - ALERT_* variables override the defaults
+ */
+export function loadAlertConfig(): AlertConfig {
+  const number = (key: string, fallback: number) => process.env[key] ? parseFloat(process.env[key]!) : fallback;
+  return {
+    slackChannelId: process.env.ALERT_SLACK_CHANNEL_ID,
+    minRelevance: number('ALERT_MIN_RELEVANCE', DEFAULT_ALERT_CONFIG.minRelevance),
+    minChannels: number('ALERT_MIN_CHANNELS', DEFAULT_ALERT_CONFIG.minChannels),
+    windowHours: number('ALERT_WINDOW_HOURS', DEFAULT_ALERT_CONFIG.windowHours),
+    intervalMinutes: number('ALERT_INTERVAL_MINUTES', DEFAULT_ALERT_CONFIG.intervalMinutes)
+  };
+}
+
+/**
+ * Parse extra delivery targets from DELIVERY_TARGETS (JSON array of DeliveryTargetConfig)
+ */
+export function loadDeliveryTargets(): DeliveryTargetConfig[] {
+  if (!process.env.DELIVERY_TARGETS) return [];
+
+  let targets: unknown;
+  try {
+    targets = JSON.parse(process.env.DELIVERY_TARGETS);
+  } catch (error) {
+    throw new Error(`DELIVERY_TARGETS is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!Array.isArray(targets) || targets.some(target => !target?.name || !target?.kind)) {
+    throw new Error('DELIVERY_TARGETS must be a JSON array of targets with name and kind');
+  }
+  return targets as DeliveryTargetConfig[];
+}
+
+/**
+ * Get required environment variables that are not set
+ */
+export function getMissingEnv(required: string[] = REQUIRED_PIPELINE_ENV): string[] {
+  return required.filter(key => !process.env[key]);
+}
+
+/**
+ * Build YouTube quota budget - YOUTUBE_DAILY_QUOTA and YOUTUBE_QUOTA_RESERVE override the defaults
+ */
+export function loadYouTubeQuotaConfig(): YouTubeQuotaConfig {
+  const number = (key: string, fallback: number) => process.env[key] ? parseInt(process.env[key]!) : fallback;
+  return {
+    ...DEFAULT_YOUTUBE_QUOTA_CONFIG,
+    dailyLimit: number('YOUTUBE_DAILY_QUOTA', DEFAULT_YOUTUBE_QUOTA_CONFIG.dailyLimit),
+    reserveUnits: number('YOUTUBE_QUOTA_RESERVE', DEFAULT_YOUTUBE_QUOTA_CONFIG.reserveUnits)
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Concurrency Configuration
+ *
+ * Video worker pool size and per-provider request limits.
+ * Limits are process-wide, so concurrent videos share them.
+ */
+
+import { ProviderLimitConfig } from '../types/concurrency.types.js';
+
+// Videos processed in parallel per pipeline stage
+export const DEFAULT_VIDEO_CONCURRENCY = 3;
+
+export const DEFAULT_PROVIDER_LIMITS: ProviderLimitConfig = {
+  // Quota is the real constraint here, not throughput
+  youtube: { maxConcurrent: 4, minIntervalMs: 100 },
+
+  // Plan allows ~10 requests/second (overridden by RAPIDAPI_RATE_LIMIT)
+  rapidapi: { maxConcurrent: 2, minIntervalMs: 100 },
+
+  // Each call uploads up to 25MB of audio
+  whisper: { maxConcurrent: 2, minIntervalMs: 0 },
+
+  // Chat completions - keeps us under tier-1 TPM with 3 videos x 3 chunks
+  chat: { maxConcurrent: 6, minIntervalMs: 200 },
+
+  // Embeddings are cheap and fast, but semantic chunking fires many in a row
+  embeddings: { maxConcurrent: 4, minIntervalMs: 50 },
+};
@@ -1,5 +1,7 @@
 import 'dotenv/config';
 
+export type VectorStoreBackend = 'memory' | 'chromadb';
+
 export const dbConfig = {
   // Environment-based database selection
   type: process.env.NODE_ENV === 'production' && process.env.DB_HOST ? 'postgres' : 'sqlite',
@@ -14,7 +16,7 @@ export const dbConfig = {
     host: process.env.DB_HOST,
     port: parseInt(process.env.DB_PORT || '5432'),
     database: process.env.DB_NAME,
-    username: process.env.DB_USER,
+    user: process.env.DB_USER, // pg Pool option name
     password: process.env.DB_PASSWORD,
     ssl: process.env.NODE_ENV === 'production',
   },
@@ -24,5 +26,11 @@ export const dbConfig = {
     host: process.env.CHROMA_HOST || 'localhost',
     port: parseInt(process.env.CHROMA_PORT || '8000'),
     collectionName: process.env.CHROMA_COLLECTION || 'ai_agent_embeddings',
+  },
+
+  // Vector store backend for deduplication ('memory' runs in-process, 'chromadb' needs a server)
+  vectorStore: {
+    backend: (process.env.VECTOR_STORE_BACKEND ||
+      (process.env.NODE_ENV === 'production' ? 'chromadb' : 'memory')) as VectorStoreBackend,
   }
 };
\ No newline at end of file
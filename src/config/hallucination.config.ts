@@ -0,0 +1,28 @@
+/**
+ * Hallucination Guard Configuration
+ *
+ * Per-source-type policy for items the hallucination detector distrusts
+ */
+
+import { HallucinationPolicyConfig, SourceType, HallucinationPolicy } from '../types/hallucination.types.js';
+
+export const DEFAULT_HALLUCINATION_POLICIES: HallucinationPolicyConfig = {
+  // News items are treated as ground truth - fabricated facts are removed
+  news: { enabled: true, action: 'drop' },
+
+  // Debates paraphrase opinions, so keyword checks are noisier - keep but demote
+  debate: { enabled: true, action: 'downgrade' },
+
+  // Fabricated versions/APIs mislead developers - remove
+  dev: { enabled: true, action: 'drop' },
+};
+
+/**
+ * Get policy for source type
+ */
+export function getHallucinationPolicy(
+  sourceType: SourceType,
+  policies: HallucinationPolicyConfig = DEFAULT_HALLUCINATION_POLICIES
+): HallucinationPolicy {
+  return policies[sourceType];
+}
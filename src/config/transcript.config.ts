@@ -0,0 +1,57 @@
+/**
+ * Transcript Tier Configuration
+ *
+ * Order and quality thresholds for transcript sources
+ */
+
+import { TranscriptTier, TranscriptTierConfig } from '../types/transcript.types.js';
+
+export const DEFAULT_TRANSCRIPT_TIERS: TranscriptTierConfig[] = [
+  // Free: already paid for in an earlier run - always kept, whatever its score
+  { tier: 'cached', enabled: true, minQuality: 0 },
+
+  // Free: published by the podcast itself (podcast sources only)
+  { tier: 'podcast-feed', enabled: true, minQuality: 0.5 },
+
+  // Free: written sources are their own text (written sources only)
+  { tier: 'article', enabled: true, minQuality: 0 },
+
+  // Free: release notes from the GitHub API (GitHub sources only)
+  { tier: 'github-release', enabled: true, minQuality: 0 },
+
+  // Free: paper abstracts from arXiv (arXiv sources only)
+  { tier: 'arxiv-abstract', enabled: true, minQuality: 0 },
+
+  // Free: human-written captions are the most accurate source we have
+  { tier: 'youtube-manual', enabled: true, minQuality: 0.6 },
+
+  // Free: ASR captions lack punctuation, so accept slightly lower scores
+  { tier: 'youtube-auto', enabled: true, minQuality: 0.5 },
+
+  // Paid per request, no audio download
+  { tier: 'rapidapi', enabled: true, minQuality: 0.4 },
+
+  // Paid per minute - last resort, accept whatever we get
+  { tier: 'whisper', enabled: true, minQuality: 0 },
+];
+
+/**
+ * Base quality score per tier (before text heuristics)
+ */
+export const TIER_BASE_QUALITY: Record<TranscriptTier, number> = {
+  'cached': 0.5,
+  'podcast-feed': 0.8,
+  'article': 0.9,
+  'github-release': 0.9,
+  'arxiv-abstract': 0.9,
+  'youtube-manual': 0.8,
+  'youtube-auto': 0.6,
+  'rapidapi': 0.6,
+  'whisper': 0.7,
+};
+
+/**
+ * Free caption tiers counted as Whisper minutes saved - cached transcripts were counted
+ * when first fetched, and RapidAPI minutes are paid for
+ */
+export const WHISPER_SAVING_TIERS: TranscriptTier[] = ['podcast-feed', 'youtube-manual', 'youtube-auto'];
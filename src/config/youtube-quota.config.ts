@@ -0,0 +1,28 @@
+/**
+ * YouTube Quota Configuration
+ *
+ * Daily YouTube Data API budget and what each call costs.
+ * Overridden by the YOUTUBE_* quota environment variables (see app.config.ts).
+ */
+
+import { YouTubeQuotaConfig } from '../types/youtube-quota.types.js';
+
+export const DEFAULT_YOUTUBE_QUOTA_CONFIG: YouTubeQuotaConfig = {
+  // Default allocation for a Google Cloud project
+  dailyLimit: 10000,
+
+  // Enough for a handful of caption lookups after sources are checked, and for scripts sharing the key
+  reserveUnits: 1000,
+
+  // channels.list (uploads playlist) + playlistItems.list + videos.list
+  sourceUnits: 3,
+
+  // https://developers.google.com/youtube/v3/determine_quota_cost
+  costs: {
+    'channels.list': 1,
+    'playlistItems.list': 1,
+    'videos.list': 1,
+    'captions.list': 50,
+    'captions.download': 200,
+  },
+};
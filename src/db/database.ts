@@ -1,14 +1,36 @@
 import Database from 'better-sqlite3';
-import { Pool } from 'pg';
+import { Pool, PoolClient, types } from 'pg';
 import { dbConfig } from '../config/database.js';
+import { SqlDialect, RunResult } from '../types/database.types.js';
+import { toPostgresSql, withReturning } from './query.js';
 
 export interface DatabaseInterface {
+  readonly dialect: SqlDialect;
   query(sql: string, params?: any[]): Promise<any[]>;
-  run(sql: string, params?: any[]): Promise<{ lastInsertRowid?: number; changes: number }>;
+  run(sql: string, params?: any[]): Promise<RunResult>;
+  insert(sql: string, params?: any[], idColumn?: string): Promise<any>; // Returns generated key
+  exec(sql: string): Promise<void>; // Multi-statement script, no params
+  transaction<T>(fn: (tx: DatabaseInterface) => Promise<T>): Promise<T>;
   close(): Promise<void>;
 }
 
-class SQLiteDatabase implements DatabaseInterface {
+/**
+ * Postgres result parsers (by type OID) so rows look like SQLite rows:
+ * counts and decimals as numbers, JSON columns as serialized strings
+ */
+export const PG_TYPE_PARSERS: Record<number, (value: string) => any> = {
+  [types.builtins.INT8]: value => parseInt(value, 10),
+  [types.builtins.NUMERIC]: value => parseFloat(value),
+  [types.builtins.JSON]: value => value,
+  [types.builtins.JSONB]: value => value,
+};
+
+for (const [oid, parser] of Object.entries(PG_TYPE_PARSERS)) {
+  types.setTypeParser(Number(oid), parser);
+}
+
+export class SQLiteDatabase implements DatabaseInterface {
+  readonly dialect = 'sqlite' as const;
   private db: Database.Database;
 
   constructor(filename: string) {
@@ -27,7 +49,7 @@ class SQLiteDatabase implements DatabaseInterface {
     }
   }
 
-  async run(sql: string, params: any[] = []): Promise<{ lastInsertRowid?: number; changes: number }> {
+  async run(sql: string, params: any[] = []): Promise<RunResult> {
     try {
       const stmt = this.db.prepare(sql);
       const result = stmt.run(params);
@@ -41,21 +63,54 @@ class SQLiteDatabase implements DatabaseInterface {
     }
   }
 
+  async insert(sql: string, params: any[] = [], idColumn: string = 'id'): Promise<any> {
+    // Text primary keys are not the rowid, so ask for the column itself
+    const rows = await this.query(withReturning(sql, idColumn), params);
+    return rows[0]?.[idColumn];
+  }
+
+  async exec(sql: string): Promise<void> {
+    try {
+      this.db.exec(sql);
+    } catch (error) {
+      console.error('SQLite exec error:', error);
+      throw error;
+    }
+  }
+
+  async transaction<T>(fn: (tx: DatabaseInterface) => Promise<T>): Promise<T> {
+    // Nested calls join the outer transaction
+    if (this.db.inTransaction) {
+      return fn(this);
+    }
+
+    this.db.exec('BEGIN');
+    try {
+      const result = await fn(this);
+      this.db.exec('COMMIT');
+      return result;
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
   async close(): Promise<void> {
     this.db.close();
   }
 }
 
-class PostgreSQLDatabase implements DatabaseInterface {
-  private pool: Pool;
+/**
+ * Shared Postgres execution for pool and transaction clients
+ */
+abstract class PostgreSQLQueryable implements DatabaseInterface {
+  readonly dialect = 'postgres' as const;
 
-  constructor(config: any) {
-    this.pool = new Pool(config);
-  }
+  protected abstract target(): Pool | PoolClient;
 
   async query(sql: string, params: any[] = []): Promise<any[]> {
     try {
-      const result = await this.pool.query(sql, params);
+      const result = await this.target().query(toPostgresSql(sql), params);
       return result.rows;
     } catch (error) {
       console.error('PostgreSQL query error:', error);
@@ -63,11 +118,12 @@ class PostgreSQLDatabase implements DatabaseInterface {
     }
   }
 
-  async run(sql: string, params: any[] = []): Promise<{ lastInsertRowid?: number; changes: number }> {
+  async run(sql: string, params: any[] = []): Promise<RunResult> {
     try {
-      const result = await this.pool.query(sql, params);
+      const result = await this.target().query(toPostgresSql(sql), params);
       return {
-        changes: result.rowCount || 0
+        changes: result.rowCount || 0,
+        lastInsertRowid: result.rows[0]?.id
       };
     } catch (error) {
       console.error('PostgreSQL run error:', error);
@@ -75,11 +131,80 @@ class PostgreSQLDatabase implements DatabaseInterface {
     }
   }
 
+  async insert(sql: string, params: any[] = [], idColumn: string = 'id'): Promise<any> {
+    const rows = await this.query(withReturning(sql, idColumn), params);
+    return rows[0]?.[idColumn];
+  }
+
+  async exec(sql: string): Promise<void> {
+    try {
+      // Scripts are dialect-specific files, so no translation here
+      await this.target().query(sql);
+    } catch (error) {
+      console.error('PostgreSQL exec error:', error);
+      throw error;
+    }
+  }
+
+  abstract transaction<T>(fn: (tx: DatabaseInterface) => Promise<T>): Promise<T>;
+  abstract close(): Promise<void>;
+}
+
+export class PostgreSQLDatabase extends PostgreSQLQueryable {
+  private pool: Pool;
+
+  // Pool can be injected (tests use an in-memory Postgres)
+  constructor(config: any, pool?: Pool) {
+    super();
+    this.pool = pool || new Pool(config);
+  }
+
+  protected target(): Pool {
+    return this.pool;
+  }
+
+  async transaction<T>(fn: (tx: DatabaseInterface) => Promise<T>): Promise<T> {
+    // Pool queries may land on different connections, so pin one client
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(new PostgreSQLTransaction(client));
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   async close(): Promise<void> {
     await this.pool.end();
   }
 }
 
+/**
+ * Queries bound to the single client that owns an open transaction
+ */
+class PostgreSQLTransaction extends PostgreSQLQueryable {
+  constructor(private client: PoolClient) {
+    super();
+  }
+
+  protected target(): PoolClient {
+    return this.client;
+  }
+
+  async transaction<T>(fn: (tx: DatabaseInterface) => Promise<T>): Promise<T> {
+    return fn(this);
+  }
+
+  async close(): Promise<void> {
+    // Client is released by the owning transaction
+  }
+}
+
 // Factory function
 export function createDatabase(): DatabaseInterface {
   if (dbConfig.type === 'postgres') {
@@ -0,0 +1,93 @@
+import { DatabaseInterface } from './database.js';
+
+/**
+ * Full-text search (migration 017) - SQLite FTS5 tables and Postgres tsvector columns, both kept in
+ * sync by triggers. Terms are plain words or phrases; every term must match.
+ */
+
+export interface TranscriptSegmentSearch {
+  terms: string[];
+  from?: Date | undefined;      // Video published at or after
+  to?: Date | undefined;        // Video published before
+  limit: number;
+  highlight: [string, string];  // Markup around matched words in the snippet
+}
+
+const SNIPPET_TOKENS = 24;
+
+/**
+ * Terms the index can match - punctuation-only terms have no tokens
+ */
+export function searchableTerms(terms: string[]): string[] {
+  return terms.filter(term => /[\p{L}\p{N}]/u.test(term));
+}
+
+/**
+ * WHERE condition (on items aliased `i`) matching items whose title or text contains every term
+ */
+export function itemsMatchCondition(db: DatabaseInterface, terms: string[]): { sql: string; params: string[] } {
+  if (db.dialect === 'postgres') {
+    return {
+      sql: `i.search_vector @@ (${terms.map(() => "phraseto_tsquery('simple', ?)").join(' && ')})`,
+      params: terms
+    };
+  }
+
+  return {
+    sql: 'i.id IN (SELECT item_id FROM items_fts WHERE items_fts MATCH ?)',
+    params: [toFts5Query(terms)]
+  };
+}
+
+/**
+ * Best-matching transcript segments with a highlighted snippet, joined with their video and source
+ */
+export async function searchTranscriptSegments(db: DatabaseInterface, search: TranscriptSegmentSearch): Promise<any[]> {
+  const [highlightStart, highlightEnd] = search.highlight;
+  const dateConditions: string[] = [];
+  const dateParams: string[] = [];
+
+  if (search.from) {
+    dateConditions.push('AND v.published_at >= ?');
+    dateParams.push(search.from.toISOString());
+  }
+  if (search.to) {
+    dateConditions.push('AND v.published_at < ?');
+    dateParams.push(search.to.toISOString());
+  }
+
+  const columns = `ts.start_seconds, ts.end_seconds, ts.text, v.video_id AS youtube_video_id, v.title, v.url,
+        v.published_at, v.transcript_source, s.channel_id, s.name AS source_name`;
+
+  if (db.dialect === 'postgres') {
+    const headlineOptions = `StartSel="${highlightStart}", StopSel="${highlightEnd}", MaxWords=${SNIPPET_TOKENS}, MinWords=${Math.floor(SNIPPET_TOKENS / 2)}`;
+    return db.query(`
+      SELECT ${columns}, ts_headline('simple', ts.text, q.query, ?) AS snippet
+      FROM transcript_segments ts
+      CROSS JOIN (SELECT ${search.terms.map(() => "phraseto_tsquery('simple', ?)").join(' && ')} AS query) q
+      JOIN videos v ON ts.video_id = v.id
+      LEFT JOIN sources s ON v.source_id = s.id
+      WHERE ts.search_vector @@ q.query ${dateConditions.join(' ')}
+      ORDER BY ts_rank(ts.search_vector, q.query) DESC, v.published_at DESC, ts.start_seconds
+      LIMIT ?
+    `, [headlineOptions, ...search.terms, ...dateParams, search.limit]);
+  }
+
+  return db.query(`
+    SELECT ${columns}, snippet(transcript_segments_fts, 0, ?, ?, '…', ?) AS snippet
+    FROM transcript_segments_fts
+    JOIN transcript_segments ts ON ts.id = transcript_segments_fts.rowid
+    JOIN videos v ON ts.video_id = v.id
+    LEFT JOIN sources s ON v.source_id = s.id
+    WHERE transcript_segments_fts MATCH ? ${dateConditions.join(' ')}
+    ORDER BY bm25(transcript_segments_fts), v.published_at DESC, ts.start_seconds
+    LIMIT ?
+  `, [highlightStart, highlightEnd, SNIPPET_TOKENS, toFts5Query(search.terms), ...dateParams, search.limit]);
+}
+
+/**
+ * Every term as a quoted FTS5 phrase (implicit AND), so query syntax in user text stays literal
+ */
+function toFts5Query(terms: string[]): string {
+  return terms.map(term => `"${term.replace(/"/g, '""')}"`).join(' ');
+}
@@ -0,0 +1,111 @@
+import { DatabaseInterface } from './database.js';
+import { NewsItem, DebateItem, DevItem } from '../types/schemas.js';
+import { BriefSection } from '../types/delivery.types.js';
+
+/**
+ * Stored items grouped by brief part
+ */
+export interface StoredItems {
+  newsItems: NewsItem[];
+  debateItems: DebateItem[];
+  devItems: DevItem[];
+}
+
+/**
+ * Load stored items for a run: items extracted in it, plus cached items of videos it advanced
+ */
+export async function loadRunItems(db: DatabaseInterface, runId: string): Promise<StoredItems> {
+  const itemRows = await db.query(`
+    SELECT i.*, v.video_id AS youtube_video_id, v.url, s.channel_id
+    FROM items i
+    JOIN videos v ON i.video_id = v.id
+    JOIN sources s ON v.source_id = s.id
+    WHERE i.run_id = ? OR v.run_id = ?
+    ORDER BY v.published_at, i.item_index, i.created_at
+  `, [runId, runId]);
+
+  return groupItemRows(itemRows);
+}
+
+/**
+ * Stored news items from videos published since a date (breaking-news corroboration window)
+ */
+export async function loadNewsItemsSince(db: DatabaseInterface, since: Date): Promise<NewsItem[]> {
+  const itemRows = await db.query(`
+    SELECT i.*, v.video_id AS youtube_video_id, v.url, s.channel_id
+    FROM items i
+    JOIN videos v ON i.video_id = v.id
+    JOIN sources s ON v.source_id = s.id
+    WHERE i.part = 1 AND v.published_at >= ?
+    ORDER BY v.published_at, i.item_index, i.created_at
+  `, [since.toISOString()]);
+
+  return groupItemRows(itemRows).newsItems;
+}
+
+/**
+ * Rebuild items from rows (joined with video_id AS youtube_video_id, url, channel_id), grouped by brief part
+ */
+export function groupItemRows(rows: any[]): StoredItems {
+  const grouped: StoredItems = { newsItems: [], debateItems: [], devItems: [] };
+
+  for (const row of rows) {
+    const item = itemFromRow(row);
+    const section = sectionForPart(row.part);
+    if (section === 'debate') grouped.debateItems.push(item as DebateItem);
+    else if (section === 'dev') grouped.devItems.push(item as DevItem);
+    else grouped.newsItems.push(item as NewsItem);
+  }
+
+  return grouped;
+}
+
+/**
+ * Rebuild one item from its row (same joined columns as groupItemRows)
+ */
+export function itemFromRow(row: any): NewsItem | DebateItem | DevItem {
+  return row.item_data ? JSON.parse(row.item_data) : fromLegacyRow(row);
+}
+
+/**
+ * items.part -> brief section (1 news, 2 debate, 3 dev)
+ */
+export function sectionForPart(part: number): BriefSection {
+  if (part === 2) return 'debate';
+  if (part === 3) return 'dev';
+  return 'news';
+}
+
+/**
+ * Best-effort item for rows saved before item_data existed (only flat columns survive)
+ */
+function fromLegacyRow(row: any): any {
+  const base = {
+    videoId: row.youtube_video_id,
+    channelId: row.channel_id || '',
+    sourceUrl: row.url || `https://www.youtube.com/watch?v=${row.youtube_video_id}`,
+    timestamp: row.timestamp_hms || undefined,
+    confidence: row.confidence || 'medium',
+    rawContext: '',
+    qualityScore: row.quality_score ?? undefined,
+    relevance_score: 5, // Not stored for legacy rows - brief's default threshold
+  };
+
+  switch (row.part) {
+    case 2:
+      return {
+        ...base, topic: row.title, whatWasDiscussed: row.summary || '',
+        positions: { pro: [], contra: [] }, keyQuotes: [], implications: '', recommendedDeepDive: false
+      };
+    case 3:
+      return {
+        ...base, title: row.title, changeType: row.type, whatChanged: row.summary || '',
+        developerAction: 'evaluate', links: JSON.parse(row.links || '[]'), affectedTechnologies: []
+      };
+    default:
+      return {
+        ...base, title: row.title, summary: row.summary || '',
+        entities: JSON.parse(row.entities || '[]'), type: row.type || 'other'
+      };
+  }
+}
@@ -0,0 +1,222 @@
+import { createHash } from 'crypto';
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { DatabaseInterface } from './database.js';
+import { MigrationFile, MigrationStatus, AppliedMigration } from '../types/migration.types.js';
+import { SqlDialect } from '../types/database.types.js';
+
+export const MIGRATIONS_DIR = join(__dirname, '..', '..', 'migrations');
+
+/**
+ * Versions that are intentionally missing from migrations/.
+ * Anything else missing below the highest version is treated as an error.
+ */
+export const KNOWN_MIGRATION_GAPS: Record<number, string> = {
+  5: 'Never committed - historical dedup was renumbered to 006',
+};
+
+// NNN_name.sql (all dialects) or NNN_name_postgres.sql / NNN_name_sqlite.sql (dialect variant)
+const MIGRATION_FILE_PATTERN = /^(\d{3})_(.+?)(?:_(sqlite|postgres))?\.sql$/;
+
+/**
+ * Versioned migration runner backed by the schema_migrations table
+ */
+export class MigrationRunner {
+  private db: DatabaseInterface;
+  private dialect: SqlDialect;
+  private directory: string;
+
+  constructor(db: DatabaseInterface, dialect: SqlDialect = db.dialect, directory: string = MIGRATIONS_DIR) {
+    this.db = db;
+    this.dialect = dialect;
+    this.directory = directory;
+  }
+
+  /**
+   * Find migration files for this dialect, ordered by version.
+   * A dialect variant wins over the shared file with the same version.
+   */
+  discover(): MigrationFile[] {
+    const byVersion = new Map<number, { shared?: string; variant?: string; otherDialect?: string }>();
+
+    for (const filename of readdirSync(this.directory).sort()) {
+      const match = filename.match(MIGRATION_FILE_PATTERN);
+      if (!match) continue;
+
+      const version = parseInt(match[1]!, 10);
+      const entry = byVersion.get(version) || {};
+      if (!match[3]) {
+        if (entry.shared) throw new Error(`Duplicate migration version ${match[1]}: ${entry.shared}, ${filename}`);
+        entry.shared = filename;
+      } else if (match[3] === this.dialect) {
+        entry.variant = filename;
+      } else {
+        entry.otherDialect = filename;
+      }
+      byVersion.set(version, entry);
+    }
+
+    const versions = [...byVersion.keys()].sort((a, b) => a - b);
+    const highest = versions[versions.length - 1] || 0;
+
+    for (let version = 1; version <= highest; version++) {
+      if (!byVersion.has(version) && !KNOWN_MIGRATION_GAPS[version]) {
+        throw new Error(`Migration ${String(version).padStart(3, '0')} is missing (not listed in KNOWN_MIGRATION_GAPS)`);
+      }
+    }
+
+    return versions.map(version => {
+      const entry = byVersion.get(version)!;
+      const filename = entry.variant || entry.shared;
+      if (!filename) {
+        throw new Error(`Migration ${entry.otherDialect} has no ${this.dialect} variant`);
+      }
+
+      const sql = readFileSync(join(this.directory, filename), 'utf-8');
+      return {
+        version,
+        name: filename.match(MIGRATION_FILE_PATTERN)![2]!,
+        filename,
+        sql,
+        checksum: this.checksum(sql),
+      };
+    });
+  }
+
+  /**
+   * Compare migration files against what has been applied
+   */
+  async status(): Promise<MigrationStatus[]> {
+    await this.ensureMigrationsTable();
+
+    const files = this.discover();
+    const applied = await this.getApplied();
+    const statuses: MigrationStatus[] = [];
+
+    const versions = new Set<number>([
+      ...files.map(file => file.version),
+      ...applied.keys(),
+      ...Object.keys(KNOWN_MIGRATION_GAPS).map(Number),
+    ]);
+
+    for (const version of [...versions].sort((a, b) => a - b)) {
+      const file = files.find(f => f.version === version);
+      const record = applied.get(version);
+
+      if (file && record) {
+        statuses.push({
+          version,
+          name: file.name,
+          state: record.checksum === file.checksum ? 'applied' : 'changed',
+          filename: file.filename,
+          appliedAt: record.appliedAt,
+          baseline: record.baseline,
+        });
+      } else if (file) {
+        statuses.push({ version, name: file.name, state: 'pending', filename: file.filename });
+      } else if (record) {
+        statuses.push({ version, name: record.name, state: 'missing', appliedAt: record.appliedAt });
+      } else {
+        statuses.push({ version, name: '-', state: 'gap', note: KNOWN_MIGRATION_GAPS[version] || '' });
+      }
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Apply pending migrations in order, each in its own transaction.
+   * Refuses to run when an applied migration file was edited.
+   */
+  async migrate(): Promise<MigrationFile[]> {
+    const statuses = await this.status();
+
+    const changed = statuses.filter(s => s.state === 'changed');
+    if (changed.length > 0) {
+      throw new Error(`Applied migrations were modified: ${changed.map(s => s.filename).join(', ')} - add a new migration instead`);
+    }
+
+    const pendingVersions = new Set(statuses.filter(s => s.state === 'pending').map(s => s.version));
+    const pending = this.discover().filter(file => pendingVersions.has(file.version));
+    if (pending.length === 0) {
+      console.log('✅ Database schema is up to date');
+      return [];
+    }
+
+    for (const file of pending) {
+      const startTime = Date.now();
+      console.log(`⏳ Applying ${file.filename}...`);
+
+      await this.db.transaction(async tx => {
+        await tx.exec(file.sql);
+        await this.recordApplied(tx, file, Date.now() - startTime, false);
+      });
+
+      console.log(`✅ Applied ${file.filename} (${Date.now() - startTime}ms)`);
+    }
+
+    return pending;
+  }
+
+  /**
+   * Mark migrations up to a version as applied without running them.
+   * For databases migrated by hand before the runner existed.
+   */
+  async baseline(upToVersion: number): Promise<MigrationFile[]> {
+    await this.ensureMigrationsTable();
+
+    const applied = await this.getApplied();
+    const files = this.discover().filter(file => file.version <= upToVersion && !applied.has(file.version));
+
+    await this.db.transaction(async tx => {
+      for (const file of files) {
+        await this.recordApplied(tx, file, 0, true);
+      }
+    });
+
+    console.log(`📌 Baselined ${files.length} migrations up to ${String(upToVersion).padStart(3, '0')}`);
+    return files;
+  }
+
+  private async ensureMigrationsTable(): Promise<void> {
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        dialect TEXT NOT NULL,
+        applied_at TIMESTAMP NOT NULL,
+        execution_ms INTEGER NOT NULL DEFAULT 0,
+        baseline INTEGER NOT NULL DEFAULT 0
+      )
+    `);
+  }
+
+  private async getApplied(): Promise<Map<number, AppliedMigration>> {
+    const rows = await this.db.query('SELECT * FROM schema_migrations ORDER BY version');
+
+    return new Map(rows.map(row => [Number(row.version), {
+      version: Number(row.version),
+      name: row.name,
+      checksum: row.checksum,
+      dialect: row.dialect,
+      appliedAt: new Date(row.applied_at).toISOString(),
+      executionMs: row.execution_ms,
+      baseline: Boolean(row.baseline),
+    }]));
+  }
+
+  private async recordApplied(tx: DatabaseInterface, file: MigrationFile, executionMs: number, baseline: boolean): Promise<void> {
+    await tx.run(`
+      INSERT INTO schema_migrations (version, name, checksum, dialect, applied_at, execution_ms, baseline)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [file.version, file.name, file.checksum, this.dialect, new Date().toISOString(), executionMs, baseline ? 1 : 0]);
+  }
+
+  /**
+   * Line endings are normalized so checkouts on Windows don't look modified
+   */
+  private checksum(sql: string): string {
+    return createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Query layer - services write one SQL flavour and this module adapts it per dialect.
+ *
+ * Conventions for service SQL:
+ * - `?` placeholders (rewritten to $1, $2, ... for Postgres)
+ * - `INSERT OR IGNORE` (rewritten to ON CONFLICT DO NOTHING for Postgres)
+ * - Upserts via upsertSql() - ON CONFLICT ... DO UPDATE is valid in both engines
+ * - TRUE/FALSE literals for boolean columns (SQLite stores them as 1/0)
+ */
+
+/**
+ * Translate SQLite-flavoured SQL to Postgres
+ */
+export function toPostgresSql(sql: string): string {
+  if (/\bINSERT\s+OR\s+REPLACE\b/i.test(sql)) {
+    throw new Error('INSERT OR REPLACE has no Postgres equivalent - use upsertSql()');
+  }
+
+  let translated = sql;
+  if (/\bINSERT\s+OR\s+IGNORE\b/i.test(translated)) {
+    translated = translated.replace(/\bINSERT\s+OR\s+IGNORE\b/i, 'INSERT');
+    translated = appendBeforeReturning(translated, 'ON CONFLICT DO NOTHING');
+  }
+
+  return toNumberedPlaceholders(translated);
+}
+
+/**
+ * Build an insert that updates the existing row on conflict (or keeps it when updateColumns is empty)
+ */
+export function upsertSql(
+  table: string,
+  columns: string[],
+  conflictColumns: string[],
+  updateColumns: string[] = columns.filter(column => !conflictColumns.includes(column))
+): string {
+  const placeholders = columns.map(() => '?').join(', ');
+  const action = updateColumns.length > 0
+    ? `DO UPDATE SET ${updateColumns.map(column => `${column} = excluded.${column}`).join(', ')}`
+    : 'DO NOTHING';
+
+  return `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${placeholders}) ON CONFLICT(${conflictColumns.join(', ')}) ${action}`;
+}
+
+/**
+ * Add a RETURNING clause so both engines hand back the generated key
+ */
+export function withReturning(sql: string, idColumn: string = 'id'): string {
+  return /\bRETURNING\b/i.test(sql) ? sql : `${sql.trimEnd()} RETURNING ${idColumn}`;
+}
+
+/**
+ * Rewrite `?` placeholders to $n, leaving quoted strings and identifiers alone
+ */
+function toNumberedPlaceholders(sql: string): string {
+  let index = 0;
+  let quote: string | null = null;
+  let result = '';
+
+  for (const char of sql) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '?') {
+      result += `$${++index}`;
+      continue;
+    }
+    result += char;
+  }
+
+  return result;
+}
+
+function appendBeforeReturning(sql: string, clause: string): string {
+  const returning = sql.search(/\bRETURNING\b/i);
+  return returning === -1
+    ? `${sql.trimEnd()} ${clause}`
+    : `${sql.slice(0, returning).trimEnd()} ${clause} ${sql.slice(returning)}`;
+}
@@ -156,15 +156,14 @@ async function seedSources() {
     for (const source of sources) {
       const result = await db.run(`
         INSERT INTO sources (name, type, channel_url, channel_id, weight, active)
-        VALUES (?, ?, ?, ?, ?, ?)
+        VALUES (?, ?, ?, ?, ?, TRUE)
       `, [
         source.name,
         source.type,
         source.channel_url,
         source.channel_id,
-        source.weight,
-        1 // SQLite expects 1/0 for boolean, not true/false
-      ]);
+        source.weight
+      ]); // Boolean as SQL literal - SQLite can't bind true/false
 
       console.log(`✓ Inserted: ${source.name} (${source.type})`);
     }
@@ -177,7 +176,7 @@ async function seedSources() {
     const summary = await db.query(`
       SELECT type, COUNT(*) as count, AVG(weight) as avg_weight
       FROM sources 
-      WHERE active = 1
+      WHERE active = TRUE
       GROUP BY type
       ORDER BY type
     `);
@@ -0,0 +1,77 @@
+import { SlackBriefData } from '../services/slack.service.js';
+import { DeliveryTarget, DeliveryTargetConfig, DeliveryResult } from '../types/delivery.types.js';
+import { selectBriefSections, formatBriefDate, getBriefLabels, paperMentions } from '../utils/brief-sections.js';
+import { postJson } from './webhook.target.js';
+
+// Discord rejects messages over these limits
+const MAX_EMBEDS = 10;
+const MAX_DESCRIPTION_CHARS = 4096;
+const MAX_TOTAL_CHARS = 6000;
+
+/**
+ * Discord webhook - one embed per brief section
+ */
+export class DiscordTarget implements DeliveryTarget {
+  readonly kind = 'discord';
+  readonly name: string;
+  readonly deliveryKey: string;
+  private url: string;
+
+  constructor(config: DeliveryTargetConfig) {
+    if (!config.url) throw new Error(`Delivery target ${config.name}: discord needs a url`);
+    this.name = config.name;
+    this.deliveryKey = `discord:${config.name}`;
+    // wait=true makes Discord return the created message (and its id)
+    this.url = config.url + (config.url.includes('?') ? '&' : '?') + 'wait=true';
+  }
+
+  async send(briefData: SlackBriefData): Promise<DeliveryResult> {
+    const response = await postJson(this.url, this.buildMessage(briefData));
+    const message = await response.json().catch(() => ({})) as { id?: string };
+
+    return { target: this.name, success: true, deliveryId: message.id || `HTTP ${response.status}` };
+  }
+
+  /**
+   * Build webhook payload, truncating sections to stay under Discord's limits
+   */
+  buildMessage(briefData: SlackBriefData): any {
+    const labels = getBriefLabels(briefData.language);
+    const sections = selectBriefSections(briefData);
+
+    const sectionLines: Array<{ title: string; lines: string[] }> = [
+      { title: labels.news, lines: sections.newsItems.map(item => `**[${item.title}](${item.sourceUrl})**\n${item.summary}`) },
+      {
+        title: labels.research,
+        lines: sections.researchItems.map(item => {
+          const mentions = paperMentions(briefData, item);
+          return `**[${item.title}](${item.sourceUrl})**\n${item.summary}` +
+            (mentions.length > 0 ? `\n💬 ${labels.discussedIn}: ${mentions.map(mention => `[${mention.title}](${mention.url})`).join(', ')}` : '');
+        })
+      },
+      { title: labels.debate, lines: sections.debateItems.map(item => `**[${item.topic}](${item.sourceUrl})**\n${item.implications}`) },
+      {
+        title: labels.dev,
+        lines: sections.devItems.map(item =>
+          `**[${item.title}](${item.sourceUrl})**\n${item.whatChanged}\n${labels.action}: ${labels.developerActions[item.developerAction] || item.developerAction}`)
+      },
+      { title: labels.deepDives, lines: sections.deepDiveItems.map(item => `**[${item.topic}](${item.sourceUrl})**`) }
+    ].filter(section => section.lines.length > 0).slice(0, MAX_EMBEDS);
+
+    // Share the total budget evenly; titles are short so reserve a little for them
+    const perEmbed = Math.min(MAX_DESCRIPTION_CHARS, Math.floor((MAX_TOTAL_CHARS - 400) / Math.max(sectionLines.length, 1)));
+
+    return {
+      content: `🤖 **ARTI AI-brief • ${formatBriefDate(briefData.generatedAt, briefData.language)}** — ` +
+        `${briefData.stats.totalVideos} ${labels.videos} • ${briefData.stats.totalItems} items`,
+      embeds: sectionLines.map(section => ({
+        title: `${section.title} (${section.lines.length})`,
+        description: truncate(section.lines.join('\n\n'), perEmbed)
+      }))
+    };
+  }
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length <= maxLength ? text : text.substring(0, maxLength - 3) + '...';
+}
@@ -0,0 +1,36 @@
+import { EmailService } from '../services/email.service.js';
+import { SlackBriefData } from '../services/slack.service.js';
+import { DeliveryTarget, DeliveryTargetConfig, DeliveryResult } from '../types/delivery.types.js';
+
+/**
+ * SMTP email digest
+ */
+export class EmailTarget implements DeliveryTarget {
+  readonly kind = 'email';
+  readonly name: string;
+  readonly deliveryKey: string;
+  private emailService: EmailService;
+
+  constructor(config: DeliveryTargetConfig) {
+    if (!config.email || config.email.to.length === 0) {
+      throw new Error(`Delivery target ${config.name}: email needs SMTP settings and recipients`);
+    }
+    this.name = config.name;
+    this.deliveryKey = `email:${config.email.to.join(',')}`; // Same key EmailService records
+    this.emailService = new EmailService(config.email);
+  }
+
+  async send(briefData: SlackBriefData): Promise<DeliveryResult> {
+    const result = await this.emailService.sendBrief(briefData);
+    return {
+      target: this.name,
+      success: result.success,
+      deliveryId: result.messageId || '',
+      error: result.error || ''
+    };
+  }
+
+  close(): void {
+    this.emailService.close();
+  }
+}
@@ -0,0 +1,29 @@
+import { SlackService, SlackBriefData } from '../services/slack.service.js';
+import { DeliveryTarget, DeliveryTargetConfig, DeliveryResult } from '../types/delivery.types.js';
+
+/**
+ * Slack channel via the bot token's SlackService
+ */
+export class SlackTarget implements DeliveryTarget {
+  readonly kind = 'slack';
+  readonly name: string;
+  readonly deliveryKey: string;
+  private channelId: string;
+
+  constructor(config: DeliveryTargetConfig, private slackService: SlackService) {
+    if (!config.channelId) throw new Error(`Delivery target ${config.name}: slack needs a channelId`);
+    this.name = config.name;
+    this.channelId = config.channelId;
+    this.deliveryKey = config.channelId; // Same key SlackService has always recorded
+  }
+
+  async send(briefData: SlackBriefData): Promise<DeliveryResult> {
+    const result = await this.slackService.sendBrief(briefData, this.channelId);
+    return {
+      target: this.name,
+      success: result.success,
+      deliveryId: result.timestamp || '',
+      error: result.error || ''
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import { SlackBriefData } from '../services/slack.service.js';
+import { DeliveryTarget, DeliveryTargetConfig, DeliveryResult } from '../types/delivery.types.js';
+import { selectBriefSections, formatBriefDate, getBriefLabels, paperMentions, formatAuthors } from '../utils/brief-sections.js';
+import { postJson } from './webhook.target.js';
+
+/**
+ * Microsoft Teams incoming webhook / workflow - brief as an Adaptive Card
+ */
+export class TeamsTarget implements DeliveryTarget {
+  readonly kind = 'teams';
+  readonly name: string;
+  readonly deliveryKey: string;
+  private url: string;
+
+  constructor(config: DeliveryTargetConfig) {
+    if (!config.url) throw new Error(`Delivery target ${config.name}: teams needs a url`);
+    this.name = config.name;
+    this.deliveryKey = `teams:${config.name}`;
+    this.url = config.url;
+  }
+
+  async send(briefData: SlackBriefData): Promise<DeliveryResult> {
+    const response = await postJson(this.url, {
+      type: 'message',
+      attachments: [{
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        content: this.buildCard(briefData)
+      }]
+    });
+
+    return { target: this.name, success: true, deliveryId: `HTTP ${response.status}` };
+  }
+
+  /**
+   * Build Adaptive Card (schema 1.4 is the newest Teams renders everywhere)
+   */
+  buildCard(briefData: SlackBriefData): any {
+    const labels = getBriefLabels(briefData.language);
+    const sections = selectBriefSections(briefData);
+    const body: any[] = [
+      {
+        type: 'TextBlock',
+        size: 'Large',
+        weight: 'Bolder',
+        wrap: true,
+        text: `🤖 ARTI AI-brief • ${formatBriefDate(briefData.generatedAt, briefData.language)}`
+      },
+      {
+        type: 'TextBlock',
+        isSubtle: true,
+        spacing: 'None',
+        wrap: true,
+        text: `📊 ${briefData.stats.totalVideos} ${labels.videos} • ${briefData.stats.totalItems} items`
+      }
+    ];
+
+    const addSection = (title: string, items: Array<{ title: string; lines: string[]; url: string }>) => {
+      if (items.length === 0) return;
+      body.push({ type: 'TextBlock', text: `${title} (${items.length})`, weight: 'Bolder', size: 'Medium', separator: true, wrap: true });
+      for (const item of items) {
+        body.push({
+          type: 'Container',
+          spacing: 'Medium',
+          items: [
+            { type: 'TextBlock', text: `**${item.title}**`, wrap: true },
+            ...item.lines.map(line => ({ type: 'TextBlock', text: line, wrap: true, spacing: 'None' })),
+            { type: 'TextBlock', text: `[📺 ${labels.watchVideo}](${item.url})`, isSubtle: true, spacing: 'None' }
+          ]
+        });
+      }
+    };
+
+    addSection(labels.news, sections.newsItems.map(item => ({
+      title: item.title, lines: [item.summary], url: item.sourceUrl
+    })));
+    addSection(labels.research, sections.researchItems.map(item => ({
+      title: item.title,
+      lines: [
+        item.summary,
+        ...(item.entities.length > 0 ? [`_${formatAuthors(item.entities)}_`] : []),
+        ...paperMentions(briefData, item).map(mention => `💬 ${labels.discussedIn}: [${mention.title}](${mention.url})`),
+        ...(item.paper ? [`[📄 PDF](${item.paper.pdfUrl})`] : [])
+      ],
+      url: item.sourceUrl
+    })));
+    addSection(labels.debate, sections.debateItems.map(item => ({
+      title: item.topic,
+      lines: [`**${labels.discussed}:** ${item.whatWasDiscussed}`, `**${labels.implications}:** ${item.implications}`],
+      url: item.sourceUrl
+    })));
+    addSection(labels.dev, sections.devItems.map(item => ({
+      title: item.title,
+      lines: [item.whatChanged, `**${labels.action}:** ${labels.developerActions[item.developerAction] || item.developerAction}`],
+      url: item.sourceUrl
+    })));
+    addSection(labels.deepDives, sections.deepDiveItems.map(item => ({
+      title: item.topic, lines: [item.implications], url: item.sourceUrl
+    })));
+
+    return {
+      $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+      type: 'AdaptiveCard',
+      version: '1.4',
+      body
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import { SlackBriefData } from '../services/slack.service.js';
+import { DeliveryTarget, DeliveryTargetConfig, DeliveryResult } from '../types/delivery.types.js';
+import { selectBriefSections, formatBriefDate, paperMentions } from '../utils/brief-sections.js';
+
+/**
+ * POST a JSON body, returning the response for callers that need it
+ */
+export async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => 'Unknown error');
+    throw new Error(`HTTP ${response.status}: ${errorText}`);
+  }
+
+  return response;
+}
+
+/**
+ * Generic webhook - posts the brief's sections as plain JSON
+ */
+export class WebhookTarget implements DeliveryTarget {
+  readonly kind = 'webhook';
+  readonly name: string;
+  readonly deliveryKey: string;
+  private url: string;
+  private headers: Record<string, string>;
+
+  constructor(config: DeliveryTargetConfig) {
+    if (!config.url) throw new Error(`Delivery target ${config.name}: webhook needs a url`);
+    this.name = config.name;
+    this.deliveryKey = `webhook:${config.name}`;
+    this.url = config.url;
+    this.headers = config.headers || {};
+  }
+
+  async send(briefData: SlackBriefData): Promise<DeliveryResult> {
+    const sections = selectBriefSections(briefData);
+
+    const response = await postJson(this.url, {
+      runId: briefData.runId,
+      generatedAt: briefData.generatedAt.toISOString(),
+      title: `ARTI AI-brief • ${formatBriefDate(briefData.generatedAt, briefData.language)}`,
+      language: briefData.language || 'nb',
+      stats: briefData.stats,
+      sections: {
+        news: sections.newsItems,
+        research: sections.researchItems.map(item => ({ ...item, discussedIn: paperMentions(briefData, item) })),
+        debate: sections.debateItems,
+        dev: sections.devItems,
+        deepDives: sections.deepDiveItems
+      }
+    }, this.headers);
+
+    return { target: this.name, success: true, deliveryId: `HTTP ${response.status}` };
+  }
+}
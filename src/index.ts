@@ -1,25 +1,12 @@
 import 'dotenv/config';
-import { OrchestratorService, OrchestratorConfig } from './services/orchestrator.service.js';
+import { OrchestratorService } from './services/orchestrator.service.js';
+import { loadConfig, getMissingEnv } from './config/app.config.js';
 
 async function main() {
-  const config: OrchestratorConfig = {
-    youtubeApiKey: process.env.YOUTUBE_API_KEY!,
-    openaiApiKey: process.env.OPENAI_API_KEY!,
-    slackBotToken: process.env.SLACK_BOT_TOKEN!,
-    slackChannelId: process.env.SLACK_CHANNEL_ID!,
-    maxVideosPerSource: parseInt(process.env.MAX_VIDEOS_PER_SOURCE || '5'),
-    maxTranscriptionMinutes: parseInt(process.env.MAX_TRANSCRIPTION_MINUTES || '180'),
-    similarityThreshold: parseFloat(process.env.SIMILARITY_THRESHOLD || '0.85'),
-    lookbackHours: parseInt(process.env.LOOKBACK_HOURS || '24'),
-    dryRun: process.env.DRY_RUN === 'true',
-    rapidApiKey: process.env.RAPIDAPI_KEY,
-    rapidApiHost: process.env.RAPIDAPI_HOST,
-    rapidApiRateLimit: parseInt(process.env.RAPIDAPI_RATE_LIMIT || '10')
-  };
+  const config = loadConfig();
 
   // Validate required environment variables
-  const required = ['YOUTUBE_API_KEY', 'OPENAI_API_KEY', 'SLACK_BOT_TOKEN', 'SLACK_CHANNEL_ID'];
-  const missing = required.filter(key => !process.env[key]);
+  const missing = getMissingEnv();
   
   if (missing.length > 0) {
     console.error('❌ Missing required environment variables:');
@@ -27,10 +14,18 @@ async function main() {
     process.exit(1);
   }
 
+  // --resume <runId> finishes a failed run without redoing completed stages
+  const resumeIndex = process.argv.indexOf('--resume');
+  const resumeRunId = resumeIndex !== -1 ? process.argv[resumeIndex + 1] : undefined;
+  if (resumeIndex !== -1 && !resumeRunId) {
+    console.error('❌ --resume requires a run ID');
+    process.exit(1);
+  }
+
   const orchestrator = new OrchestratorService(config);
 
   try {
-    const result = await orchestrator.runPipeline();
+    const result = await orchestrator.runPipeline(resumeRunId ? { resumeRunId } : {});
     
     if (result.status === 'success') {
       console.log('\n🎉 AI-nyhetsagent completed successfully!');
@@ -1,7 +1,12 @@
+import { randomUUID } from 'node:crypto';
 import { ParsedItem, NewsItem, DebateItem, DevItem } from '../types/schemas.js';
 import { EmbeddingService, EmbeddingData } from '../services/embedding.service.js';
-import { ChromaDBService, SimilarityResult } from '../services/chromadb.service.js';
+import { BaseVectorStore, SimilarityResult } from '../services/vector-stores/base-vector-store.js';
+import { createVectorStore } from '../services/vector-stores/vector-store-factory.js';
+import { isSameRelease } from '../services/github.service.js';
+import { isPaperItem } from '../services/arxiv.service.js';
 import { getDatabase } from '../db/database.js';
+import { upsertSql } from '../db/query.js';
 import {
   ContextualCluster,
   ContextualItem,
@@ -43,7 +48,7 @@ export interface DeduplicationResult {
 
 export class DedupProcessor {
   private embeddingService: EmbeddingService;
-  private chromaService: ChromaDBService;
+  private vectorStore: BaseVectorStore;
   private db;
   private config: DedupConfig;
 
@@ -51,10 +56,11 @@ export class DedupProcessor {
     openaiApiKey: string,
     chromaHost = 'localhost',
     chromaPort = 8000,
-    config: DedupConfig = DEFAULT_DEDUP_CONFIG
+    config: DedupConfig = DEFAULT_DEDUP_CONFIG,
+    services: { vectorStore?: BaseVectorStore; embeddingService?: EmbeddingService } = {}
   ) {
-    this.embeddingService = new EmbeddingService(openaiApiKey);
-    this.chromaService = new ChromaDBService(chromaHost, chromaPort);
+    this.embeddingService = services.embeddingService || new EmbeddingService(openaiApiKey);
+    this.vectorStore = services.vectorStore || createVectorStore(undefined, { host: chromaHost, port: chromaPort });
     this.db = getDatabase();
     this.config = config;
   }
@@ -70,9 +76,14 @@ export class DedupProcessor {
   }
 
   /**
-   * Main deduplication method
+   * Main deduplication method.
+   * With persist: false the clusters are only returned - for repeated checks over the same window.
    */
-  async deduplicateItems(items: ParsedItem[], similarityThreshold = 0.85): Promise<DeduplicationResult> {
+  async deduplicateItems(
+    items: ParsedItem[],
+    similarityThreshold = 0.85,
+    options: { persist?: boolean } = {}
+  ): Promise<DeduplicationResult> {
     const startTime = Date.now();
     console.log(`🔍 Starting deduplication for ${items.length} items with threshold ${similarityThreshold}`);
 
@@ -90,17 +101,9 @@ export class DedupProcessor {
       }
     };
 
-    // For testing without ChromaDB server, skip deduplication
-    if (process.env.NODE_ENV !== 'production') {
-      console.log('⚠️ Skipping deduplication in development mode (no ChromaDB server)');
-      result.deduplicatedItems = items;
-      result.processing_stats.processing_time_ms = Date.now() - startTime;
-      return result;
-    }
-
     try {
-      // Step 1: Initialize ChromaDB
-      await this.chromaService.initializeCollection();
+      // Step 1: Initialize vector store collection
+      await this.vectorStore.initializeCollection();
 
       // Step 2: Generate embeddings for all items
       console.log('🧮 Generating embeddings...');
@@ -112,8 +115,8 @@ export class DedupProcessor {
         itemId: embeddingData[index].itemId
       }));
 
-      // Step 3: Add embeddings to ChromaDB
-      await this.chromaService.addEmbeddings(embeddingData, items);
+      // Step 3: Add embeddings to vector store
+      await this.vectorStore.addEmbeddings(embeddingData, items);
 
       // Step 4: Build clusters
       console.log('🔗 Building clusters...');
@@ -123,7 +126,9 @@ export class DedupProcessor {
       const deduplicatedItems = clusters.map(cluster => cluster.canonical);
 
       // Step 6: Save clusters to database
-      await this.saveClusters(clusters);
+      if (options.persist !== false) {
+        await this.saveClusters(clusters);
+      }
 
       // Step 7: Update results
       result.clusters = clusters;
@@ -141,8 +146,8 @@ export class DedupProcessor {
       console.error('❌ Deduplication failed:', error);
       throw error;
     } finally {
-      // Cleanup ChromaDB collection (optional)
-      await this.chromaService.deleteCollection();
+      // Cleanup vector store collection (optional)
+      await this.vectorStore.deleteCollection();
     }
   }
 
@@ -167,7 +172,7 @@ export class DedupProcessor {
       if (!embedding) continue;
 
       // Find similar items
-      const similarItems = await this.chromaService.findSimilarItems(
+      const similarItems = await this.vectorStore.findSimilarItems(
         embedding.embedding,
         threshold,
         50, // Max results
@@ -178,10 +183,21 @@ export class DedupProcessor {
       const clusterMembers = [item];
       const similarities = [1.0]; // Self-similarity
 
-      // Add similar items to cluster
+      // A GitHub release and the dev items about it (matched on name@version) merge even when
+      // English release notes and a Norwegian summary embed far apart
+      for (const other of items) {
+        if (other.itemId !== item.itemId && !processedItems.has(other.itemId) && isSameRelease(item, other)) {
+          clusterMembers.push(other);
+          similarities.push(1.0);
+          processedItems.add(other.itemId);
+        }
+      }
+
+      // Add similar items to cluster - papers stay apart from the commentary about them,
+      // the brief links the two instead
       for (const similar of similarItems) {
         const similarItem = items.find(i => i.itemId === similar.itemId);
-        if (similarItem && !processedItems.has(similar.itemId)) {
+        if (similarItem && !processedItems.has(similar.itemId) && isPaperItem(similarItem) === isPaperItem(item)) {
           clusterMembers.push(similarItem);
           similarities.push(similar.similarity);
           processedItems.add(similar.itemId);
@@ -196,7 +212,7 @@ export class DedupProcessor {
 
       // Create cluster
       const cluster: Cluster = {
-        id: `cluster_${clusters.length + 1}`,
+        id: `cluster_${randomUUID()}`, // Unique across runs - clusters is append-only
         canonical,
         members: clusterMembers,
         similarity_scores: similarities,
@@ -350,11 +366,11 @@ export class DedupProcessor {
           const textContent = this.extractTextContent(member);
           const canonicalKey = this.embeddingService.generateCanonicalKey(member);
           
-          await this.db.run(`
-            INSERT OR REPLACE INTO item_embeddings (
-              item_id, embedding_vector, canonical_key, text_content
-            ) VALUES (?, ?, ?, ?)
-          `, [
+          await this.db.run(upsertSql(
+            'item_embeddings',
+            ['item_id', 'embedding_vector', 'canonical_key', 'text_content'],
+            ['item_id']
+          ), [
             member.itemId,
             '[]', // Simplified - would store actual embedding
             canonicalKey,
@@ -417,7 +433,7 @@ export class DedupProcessor {
    * Cleanup resources
    */
   async cleanup(): Promise<void> {
-    await this.chromaService.deleteCollection();
+    await this.vectorStore.deleteCollection();
     await this.db.close();
   }
 
@@ -917,11 +933,11 @@ export class DedupProcessor {
       const entities = 'entities' in item && item.entities ? item.entities : [];
 
       await this.db.run(
-        `INSERT OR REPLACE INTO item_embeddings_persistent (
-          item_id, embedding_vector, canonical_key, text_content,
-          source_id, channel_id, channel_name, published_at, cluster_id,
-          entity_list
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        upsertSql('item_embeddings_persistent', [
+          'item_id', 'embedding_vector', 'canonical_key', 'text_content',
+          'source_id', 'channel_id', 'channel_name', 'published_at', 'cluster_id',
+          'entity_list'
+        ], ['item_id']),
         [
           itemId,
           JSON.stringify(embedding),
@@ -5,6 +5,12 @@ import {
   validateItem, calculateConfidenceScore, ConfidenceFactors
 } from '../types/schemas.js';
 import { getDatabase } from '../db/database.js';
+import { groupItemRows } from '../db/items.js';
+import { LLMMetricsService } from '../services/llm-metrics.service.js';
+import { FeedbackService, feedbackBoost } from '../services/feedback.service.js';
+import { FeedbackSignals } from '../types/feedback.types.js';
+import { releaseToDevItem } from '../services/github.service.js';
+import { paperToResearchItem } from '../services/arxiv.service.js';
 
 export interface VideoMetadata {
   id: string;
@@ -15,6 +21,7 @@ export interface VideoMetadata {
   duration: number;
   publishedAt: Date;
   url: string;
+  authors?: string[] | undefined; // arXiv papers
 }
 
 export interface ProcessingOptions {
@@ -22,14 +29,20 @@ export interface ProcessingOptions {
   minConfidence?: 'low' | 'medium' | 'high';
   prioritizeRecent?: boolean;
   estimateCosts?: boolean;
+  runId?: string;       // Pipeline run that metrics are recorded under
 }
 
 export class ItemProcessor {
   private llmService: LLMService;
+  private metricsService: LLMMetricsService;
+  private feedbackService: FeedbackService;
   private db;
 
   constructor(openaiApiKey: string) {
     this.llmService = new LLMService(openaiApiKey);
+    this.metricsService = new LLMMetricsService();
+    this.llmService.setMetricsService(this.metricsService);
+    this.feedbackService = new FeedbackService();
     this.db = getDatabase();
   }
 
@@ -42,6 +55,7 @@ export class ItemProcessor {
     options: ProcessingOptions = {}
   ): Promise<VideoParsingResult> {
     console.log(`🎯 Processing items for: ${video.title}`);
+    const startTime = Date.now();
     
     try {
       // Get source information to determine processing type
@@ -71,24 +85,89 @@ export class ItemProcessor {
         }
       };
 
-      // Parse with LLM
-      const llmResult = await this.llmService.parseTranscript(parseRequest);
+      // Track extraction metrics under the pipeline run
+      this.metricsService.initializeExtraction(options.runId || 'manual', video.id, sourceInfo.type);
+
+      // Parse with LLM - GitHub release notes and paper abstracts already are structured
+      const llmResult = transcript.source === 'github-release'
+        ? this.parseReleaseNotes(video, transcript)
+        : transcript.source === 'arxiv-abstract'
+          ? this.parsePaperAbstract(video, transcript)
+          : await this.llmService.parseTranscript(parseRequest);
 
       // Validate and enhance items
       const processedResult = await this.validateAndEnhanceItems(llmResult, video, sourceInfo);
 
       // Save to database
-      await this.saveItems(processedResult, video.id);
+      await this.saveItems(processedResult, video.id, options.runId);
+      await this.saveHallucinationAudit(processedResult, options.runId);
+
+      this.metricsService.recordItemsExtracted(
+        video.id,
+        [
+          ...(processedResult.newsItems || []),
+          ...(processedResult.debateItems || []),
+          ...(processedResult.devItems || [])
+        ],
+        processedResult.tokensUsed || 0,
+        processedResult.estimatedCost || 0
+      );
+      await this.metricsService.finalizeExtraction(video.id, Date.now() - startTime);
 
       console.log(`✅ Processed ${processedResult.totalItems} items successfully`);
       return processedResult;
 
     } catch (error) {
       console.error(`❌ Processing failed for ${video.title}:`, error);
+      // No-op unless extraction had started
+      await this.metricsService.finalizeExtraction(video.id, Date.now() - startTime, error);
       throw error;
     }
   }
 
+  /**
+   * One dev item per GitHub release, mapped from its notes without an LLM call
+   */
+  private parseReleaseNotes(video: VideoMetadata, transcript: ProcessedTranscript): VideoParsingResult {
+    const item = releaseToDevItem({
+      title: video.title,
+      url: video.url,
+      notes: transcript.segments.map(segment => segment.text)
+    });
+
+    return {
+      videoId: video.id,
+      sourceType: 'dev',
+      devItems: [item as DevItem],
+      totalItems: 1,
+      processingTimeMs: 0,
+      tokensUsed: 0,
+      estimatedCost: 0
+    };
+  }
+
+  /**
+   * One research item per arXiv paper, mapped from its abstract without an LLM call
+   */
+  private parsePaperAbstract(video: VideoMetadata, transcript: ProcessedTranscript): VideoParsingResult {
+    const item = paperToResearchItem({
+      title: video.title,
+      url: video.url,
+      abstract: transcript.text,
+      authors: video.authors || []
+    });
+
+    return {
+      videoId: video.id,
+      sourceType: 'news',
+      newsItems: [item as NewsItem],
+      totalItems: 1,
+      processingTimeMs: 0,
+      tokensUsed: 0,
+      estimatedCost: 0
+    };
+  }
+
   /**
    * Get source information from database
    */
@@ -96,7 +175,7 @@ export class ItemProcessor {
     try {
       // sourceId is actually the internal source ID, not YouTube channel ID
       const rows = await this.db.query(
-        'SELECT type, weight, name FROM sources WHERE id = ? AND active = 1',
+        'SELECT type, weight, name FROM sources WHERE id = ? AND active = TRUE',
         [sourceId]
       );
       
@@ -113,43 +192,28 @@ export class ItemProcessor {
   private async getExistingItems(videoId: string): Promise<VideoParsingResult | null> {
     try {
       const itemRows = await this.db.query(`
-        SELECT i.*, v.duration_seconds, v.title, v.published_at 
+        SELECT i.*, v.video_id AS youtube_video_id, v.url, s.channel_id
         FROM items i
         JOIN videos v ON i.video_id = v.id
+        JOIN sources s ON v.source_id = s.id
         WHERE v.video_id = ?
-        ORDER BY i.relevance_score DESC
+        ORDER BY i.item_index, i.created_at
       `, [videoId]);
 
       if (itemRows.length === 0) return null;
 
-      // Reconstruct result from database
-      const firstRow = itemRows[0];
-      const items = itemRows.map(row => ({
-        videoId,
-        channelId: row.channel_id || '',
-        sourceUrl: firstRow.url || `https://www.youtube.com/watch?v=${videoId}`,
-        timestamp: row.timestamp_hms,
-        confidence: row.confidence as 'high' | 'medium' | 'low',
-        rawContext: '', // Not stored in current schema
-        title: row.title,
-        summary: row.summary,
-        entities: JSON.parse(row.entities || '[]'),
-        type: row.type,
-        qualityScore: row.relevance_score
-      }));
-
-      // Group by type (simplified - assumes all items are same type)
+      const grouped = groupItemRows(itemRows);
       const sourceType = await this.getSourceTypeForVideo(videoId);
       const result: VideoParsingResult = {
         videoId,
         sourceType: sourceType || 'news',
-        totalItems: items.length,
+        totalItems: itemRows.length,
         processingTimeMs: 0, // Historical data
       };
 
-      if (sourceType === 'news') result.newsItems = items as NewsItem[];
-      else if (sourceType === 'debate') result.debateItems = items as DebateItem[];
-      else if (sourceType === 'dev') result.devItems = items as DevItem[];
+      if (grouped.newsItems.length > 0) result.newsItems = grouped.newsItems;
+      if (grouped.debateItems.length > 0) result.debateItems = grouped.debateItems;
+      if (grouped.devItems.length > 0) result.devItems = grouped.devItems;
 
       return result;
 
@@ -212,8 +276,8 @@ export class ItemProcessor {
       }
     }
 
-    // Sort by quality/relevance
-    validatedItems = this.rankItems(validatedItems, sourceInfo);
+    // Sort by quality/relevance, adjusted by reader feedback
+    validatedItems = this.rankItems(validatedItems, sourceInfo, await this.getFeedbackSignals());
 
     // Update result with validated items
     enhancedResult.totalItems = validatedItems.length;
@@ -290,7 +354,8 @@ export class ItemProcessor {
     }
 
     // Calculate confidence if not set or enhance existing
-    if (!enhancedItem.confidence || enhancedItem.confidence === 'low') {
+    // (items demoted by the hallucination check keep their demotion)
+    if (!enhancedItem.confidence || (enhancedItem.confidence === 'low' && !this.llmService.isHallucinationDemoted(item))) {
       enhancedItem.confidence = this.calculateItemConfidence(enhancedItem, sourceInfo);
     }
 
@@ -381,10 +446,12 @@ export class ItemProcessor {
   /**
    * Rank items by relevance and quality
    */
-  private rankItems(items: any[], sourceInfo: { weight: number }): any[] {
+  private rankItems(items: any[], sourceInfo: { weight: number }, signals?: FeedbackSignals): any[] {
+    const score = (item: any) => (item.qualityScore || 0) + (signals ? feedbackBoost(item, signals) : 0);
+
     return items.sort((a, b) => {
-      // Primary: Quality score
-      const qualityDiff = (b.qualityScore || 0) - (a.qualityScore || 0);
+      // Primary: Quality score, nudged towards entities and types readers voted up
+      const qualityDiff = score(b) - score(a);
       if (Math.abs(qualityDiff) > 0.1) return qualityDiff;
       
       // Secondary: Confidence
@@ -399,6 +466,18 @@ export class ItemProcessor {
     });
   }
 
+  /**
+   * Feedback preferences - ranking still works without them
+   */
+  private async getFeedbackSignals(): Promise<FeedbackSignals | undefined> {
+    try {
+      return await this.feedbackService.getRankingSignals();
+    } catch (error) {
+      console.error('⚠️ Loading feedback signals failed:', error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
   /**
    * Extract company names from entities
    */
@@ -441,9 +520,9 @@ export class ItemProcessor {
   }
 
   /**
-   * Save items to database
+   * Save items to database (full item as JSON so cached reloads are lossless)
    */
-  private async saveItems(result: VideoParsingResult, videoId: string): Promise<void> {
+  private async saveItems(result: VideoParsingResult, videoId: string, runId?: string): Promise<void> {
     try {
       // Get internal video ID
       const videoRows = await this.db.query(
@@ -456,30 +535,35 @@ export class ItemProcessor {
       }
 
       const internalVideoId = videoRows[0].id;
-      const allItems = [
+      const allItems: any[] = [
         ...(result.newsItems || []),
         ...(result.debateItems || []),
         ...(result.devItems || [])
       ];
 
       // Save each item
-      for (const item of allItems) {
+      for (const [index, item] of allItems.entries()) {
         await this.db.run(`
           INSERT INTO items (
-            video_id, part, type, title, summary, entities, 
-            timestamp_hms, links, confidence, relevance_score
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            run_id, video_id, part, type, title, summary, entities,
+            timestamp_hms, links, confidence, relevance_score, quality_score,
+            item_index, item_data
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `, [
+          runId || null,
           internalVideoId,
           this.getPartForSourceType(result.sourceType),
-          item.type || result.sourceType,
+          item.type || item.changeType || result.sourceType,
           item.title || item.topic || 'Untitled',
           item.summary || item.whatWasDiscussed || item.whatChanged || '',
           JSON.stringify(item.entities || []),
-          item.timestamp,
+          item.timestamp || null,
           JSON.stringify(item.links || []),
           item.confidence,
-          item.qualityScore || 0.5
+          item.relevance_score ?? null,
+          item.qualityScore ?? null,
+          index,
+          JSON.stringify(item)
         ]);
       }
 
@@ -491,6 +575,47 @@ export class ItemProcessor {
     }
   }
 
+  /**
+   * Persist hallucination issues (one row per issue) for later review
+   */
+  private async saveHallucinationAudit(result: VideoParsingResult, runId?: string): Promise<void> {
+    if (!result.hallucinationAudit || result.hallucinationAudit.length === 0) return;
+
+    try {
+      let rows = 0;
+      for (const entry of result.hallucinationAudit) {
+        for (const issue of entry.issues) {
+          await this.db.run(`
+            INSERT INTO hallucination_issues (
+              run_id, video_id, source_type, item_title, issue_type, severity, description,
+              evidence, action, original_confidence, adjusted_confidence, detector_confidence
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `, [
+            runId || null,
+            entry.videoId,
+            entry.sourceType,
+            entry.itemTitle,
+            issue.type,
+            issue.severity,
+            issue.description,
+            issue.evidence || null,
+            entry.action,
+            entry.originalConfidence,
+            entry.adjustedConfidence,
+            entry.detectorConfidence
+          ]);
+          rows++;
+        }
+      }
+
+      console.log(`💾 Saved ${rows} hallucination issues to database`);
+
+    } catch (error) {
+      // Audit trail is non-critical - don't fail the video
+      console.error('Error saving hallucination issues:', error);
+    }
+  }
+
   /**
    * Map source type to part number
    */
@@ -515,7 +640,7 @@ export class ItemProcessor {
     const stats = await this.db.query(`
       SELECT 
         COUNT(*) as total_items,
-        AVG(relevance_score) as avg_quality,
+        AVG(quality_score) as avg_quality,
         confidence,
         COUNT(*) as count_by_confidence
       FROM items
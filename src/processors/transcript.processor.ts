@@ -1,104 +1,307 @@
-import { WhisperService } from '../services/whisper.service.js';
+import { WhisperService, WhisperTranscript } from '../services/whisper.service.js';
+import { RapidAPITranscriptService } from '../services/rapidapi-transcript.service.js';
+import { YouTubeService, selectCaptionTrack } from '../services/youtube.service.js';
+import { PodcastService } from '../services/podcast.service.js';
+import { WrittenSourceService } from '../services/written-source.service.js';
+import { GitHubService, parseReleaseUrl, releaseNotesLines } from '../services/github.service.js';
+import { ArxivService } from '../services/arxiv.service.js';
 import { getDatabase } from '../db/database.js';
-import { VideoMetadata } from '../types/youtube.types.js';
+import { upsertSql } from '../db/query.js';
+import { CaptionTrack, VideoMetadata } from '../types/youtube.types.js';
+import { TranscriptTier, TranscriptTierConfig, TranscriptTierStats } from '../types/transcript.types.js';
+import { EpisodeMedia } from '../types/podcast.types.js';
+import { ArticleMedia } from '../types/written-source.types.js';
+import { ReleaseMedia } from '../types/github.types.js';
+import { PaperMedia } from '../types/arxiv.types.js';
+import { DEFAULT_TRANSCRIPT_TIERS, TIER_BASE_QUALITY, WHISPER_SAVING_TIERS } from '../config/transcript.config.js';
 
 export interface ProcessedTranscript {
   videoId: string;
   text: string;
   segments: TranscriptSegment[];
   language: string;
-  source: 'whisper' | 'youtube-captions';
+  source: TranscriptTier | 'youtube-captions'; // youtube-captions: legacy rows
   qualityScore: number;
   duration: number;
   cost?: number;
 }
 
 export interface TranscriptSegment {
-  start: number; // seconds
-  end: number;   // seconds  
+  start: number; // seconds (articles, release notes, abstracts: paragraph index)
+  end: number;   // seconds (articles, release notes, abstracts: paragraph index + 1)
   text: string;
 }
 
+/**
+ * Video to transcribe - podcast episodes carry their media, written sources their article,
+ * GitHub sources their release, arXiv sources their paper
+ */
+export type TranscriptTarget = VideoMetadata & {
+  media?: EpisodeMedia | undefined;
+  article?: ArticleMedia | undefined;
+  release?: ReleaseMedia | undefined;
+  paper?: PaperMedia | undefined;
+};
+
+/**
+ * State shared by the tiers tried for one video
+ */
+interface TierContext {
+  captionTracks?: Promise<CaptionTrack[] | null>; // Listed once, for both caption tiers
+}
+
 export class TranscriptProcessor {
   private whisperService: WhisperService;
+  private rapidApiService: RapidAPITranscriptService | null = null;
+  private youtubeService: YouTubeService | null;
+  private githubService: GitHubService;
+  private arxivService: ArxivService;
+  private podcastService = new PodcastService();
+  private writtenSourceService = new WrittenSourceService();
+  private tiers: TranscriptTierConfig[] = DEFAULT_TRANSCRIPT_TIERS;
+  private tierStats: TranscriptTierStats = { bySource: {}, whisperMinutesSaved: 0, whisperMinutesUsed: 0 };
   private db;
 
-  constructor(openaiApiKey: string, maxWhisperMinutes: number = 180, rapidApiKey?: string, rapidApiHost?: string, rapidApiRateLimit?: number) {
-    const rapidApiConfig = rapidApiKey && rapidApiHost ? {
-      apiKey: rapidApiKey,
-      host: rapidApiHost,
-      rateLimit: rapidApiRateLimit || 10
-    } : undefined;
-    
-    this.whisperService = new WhisperService(openaiApiKey, maxWhisperMinutes, rapidApiConfig);
+  constructor(
+    openaiApiKey: string,
+    maxWhisperMinutes: number = 180,
+    rapidApiKey?: string,
+    rapidApiHost?: string,
+    rapidApiRateLimit?: number,
+    youtubeService?: YouTubeService,
+    githubService?: GitHubService,
+    arxivService?: ArxivService
+  ) {
+    if (rapidApiKey && rapidApiHost) {
+      this.rapidApiService = new RapidAPITranscriptService({
+        apiKey: rapidApiKey,
+        host: rapidApiHost,
+        rateLimit: rapidApiRateLimit || 10
+      });
+    }
+
+    // RapidAPI is its own tier here, so Whisper service only handles audio transcription
+    this.whisperService = new WhisperService(openaiApiKey, maxWhisperMinutes);
+    this.youtubeService = youtubeService || null;
+    this.githubService = githubService || new GitHubService();
+    this.arxivService = arxivService || new ArxivService();
     this.db = getDatabase();
   }
 
   /**
-   * Main method: Get transcript for video with automatic fallback
+   * Configure transcript tiers (order, enabled flags, quality thresholds)
    */
-  async processVideoTranscript(video: VideoMetadata): Promise<ProcessedTranscript | null> {
-    const { id: videoId, title, duration } = video;
+  setTiers(tiers: TranscriptTierConfig[]): void {
+    this.tiers = tiers;
+  }
+
+  /**
+   * Main method: Get transcript for video, trying cheapest tier first
+   */
+  async processVideoTranscript(video: TranscriptTarget): Promise<ProcessedTranscript | null> {
+    const { id: videoId, title } = video;
     
     console.log(`📝 Processing transcript for: ${title}`);
 
-    // Check if transcript already exists
-    const existingTranscript = await this.getExistingTranscript(videoId);
-    if (existingTranscript) {
-      console.log(`✅ Using existing transcript (${existingTranscript.source})`);
-      return existingTranscript;
-    }
+    // Caption tiers share one track listing per video
+    const context: TierContext = {};
 
-    // Transcribe with Whisper API
-    console.log(`🎙️ Transcribing with Whisper: ${title}`);
-    let processedTranscript: ProcessedTranscript | null = null;
-    const durationMinutes = duration / 60;
-    
-    // Check if we can afford to transcribe this video
-    if (!this.whisperService.canTranscribe(durationMinutes)) {
-      const usage = this.whisperService.getUsageStats();
-      console.log(`⚠ Skipping ${title}: Would exceed Whisper limit`);
-      console.log(`   Duration: ${durationMinutes.toFixed(1)}min, Remaining: ${usage.minutesRemaining.toFixed(1)}min`);
-      return null;
+    for (const tierConfig of this.tiers) {
+      if (!tierConfig.enabled) continue;
+
+      let transcript: ProcessedTranscript | null = null;
+      try {
+        transcript = await this.fetchFromTier(tierConfig.tier, video, context);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠ Tier ${tierConfig.tier} failed for ${videoId}: ${errorMessage}`);
+        continue;
+      }
+
+      if (!transcript) continue;
+
+      // A stored transcript is kept whatever its score - replacing it would mean paying again on every resume
+      if (tierConfig.tier !== 'cached' && transcript.qualityScore < tierConfig.minQuality) {
+        console.log(`⚠ Tier ${tierConfig.tier} quality ${transcript.qualityScore.toFixed(2)} below ${tierConfig.minQuality} - trying next tier`);
+        continue;
+      }
+
+      this.recordTierUsage(tierConfig.tier, transcript);
+
+      if (tierConfig.tier === 'cached') {
+        console.log(`✅ Using existing transcript (${transcript.source})`);
+      } else {
+        console.log(`✅ Transcript from ${transcript.source} (quality ${transcript.qualityScore.toFixed(2)})`);
+        await this.saveTranscript(transcript);
+        console.log(`💾 Transcript saved to database`);
+      }
+
+      return transcript;
     }
 
-    const estimatedCost = this.whisperService.estimateCost(durationMinutes);
-    console.log(`💰 Estimated cost: $${estimatedCost.toFixed(3)} (${durationMinutes.toFixed(1)} min)`);
+    console.error(`❌ No transcript tier succeeded for ${title}`);
+    return null;
+  }
 
-    try {
-      const whisperResult = await this.whisperService.transcribeVideo(videoId, title, duration);
-      
-      if (whisperResult) {
-        processedTranscript = {
+  /**
+   * Fetch transcript from a single tier (null when tier has nothing)
+   */
+  private async fetchFromTier(tier: TranscriptTier, video: TranscriptTarget, context: TierContext = {}): Promise<ProcessedTranscript | null> {
+    const { id: videoId, title, duration, media, article, release, paper } = video;
+    const isYouTube = !media && !article && !release && !paper;
+
+    switch (tier) {
+      case 'cached':
+        return this.getExistingTranscript(videoId);
+
+      case 'podcast-feed': {
+        if (!media?.transcriptUrl) return null;
+        console.log(`🎙️ Trying feed transcript for: ${title}`);
+        const feedTranscript = await this.podcastService.fetchTranscript(media);
+        return feedTranscript ? this.fromWhisperTranscript(videoId, feedTranscript, 'podcast-feed', duration) : null;
+      }
+
+      case 'article': {
+        if (!article) return null;
+        console.log(`📰 Extracting article text: ${title}`);
+        const extracted = await this.writtenSourceService.fetchArticle(article);
+        return extracted ? this.fromParagraphs(videoId, extracted.paragraphs, 'article') : null;
+      }
+
+      case 'github-release': {
+        if (!release) return null;
+        // Notes aren't stored with the video, so a resumed release reads them again
+        const body = release.body ?? await this.githubService.fetchReleaseNotes(release.url);
+        const lines = releaseNotesLines(body);
+        // A tag pushed without a release has no notes - it still announces the version
+        const { repo, tag } = parseReleaseUrl(release.url) || { repo: title, tag: '' };
+        return this.fromParagraphs(videoId, lines.length > 0 ? lines : [`${repo} ${tag}`.trim()], 'github-release');
+      }
+
+      case 'arxiv-abstract': {
+        if (!paper) return null;
+        // Abstracts aren't stored with the video either
+        const abstract = paper.abstract ?? (await this.arxivService.fetchPaper(paper.arxivId))?.abstract;
+        return abstract ? this.fromParagraphs(videoId, [abstract], 'arxiv-abstract') : null;
+      }
+
+      case 'youtube-manual':
+      case 'youtube-auto': {
+        if (!this.youtubeService || !isYouTube) return null;
+        const tracks = await (context.captionTracks ??= this.youtubeService.listCaptionTracks(videoId));
+        const track = selectCaptionTrack(tracks || [], tier === 'youtube-manual' ? 'manual' : 'auto');
+        if (!track) return null;
+        console.log(`📺 Trying ${tier} captions for: ${title}`);
+        const captions = await this.youtubeService.downloadCaptionTrack(videoId, track);
+        if (!captions || !captions.text) return null;
+        return {
           videoId,
-          text: whisperResult.text,
-          segments: whisperResult.segments?.map(seg => ({
-            start: seg.start,
-            end: seg.end,
-            text: seg.text,
-          })) || [],
-          language: whisperResult.language,
-          source: 'whisper',
-          qualityScore: this.calculateWhisperQualityScore(whisperResult.text, duration),
+          text: captions.text,
+          segments: captions.segments,
+          language: captions.language,
+          source: captions.source,
+          qualityScore: this.calculateQualityScore(captions.text, duration, TIER_BASE_QUALITY[captions.source]),
           duration,
         };
-        
-        console.log(`✅ Whisper transcription complete (${whisperResult.language})`);
       }
-    } catch (error) {
-      console.error(`❌ Whisper transcription failed for ${videoId}:`, error);
-      return null;
-    }
 
-    // Save transcript to database
-    if (processedTranscript) {
-      await this.saveTranscript(processedTranscript);
-      console.log(`💾 Transcript saved to database`);
+      case 'rapidapi': {
+        if (!this.rapidApiService || !isYouTube) return null;
+        const rapidTranscript = await this.rapidApiService.fetchTranscript(videoId, title);
+        return rapidTranscript ? this.fromWhisperTranscript(videoId, rapidTranscript, 'rapidapi', duration) : null;
+      }
+
+      case 'whisper': {
+        if (article || release || paper) return null;
+        console.log(`🎙️ Transcribing with Whisper: ${title}`);
+
+        // WhisperService checks the budget before each paid step - podcast audio again once the download is measured,
+        // YouTube videos still get scraped captions when the budget is spent
+        const whisperResult = media
+          ? await this.whisperService.transcribeAudioUrl(media.audioUrl, videoId, title, duration)
+          : await this.whisperService.transcribeVideo(videoId, title, duration);
+        if (!whisperResult) return null;
+
+        // Feeds without itunes:duration leave the length to the downloaded audio
+        const transcribedDuration = whisperResult.duration || duration;
+
+        // Whisper service may fall back to free caption scraping
+        const transcript = this.fromWhisperTranscript(videoId, whisperResult, whisperResult.source, transcribedDuration);
+        if (whisperResult.source === 'whisper') {
+          const durationMinutes = transcribedDuration / 60;
+          transcript.cost = this.whisperService.estimateCost(durationMinutes);
+          console.log(`💰 Cost: $${transcript.cost.toFixed(3)} (${durationMinutes.toFixed(1)} min)`);
+        }
+        return transcript;
+      }
     }
+  }
+
+  /**
+   * Convert service transcript into processed transcript for a tier
+   */
+  private fromWhisperTranscript(
+    videoId: string,
+    result: Pick<WhisperTranscript, 'text' | 'segments' | 'language'>,
+    source: Exclude<TranscriptTier, 'cached'>,
+    duration: number
+  ): ProcessedTranscript {
+    return {
+      videoId,
+      text: result.text,
+      segments: result.segments?.map(seg => ({
+        start: seg.start,
+        end: seg.end,
+        text: seg.text,
+      })) || [],
+      language: result.language,
+      source,
+      qualityScore: this.calculateQualityScore(result.text, duration, TIER_BASE_QUALITY[source]),
+      duration,
+    };
+  }
 
-    return processedTranscript;
+  /**
+   * Written text (articles, release notes, abstracts) as a transcript: paragraphs take the place of timed segments
+   */
+  private fromParagraphs(videoId: string, paragraphs: string[], source: 'article' | 'github-release' | 'arxiv-abstract'): ProcessedTranscript {
+    const text = paragraphs.join('\n\n');
+    return {
+      videoId,
+      text,
+      segments: paragraphs.map((paragraph, index) => ({ start: index, end: index + 1, text: paragraph })),
+      language: 'unknown',
+      source,
+      qualityScore: this.calculateQualityScore(text, 0, TIER_BASE_QUALITY[source]),
+      duration: 0,
+    };
   }
 
+  /**
+   * Track which tier served each transcript and Whisper minutes avoided
+   */
+  private recordTierUsage(tier: TranscriptTier, transcript: ProcessedTranscript): void {
+    const key: TranscriptTier = tier === 'cached' ? 'cached' : transcript.source as TranscriptTier;
+    this.tierStats.bySource[key] = (this.tierStats.bySource[key] || 0) + 1;
+
+    const minutes = transcript.duration / 60;
+    if (key === 'whisper') {
+      this.tierStats.whisperMinutesUsed += minutes;
+    } else if (WHISPER_SAVING_TIERS.includes(key)) {
+      this.tierStats.whisperMinutesSaved += minutes;
+    }
+  }
+
+  /**
+   * Get per-tier usage since processor was created
+   */
+  getTierStats(): TranscriptTierStats {
+    return {
+      bySource: { ...this.tierStats.bySource },
+      whisperMinutesSaved: this.tierStats.whisperMinutesSaved,
+      whisperMinutesUsed: this.tierStats.whisperMinutesUsed,
+    };
+  }
 
   /**
    * Check if transcript already exists in database
@@ -150,14 +353,16 @@ export class TranscriptProcessor {
       const internalVideoId = videoRows[0].id;
 
       // Insert transcript
-      await this.db.run(`
-        INSERT OR REPLACE INTO transcripts (video_id, text, segments, quality_score)
-        VALUES (?, ?, ?, ?)
-      `, [
+      await this.db.run(upsertSql(
+        'transcripts',
+        ['video_id', 'text', 'segments', 'quality_score', 'transcript_source'],
+        ['video_id']
+      ), [
         internalVideoId,
         transcript.text,
         JSON.stringify(transcript.segments),
         transcript.qualityScore,
+        transcript.source,
       ]);
 
       // Update video with transcript info
@@ -174,16 +379,16 @@ export class TranscriptProcessor {
   }
 
   /**
-   * Calculate quality score for Whisper transcripts
+   * Calculate quality score for transcripts (base score depends on tier)
    */
-  private calculateWhisperQualityScore(text: string, duration: number): number {
+  private calculateQualityScore(text: string, duration: number, baseScore: number = 0.7): number {
     // Basic heuristics for transcript quality
     const wordCount = text.split(' ').length;
     const wordsPerMinute = wordCount / (duration / 60);
     
     // Typical speaking rate is 150-200 wpm
     // Lower or higher rates might indicate poor transcription
-    let qualityScore = 0.7; // Base score for Whisper
+    let qualityScore = baseScore;
     
     if (wordsPerMinute >= 100 && wordsPerMinute <= 250) {
       qualityScore += 0.1; // Reasonable speaking rate
@@ -216,7 +421,7 @@ export class TranscriptProcessor {
     const stats = await this.db.query(`
       SELECT 
         COUNT(*) as total,
-        SUM(CASE WHEN v.transcript_source = 'captions' THEN 1 ELSE 0 END) as captions,
+        SUM(CASE WHEN v.transcript_source IN ('podcast-feed', 'youtube-manual', 'youtube-auto', 'youtube-captions') THEN 1 ELSE 0 END) as captions,
         SUM(CASE WHEN v.transcript_source = 'whisper' THEN 1 ELSE 0 END) as whisper,
         AVG(t.quality_score) as avg_quality
       FROM transcripts t
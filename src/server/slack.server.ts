@@ -0,0 +1,182 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { FeedbackService } from '../services/feedback.service.js';
+import { SearchService, parseSearchQuery } from '../services/search.service.js';
+import { SlackService, FEEDBACK_ACTION_PREFIX } from '../services/slack.service.js';
+import { FeedbackValue } from '../types/feedback.types.js';
+
+export interface SlackServerConfig {
+  signingSecret: string;           // Slack app "Signing Secret"
+  botToken?: string | undefined;   // Only needed for Web API calls - replies use the HTTP response
+}
+
+const MAX_REQUEST_AGE_SECONDS = 5 * 60; // Slack's replay window
+const MAX_BODY_BYTES = 1024 * 1024;
+const FEEDBACK_VALUES: FeedbackValue[] = ['up', 'down', 'not_ai'];
+const SEARCH_RESULT_LIMIT = 10;
+
+const SEARCH_USAGE = [
+  '*/nyheter <søk>* – søk i tidligere saker',
+  'Filtre: `entity:Gemini` `section:news|debate|dev` `since:7d` `from:2025-01-01` `to:2025-01-31`',
+  'Eksempel: `/nyheter gemini since:7d`'
+].join('\n');
+
+/**
+ * Verify a request's X-Slack-Signature (HMAC-SHA256 over "v0:<timestamp>:<raw body>")
+ */
+export function verifySlackSignature(
+  signingSecret: string,
+  timestamp: string | undefined,
+  signature: string | undefined,
+  body: string,
+  now: number = Date.now()
+): boolean {
+  if (!timestamp || !signature) return false;
+
+  const age = Math.abs(now / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > MAX_REQUEST_AGE_SECONDS) return false;
+
+  const expected = Buffer.from(`v0=${createHmac('sha256', signingSecret).update(`v0:${timestamp}:${body}`).digest('hex')}`);
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * HTTP endpoint for Slack interactivity (POST /slack/interactions) and slash commands (POST /slack/commands)
+ */
+export class SlackServer {
+  private server: Server;
+  private feedbackService: FeedbackService;
+  private searchService: SearchService;
+  private slackService: SlackService;
+
+  constructor(private config: SlackServerConfig) {
+    this.feedbackService = new FeedbackService();
+    this.searchService = new SearchService();
+    this.slackService = new SlackService(config.botToken || '');
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        console.error('❌ Slack request failed:', error instanceof Error ? error.message : error);
+        if (!res.headersSent) res.writeHead(500).end();
+      });
+    });
+  }
+
+  /**
+   * Listen on a port (0 picks a free one) and return the bound port
+   */
+  async start(port: number, host?: string): Promise<number> {
+    await new Promise<void>(resolve => this.server.listen(port, host, resolve));
+    const boundPort = (this.server.address() as AddressInfo).port;
+    console.log(`🔌 Slack endpoint listening on port ${boundPort}`);
+    return boundPort;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = (req.url || '').split('?')[0];
+    if (req.method !== 'POST' || (path !== '/slack/interactions' && path !== '/slack/commands')) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const body = await readBody(req);
+    if (body === null) {
+      res.writeHead(413).end();
+      return;
+    }
+
+    const timestamp = req.headers['x-slack-request-timestamp'];
+    const signature = req.headers['x-slack-signature'];
+    if (!verifySlackSignature(this.config.signingSecret, headerValue(timestamp), headerValue(signature), body)) {
+      console.warn('⚠️ Rejected Slack request with invalid signature');
+      res.writeHead(401).end();
+      return;
+    }
+
+    const form = new URLSearchParams(body);
+    if (path === '/slack/commands') {
+      const reply = await this.handleCommand(form.get('command') || '', form.get('text') || '');
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(reply));
+      return;
+    }
+
+    const payload = form.get('payload');
+    if (!payload) {
+      res.writeHead(400).end();
+      return;
+    }
+
+    await this.handleInteraction(JSON.parse(payload));
+    res.writeHead(200).end();
+  }
+
+  /**
+   * Slash commands - answered in the HTTP response, visible only to the caller
+   */
+  private async handleCommand(command: string, text: string): Promise<any> {
+    if (command !== '/nyheter') {
+      return { response_type: 'ephemeral', text: `Ukjent kommando: ${command}` };
+    }
+    if (!text.trim()) {
+      return { response_type: 'ephemeral', text: SEARCH_USAGE };
+    }
+
+    let query;
+    try {
+      query = parseSearchQuery(text);
+    } catch (error) {
+      return { response_type: 'ephemeral', text: `${error instanceof Error ? error.message : String(error)}\n\n${SEARCH_USAGE}` };
+    }
+
+    const results = await this.searchService.search(query, SEARCH_RESULT_LIMIT);
+    return {
+      response_type: 'ephemeral',
+      text: `${results.length} treff for “${text}”`, // Fallback text
+      blocks: await this.slackService.buildSearchBlocks(text, results)
+    };
+  }
+
+  /**
+   * Store feedback from block_actions payloads; other interaction types are acknowledged and ignored
+   */
+  private async handleInteraction(payload: any): Promise<void> {
+    if (payload.type !== 'block_actions') return;
+
+    for (const action of payload.actions || []) {
+      if (typeof action.action_id !== 'string' || !action.action_id.startsWith(FEEDBACK_ACTION_PREFIX)) continue;
+
+      const value = action.action_id.slice(FEEDBACK_ACTION_PREFIX.length) as FeedbackValue;
+      if (!FEEDBACK_VALUES.includes(value)) continue;
+
+      const { runId, itemKey } = JSON.parse(action.value || '{}');
+      if (!runId || !itemKey || !payload.user?.id) continue;
+
+      await this.feedbackService.record({ itemKey, runId, userId: payload.user.id, value });
+    }
+  }
+}
+
+/**
+ * Raw request body (the signature covers the exact bytes), or null when too large
+ */
+async function readBody(req: IncomingMessage): Promise<string | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) return null;
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
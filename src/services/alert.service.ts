@@ -0,0 +1,137 @@
+import { getDatabase, DatabaseInterface } from '../db/database.js';
+import { Cluster } from '../processors/dedup.processor.js';
+import { SlackService } from './slack.service.js';
+import { NewsItem } from '../types/schemas.js';
+import { AlertConfig, BreakingAlert } from '../types/alert.types.js';
+
+export interface AlertDeliveryOptions {
+  slackChannelId: string;
+  runId: string;
+  dryRun?: boolean | undefined;
+}
+
+/**
+ * Breaking stories in dedup clusters: a news item marked impact 'breaking' with high relevance,
+ * covered by at least minChannels distinct channels
+ */
+export function selectBreakingAlerts(clusters: Cluster[], config: Pick<AlertConfig, 'minRelevance' | 'minChannels'>): BreakingAlert[] {
+  const alerts: BreakingAlert[] = [];
+
+  for (const cluster of clusters) {
+    const channelIds = [...new Set(cluster.members.map(member => member.channelId).filter(Boolean))];
+    if (channelIds.length < config.minChannels) continue;
+
+    // The dedup canonical may be a calmer take on the story - alert with the most relevant breaking member
+    const item = cluster.members
+      .filter((member): member is NewsItem & { itemId: string } =>
+        'summary' in member && 'entities' in member && member.impact === 'breaking' &&
+        (member.relevance_score || 0) >= config.minRelevance)
+      .sort((a, b) => (b.relevance_score || 0) - (a.relevance_score || 0))[0];
+    if (!item) continue;
+
+    alerts.push({
+      itemKey: item.itemId,
+      item,
+      memberKeys: [...new Set(cluster.members.map(member => member.itemId))],
+      channelIds
+    });
+  }
+
+  return alerts;
+}
+
+/**
+ * Posts breaking-news alerts once per story and remembers what was announced
+ */
+export class AlertService {
+  private db;
+
+  constructor(private slackService: SlackService) {
+    this.db = getDatabase();
+  }
+
+  /**
+   * Post alerts for stories not announced before. Stories already alerted pick up their new
+   * cluster members instead, so the daily brief recognizes them whichever member it shows.
+   * Returns the alerts that were posted (or would be, on dry runs).
+   */
+  async sendAlerts(alerts: BreakingAlert[], options: AlertDeliveryOptions): Promise<BreakingAlert[]> {
+    const sent: BreakingAlert[] = [];
+
+    for (const alert of alerts) {
+      const existingAlertId = await this.findAlertId(alert.memberKeys);
+      if (existingAlertId) {
+        await this.recordItems(this.db, existingAlertId, alert.memberKeys);
+        continue;
+      }
+
+      if (options.dryRun) {
+        console.log(`🧪 Would alert: ${alert.item.title} (${alert.channelIds.length} channels)`);
+        sent.push(alert);
+        continue;
+      }
+
+      const result = await this.slackService.sendAlert(alert, options.slackChannelId);
+      if (!result.success) {
+        // Not recorded, so the next poll tries again
+        console.error(`⚠️ Breaking alert failed for ${alert.itemKey}: ${result.error}`);
+        continue;
+      }
+
+      await this.db.transaction(async tx => {
+        await tx.run(`
+          INSERT INTO breaking_alerts (id, run_id, title, video_id, channel_ids, slack_channel_id, message_ts, alerted_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          alert.itemKey,
+          options.runId,
+          alert.item.title,
+          alert.item.videoId,
+          JSON.stringify(alert.channelIds),
+          options.slackChannelId,
+          result.timestamp || null,
+          new Date().toISOString()
+        ]);
+        await this.recordItems(tx, alert.itemKey, alert.memberKeys);
+      });
+
+      console.log(`🚨 Breaking alert posted: ${alert.item.title}`);
+      sent.push(alert);
+    }
+
+    return sent;
+  }
+
+  /**
+   * Which of these item keys belong to an already announced story
+   */
+  async getAnnouncedItemKeys(itemKeys: string[]): Promise<string[]> {
+    if (itemKeys.length === 0) return [];
+
+    const rows = await this.db.query(
+      `SELECT item_key FROM breaking_alert_items WHERE item_key IN (${itemKeys.map(() => '?').join(', ')})`,
+      itemKeys
+    );
+    return rows.map(row => row.item_key);
+  }
+
+  /**
+   * Alert already covering any of these item keys
+   */
+  private async findAlertId(itemKeys: string[]): Promise<string | null> {
+    const rows = await this.db.query(
+      `SELECT alert_id FROM breaking_alert_items WHERE item_key IN (${itemKeys.map(() => '?').join(', ')}) LIMIT 1`,
+      itemKeys
+    );
+    return rows[0]?.alert_id ?? null;
+  }
+
+  /**
+   * Link item keys to an alert (inside the alert's transaction when it is new)
+   */
+  private async recordItems(db: DatabaseInterface, alertId: string, itemKeys: string[]): Promise<void> {
+    for (const itemKey of itemKeys) {
+      await db.run('INSERT OR IGNORE INTO breaking_alert_items (item_key, alert_id) VALUES (?, ?)', [itemKey, alertId]);
+    }
+  }
+}
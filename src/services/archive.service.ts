@@ -0,0 +1,372 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getDatabase } from '../db/database.js';
+import { loadRunItems } from '../db/items.js';
+import { upsertSql } from '../db/query.js';
+import { SlackBriefData } from './slack.service.js';
+import { NewsItem, DebateItem, DevItem } from '../types/schemas.js';
+import {
+  selectBriefSections, formatBriefDate, getBriefLabels, videoTimestampUrl, paperMentions, formatAuthors, BriefSections, BriefLabels
+} from '../utils/brief-sections.js';
+import { escapeHtml } from '../utils/html.js';
+
+export interface ArchiveEntry {
+  runId: string;
+  generatedAt: Date;
+  slug: string; // File name without extension
+  counts: { news: number; debate: number; dev: number };
+}
+
+type AnyItem = NewsItem | DebateItem | DevItem;
+
+// Section anchors are stable so links into old briefs keep working
+const SECTION_ANCHORS = { news: 'news', research: 'research', debate: 'debate', dev: 'dev', deepDives: 'deep-dives' } as const;
+
+/**
+ * Static Markdown/HTML archive of delivered briefs
+ */
+export class ArchiveService {
+  private db;
+
+  constructor() {
+    this.db = getDatabase();
+  }
+
+  /**
+   * Store the brief a run delivered (re-delivery of a resumed run replaces it)
+   */
+  async saveBrief(briefData: SlackBriefData): Promise<void> {
+    await this.db.run(
+      upsertSql('briefs', ['run_id', 'generated_at', 'brief_data'], ['run_id']),
+      [briefData.runId, briefData.generatedAt.toISOString(), JSON.stringify(briefData)]
+    );
+  }
+
+  /**
+   * Load a run's brief - the stored one, or rebuilt from its items for runs that predate briefs
+   */
+  async loadBrief(runId: string): Promise<SlackBriefData | null> {
+    const runs = await this.db.query('SELECT * FROM runs WHERE id = ?', [runId]);
+    const run = runs[0];
+    if (!run) return null;
+
+    const stored = await this.db.query('SELECT brief_data FROM briefs WHERE run_id = ?', [runId]);
+    if (stored[0]) {
+      const briefData = JSON.parse(stored[0].brief_data);
+      return { ...briefData, generatedAt: new Date(briefData.generatedAt) };
+    }
+
+    const { newsItems, debateItems, devItems } = await loadRunItems(this.db, runId);
+    const stats = run.stats ? JSON.parse(run.stats) : {};
+
+    return {
+      newsItems,
+      debateItems,
+      devItems,
+      runId,
+      generatedAt: new Date(run.finished_at || run.started_at),
+      stats: {
+        totalVideos: stats.videosTranscribed || 0,
+        totalItems: newsItems.length + debateItems.length + devItems.length,
+        processingTimeMs: stats.totalProcessingTimeMs || 0,
+        cost: stats.totalCost || 0
+      }
+    };
+  }
+
+  /**
+   * Write every archived run plus index pages to outDir
+   */
+  async rebuild(outDir: string): Promise<ArchiveEntry[]> {
+    const runRows = await this.db.query(`
+      SELECT r.id FROM runs r
+      WHERE r.kind = 'brief' AND (
+        EXISTS (SELECT 1 FROM briefs b WHERE b.run_id = r.id)
+        OR (r.status = 'success' AND EXISTS (
+          SELECT 1 FROM items i JOIN videos v ON i.video_id = v.id
+          WHERE i.run_id = r.id OR v.run_id = r.id
+        ))
+      )
+    `);
+    const channelNames = await this.getChannelNames();
+    const entries: ArchiveEntry[] = [];
+
+    await mkdir(outDir, { recursive: true });
+
+    for (const row of runRows) {
+      const briefData = await this.loadBrief(row.id);
+      if (!briefData) continue;
+
+      const sections = selectBriefSections(briefData);
+      const entry: ArchiveEntry = {
+        runId: briefData.runId,
+        generatedAt: briefData.generatedAt,
+        slug: `${briefData.generatedAt.toISOString().slice(0, 10)}-${briefData.runId}`,
+        counts: { news: sections.newsItems.length, debate: sections.debateItems.length, dev: sections.devItems.length }
+      };
+
+      await writeFile(join(outDir, `${entry.slug}.md`), this.renderMarkdown(briefData, channelNames));
+      await writeFile(join(outDir, `${entry.slug}.html`), this.renderHtml(briefData, channelNames));
+      entries.push(entry);
+    }
+
+    entries.sort((a, b) => b.generatedAt.getTime() - a.generatedAt.getTime());
+    await writeFile(join(outDir, 'index.md'), this.renderIndexMarkdown(entries));
+    await writeFile(join(outDir, 'index.html'), this.renderIndexHtml(entries));
+
+    console.log(`📚 Archive rebuilt: ${entries.length} briefs in ${outDir}`);
+    return entries;
+  }
+
+  /**
+   * Render one brief as Markdown
+   */
+  renderMarkdown(briefData: SlackBriefData, channelNames: Map<string, string> = new Map()): string {
+    const labels = getBriefLabels(briefData.language);
+    const sections = selectBriefSections(briefData);
+    const channel = (item: AnyItem) => channelNames.get(item.channelId) || 'AI Kanal';
+    const videoLink = (item: AnyItem, timestamp?: string) =>
+      `[▶ ${timestamp || labels.watchVideo}](${videoTimestampUrl(item, timestamp)})`;
+
+    const lines: string[] = [
+      `# 🤖 ARTI AI-brief • ${formatBriefDate(briefData.generatedAt, briefData.language)}`,
+      '',
+      `📊 ${briefData.stats.totalVideos} ${labels.videos} • ${briefData.stats.totalItems} items • $${briefData.stats.cost.toFixed(4)}`,
+      '',
+      this.presentSections(sections, labels).map(([anchor, title]) => `[${title}](#${anchor})`).join(' • '),
+      ''
+    ];
+
+    const heading = (anchor: string, title: string, count: number) => {
+      lines.push(`<a id="${anchor}"></a>`, '', `## ${title} (${count})`, '');
+    };
+
+    if (sections.newsItems.length > 0) {
+      heading(SECTION_ANCHORS.news, labels.news, sections.newsItems.length);
+      sections.newsItems.forEach((item, index) => {
+        lines.push(`### <a id="news-${index + 1}"></a>${item.title}`, '', item.summary, '',
+          `📺 ${channel(item)} • ${videoLink(item, item.timestamp)} • (${confidenceLabel(item)})`, '');
+      });
+    }
+
+    if (sections.researchItems.length > 0) {
+      heading(SECTION_ANCHORS.research, labels.research, sections.researchItems.length);
+      sections.researchItems.forEach((item, index) => {
+        lines.push(`### <a id="research-${index + 1}"></a>${item.title}`, '', item.summary, '');
+        if (item.entities.length) lines.push(`_${formatAuthors(item.entities)}_`, '');
+        const mentions = paperMentions(briefData, item);
+        if (mentions.length) {
+          lines.push(`**${labels.discussedIn}:** ${mentions.map(mention => `[${mention.title}](${mention.url})`).join(' • ')}`, '');
+        }
+        lines.push(`📄 ${channel(item)} • [${labels.abstract}](${item.sourceUrl})${item.paper ? ` • [PDF](${item.paper.pdfUrl})` : ''}`, '');
+      });
+    }
+
+    if (sections.debateItems.length > 0) {
+      heading(SECTION_ANCHORS.debate, labels.debate, sections.debateItems.length);
+      sections.debateItems.forEach((item, index) => {
+        lines.push(`### <a id="debate-${index + 1}"></a>${item.topic}`, '',
+          `**${labels.discussed}:** ${item.whatWasDiscussed}`, '');
+        if (item.positions.pro.length) lines.push(`- **Pro:** ${item.positions.pro.join(', ')}`);
+        if (item.positions.contra.length) lines.push(`- **Contra:** ${item.positions.contra.join(', ')}`);
+        lines.push('', `**${labels.implications}:** ${item.implications}`, '');
+        for (const quote of item.keyQuotes) {
+          lines.push(`> “${quote.quote}”${quote.speaker ? ` — ${quote.speaker}` : ''} ${videoLink(item, quote.timestamp)}`, '');
+        }
+        lines.push(`📺 ${channel(item)} • ${videoLink(item, item.timestamp)}`, '');
+      });
+    }
+
+    if (sections.devItems.length > 0) {
+      heading(SECTION_ANCHORS.dev, labels.dev, sections.devItems.length);
+      sections.devItems.forEach((item, index) => {
+        lines.push(`### <a id="dev-${index + 1}"></a>${item.title}`, '', item.whatChanged, '',
+          `**${labels.action}:** ${labels.developerActions[item.developerAction] || item.developerAction} • (${confidenceLabel(item)})`, '');
+        if (item.codeExample) lines.push('```', item.codeExample, '```', '');
+        for (const link of item.links) lines.push(`- <${link}>`);
+        if (item.links.length) lines.push('');
+        lines.push(`📺 ${channel(item)} • ${videoLink(item, item.timestamp)}`, '');
+      });
+    }
+
+    if (sections.deepDiveItems.length > 0) {
+      heading(SECTION_ANCHORS.deepDives, labels.deepDives, sections.deepDiveItems.length);
+      for (const item of sections.deepDiveItems) {
+        lines.push(`- **${item.topic}** — ${item.implications} ${videoLink(item, item.timestamp)}`);
+      }
+      lines.push('');
+    }
+
+    lines.push('---', '', `[← Arkiv](index.md) • ${briefData.runId}`, '');
+    return lines.join('\n');
+  }
+
+  /**
+   * Render one brief as a standalone HTML page
+   */
+  renderHtml(briefData: SlackBriefData, channelNames: Map<string, string> = new Map()): string {
+    const labels = getBriefLabels(briefData.language);
+    const sections = selectBriefSections(briefData);
+    const date = formatBriefDate(briefData.generatedAt, briefData.language);
+    const channel = (item: AnyItem) => escapeHtml(channelNames.get(item.channelId) || 'AI Kanal');
+    const videoLink = (item: AnyItem, timestamp?: string) =>
+      `<a href="${escapeHtml(videoTimestampUrl(item, timestamp))}">▶ ${escapeHtml(timestamp || labels.watchVideo)}</a>`;
+
+    const body: string[] = [];
+    const section = (anchor: string, title: string, count: number, content: string[]) => {
+      body.push(`<section id="${anchor}">\n<h2>${escapeHtml(title)} (${count})</h2>\n${content.join('\n')}\n</section>`);
+    };
+
+    if (sections.newsItems.length > 0) {
+      section(SECTION_ANCHORS.news, labels.news, sections.newsItems.length, sections.newsItems.map((item, index) => `<article id="news-${index + 1}">
+<h3>${escapeHtml(item.title)}</h3>
+<p>${escapeHtml(item.summary)}</p>
+<p class="meta">📺 ${channel(item)} • ${videoLink(item, item.timestamp)} • (${confidenceLabel(item)})</p>
+</article>`));
+    }
+
+    if (sections.researchItems.length > 0) {
+      section(SECTION_ANCHORS.research, labels.research, sections.researchItems.length, sections.researchItems.map((item, index) => {
+        const mentions = paperMentions(briefData, item);
+        return `<article id="research-${index + 1}">
+<h3>${escapeHtml(item.title)}</h3>
+<p>${escapeHtml(item.summary)}</p>
+${item.entities.length ? `<p><em>${escapeHtml(formatAuthors(item.entities))}</em></p>` : ''}
+${mentions.length ? `<p><strong>${labels.discussedIn}:</strong> ${mentions.map(mention =>
+  `<a href="${escapeHtml(mention.url)}">${escapeHtml(mention.title)}</a>`).join(' • ')}</p>` : ''}
+<p class="meta">📄 ${channel(item)} • <a href="${escapeHtml(item.sourceUrl)}">${labels.abstract}</a>${item.paper ? ` • <a href="${escapeHtml(item.paper.pdfUrl)}">PDF</a>` : ''}</p>
+</article>`;
+      }));
+    }
+
+    if (sections.debateItems.length > 0) {
+      section(SECTION_ANCHORS.debate, labels.debate, sections.debateItems.length, sections.debateItems.map((item, index) => {
+        const positions = [
+          item.positions.pro.length ? `<li><strong>Pro:</strong> ${escapeHtml(item.positions.pro.join(', '))}</li>` : '',
+          item.positions.contra.length ? `<li><strong>Contra:</strong> ${escapeHtml(item.positions.contra.join(', '))}</li>` : ''
+        ].join('');
+        const quotes = item.keyQuotes.map(quote =>
+          `<blockquote>“${escapeHtml(quote.quote)}”${quote.speaker ? ` — ${escapeHtml(quote.speaker)}` : ''} ${videoLink(item, quote.timestamp)}</blockquote>`
+        ).join('\n');
+        return `<article id="debate-${index + 1}">
+<h3>${escapeHtml(item.topic)}</h3>
+<p><strong>${labels.discussed}:</strong> ${escapeHtml(item.whatWasDiscussed)}</p>
+${positions ? `<ul>${positions}</ul>` : ''}
+<p><strong>${labels.implications}:</strong> ${escapeHtml(item.implications)}</p>
+${quotes}
+<p class="meta">📺 ${channel(item)} • ${videoLink(item, item.timestamp)}</p>
+</article>`;
+      }));
+    }
+
+    if (sections.devItems.length > 0) {
+      section(SECTION_ANCHORS.dev, labels.dev, sections.devItems.length, sections.devItems.map((item, index) => `<article id="dev-${index + 1}">
+<h3>${escapeHtml(item.title)}</h3>
+<p>${escapeHtml(item.whatChanged)}</p>
+<p><strong>${labels.action}:</strong> ${escapeHtml(labels.developerActions[item.developerAction] || item.developerAction)} • (${confidenceLabel(item)})</p>
+${item.codeExample ? `<pre><code>${escapeHtml(item.codeExample)}</code></pre>` : ''}
+${item.links.length ? `<ul>${item.links.map(link => `<li><a href="${escapeHtml(link)}">${escapeHtml(link)}</a></li>`).join('')}</ul>` : ''}
+<p class="meta">📺 ${channel(item)} • ${videoLink(item, item.timestamp)}</p>
+</article>`));
+    }
+
+    if (sections.deepDiveItems.length > 0) {
+      section(SECTION_ANCHORS.deepDives, labels.deepDives, sections.deepDiveItems.length, [`<ul>${sections.deepDiveItems.map(item =>
+        `<li><strong>${escapeHtml(item.topic)}</strong> — ${escapeHtml(item.implications)} ${videoLink(item, item.timestamp)}</li>`
+      ).join('\n')}</ul>`]);
+    }
+
+    const nav = this.presentSections(sections, labels)
+      .map(([anchor, title]) => `<a href="#${anchor}">${escapeHtml(title)}</a>`).join(' • ');
+
+    return this.htmlPage(`ARTI AI-brief • ${date}`, briefData.language || 'nb', `<header>
+<p><a href="index.html">← Arkiv</a></p>
+<h1>🤖 ARTI AI-brief • ${date}</h1>
+<p class="meta">📊 ${briefData.stats.totalVideos} ${labels.videos} • ${briefData.stats.totalItems} items • $${briefData.stats.cost.toFixed(4)}</p>
+<nav>${nav}</nav>
+</header>
+${body.join('\n')}
+<footer class="meta">${labels.generated} • ${escapeHtml(briefData.runId)}</footer>`);
+  }
+
+  /**
+   * Render the archive index as Markdown (newest first)
+   */
+  renderIndexMarkdown(entries: ArchiveEntry[]): string {
+    const lines = ['# 📚 ARTI AI-brief – arkiv', '', '| Dato | Nyheter | Debatter | Utviklere | Run |', '| --- | ---: | ---: | ---: | --- |'];
+    for (const entry of entries) {
+      lines.push(`| [${formatBriefDate(entry.generatedAt)}](${entry.slug}.md) | ${entry.counts.news} | ${entry.counts.debate} | ${entry.counts.dev} | ${entry.runId} |`);
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Render the archive index as HTML (newest first)
+   */
+  renderIndexHtml(entries: ArchiveEntry[]): string {
+    const rows = entries.map(entry => `<tr><td><a href="${entry.slug}.html">${formatBriefDate(entry.generatedAt)}</a></td>` +
+      `<td>${entry.counts.news}</td><td>${entry.counts.debate}</td><td>${entry.counts.dev}</td><td class="meta">${escapeHtml(entry.runId)}</td></tr>`);
+
+    return this.htmlPage('ARTI AI-brief – arkiv', 'nb', `<h1>📚 ARTI AI-brief – arkiv</h1>
+<table>
+<thead><tr><th>Dato</th><th>Nyheter</th><th>Debatter</th><th>Utviklere</th><th>Run</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>`);
+  }
+
+  /**
+   * Sections with items, as [anchor, title] for navigation
+   */
+  private presentSections(sections: BriefSections, labels: BriefLabels): Array<[string, string]> {
+    const present: Array<[string, string]> = [];
+    if (sections.newsItems.length > 0) present.push([SECTION_ANCHORS.news, labels.news]);
+    if (sections.researchItems.length > 0) present.push([SECTION_ANCHORS.research, labels.research]);
+    if (sections.debateItems.length > 0) present.push([SECTION_ANCHORS.debate, labels.debate]);
+    if (sections.devItems.length > 0) present.push([SECTION_ANCHORS.dev, labels.dev]);
+    if (sections.deepDiveItems.length > 0) present.push([SECTION_ANCHORS.deepDives, labels.deepDives]);
+    return present;
+  }
+
+  /**
+   * Wrap content in a standalone page with inline styles
+   */
+  private htmlPage(title: string, language: string, content: string): string {
+    return `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+body { max-width: 760px; margin: 0 auto; padding: 16px; font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; line-height: 1.5; color: #1d1c1d; }
+h2 { border-bottom: 1px solid #e8e8e8; padding-bottom: 4px; margin-top: 32px; }
+article { margin-bottom: 24px; }
+blockquote { margin: 8px 0; padding-left: 12px; border-left: 3px solid #e8e8e8; color: #454245; }
+pre { background: #f4f5f7; padding: 8px; overflow-x: auto; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e8e8e8; }
+a { color: #1264a3; }
+.meta { font-size: 13px; color: #616061; }
+</style>
+</head>
+<body>
+${content}
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Channel id -> source name for every source
+   */
+  private async getChannelNames(): Promise<Map<string, string>> {
+    const rows = await this.db.query('SELECT channel_id, name FROM sources');
+    return new Map(rows.map(row => [row.channel_id, row.name]));
+  }
+}
+
+function confidenceLabel(item: AnyItem): string {
+  return { high: 'H', medium: 'M', low: 'L' }[item.confidence];
+}
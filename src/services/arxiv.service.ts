@@ -0,0 +1,274 @@
+import { createHash } from 'node:crypto';
+import { NewsItem, ParsedItem } from '../types/schemas.js';
+import { ArxivListing, ArxivPaper, PaperMention } from '../types/arxiv.types.js';
+import { xmlAttribute, xmlElements, xmlText } from '../utils/xml.js';
+
+const ARXIV_API_URL = 'https://export.arxiv.org/api/query';
+const LISTING_FEED_URL = 'https://rss.arxiv.org/rss';
+
+/**
+ * Listing entries worth announcing: new submissions and cross-lists. Replacements are revisions
+ * of papers announced before.
+ */
+const ANNOUNCE_TYPES = ['new', 'cross'];
+
+/**
+ * Category shorthand for a listing feed: "cs.CL", or several joined with "+" ("cs.CL+cs.AI")
+ */
+const CATEGORY_PATTERN = /^[a-z-]+(\.[a-z-]+)?(\+[a-z-]+(\.[a-z-]+)?)*$/i;
+
+/**
+ * arXiv ids in links and text: arxiv.org/abs/2501.01234, arXiv:2501.01234v2, "arXiv 2501.01234"
+ */
+const ARXIV_REFERENCE = /arxiv(?:\.org\/(?:abs|pdf)\/|:\s*|\s+)(\d{4}\.\d{4,5})(?:v\d+)?/gi;
+
+/**
+ * Full paper titles shorter than this are too generic to find in other items' text
+ */
+const MIN_TITLE_MATCH_LENGTH = 20;
+
+/**
+ * arXiv: category listing feeds, filtered by keyword, as research papers
+ */
+export class ArxivService {
+  private apiUrl: string;
+
+  constructor(apiUrl: string = ARXIV_API_URL) {
+    this.apiUrl = apiUrl;
+  }
+
+  /**
+   * Fetch and parse a listing feed (or a category shorthand for one)
+   */
+  async fetchListing(feedUrl: string): Promise<ArxivListing> {
+    return parseArxivFeed(await this.fetchText(arxivListingUrl(feedUrl)));
+  }
+
+  /**
+   * Papers announced at or after a date that mention one of the keywords (all papers without keywords),
+   * oldest first - a listing's papers share one announcement time, so the caller's watermark settles ties
+   */
+  async getPapersSince(feedUrl: string, since: Date, keywords: string[] = []): Promise<ArxivPaper[]> {
+    const listing = await this.fetchListing(feedUrl);
+    return listing.papers
+      .filter(paper => new Date(paper.publishedAt) >= since && matchesKeywords(paper, keywords))
+      .sort((a, b) => new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime());
+  }
+
+  /**
+   * One paper from the arXiv API, or null when arXiv doesn't know the id
+   */
+  async fetchPaper(arxivId: string): Promise<ArxivPaper | null> {
+    const listing = parseArxivFeed(await this.fetchText(`${this.apiUrl}?id_list=${encodeURIComponent(arxivId)}`));
+    return listing.papers.find(paper => paper.arxivId === arxivId) || null;
+  }
+
+  private async fetchText(url: string): Promise<string> {
+    const response = await fetch(url, { headers: { 'User-Agent': 'ai-nyhetsagent' } });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} fetching ${url}`);
+    }
+
+    return response.text();
+  }
+}
+
+/**
+ * Listing feed URL for a category shorthand; anything else is taken as the feed URL
+ */
+export function arxivListingUrl(feedUrl: string): string {
+  const trimmed = feedUrl.trim();
+  return CATEGORY_PATTERN.test(trimmed) ? `${LISTING_FEED_URL}/${trimmed}` : trimmed;
+}
+
+/**
+ * Stable source id (sources.channel_id) for a listing feed and its keywords
+ */
+export function arxivChannelId(feedUrl: string, keywords: string[] = []): string {
+  return `arxiv_${createHash('sha256').update(`${arxivListingUrl(feedUrl)}\n${keywords.join(',')}`).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Stable paper id (videos.video_id) - the arXiv id without version
+ */
+export function arxivPaperId(arxivId: string): string {
+  return `arxiv_${arxivId}`;
+}
+
+export function arxivAbsUrl(arxivId: string): string {
+  return `https://arxiv.org/abs/${arxivId}`;
+}
+
+export function arxivPdfUrl(arxivId: string): string {
+  return `https://arxiv.org/pdf/${arxivId}`;
+}
+
+/**
+ * arXiv id (without version) in an abstract/PDF link or an "arXiv:" reference, or null
+ */
+export function parseArxivId(text: string): string | null {
+  return [...text.matchAll(ARXIV_REFERENCE)][0]?.[1] ?? null;
+}
+
+/**
+ * sources.keywords ("agents, RAG") as a list
+ */
+export function parseKeywords(keywords?: string | null): string[] {
+  return (keywords || '').split(',').map(keyword => keyword.trim()).filter(Boolean);
+}
+
+/**
+ * Papers in an RSS listing feed (rss.arxiv.org) or an Atom API response (export.arxiv.org/api)
+ */
+export function parseArxivFeed(xml: string): ArxivListing {
+  const atom = !/<rss[\s>]/i.test(xml) && /<feed[\s>]/i.test(xml);
+  const entryTag = atom ? 'entry' : 'item';
+  const feedHead = xml.split(new RegExp(`<${entryTag}[\\s>]`, 'i'))[0] || '';
+  const papers: ArxivPaper[] = [];
+
+  for (const element of xmlElements(xml, entryTag)) {
+    const announceType = xmlText(element, 'arxiv:announce_type');
+    if (announceType && !ANNOUNCE_TYPES.includes(announceType)) continue;
+
+    const arxivId = parseArxivId(xmlText(element, atom ? 'id' : 'link') || '');
+    const publishedAt = new Date(xmlText(element, atom ? 'published' : 'pubDate') || '');
+    if (!arxivId || isNaN(publishedAt.getTime())) continue;
+
+    const authors = atom
+      ? xmlElements(element, 'author').map(author => collapse(xmlText(author, 'name') || ''))
+      : (xmlText(element, 'dc:creator') || '').split(/,\s*|\s+and\s+/).map(collapse);
+    const categories = xmlElements(element, 'category')
+      .map(category => (atom ? xmlAttribute(category, 'term') : xmlText(category, 'category')) || '');
+
+    papers.push({
+      id: arxivPaperId(arxivId),
+      arxivId,
+      title: collapse(xmlText(element, 'title') || ''),
+      // Listing descriptions lead with "arXiv:<id> Announce Type: new Abstract: ..."
+      abstract: collapse((xmlText(element, atom ? 'summary' : 'description') || '').replace(/^[\s\S]*?\bAbstract:\s*/, '')),
+      authors: authors.filter(Boolean),
+      categories: categories.filter(Boolean),
+      publishedAt: publishedAt.toISOString(),
+      url: arxivAbsUrl(arxivId),
+      pdfUrl: arxivPdfUrl(arxivId)
+    });
+  }
+
+  return { title: collapse(xmlText(feedHead, 'title') || 'arXiv'), papers };
+}
+
+/**
+ * Whether a paper's title or abstract mentions one of the keywords (at a word start, any case)
+ */
+export function matchesKeywords(paper: Pick<ArxivPaper, 'title' | 'abstract'>, keywords: string[]): boolean {
+  if (keywords.length === 0) return true;
+  const text = `${paper.title} ${paper.abstract}`;
+  return keywords.some(keyword => new RegExp(`\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'i').test(text));
+}
+
+/**
+ * Research item for a paper, straight from its abstract (no LLM involved). Authors are the entities.
+ * videoId, channelId and sourceUrl are filled in by the item processor like for any other item.
+ */
+export function paperToResearchItem(
+  paper: { title: string; url: string; abstract: string; authors: string[] }
+): Omit<NewsItem, 'videoId' | 'channelId' | 'sourceUrl'> {
+  const arxivId = parseArxivId(paper.url) || '';
+
+  return {
+    title: clip(paper.title, 120),
+    summary: leadSentences(paper.abstract, 250) || clip(paper.title, 250),
+    entities: paper.authors,
+    type: 'research',
+    confidence: 'high',
+    rawContext: clip(paper.abstract, 500) || paper.title,
+    relevance_score: 5,
+    paper: { arxivId, pdfUrl: arxivPdfUrl(arxivId) }
+  };
+}
+
+/**
+ * Research item for an arXiv paper (as opposed to research news from commentary)
+ */
+export function isPaperItem(item: ParsedItem): item is NewsItem & { paper: NonNullable<NewsItem['paper']> } {
+  return 'summary' in item && Boolean(item.paper);
+}
+
+/**
+ * Items that discuss each paper, by arXiv id: items citing the paper's arXiv id, or naming its
+ * full title (or the short name before a colon, as in "DeepSeek-R1: Incentivizing ...")
+ */
+export function findPaperMentions(papers: NewsItem[], items: ParsedItem[]): Record<string, PaperMention[]> {
+  const mentions: Record<string, PaperMention[]> = {};
+  const discussions = items.filter(item => !isPaperItem(item)).map(item => ({
+    item,
+    ids: new Set([...itemText(item).matchAll(ARXIV_REFERENCE)].map(match => match[1]!)),
+    text: ` ${normalizeTitle(itemText(item))} `
+  }));
+
+  for (const paper of papers.filter(isPaperItem)) {
+    const names = paperNames(paper.title);
+
+    for (const { item, ids, text } of discussions) {
+      if (!ids.has(paper.paper.arxivId) && !names.some(name => text.includes(` ${name} `))) continue;
+
+      const mention = { title: 'topic' in item ? item.topic : item.title, url: item.sourceUrl };
+      const found = (mentions[paper.paper.arxivId] ||= []);
+      if (!found.some(existing => existing.url === mention.url && existing.title === mention.title)) found.push(mention);
+    }
+  }
+
+  return mentions;
+}
+
+/**
+ * Normalized names a paper goes by in commentary
+ */
+function paperNames(title: string): string[] {
+  const names: string[] = [];
+  const full = normalizeTitle(title);
+  if (full.length >= MIN_TITLE_MATCH_LENGTH) names.push(full);
+
+  const shortName = title.includes(':') ? normalizeTitle(title.split(':')[0]!) : '';
+  if (shortName.length >= 5 && shortName.split(' ').length <= 3) names.push(shortName);
+
+  return names;
+}
+
+/**
+ * Everything an item says, links included
+ */
+function itemText(item: ParsedItem): string {
+  const parts: Array<string | undefined> = 'topic' in item
+    ? [item.topic, item.whatWasDiscussed, item.implications, ...item.keyQuotes.map(quote => quote.quote)]
+    : 'summary' in item
+      ? [item.title, item.summary]
+      : [item.title, item.whatChanged, ...item.links];
+  return [...parts, item.rawContext].filter(Boolean).join(' ');
+}
+
+function normalizeTitle(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Whole sentences from the start of a text, up to max characters
+ */
+function leadSentences(text: string, max: number): string {
+  const sentences = text.match(/[^.!?]+[.!?]+(?=\s|$)/g) || [];
+  let lead = '';
+  for (const sentence of sentences) {
+    if ((lead + sentence).trim().length > max) break;
+    lead += sentence;
+  }
+  return lead.trim() || clip(text, max);
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function clip(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
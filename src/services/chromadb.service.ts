@@ -1,18 +1,17 @@
 import { ChromaClient } from 'chromadb';
 import { ParsedItem } from '../types/schemas.js';
 import { EmbeddingData } from './embedding.service.js';
+import { BaseVectorStore, SimilarityResult } from './vector-stores/base-vector-store.js';
 
-export interface SimilarityResult {
-  itemId: string;
-  similarity: number;
-  metadata: Record<string, any>;
-}
+export type { SimilarityResult };
 
-export class ChromaDBService {
+export class ChromaDBService extends BaseVectorStore {
   private client: ChromaClient;
-  private collectionName: string;
 
   constructor(host = 'localhost', port = 8000) {
+    // Use timestamp-based collection name for each run
+    super(`dedup_${Date.now()}`);
+
     // For development/testing, use in-memory database
     // For production, use external ChromaDB server
     if (process.env.NODE_ENV === 'production' && host && port) {
@@ -23,9 +22,6 @@ export class ChromaDBService {
       // Use in-memory ChromaDB for development/testing
       this.client = new ChromaClient();
     }
-    
-    // Use timestamp-based collection name for each run
-    this.collectionName = `dedup_${Date.now()}`;
   }
 
   /**
@@ -36,8 +32,10 @@ export class ChromaDBService {
       console.log(`🗄️ Initializing ChromaDB collection: ${this.collectionName}`);
 
       // Create collection (will be created if doesn't exist)
+      // Cosine space so that similarity = 1 - distance matches the other backends
       await this.client.createCollection({
         name: this.collectionName,
+        configuration: { hnsw: { space: 'cosine' } },
         metadata: {
           description: 'News item embeddings for deduplication',
           created_at: new Date().toISOString()
@@ -56,9 +54,7 @@ export class ChromaDBService {
    * Add embeddings to ChromaDB collection
    */
   async addEmbeddings(embeddingData: EmbeddingData[], items: ParsedItem[]): Promise<void> {
-    if (embeddingData.length !== items.length) {
-      throw new Error('Embedding data and items arrays must have the same length');
-    }
+    const metadatas = this.buildMetadata(embeddingData, items);
 
     try {
       console.log(`📥 Adding ${embeddingData.length} embeddings to ChromaDB`);
@@ -68,16 +64,6 @@ export class ChromaDBService {
       // Prepare data for ChromaDB
       const ids = embeddingData.map(data => data.itemId);
       const embeddings = embeddingData.map(data => data.embedding);
-      const metadatas = items.map((item, index) => ({
-        videoId: item.videoId,
-        channelId: item.channelId,
-        confidence: item.confidence,
-        canonicalKey: embeddingData[index].canonicalKey,
-        textContent: embeddingData[index].textContent,
-        title: 'title' in item ? item.title : 'topic' in item ? item.topic : '',
-        type: 'type' in item ? item.type : 'changeType' in item ? item.changeType : 'unknown',
-        timestamp: item.timestamp || null
-      }));
       const documents = embeddingData.map(data => data.textContent);
 
       await collection.add({
@@ -107,10 +93,10 @@ export class ChromaDBService {
     try {
       const collection = await this.client.getCollection({ name: this.collectionName });
 
+      // Ids are not metadata in ChromaDB, so over-fetch and exclude afterwards
       const results = await collection.query({
         queryEmbeddings: [queryEmbedding],
-        nResults,
-        where: excludeIds.length > 0 ? { id: { $nin: excludeIds } } : undefined
+        nResults: nResults + excludeIds.length
       });
 
       if (!results.ids[0] || !results.distances[0] || !results.metadatas[0]) {
@@ -119,22 +105,20 @@ export class ChromaDBService {
 
       // Convert distance to similarity (ChromaDB returns distances, not similarities)
       // For cosine distance: similarity = 1 - distance
-      const similarItems: SimilarityResult[] = [];
+      const candidates: SimilarityResult[] = [];
       
       for (let i = 0; i < results.ids[0].length; i++) {
-        const distance = results.distances[0][i];
+        const distance = results.distances[0][i] ?? 1;
         const similarity = 1 - distance; // Convert distance to similarity
         
-        if (similarity >= threshold) {
-          similarItems.push({
-            itemId: results.ids[0][i],
-            similarity,
-            metadata: results.metadatas[0][i] || {}
-          });
-        }
+        candidates.push({
+          itemId: results.ids[0][i]!,
+          similarity,
+          metadata: results.metadatas[0][i] || {}
+        });
       }
 
-      return similarItems.sort((a, b) => b.similarity - a.similarity);
+      return this.filterResults(candidates, threshold, nResults, excludeIds);
 
     } catch (error) {
       console.error('❌ Failed to find similar items:', error);
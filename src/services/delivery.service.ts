@@ -0,0 +1,141 @@
+import { getDatabase } from '../db/database.js';
+import { SlackService, SlackBriefData } from './slack.service.js';
+import { DeliveryTarget, DeliveryTargetConfig, DeliveryResult } from '../types/delivery.types.js';
+import { passesItemFilters } from '../utils/brief-sections.js';
+import { SlackTarget } from '../delivery/slack.target.js';
+import { EmailTarget } from '../delivery/email.target.js';
+import { WebhookTarget } from '../delivery/webhook.target.js';
+import { TeamsTarget } from '../delivery/teams.target.js';
+import { DiscordTarget } from '../delivery/discord.target.js';
+
+/**
+ * Build the adapter for one target config
+ */
+export function createDeliveryTarget(config: DeliveryTargetConfig, slackService: SlackService): DeliveryTarget {
+  switch (config.kind) {
+    case 'slack': return new SlackTarget(config, slackService);
+    case 'email': return new EmailTarget(config);
+    case 'webhook': return new WebhookTarget(config);
+    case 'teams': return new TeamsTarget(config);
+    case 'discord': return new DiscordTarget(config);
+    default: {
+      // Every kind in the union is handled above; configs read from JSON can still carry others
+      const kind: never = config.kind;
+      throw new Error(`Delivery target ${config.name}: unknown kind ${kind}`);
+    }
+  }
+}
+
+/**
+ * Narrow a brief to the sections, filters and language a target asked for
+ */
+export function tailorBrief(briefData: SlackBriefData, config: DeliveryTargetConfig): SlackBriefData {
+  const sections = config.sections || ['news', 'debate', 'dev'];
+
+  return {
+    ...briefData,
+    newsItems: sections.includes('news') ? briefData.newsItems.filter(item => passesItemFilters(item, config)) : [],
+    debateItems: sections.includes('debate') ? briefData.debateItems.filter(item => passesItemFilters(item, config)) : [],
+    devItems: sections.includes('dev') ? briefData.devItems.filter(item => passesItemFilters(item, config)) : [],
+    language: config.language || briefData.language || 'nb'
+  };
+}
+
+/**
+ * Sends a brief to every configured target.
+ * Each target is delivered at most once per run, and a failing target never blocks the rest.
+ */
+export class DeliveryService {
+  private targets: Array<{ target: DeliveryTarget; config: DeliveryTargetConfig }>;
+  private db;
+
+  constructor(configs: DeliveryTargetConfig[], slackService: SlackService) {
+    const names = new Set<string>();
+    for (const config of configs) {
+      if (names.has(config.name)) throw new Error(`Duplicate delivery target name: ${config.name}`);
+      names.add(config.name);
+    }
+
+    this.targets = configs.map(config => ({ target: createDeliveryTarget(config, slackService), config }));
+    this.db = getDatabase();
+  }
+
+  /**
+   * Deliver brief to all targets (sequentially, so logs stay readable)
+   */
+  async deliverAll(briefData: SlackBriefData): Promise<DeliveryResult[]> {
+    const results: DeliveryResult[] = [];
+
+    for (const { target, config } of this.targets) {
+      results.push(await this.deliver(target, config, briefData));
+    }
+
+    return results;
+  }
+
+  /**
+   * Deliver to one target, recording success in slack_posts
+   */
+  private async deliver(target: DeliveryTarget, config: DeliveryTargetConfig, briefData: SlackBriefData): Promise<DeliveryResult> {
+    try {
+      const existing = await this.getExistingPost(briefData.runId, target.deliveryKey);
+      if (existing) {
+        console.log(`📤 Brief already delivered to ${target.name} for run ${briefData.runId}`);
+        return { target: target.name, success: true, skipped: true, deliveryId: existing.thread_ts || '' };
+      }
+
+      console.log(`📤 Delivering brief to ${target.name} (${target.kind})`);
+      const result = await target.send(tailorBrief(briefData, config));
+
+      if (result.success) {
+        await this.savePostRecord(briefData.runId, target.deliveryKey, result.deliveryId || '');
+        console.log(`✅ Delivered to ${target.name}`);
+      } else {
+        console.error(`❌ Delivery to ${target.name} failed: ${result.error}`);
+      }
+      return result;
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Delivery to ${target.name} failed: ${message}`);
+      return { target: target.name, success: false, error: message };
+    }
+  }
+
+  /**
+   * Close adapter connections (SMTP pools)
+   */
+  close(): void {
+    for (const { target } of this.targets) {
+      target.close?.();
+    }
+  }
+
+  /**
+   * Check for existing delivery (idempotency)
+   */
+  private async getExistingPost(runId: string, deliveryKey: string): Promise<any> {
+    const rows = await this.db.query(
+      'SELECT * FROM slack_posts WHERE run_id = ? AND channel_id = ?',
+      [runId, deliveryKey]
+    );
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  /**
+   * Save delivery record (adapters that record their own are left untouched)
+   */
+  private async savePostRecord(runId: string, deliveryKey: string, deliveryId: string): Promise<void> {
+    // For test runs, skip saving to avoid foreign key constraint
+    if (runId.startsWith('test_')) return;
+
+    try {
+      await this.db.run(`
+        INSERT OR IGNORE INTO slack_posts (run_id, channel_id, thread_ts, status)
+        VALUES (?, ?, ?, 'posted')
+      `, [runId, deliveryKey, deliveryId]);
+    } catch (error) {
+      console.error('Error saving delivery record:', error);
+    }
+  }
+}
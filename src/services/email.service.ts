@@ -0,0 +1,341 @@
+import { createTransport, Transporter } from 'nodemailer';
+import { NewsItem, DebateItem, DevItem } from '../types/schemas.js';
+import { getDatabase } from '../db/database.js';
+import { SlackBriefData } from './slack.service.js';
+import {
+  selectBriefSections, formatBriefDate, getBriefLabels, isAlreadyAnnounced, paperMentions, formatAuthors, BriefLabels
+} from '../utils/brief-sections.js';
+import { escapeHtml } from '../utils/html.js';
+
+export interface EmailConfig {
+  host: string;
+  port: number;
+  secure: boolean;  // TLS from connect (465); otherwise STARTTLS when offered
+  user?: string;
+  pass?: string;
+  from: string;
+  to: string[];
+}
+
+export interface EmailSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export class EmailService {
+  private transporter: Transporter;
+  private config: EmailConfig;
+  private db;
+
+  constructor(config: EmailConfig) {
+    this.config = config;
+    this.transporter = createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      ...(config.user ? { auth: { user: config.user, pass: config.pass || '' } } : {})
+    });
+    this.db = getDatabase();
+  }
+
+  /**
+   * Send AI brief as an email digest (HTML with plain-text alternative)
+   */
+  async sendBrief(briefData: SlackBriefData): Promise<EmailSendResult> {
+    // Recipients share the slack_posts idempotency table under an email: key
+    const deliveryKey = `email:${this.config.to.join(',')}`;
+
+    try {
+      const existingPost = await this.getExistingPost(briefData.runId, deliveryKey);
+      if (existingPost) {
+        console.log(`📧 Brief already emailed to ${this.config.to.join(', ')} for run ${briefData.runId}`);
+        return { success: true, messageId: existingPost.thread_ts };
+      }
+
+      const email = await this.renderBrief(briefData);
+
+      console.log(`📧 Emailing AI brief to ${this.config.to.join(', ')}`);
+      const info = await this.transporter.sendMail({
+        from: this.config.from,
+        to: this.config.to,
+        subject: email.subject,
+        html: email.html,
+        text: email.text
+      });
+
+      await this.savePostRecord(briefData.runId, deliveryKey, info.messageId);
+
+      console.log('✅ Brief emailed successfully');
+      return { success: true, messageId: info.messageId };
+
+    } catch (error) {
+      console.error('❌ Failed to email brief:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Render subject, HTML and plain-text bodies (also used for CLI previews)
+   */
+  async renderBrief(briefData: SlackBriefData): Promise<RenderedEmail> {
+    const date = formatBriefDate(briefData.generatedAt, briefData.language);
+    const labels = getBriefLabels(briefData.language);
+    const sections = selectBriefSections(briefData);
+    const channelNames = await this.getChannelNames([
+      ...briefData.newsItems, ...briefData.debateItems, ...briefData.devItems
+    ]);
+    const channelName = (item: NewsItem | DebateItem | DevItem) => channelNames.get(item.channelId) || 'AI Kanal';
+
+    const statsLine = `${briefData.stats.totalVideos} ${labels.videos} • ${briefData.stats.totalItems} items • ` +
+      `${Math.round(briefData.stats.processingTimeMs / 1000)}s • $${briefData.stats.cost.toFixed(4)}`;
+
+    const htmlSections: string[] = [];
+    const textSections: string[] = [];
+
+    if (sections.newsItems.length > 0) {
+      htmlSections.push(this.htmlSection(labels.news, sections.newsItems.map(item => this.htmlItem(
+        item.title,
+        [
+          ...(isAlreadyAnnounced(briefData, item) ? [`<em>${labels.alreadyAnnounced}</em>`] : []),
+          escapeHtml(item.summary)
+        ],
+        `${escapeHtml(channelName(item))} • (${confidenceLabel(item.confidence)})`,
+        item.sourceUrl,
+        labels
+      ))));
+      textSections.push(this.textSection(plainTitle(labels.news), sections.newsItems.map(item =>
+        `* ${item.title}${isAlreadyAnnounced(briefData, item) ? ` (${labels.alreadyAnnounced})` : ''}\n  ${item.summary}\n  ` +
+        `${channelName(item)} • (${confidenceLabel(item.confidence)}) • ${item.sourceUrl}`
+      )));
+    }
+
+    if (sections.researchItems.length > 0) {
+      htmlSections.push(this.htmlSection(labels.research, sections.researchItems.map(item => {
+        const mentions = paperMentions(briefData, item);
+        return this.htmlItem(
+          item.title,
+          [
+            escapeHtml(item.summary),
+            ...(item.entities.length > 0 ? [`<em>${escapeHtml(formatAuthors(item.entities))}</em>`] : []),
+            ...(mentions.length > 0 ? [`💬 <strong>${labels.discussedIn}:</strong> ${mentions.map(mention =>
+              `<a href="${escapeHtml(mention.url)}" style="color:#1264a3;">${escapeHtml(mention.title)}</a>`).join(' • ')}`] : []),
+            ...(item.paper ? [`📄 <a href="${escapeHtml(item.paper.pdfUrl)}" style="color:#1264a3;">PDF</a>`] : [])
+          ],
+          escapeHtml(channelName(item)),
+          item.sourceUrl,
+          labels,
+          labels.abstract
+        );
+      })));
+      textSections.push(this.textSection(plainTitle(labels.research), sections.researchItems.map(item => {
+        const mentions = paperMentions(briefData, item);
+        return [
+          `* ${item.title}`,
+          `  ${item.summary}`,
+          ...(item.entities.length > 0 ? [`  ${formatAuthors(item.entities)}`] : []),
+          ...mentions.map(mention => `  ${labels.discussedIn}: ${mention.title} • ${mention.url}`),
+          `  ${channelName(item)} • ${item.sourceUrl}${item.paper ? ` • PDF ${item.paper.pdfUrl}` : ''}`
+        ].join('\n');
+      })));
+    }
+
+    if (sections.debateItems.length > 0) {
+      htmlSections.push(this.htmlSection(labels.debate, sections.debateItems.map(item => this.htmlItem(
+        item.topic,
+        [
+          `<strong>${labels.discussed}:</strong> ${escapeHtml(item.whatWasDiscussed)}`,
+          `<strong>${labels.perspectives}:</strong> ${escapeHtml(formatPositions(item))}`,
+          `<strong>${labels.implications}:</strong> ${escapeHtml(item.implications)}`
+        ],
+        escapeHtml(channelName(item)),
+        item.sourceUrl,
+        labels
+      ))));
+      textSections.push(this.textSection(plainTitle(labels.debate), sections.debateItems.map(item =>
+        `* ${item.topic}\n  ${labels.discussed}: ${item.whatWasDiscussed}\n  ${labels.perspectives}: ${formatPositions(item)}\n` +
+        `  ${labels.implications}: ${item.implications}\n  ${channelName(item)} • ${item.sourceUrl}`
+      )));
+    }
+
+    if (sections.devItems.length > 0) {
+      htmlSections.push(this.htmlSection(labels.dev, sections.devItems.map(item => this.htmlItem(
+        item.title,
+        [
+          escapeHtml(item.whatChanged),
+          `<strong>${labels.action}:</strong> ${escapeHtml(formatAction(item, labels))} • (${confidenceLabel(item.confidence)})`
+        ],
+        escapeHtml(channelName(item)),
+        item.sourceUrl,
+        labels
+      ))));
+      textSections.push(this.textSection(plainTitle(labels.dev), sections.devItems.map(item =>
+        `* ${item.title}\n  ${item.whatChanged}\n  ${labels.action}: ${formatAction(item, labels)} • (${confidenceLabel(item.confidence)})\n` +
+        `  ${channelName(item)} • ${item.sourceUrl}`
+      )));
+    }
+
+    if (sections.deepDiveItems.length > 0) {
+      htmlSections.push(this.htmlSection(labels.deepDives, sections.deepDiveItems.map(item => this.htmlItem(
+        item.topic,
+        [escapeHtml(item.implications)],
+        escapeHtml(channelName(item)),
+        item.sourceUrl,
+        labels
+      ))));
+      textSections.push(this.textSection(plainTitle(labels.deepDives), sections.deepDiveItems.map(item =>
+        `* ${item.topic}\n  ${item.implications}\n  ${item.sourceUrl}`
+      )));
+    }
+
+    const footer = `${labels.generated} • ${briefData.runId}`;
+
+    const html = `<!DOCTYPE html>
+<html lang="${briefData.language || 'nb'}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>ARTI AI-brief • ${date}</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f5f7;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f4f5f7;">
+<tr><td align="center" style="padding:16px 8px;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:640px;background:#ffffff;border-radius:8px;font-family:-apple-system,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;color:#1d1c1d;">
+<tr><td style="padding:24px 24px 8px;">
+<h1 style="margin:0;font-size:22px;">🤖 ARTI AI-brief • ${date}</h1>
+<p style="margin:8px 0 0;font-size:13px;color:#616061;">📊 ${escapeHtml(statsLine)}</p>
+</td></tr>
+${htmlSections.join('\n')}
+<tr><td style="padding:16px 24px 24px;font-size:12px;color:#616061;border-top:1px solid #e8e8e8;">🤖 ${escapeHtml(footer)}</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+
+    const text = [
+      `ARTI AI-brief • ${date}`,
+      statsLine,
+      ...textSections,
+      footer
+    ].join('\n\n') + '\n';
+
+    return { subject: `ARTI AI-brief • ${date}`, html, text };
+  }
+
+  /**
+   * Close SMTP connections
+   */
+  close(): void {
+    this.transporter.close();
+  }
+
+  /**
+   * Render one section as a table row
+   */
+  private htmlSection(title: string, items: string[]): string {
+    return `<tr><td style="padding:16px 24px 0;">
+<h2 style="margin:0 0 8px;font-size:17px;border-bottom:1px solid #e8e8e8;padding-bottom:6px;">${escapeHtml(title)} (${items.length})</h2>
+${items.join('\n')}
+</td></tr>`;
+  }
+
+  /**
+   * Render one item; body lines and meta are already escaped
+   */
+  private htmlItem(title: string, lines: string[], meta: string, url: string, labels: BriefLabels, linkText: string = labels.watchVideo): string {
+    return `<div style="margin:0 0 16px;font-size:15px;line-height:1.45;">
+<div style="font-weight:600;">${escapeHtml(title)}</div>
+${lines.map(line => `<div>${line}</div>`).join('\n')}
+<div style="font-size:13px;color:#616061;">📺 ${meta} • <a href="${escapeHtml(url)}" style="color:#1264a3;">${linkText}</a></div>
+</div>`;
+  }
+
+  /**
+   * Render one plain-text section
+   */
+  private textSection(title: string, items: string[]): string {
+    return `${title} (${items.length})\n${'-'.repeat(title.length)}\n\n${items.join('\n\n')}`;
+  }
+
+  /**
+   * Look up channel names for all items in one query
+   */
+  private async getChannelNames(items: Array<NewsItem | DebateItem | DevItem>): Promise<Map<string, string>> {
+    const channelIds = [...new Set(items.map(item => item.channelId).filter(Boolean))];
+    if (channelIds.length === 0) return new Map();
+
+    try {
+      const rows = await this.db.query(
+        `SELECT channel_id, name FROM sources WHERE channel_id IN (${channelIds.map(() => '?').join(', ')})`,
+        channelIds
+      );
+      return new Map(rows.map(row => [row.channel_id, row.name]));
+    } catch (error) {
+      console.error('Error getting channel names:', error);
+      return new Map();
+    }
+  }
+
+  /**
+   * Check for existing delivery (idempotency)
+   */
+  private async getExistingPost(runId: string, deliveryKey: string): Promise<any> {
+    try {
+      const rows = await this.db.query(
+        'SELECT * FROM slack_posts WHERE run_id = ? AND channel_id = ?',
+        [runId, deliveryKey]
+      );
+      return rows.length > 0 ? rows[0] : null;
+    } catch (error) {
+      console.error('Error checking existing email delivery:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save delivery record for idempotency
+   */
+  private async savePostRecord(runId: string, deliveryKey: string, messageId: string): Promise<void> {
+    try {
+      // For test runs, skip saving to avoid foreign key constraint
+      if (runId.startsWith('test_')) return;
+
+      await this.db.run(`
+        INSERT INTO slack_posts (run_id, channel_id, thread_ts, status)
+        VALUES (?, ?, ?, 'posted')
+      `, [runId, deliveryKey, messageId]);
+    } catch (error) {
+      console.error('Error saving email delivery record:', error);
+    }
+  }
+}
+
+function confidenceLabel(confidence: 'high' | 'medium' | 'low'): string {
+  return { high: 'H', medium: 'M', low: 'L' }[confidence];
+}
+
+function formatPositions(item: DebateItem): string {
+  const perspectives: string[] = [];
+  if (item.positions.pro?.length) perspectives.push(`Pro: ${item.positions.pro.join(', ')}`);
+  if (item.positions.contra?.length) perspectives.push(`Contra: ${item.positions.contra.join(', ')}`);
+  return perspectives.join(' | ');
+}
+
+function formatAction(item: DevItem, labels: BriefLabels): string {
+  return labels.developerActions[item.developerAction] || item.developerAction;
+}
+
+// Plain-text headings drop the emoji: '📰 Siste nytt' -> 'SISTE NYTT'
+function plainTitle(label: string): string {
+  return label.replace(/^\S+\s+/, '').toUpperCase();
+}
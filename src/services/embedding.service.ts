@@ -1,6 +1,7 @@
 import OpenAI from 'openai';
 import crypto from 'crypto';
 import { NewsItem, DebateItem, DevItem, ParsedItem } from '../types/schemas.js';
+import { getRateLimiter } from '../utils/rate-limiter.js';
 
 export interface EmbeddingData {
   itemId: string;
@@ -26,6 +27,7 @@ export class EmbeddingService {
   private openai: OpenAI;
   private totalTokensUsed: number = 0;
   private totalCost: number = 0;
+  private rateLimiter = getRateLimiter('embeddings');
 
   constructor(apiKey: string) {
     this.openai = new OpenAI({ apiKey });
@@ -36,11 +38,11 @@ export class EmbeddingService {
    */
   async generateEmbedding(text: string): Promise<number[]> {
     try {
-      const response = await this.openai.embeddings.create({
+      const response = await this.rateLimiter.schedule(() => this.openai.embeddings.create({
         model: 'text-embedding-3-small',
         input: text,
         encoding_format: 'float'
-      });
+      }));
 
       // Update usage statistics
       this.totalTokensUsed += response.usage.total_tokens;
@@ -68,11 +70,11 @@ export class EmbeddingService {
       console.log(`🧮 Generating embeddings for batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(texts.length / batchSize)}`);
 
       try {
-        const response = await this.openai.embeddings.create({
+        const response = await this.rateLimiter.schedule(() => this.openai.embeddings.create({
           model: 'text-embedding-3-small',
           input: batch,
           encoding_format: 'float'
-        });
+        }));
 
         // Update usage statistics
         this.totalTokensUsed += response.usage.total_tokens;
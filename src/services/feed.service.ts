@@ -0,0 +1,278 @@
+import { createHash } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getDatabase } from '../db/database.js';
+import { SlackBriefData } from './slack.service.js';
+import { NewsItem, DebateItem, DevItem } from '../types/schemas.js';
+import { BriefSection } from '../types/delivery.types.js';
+import { selectBriefSections, getBriefLabels, videoTimestampUrl, briefItemKey } from '../utils/brief-sections.js';
+import { escapeHtml } from '../utils/html.js';
+
+export interface FeedEntry {
+  guid: string;
+  section: BriefSection;
+  title: string;
+  link: string;
+  summary: string;
+  published: Date;
+  categories: string[];
+  alsoCoveredBy: Array<{ name: string; url: string }>;
+}
+
+export interface FeedOptions {
+  baseUrl?: string;     // Public URL the feeds are served from (self links)
+  maxEntries?: number;  // Per feed
+}
+
+const DEFAULT_MAX_ENTRIES = 50;
+const DEFAULT_FEED_BASE_URL = 'https://example.invalid/feeds';
+
+// Feed file name -> sections it contains
+const FEEDS: Record<string, BriefSection[]> = {
+  news: ['news'],
+  debate: ['debate'],
+  dev: ['dev'],
+  all: ['news', 'debate', 'dev'],
+};
+
+/**
+ * RSS 2.0 and Atom feeds of delivered brief items
+ */
+export class FeedService {
+  private db;
+
+  constructor() {
+    this.db = getDatabase();
+  }
+
+  /**
+   * Write <feed>.rss.xml and <feed>.atom.xml for each section plus 'all'.
+   * pendingBrief adds a brief that isn't stored yet (dry runs).
+   */
+  async writeFeeds(outDir: string, options: FeedOptions = {}, pendingBrief?: SlackBriefData): Promise<string[]> {
+    const entries = await this.loadEntries(options.maxEntries || DEFAULT_MAX_ENTRIES, pendingBrief);
+    const baseUrl = (options.baseUrl || DEFAULT_FEED_BASE_URL).replace(/\/$/, '');
+    const written: string[] = [];
+
+    await mkdir(outDir, { recursive: true });
+
+    for (const [name, sections] of Object.entries(FEEDS)) {
+      const feedEntries = entries
+        .filter(entry => sections.includes(entry.section))
+        .slice(0, options.maxEntries || DEFAULT_MAX_ENTRIES);
+      const title = name === 'all' ? 'ARTI AI-brief' : `ARTI AI-brief – ${plainLabel(name as BriefSection)}`;
+
+      const rssFile = join(outDir, `${name}.rss.xml`);
+      const atomFile = join(outDir, `${name}.atom.xml`);
+      await writeFile(rssFile, this.renderRss(title, `${baseUrl}/${name}.rss.xml`, feedEntries));
+      await writeFile(atomFile, this.renderAtom(title, `${baseUrl}/${name}.atom.xml`, feedEntries));
+      written.push(rssFile, atomFile);
+    }
+
+    console.log(`📡 Wrote ${written.length} feeds (${entries.length} entries) to ${outDir}`);
+    return written;
+  }
+
+  /**
+   * Newest entries from stored briefs, one per canonical item
+   */
+  async loadEntries(maxEntries: number = DEFAULT_MAX_ENTRIES, pendingBrief?: SlackBriefData): Promise<FeedEntry[]> {
+    // A brief rarely holds more than a few dozen items, so this many runs covers maxEntries
+    const rows = await this.db.query(
+      'SELECT brief_data FROM briefs ORDER BY generated_at DESC LIMIT ?',
+      [Math.max(10, Math.ceil(maxEntries / 5))]
+    );
+    const briefs: SlackBriefData[] = rows.map(row => {
+      const briefData = JSON.parse(row.brief_data);
+      return { ...briefData, generatedAt: new Date(briefData.generatedAt) };
+    });
+    if (pendingBrief) briefs.unshift(pendingBrief);
+
+    const entries: FeedEntry[] = [];
+    const seen = new Set<string>();
+
+    for (const briefData of briefs) {
+      const sections = selectBriefSections(briefData);
+      const candidates: Array<[BriefSection, NewsItem | DebateItem | DevItem]> = [
+        ...sections.newsItems.map(item => ['news', item] as [BriefSection, NewsItem]),
+        ...sections.researchItems.map(item => ['news', item] as [BriefSection, NewsItem]),
+        ...sections.debateItems.map(item => ['debate', item] as [BriefSection, DebateItem]),
+        ...sections.devItems.map(item => ['dev', item] as [BriefSection, DevItem]),
+      ];
+
+      for (const [section, item] of candidates) {
+        const entry = this.toEntry(section, item, briefData.generatedAt);
+        if (seen.has(entry.guid)) continue;
+        seen.add(entry.guid);
+        entries.push(entry);
+      }
+    }
+
+    await this.attachAlsoCoveredBy(entries, briefs);
+    return entries.sort((a, b) => b.published.getTime() - a.published.getTime());
+  }
+
+  /**
+   * Render RSS 2.0 channel
+   */
+  renderRss(title: string, selfUrl: string, entries: FeedEntry[]): string {
+    const items = entries.map(entry => `    <item>
+      <title>${escapeHtml(entry.title)}</title>
+      <link>${escapeHtml(entry.link)}</link>
+      <guid isPermaLink="false">${entry.guid}</guid>
+      <pubDate>${entry.published.toUTCString()}</pubDate>
+${entry.categories.map(category => `      <category>${escapeHtml(category)}</category>`).join('\n')}
+      <description>${escapeHtml(this.describe(entry))}</description>
+    </item>`.replace(/\n\n/g, '\n'));
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeHtml(title)}</title>
+    <link>${escapeHtml(selfUrl)}</link>
+    <atom:link href="${escapeHtml(selfUrl)}" rel="self" type="application/rss+xml"/>
+    <description>Daglige AI-nyheter, debatter og utvikleroppdateringer fra YouTube</description>
+    <language>nb</language>
+    <lastBuildDate>${(entries[0]?.published || new Date()).toUTCString()}</lastBuildDate>
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+  }
+
+  /**
+   * Render Atom 1.0 feed
+   */
+  renderAtom(title: string, selfUrl: string, entries: FeedEntry[]): string {
+    const items = entries.map(entry => `  <entry>
+    <id>${entry.guid}</id>
+    <title>${escapeHtml(entry.title)}</title>
+    <link rel="alternate" href="${escapeHtml(entry.link)}"/>
+${entry.alsoCoveredBy.map(source => `    <link rel="related" href="${escapeHtml(source.url)}" title="${escapeHtml(source.name)}"/>`).join('\n')}
+    <updated>${entry.published.toISOString()}</updated>
+    <published>${entry.published.toISOString()}</published>
+${entry.categories.map(category => `    <category term="${escapeHtml(category)}"/>`).join('\n')}
+    <summary>${escapeHtml(this.describe(entry))}</summary>
+  </entry>`.replace(/\n\n/g, '\n'));
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="nb">
+  <id>${escapeHtml(selfUrl)}</id>
+  <title>${escapeHtml(title)}</title>
+  <link rel="self" href="${escapeHtml(selfUrl)}"/>
+  <author><name>ARTI AI-brief</name></author>
+  <updated>${(entries[0]?.published || new Date()).toISOString()}</updated>
+${items.join('\n')}
+</feed>
+`;
+  }
+
+  /**
+   * Map one brief item to a feed entry
+   */
+  private toEntry(section: BriefSection, item: NewsItem | DebateItem | DevItem, published: Date): FeedEntry {
+    const labels = getBriefLabels();
+    let title: string;
+    let summary: string;
+    let categories: string[];
+
+    if (section === 'news') {
+      const news = item as NewsItem;
+      title = news.title;
+      summary = news.summary;
+      categories = [news.type, ...news.entities];
+    } else if (section === 'debate') {
+      const debate = item as DebateItem;
+      title = debate.topic;
+      summary = `${debate.whatWasDiscussed}\n\n${labels.implications}: ${debate.implications}`;
+      categories = [];
+    } else {
+      const dev = item as DevItem;
+      title = dev.title;
+      summary = `${dev.whatChanged}\n\n${labels.action}: ${labels.developerActions[dev.developerAction] || dev.developerAction}`;
+      categories = [dev.changeType, ...(dev.affectedTechnologies || [])];
+    }
+
+    return {
+      guid: feedGuid(item),
+      section,
+      title,
+      link: videoTimestampUrl(item, item.timestamp),
+      summary,
+      published,
+      categories: [...new Set([section, ...categories].filter(Boolean))],
+      alsoCoveredBy: []
+    };
+  }
+
+  /**
+   * Look up other videos covering each canonical item from its dedup cluster
+   */
+  private async attachAlsoCoveredBy(entries: FeedEntry[], briefs: SlackBriefData[]): Promise<void> {
+    const canonicalIds = new Map<string, { guid: string; videoId: string }>();
+    for (const briefData of briefs) {
+      const items: Array<(NewsItem | DebateItem | DevItem) & { itemId?: string }> = [
+        ...briefData.newsItems, ...briefData.debateItems, ...briefData.devItems
+      ];
+      for (const item of items) {
+        if (item.itemId) canonicalIds.set(item.itemId, { guid: feedGuid(item), videoId: item.videoId });
+      }
+    }
+    if (canonicalIds.size === 0) return;
+
+    const ids = [...canonicalIds.keys()];
+    const clusterRows = await this.db.query(
+      `SELECT canonical_item_id, also_covered_by FROM clusters WHERE canonical_item_id IN (${ids.map(() => '?').join(', ')})`,
+      ids
+    );
+    const sourceRows = await this.db.query('SELECT channel_id, name FROM sources');
+    const channelNames = new Map(sourceRows.map(row => [row.channel_id, row.name]));
+    const entriesByGuid = new Map(entries.map(entry => [entry.guid, entry]));
+
+    // Entries are "channelId/videoId"; podcast episodes link to their audio rather than YouTube
+    const coveredByRows = clusterRows.map(row => ({
+      row,
+      coveredBy: (row.also_covered_by ? JSON.parse(row.also_covered_by) : []) as string[]
+    }));
+    const coveredVideoIds = [...new Set(coveredByRows.flatMap(({ coveredBy }) => coveredBy.map(identifier => identifier.split('/')[1] || '')))];
+    const videoRows = coveredVideoIds.length > 0
+      ? await this.db.query(`SELECT video_id, url FROM videos WHERE video_id IN (${coveredVideoIds.map(() => '?').join(', ')})`, coveredVideoIds)
+      : [];
+    const videoUrls = new Map(videoRows.map(row => [row.video_id, row.url]));
+
+    for (const { row, coveredBy } of coveredByRows) {
+      const canonical = canonicalIds.get(row.canonical_item_id);
+      const entry = canonical && entriesByGuid.get(canonical.guid);
+      if (!canonical || !entry) continue;
+
+      // The canonical video itself is the entry's own link
+      for (const identifier of coveredBy) {
+        const [channelId, videoId] = identifier.split('/');
+        if (!channelId || !videoId || videoId === canonical.videoId) continue;
+        const url = videoUrls.get(videoId) || `https://www.youtube.com/watch?v=${videoId}`;
+        if (entry.alsoCoveredBy.some(source => source.url === url)) continue;
+        entry.alsoCoveredBy.push({ name: channelNames.get(channelId) || channelId, url });
+      }
+    }
+  }
+
+  /**
+   * Entry text including other coverage
+   */
+  private describe(entry: FeedEntry): string {
+    if (entry.alsoCoveredBy.length === 0) return entry.summary;
+    return `${entry.summary}\n\nOgså dekket av: ${entry.alsoCoveredBy.map(source => `${source.name} (${source.url})`).join(', ')}`;
+  }
+}
+
+/**
+ * Stable GUID from the canonical item (dedup itemId = videoId + canonical key)
+ */
+function feedGuid(item: NewsItem | DebateItem | DevItem): string {
+  return `urn:sha1:${createHash('sha1').update(briefItemKey(item)).digest('hex')}`;
+}
+
+// '📰 Siste nytt' -> 'Siste nytt'
+function plainLabel(section: BriefSection): string {
+  return getBriefLabels()[section].replace(/^\S+\s+/, '');
+}
@@ -0,0 +1,157 @@
+import { getDatabase } from '../db/database.js';
+import { upsertSql } from '../db/query.js';
+import { ArchiveService } from './archive.service.js';
+import { FeedbackValue, ItemFeedback, FeedbackItemDetails, FeedbackSignals } from '../types/feedback.types.js';
+import { briefItemKey } from '../utils/brief-sections.js';
+
+// Net vote per feedback - "not AI news" says more about a source than a plain thumbs down
+const FEEDBACK_VOTES: Record<FeedbackValue, number> = { up: 1, down: -1, not_ai: -2 };
+
+const PRIOR_VOTES = 3;            // Smoothing so a single vote doesn't dominate
+const SOURCE_WEIGHT_SPAN = 0.5;   // Feedback moves a source weight at most ±50% of its base weight
+const MAX_RANKING_BOOST = 0.2;    // On the 0-1 quality score scale
+
+/**
+ * Reader feedback on delivered items, and what it teaches ranking and source weights
+ */
+export class FeedbackService {
+  private db;
+  private archiveService: ArchiveService;
+
+  constructor() {
+    this.db = getDatabase();
+    this.archiveService = new ArchiveService();
+  }
+
+  /**
+   * Store a user's vote on an item (replacing their earlier vote) and reweight its source.
+   * Returns false when the item isn't part of the run's stored brief.
+   */
+  async record(feedback: ItemFeedback): Promise<boolean> {
+    const details = await this.findItemDetails(feedback.runId, feedback.itemKey);
+    if (!details) {
+      console.warn(`⚠️ Feedback for unknown item ${feedback.itemKey} in run ${feedback.runId}`);
+      return false;
+    }
+
+    await this.db.run(upsertSql(
+      'item_feedback',
+      ['item_key', 'user_id', 'run_id', 'feedback', 'section', 'source_channel_id', 'video_id', 'item_type', 'entities', 'updated_at'],
+      ['item_key', 'user_id']
+    ), [
+      feedback.itemKey,
+      feedback.userId,
+      feedback.runId,
+      feedback.value,
+      details.section,
+      details.channelId,
+      details.videoId,
+      details.itemType,
+      JSON.stringify(details.entities),
+      new Date().toISOString()
+    ]);
+
+    console.log(`🗳️ Feedback ${feedback.value} on ${feedback.itemKey} from ${feedback.userId}`);
+    await this.updateSourceWeight(details.channelId);
+    return true;
+  }
+
+  /**
+   * Entity and item type preferences learned from all feedback
+   */
+  async getRankingSignals(): Promise<FeedbackSignals> {
+    const rows = await this.db.query('SELECT feedback, item_type, entities FROM item_feedback');
+    const entityVotes = new Map<string, number[]>();
+    const typeVotes = new Map<string, number[]>();
+
+    const add = (votes: Map<string, number[]>, key: string, vote: number) => {
+      const normalized = key.toLowerCase();
+      votes.set(normalized, [...(votes.get(normalized) || []), vote]);
+    };
+
+    for (const row of rows) {
+      const vote = FEEDBACK_VOTES[row.feedback as FeedbackValue] || 0;
+      if (row.item_type) add(typeVotes, row.item_type, vote);
+      for (const entity of (row.entities ? JSON.parse(row.entities) : []) as string[]) {
+        add(entityVotes, entity, vote);
+      }
+    }
+
+    return { entities: toScores(entityVotes), types: toScores(typeVotes) };
+  }
+
+  /**
+   * Recompute sources.weight from the configured base weight and the source's feedback
+   */
+  async updateSourceWeight(channelId: string): Promise<number | null> {
+    const sources = await this.db.query(
+      'SELECT id, weight, base_weight FROM sources WHERE channel_id = ?',
+      [channelId]
+    );
+    if (sources.length === 0) return null;
+
+    const votes = await this.db.query(
+      'SELECT feedback FROM item_feedback WHERE source_channel_id = ?',
+      [channelId]
+    );
+    const net = votes.reduce((sum, row) => sum + (FEEDBACK_VOTES[row.feedback as FeedbackValue] || 0), 0);
+    const score = Math.max(-1, Math.min(1, net / (votes.length + PRIOR_VOTES)));
+
+    // Sources added before feedback existed have no base weight yet - their current weight is the base
+    const baseWeight = Number(sources[0].base_weight ?? sources[0].weight ?? 1);
+    const weight = Math.round(baseWeight * (1 + SOURCE_WEIGHT_SPAN * score) * 1000) / 1000;
+
+    await this.db.run(
+      'UPDATE sources SET base_weight = ?, weight = ? WHERE channel_id = ?',
+      [baseWeight, weight, channelId]
+    );
+    return weight;
+  }
+
+  /**
+   * Find the voted item in the run's stored brief
+   */
+  private async findItemDetails(runId: string, itemKey: string): Promise<FeedbackItemDetails | null> {
+    const briefData = await this.archiveService.loadBrief(runId);
+    if (!briefData) return null;
+
+    const news = briefData.newsItems.find(item => briefItemKey(item) === itemKey);
+    if (news) return { section: 'news', channelId: news.channelId, videoId: news.videoId, itemType: news.type, entities: news.entities };
+
+    const debate = briefData.debateItems.find(item => briefItemKey(item) === itemKey);
+    if (debate) return { section: 'debate', channelId: debate.channelId, videoId: debate.videoId, itemType: 'debate', entities: [] };
+
+    const dev = briefData.devItems.find(item => briefItemKey(item) === itemKey);
+    if (dev) return { section: 'dev', channelId: dev.channelId, videoId: dev.videoId, itemType: dev.changeType, entities: dev.affectedTechnologies || [] };
+
+    return null;
+  }
+}
+
+/**
+ * Quality score adjustment for an item from learned preferences (±MAX_RANKING_BOOST)
+ */
+export function feedbackBoost(item: any, signals: FeedbackSignals): number {
+  const scores: number[] = [];
+
+  const type = item.type || item.changeType || (item.topic ? 'debate' : undefined);
+  const typeScore = type && signals.types.get(String(type).toLowerCase());
+  if (typeScore) scores.push(typeScore);
+
+  for (const entity of [...(item.entities || []), ...(item.affectedTechnologies || [])] as string[]) {
+    const entityScore = signals.entities.get(entity.toLowerCase());
+    if (entityScore) scores.push(entityScore);
+  }
+
+  if (scores.length === 0) return 0;
+  return MAX_RANKING_BOOST * (scores.reduce((sum, score) => sum + score, 0) / scores.length);
+}
+
+function toScores(votes: Map<string, number[]>): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const [key, values] of votes) {
+    const net = values.reduce((sum, vote) => sum + vote, 0);
+    scores.set(key, Math.max(-1, Math.min(1, net / (values.length + PRIOR_VOTES))));
+  }
+  return scores;
+}
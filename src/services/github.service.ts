@@ -0,0 +1,292 @@
+import { createHash } from 'node:crypto';
+import { DevItem, ParsedItem } from '../types/schemas.js';
+import { GitHubRelease } from '../types/github.types.js';
+
+const GITHUB_API_URL = 'https://api.github.com';
+
+/**
+ * Tags without a release need a request each for their date - only the newest few are checked
+ */
+const MAX_TAGS = 10;
+
+/**
+ * Release-notes section headings and footers that say nothing about the change itself
+ */
+const BOILERPLATE_LINE = /^\W*(what'?s changed|changes|changelog|release notes|highlights|(new )?features|(bug )?fixes|improvements|breaking changes|other changes|documentation|dependencies|maintenance|new contributors)\s*:?$|^full changelog\b|made their first contribution/i;
+
+const VERSION_PATTERN = /\bv?(\d+)\.(\d+)(?:\.(\d+))?/gi;
+
+/**
+ * GitHub repositories: published releases (and tags pushed without one) as developer updates
+ */
+export class GitHubService {
+  private token: string | undefined;
+  private apiUrl: string;
+
+  constructor(token?: string | undefined, apiUrl: string = GITHUB_API_URL) {
+    this.token = token;
+    this.apiUrl = apiUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Repository metadata - fails when the repository doesn't exist or isn't visible to the token
+   */
+  async fetchRepository(repoUrl: string): Promise<{ fullName: string; description: string | null }> {
+    const slug = parseRepository(repoUrl);
+    const repo = await this.request<any>(`/repos/${slug}`);
+    if (!repo) throw new Error(`GitHub repository not found: ${slug}`);
+    return { fullName: repo.full_name, description: repo.description ?? null };
+  }
+
+  /**
+   * Releases and release-less tags published at or after a date, oldest first (the caller's watermark
+   * settles ties). Drafts and prereleases are skipped.
+   */
+  async getReleasesSince(repoUrl: string, since: Date): Promise<GitHubRelease[]> {
+    const repo = parseRepository(repoUrl);
+    const releases = (await this.request<any[]>(`/repos/${repo}/releases?per_page=30`)) || [];
+    const releaseTags = new Set(releases.map(release => release.tag_name));
+
+    const published: GitHubRelease[] = releases
+      .filter(release => !release.draft && !release.prerelease && release.published_at)
+      .map(release => ({
+        id: githubReleaseId(repo, release.tag_name),
+        repo,
+        tag: release.tag_name,
+        name: release.name || release.tag_name,
+        body: release.body || '',
+        publishedAt: new Date(release.published_at).toISOString(),
+        url: releaseUrl(repo, release.tag_name),
+        fromTag: false
+      }));
+
+    const tags = ((await this.request<any[]>(`/repos/${repo}/tags?per_page=${MAX_TAGS}`)) || [])
+      .filter(tag => !releaseTags.has(tag.name) && !isPrerelease(tag.name))
+      .slice(0, MAX_TAGS);
+
+    for (const tag of tags) {
+      const commit = await this.request<any>(`/repos/${repo}/commits/${tag.commit.sha}`);
+      const date = commit?.commit?.committer?.date || commit?.commit?.author?.date;
+      if (!date) continue;
+
+      published.push({
+        id: githubReleaseId(repo, tag.name),
+        repo,
+        tag: tag.name,
+        name: tag.name,
+        body: '',
+        publishedAt: new Date(date).toISOString(),
+        url: releaseUrl(repo, tag.name),
+        fromTag: true
+      });
+    }
+
+    return published
+      .filter(release => new Date(release.publishedAt) >= since)
+      .sort((a, b) => new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime());
+  }
+
+  /**
+   * Release notes behind a release URL - empty for a tag without a release
+   */
+  async fetchReleaseNotes(url: string): Promise<string> {
+    const release = parseReleaseUrl(url);
+    if (!release) throw new Error(`Not a GitHub release URL: ${url}`);
+
+    const found = await this.request<any>(`/repos/${release.repo}/releases/tags/${encodeURIComponent(release.tag)}`);
+    return found?.body || '';
+  }
+
+  /**
+   * GET an API path as JSON. Null on 404, so callers can tell "missing" from failures.
+   */
+  private async request<T>(path: string): Promise<T | null> {
+    const url = `${this.apiUrl}${path}`;
+    const response = await fetch(url, {
+      headers: {
+        'Accept': 'application/vnd.github+json',
+        'User-Agent': 'ai-nyhetsagent',
+        ...(this.token && { 'Authorization': `Bearer ${this.token}` })
+      }
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} fetching ${url}`);
+    }
+
+    return response.json() as Promise<T>;
+  }
+}
+
+/**
+ * "owner/name" from a repository URL (https://github.com/owner/name[.git][/...]) or an owner/name slug
+ */
+export function parseRepository(repoUrl: string): string {
+  const match = repoUrl.trim().match(/^(?:https?:\/\/(?:www\.)?github\.com\/)?([\w.-]+)\/([\w.-]+?)(?:\.git)?(?:[/?#].*)?$/i);
+  if (!match) throw new Error(`Not a GitHub repository: ${repoUrl}`);
+  return `${match[1]}/${match[2]}`;
+}
+
+/**
+ * Repository and tag behind a release page URL, or null for any other URL
+ */
+export function parseReleaseUrl(url: string): { repo: string; tag: string } | null {
+  const match = url.match(/^https?:\/\/(?:www\.)?github\.com\/([\w.-]+\/[\w.-]+)\/releases\/tag\/([^?#]+)/i);
+  return match ? { repo: match[1]!, tag: decodeURIComponent(match[2]!) } : null;
+}
+
+export function releaseUrl(repo: string, tag: string): string {
+  return `https://github.com/${repo}/releases/tag/${encodeURIComponent(tag)}`;
+}
+
+/**
+ * Stable source id (sources.channel_id) for a repository
+ */
+export function githubChannelId(repo: string): string {
+  return `github_${repo.toLowerCase().replace('/', '_')}`;
+}
+
+/**
+ * Stable release id (videos.video_id) from the repository and tag
+ */
+export function githubReleaseId(repo: string, tag: string): string {
+  return `release_${createHash('sha256').update(`${repo.toLowerCase()}\n${tag}`).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Title a release is stored and shown under: "agent-kit v2.0.0: Streaming tools"
+ */
+export function releaseTitle(release: Pick<GitHubRelease, 'repo' | 'tag' | 'name'>): string {
+  const repoName = release.repo.split('/')[1]!;
+  const name = release.name.trim();
+  if (!name || name === release.tag) return `${repoName} ${release.tag}`;
+  return name.includes(release.tag) ? `${repoName} ${name}` : `${repoName} ${release.tag}: ${name}`;
+}
+
+/**
+ * Release notes (Markdown) as plain lines - link targets are kept so they can be picked up as links
+ */
+export function releaseNotesLines(body: string): string[] {
+  return body
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\((\S+?)\)/g, '$1 ($2)')
+    .split(/\r?\n/)
+    .filter(line => !/^\s*(```|~~~)/.test(line))
+    .map(line => line
+      .replace(/<[^>]+>/g, '')
+      .replace(/^\s*(#{1,6}|[-*+]|\d+\.)\s+/, '')
+      .replace(/(\*\*|__|`)/g, '')
+      .trim())
+    .filter(Boolean);
+}
+
+/**
+ * Developer item for a release, straight from its notes (no LLM involved).
+ * videoId, channelId and sourceUrl are filled in by the item processor like for any other item.
+ */
+export function releaseToDevItem(
+  release: { title: string; url: string; notes: string[] }
+): Omit<DevItem, 'videoId' | 'channelId' | 'sourceUrl'> {
+  const { repo, tag } = parseReleaseUrl(release.url) || { repo: '', tag: '' };
+  const repoName = repo.split('/')[1] || release.title;
+  // A tag without a release is transcribed as just "owner/name tag"
+  const notes = release.notes.filter(line => line !== `${repo} ${tag}`);
+  const breaking = notes.some(line => /\bbreaking\b/i.test(line));
+
+  const changes = notes
+    .filter(line => !BOILERPLATE_LINE.test(line))
+    // GitHub's generated notes credit each PR: "... by @someone in https://github.com/.../pull/12"
+    .map(line => line.replace(/\s+by @[\w-]+ in \S+$/, '').replace(/[.;:]+$/, ''));
+  const whatChanged = clip(changes.join('; '), 300);
+
+  // Docs and changelogs before the individual pull requests
+  const linksInNotes = notes
+    .flatMap(line => line.match(/https?:\/\/[^\s)]+/g) || [])
+    .sort((a, b) => Number(/\/(pull|issues)\/\d+/.test(a)) - Number(/\/(pull|issues)\/\d+/.test(b)));
+  const links = [...new Set([release.url, ...linksInNotes])].slice(0, 5);
+
+  return {
+    title: clip(release.title, 100),
+    changeType: breaking ? 'breaking' : 'release',
+    whatChanged: whatChanged.length >= 10 ? whatChanged : `Ny versjon ${tag} av ${repo}`,
+    developerAction: breaking ? 'migrate' : 'update',
+    links,
+    affectedTechnologies: [repoName],
+    confidence: notes.length > 0 ? 'high' : 'medium',
+    rawContext: clip(notes.join('\n'), 500) || release.title,
+    relevance_score: Math.min(10, versionRelevance(tag) + (breaking ? 1 : 0))
+  };
+}
+
+/**
+ * "name@version" keys for the releases an item is about. A release item is keyed by its own
+ * repository and tag; other dev items by the technologies and GitHub repositories they name,
+ * combined with the versions in their title and description.
+ */
+export function releaseKeys(item: ParsedItem): string[] {
+  if (!('whatChanged' in item)) return [];
+
+  const release = isReleaseItem(item) ? item.links.map(parseReleaseUrl).find(Boolean) : undefined;
+  if (release) {
+    const version = normalizeVersion(release.tag);
+    return version ? [`${keyName(release.repo.split('/')[1]!)}@${version}`] : [];
+  }
+
+  const repoNames = item.links
+    .map(link => link.match(/github\.com\/[\w.-]+\/([\w.-]+)/i)?.[1])
+    .filter((name): name is string => Boolean(name));
+  const names = new Set([...item.affectedTechnologies, ...repoNames].map(keyName).filter(Boolean));
+  const versions = new Set(
+    [...`${item.title} ${item.whatChanged}`.matchAll(VERSION_PATTERN)].map(match => normalizeVersion(match[0])).filter(Boolean)
+  );
+
+  return [...names].flatMap(name => [...versions].map(version => `${name}@${version}`));
+}
+
+/**
+ * Two items are about the same GitHub release (one of them being the release itself)
+ */
+export function isSameRelease(a: ParsedItem, b: ParsedItem): boolean {
+  if (!isReleaseItem(a) && !isReleaseItem(b)) return false;
+  const keys = new Set(releaseKeys(a));
+  return releaseKeys(b).some(key => keys.has(key));
+}
+
+function isReleaseItem(item: ParsedItem): item is DevItem {
+  return 'whatChanged' in item && item.videoId.startsWith('release_');
+}
+
+function isPrerelease(tag: string): boolean {
+  return /-(alpha|beta|rc|pre|dev|canary|nightly)/i.test(tag);
+}
+
+/**
+ * "v2.0.0" and "2.0" are the same version; patch levels other than 0 are kept
+ */
+function normalizeVersion(text: string): string {
+  const match = text.match(/v?(\d+)\.(\d+)(?:\.(\d+))?/i);
+  if (!match) return '';
+  const [, major, minor, patch] = match;
+  return patch && patch !== '0' ? `${major}.${minor}.${patch}` : `${major}.${minor}`;
+}
+
+function keyName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Major releases matter more than minor ones, which matter more than patches
+ */
+function versionRelevance(tag: string): number {
+  const match = tag.match(/(\d+)\.(\d+)(?:\.(\d+))?/);
+  if (!match) return 4;
+  const [, major, minor, patch] = match.map(Number);
+  if (major! > 0 && minor === 0 && !patch) return 7;
+  return patch ? 3 : 5;
+}
+
+function clip(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
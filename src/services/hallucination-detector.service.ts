@@ -1,5 +1,6 @@
 import { ParsedItem, NewsItem, DebateItem, DevItem } from '../types/schemas.js';
 import { EmbeddingService } from './embedding.service.js';
+import { HallucinationAction, HallucinationPolicy } from '../types/hallucination.types.js';
 
 export interface HallucinationCheck {
   hasHallucinations: boolean;
@@ -70,6 +71,46 @@ export class HallucinationDetectorService {
     };
   }
 
+  /**
+   * Apply source-type policy to an item based on its hallucination check.
+   * Confidence is only ever lowered, never raised.
+   */
+  applyPolicy(
+    item: ParsedItem,
+    check: HallucinationCheck,
+    policy: HallucinationPolicy
+  ): {
+    item: ParsedItem | null;
+    action: HallucinationAction | 'none';
+    adjustedConfidence: 'high' | 'medium' | 'low' | null;
+  } {
+    const confidenceRank = { low: 1, medium: 2, high: 3 };
+    const currentConfidence = item.confidence || 'medium';
+    const recommendation = check.recommendedConfidenceAdjustment;
+
+    // Detector distrusts the item outright
+    if (recommendation === 'reject' || check.hasHallucinations) {
+      switch (policy.action) {
+        case 'drop':
+          return { item: null, action: 'drop', adjustedConfidence: null };
+        case 'downgrade':
+          return { item: { ...item, confidence: 'low' }, action: 'downgrade', adjustedConfidence: 'low' };
+        case 'flag':
+          return { item, action: 'flag', adjustedConfidence: currentConfidence };
+      }
+    }
+
+    // Detector suggests lower confidence than the LLM claimed
+    if (confidenceRank[recommendation] < confidenceRank[currentConfidence]) {
+      if (policy.action === 'flag') {
+        return { item, action: 'flag', adjustedConfidence: currentConfidence };
+      }
+      return { item: { ...item, confidence: recommendation }, action: 'downgrade', adjustedConfidence: recommendation };
+    }
+
+    return { item, action: 'none', adjustedConfidence: currentConfidence };
+  }
+
   /**
    * Check 1: Verify entities actually appear in transcript
    */
@@ -5,6 +5,7 @@ export interface ExtractionMetrics {
   sourceType: 'news' | 'debate' | 'dev';
   videoId: string;
   timestamp: Date;
+  status: 'success' | 'failed';
 
   // Processing stats
   totalChunks: number;
@@ -84,6 +85,7 @@ export class LLMMetricsService {
       sourceType,
       videoId,
       timestamp: new Date(),
+      status: 'success',
       totalChunks: 0,
       totalItemsExtracted: 0,
       validationFailures: 0,
@@ -194,13 +196,18 @@ export class LLMMetricsService {
   }
 
   /**
-   * Finalize extraction and save to database
+   * Finalize extraction and save to database (with error: as failed, counted as a validation failure)
    */
-  async finalizeExtraction(videoId: string, processingTimeMs: number): Promise<void> {
+  async finalizeExtraction(videoId: string, processingTimeMs: number, error?: unknown): Promise<void> {
     const metrics = this.sessionMetrics.get(videoId);
     if (!metrics) return;
 
     metrics.processingTimeMs = processingTimeMs;
+    if (error !== undefined) {
+      metrics.status = 'failed';
+      metrics.validationFailures++;
+      metrics.validationErrors.push(error instanceof Error ? error.message : String(error));
+    }
 
     // Save to database
     await this.saveMetrics(metrics);
@@ -216,18 +223,19 @@ export class LLMMetricsService {
     try {
       await this.db.run(`
         INSERT INTO llm_extraction_metrics (
-          run_id, source_type, video_id, timestamp,
+          run_id, source_type, video_id, timestamp, status,
           total_chunks, total_items_extracted, validation_failures,
           hallucinations_detected, retries_attempted, retries_successful,
           average_confidence, confidence_distribution,
           validation_errors, validation_warnings,
           tokens_used, estimated_cost, processing_time_ms
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `, [
         metrics.runId,
         metrics.sourceType,
         metrics.videoId,
         metrics.timestamp.toISOString(),
+        metrics.status,
         metrics.totalChunks,
         metrics.totalItemsExtracted,
         metrics.validationFailures,
@@ -369,41 +377,29 @@ By Source Type:
   }
 
   /**
-   * Create database table for metrics if not exists
+   * Generate quality report if none was recorded within the report period.
+   * Returns the report text when one is due, otherwise null - record it once it has been delivered.
    */
-  async ensureMetricsTable(): Promise<void> {
-    await this.db.run(`
-      CREATE TABLE IF NOT EXISTS llm_extraction_metrics (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        run_id TEXT NOT NULL,
-        source_type TEXT NOT NULL,
-        video_id TEXT NOT NULL,
-        timestamp TEXT NOT NULL,
-        total_chunks INTEGER NOT NULL,
-        total_items_extracted INTEGER NOT NULL,
-        validation_failures INTEGER NOT NULL,
-        hallucinations_detected INTEGER NOT NULL,
-        retries_attempted INTEGER NOT NULL,
-        retries_successful INTEGER NOT NULL,
-        average_confidence REAL NOT NULL,
-        confidence_distribution TEXT NOT NULL,
-        validation_errors TEXT NOT NULL,
-        validation_warnings TEXT NOT NULL,
-        tokens_used INTEGER NOT NULL,
-        estimated_cost REAL NOT NULL,
-        processing_time_ms INTEGER NOT NULL,
-        created_at TEXT DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
+  async generateQualityReportIfDue(days: number = 7): Promise<string | null> {
+    const since = new Date();
+    since.setDate(since.getDate() - days);
 
-    await this.db.run(`
-      CREATE INDEX IF NOT EXISTS idx_llm_metrics_timestamp
-      ON llm_extraction_metrics(timestamp)
-    `);
+    const recent = await this.db.query(
+      'SELECT id FROM quality_reports WHERE period_days = ? AND generated_at >= ? LIMIT 1',
+      [days, since.toISOString()]
+    );
+    if (recent.length > 0) return null;
 
+    return this.getQualityReport(days);
+  }
+
+  /**
+   * Mark the report period as reported
+   */
+  async recordQualityReport(runId: string, report: string, days: number = 7): Promise<void> {
     await this.db.run(`
-      CREATE INDEX IF NOT EXISTS idx_llm_metrics_run_id
-      ON llm_extraction_metrics(run_id)
-    `);
+      INSERT INTO quality_reports (run_id, period_days, generated_at, report)
+      VALUES (?, ?, ?, ?)
+    `, [runId, days, new Date().toISOString(), report]);
   }
 }
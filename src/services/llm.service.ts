@@ -19,6 +19,15 @@ import { ConsensusConfig, ConsensusResult, ModelResult } from '../types/consensu
 import { DEFAULT_CONSENSUS_CONFIG } from '../config/consensus.config.js';
 import { createModelProviders } from './model-providers/provider-factory.js';
 import { BaseModelProvider, ModelProviderRequest } from './model-providers/base-provider.js';
+import { HallucinationDetectorService } from './hallucination-detector.service.js';
+import {
+  HallucinationPolicyConfig,
+  HallucinationAuditEntry,
+  HallucinationStats
+} from '../types/hallucination.types.js';
+import { DEFAULT_HALLUCINATION_POLICIES, getHallucinationPolicy } from '../config/hallucination.config.js';
+import { LLMMetricsService } from './llm-metrics.service.js';
+import { getRateLimiter, mapWithConcurrency } from '../utils/rate-limiter.js';
 
 export interface ChunkInfo {
   text: string;
@@ -48,6 +57,8 @@ export class LLMService {
   private overlapRatio: number = 0.1; // 10% overlap between chunks
   private totalTokensUsed: number = 0;
   private totalCost: number = 0;
+  private usageByVideo: Map<string, { tokens: number; cost: number }> = new Map();
+  private chatLimiter = getRateLimiter('chat'); // Shared with all concurrent videos
   private validator: OutputValidatorService;
   private semanticChunker: SemanticChunkerService;
   private useSemanticChunking: boolean = true; // Feature flag
@@ -68,11 +79,21 @@ export class LLMService {
   private consensusService: ConsensusService;
   private modelProviders: Map<string, BaseModelProvider>;
 
+  // Post-extraction hallucination guard
+  private useHallucinationCheck: boolean = true; // Feature flag
+  private hallucinationPolicies: HallucinationPolicyConfig = DEFAULT_HALLUCINATION_POLICIES;
+  private hallucinationDemoted = new WeakSet<object>(); // Items downgraded by the hallucination check
+  private hallucinationDetector: HallucinationDetectorService;
+
+  // Optional per-extraction metrics recorder (keyed by video ID)
+  private metricsService: LLMMetricsService | null = null;
+
   constructor(apiKey: string, apiKeys?: { anthropic?: string; google?: string }) {
     this.openai = new OpenAI({ apiKey });
     this.validator = new OutputValidatorService();
     this.semanticChunker = new SemanticChunkerService(apiKey);
     this.consensusService = new ConsensusService(this.consensusConfig);
+    this.hallucinationDetector = new HallucinationDetectorService(apiKey);
 
     // Initialize model providers for consensus
     const allApiKeys = {
@@ -126,14 +147,39 @@ export class LLMService {
     this.consensusService = new ConsensusService(this.consensusConfig);
   }
 
+  /**
+   * Enable/disable post-extraction hallucination check
+   */
+  public setHallucinationCheck(enabled: boolean): void {
+    this.useHallucinationCheck = enabled;
+  }
+
+  /**
+   * Configure per-source-type hallucination policies
+   */
+  public setHallucinationPolicies(policies: Partial<HallucinationPolicyConfig>): void {
+    this.hallucinationPolicies = {
+      ...this.hallucinationPolicies,
+      ...policies
+    };
+  }
+
+  /**
+   * Attach metrics recorder for chunks, retries, validation failures and hallucinations
+   */
+  public setMetricsService(metricsService: LLMMetricsService | null): void {
+    this.metricsService = metricsService;
+  }
+
   /**
    * Main parsing method - orchestrates the entire process
    */
   async parseTranscript(request: ParseRequest): Promise<VideoParsingResult> {
     const startTime = Date.now();
+    this.usageByVideo.set(request.transcript.videoId, { tokens: 0, cost: 0 });
     
     try {
-      console.log(`🧠 Parsing ${request.sourceType} video: ${request.videoMetadata.title}`);
+      console.log(`🧠 Parsing ${request.sourceType} ${this.isArticle(request) ? 'article' : 'video'}: ${request.videoMetadata.title}`);
       
       // 1. Smart chunking of transcript (now async with semantic chunking)
       const chunks = await this.intelligentChunking(request.transcript, request.sourceType);
@@ -142,40 +188,80 @@ export class LLMService {
       // 2. Process chunks in parallel with rate limiting
       const chunkResults = await this.processChunksWithRateLimit(chunks, request);
 
-      // 3. Merge and deduplicate results
+      // 3. Merge and deduplicate results, remembering the chunk each item came from
+      const chunkTexts = new Map<object, string>();
+      chunkResults.forEach((result, index) => {
+        for (const item of result.items || []) chunkTexts.set(item, chunks[index]!.text);
+      });
       const mergedResults = this.mergeChunkResults(chunkResults, request.sourceType);
 
+      // 4. Verify items against their chunk's transcript text and apply hallucination policy
+      const guarded = await this.applyHallucinationGuard(mergedResults, request, chunkTexts);
+      // Paragraph positions are not times - an article item has nothing to link into
+      const finalItems = this.isArticle(request)
+        ? guarded.items.map(guardedItem => {
+          const { timestamp: _timestamp, ...item } = guardedItem;
+          if (this.hallucinationDemoted.has(guardedItem)) this.hallucinationDemoted.add(item);
+          return item;
+        })
+        : guarded.items;
+
       const processingTimeMs = Date.now() - startTime;
+      const usage = this.usageByVideo.get(request.transcript.videoId) || { tokens: 0, cost: 0 };
+      const tokensUsed = usage.tokens;
+      const estimatedCost = usage.cost;
 
-      // 4. Aggregate multi-pass metrics if enabled
+      // 5. Aggregate multi-pass metrics if enabled
       const multiPassMetrics = this.useMultiPass
         ? this.aggregateMultiPassMetrics(chunkResults)
         : undefined;
 
-      // 5. Create final result
+      // 6. Create final result
       const result: VideoParsingResult = {
         videoId: request.transcript.videoId,
         sourceType: request.sourceType,
-        totalItems: mergedResults.length,
+        totalItems: finalItems.length,
         processingTimeMs,
-        tokensUsed: this.totalTokensUsed,
-        estimatedCost: this.totalCost,
+        tokensUsed,
+        estimatedCost,
         multiPassMetrics,
-        ...this.categorizeItems(mergedResults, request.sourceType)
+        hallucinationAudit: guarded.audit,
+        hallucinationStats: guarded.stats,
+        ...this.categorizeItems(finalItems, request.sourceType)
       };
 
       console.log(`✅ Parsed ${result.totalItems} items in ${processingTimeMs}ms`);
-      console.log(`💰 Cost: $${this.totalCost.toFixed(4)} (${this.totalTokensUsed} tokens)`);
+      console.log(`💰 Cost: $${estimatedCost.toFixed(4)} (${tokensUsed} tokens)`);
 
       if (multiPassMetrics) {
         console.log(`📊 Multi-pass: P1=${multiPassMetrics.pass1Items} P2=+${multiPassMetrics.pass2Items} P3=${multiPassMetrics.pass3Improvements} improvements`);
       }
 
+      if (guarded.stats.issuesFound > 0) {
+        console.log(`🔍 Hallucination check: ${guarded.stats.dropped} dropped, ${guarded.stats.downgraded} downgraded, ${guarded.stats.flagged} flagged (${guarded.stats.issuesFound} issues)`);
+      }
+
       return result;
 
     } catch (error) {
       console.error('❌ LLM parsing failed:', error);
       throw error;
+    } finally {
+      this.usageByVideo.delete(request.transcript.videoId);
+    }
+  }
+
+  /**
+   * Add API usage to service totals and to the video being parsed
+   */
+  private recordUsage(videoId: string, tokens: number, cost: number): void {
+    this.totalTokensUsed += tokens;
+    this.totalCost += cost;
+
+    const usage = this.usageByVideo.get(videoId);
+    if (usage) {
+      usage.tokens += tokens;
+      usage.cost += cost;
     }
   }
 
@@ -322,42 +408,30 @@ export class LLMService {
   }
 
   /**
-   * Process chunks with rate limiting to avoid API limits
+   * Process chunks with rate limiting to avoid API limits.
+   * Chat calls go through the shared chat limiter, so concurrent videos
+   * stay within one provider budget. Results keep chunk order.
    */
   private async processChunksWithRateLimit(
     chunks: ChunkInfo[],
     request: ParseRequest
   ): Promise<any[]> {
-    const results: any[] = [];
-    const CONCURRENT_LIMIT = 3; // Process 3 chunks at a time
-    const DELAY_MS = 1000; // 1 second delay between batches
-
-    for (let i = 0; i < chunks.length; i += CONCURRENT_LIMIT) {
-      const batch = chunks.slice(i, i + CONCURRENT_LIMIT);
-
-      console.log(`🔄 Processing chunk batch ${Math.floor(i / CONCURRENT_LIMIT) + 1}/${Math.ceil(chunks.length / CONCURRENT_LIMIT)}`);
-
-      const batchPromises = batch.map(chunk => {
-        // Priority order: Multi-pass > Consensus > Single-pass
-        if (this.useMultiPass) {
-          return this.extractItemsMultiPass(chunk, request);
-        } else if (this.useConsensus) {
-          return this.processChunkWithConsensus(chunk, request);
-        } else {
-          return this.processChunk(chunk, request);
-        }
-      });
+    const CONCURRENT_LIMIT = 3; // Chunks in flight per video
 
-      const batchResults = await Promise.all(batchPromises);
-      results.push(...batchResults);
+    console.log(`🔄 Processing ${chunks.length} chunks (${CONCURRENT_LIMIT} at a time)`);
 
-      // Rate limiting delay
-      if (i + CONCURRENT_LIMIT < chunks.length) {
-        await this.delay(DELAY_MS);
-      }
-    }
+    return mapWithConcurrency(chunks, CONCURRENT_LIMIT, chunk => {
+      this.metricsService?.recordChunkProcessed(request.transcript.videoId);
 
-    return results;
+      // Priority order: Multi-pass > Consensus > Single-pass
+      if (this.useMultiPass) {
+        return this.extractItemsMultiPass(chunk, request);
+      } else if (this.useConsensus) {
+        return this.processChunkWithConsensus(chunk, request);
+      } else {
+        return this.processChunk(chunk, request);
+      }
+    });
   }
 
   /**
@@ -375,12 +449,12 @@ export class LLMService {
       // Use structured JSON schema output for guaranteed valid structure
       const responseFormat = createResponseFormat(request.sourceType);
 
-      const completion = await this.openai.chat.completions.create({
+      const completion = await this.chatLimiter.schedule(() => this.openai.chat.completions.create({
         model: 'gpt-4o-mini',
         messages: [
           {
             role: 'system',
-            content: this.getSystemPrompt(request.sourceType)
+            content: this.getSystemPrompt(request.sourceType, this.isArticle(request))
           },
           {
             role: 'user',
@@ -390,15 +464,14 @@ export class LLMService {
         response_format: responseFormat,
         temperature: retryAttempt > 0 ? 0.2 : 0.1, // Slightly higher temp on retry
         max_tokens: 2000, // Increased for detailed responses
-      });
+      }));
 
       const usage = completion.usage;
       if (usage) {
-        this.totalTokensUsed += usage.total_tokens;
         // GPT-4o-mini pricing: $0.000150/1K input tokens, $0.000600/1K output tokens
         const inputCost = (usage.prompt_tokens / 1000) * 0.000150;
         const outputCost = (usage.completion_tokens / 1000) * 0.000600;
-        this.totalCost += inputCost + outputCost;
+        this.recordUsage(request.transcript.videoId, usage.total_tokens, inputCost + outputCost);
       }
 
       const content = completion.choices[0]?.message?.content;
@@ -443,7 +516,12 @@ export class LLMService {
           );
 
           // Retry with enhanced prompt
-          return await this.processChunk(chunk, enhancedRequest, retryAttempt + 1);
+          const retryResult = await this.processChunk(chunk, enhancedRequest, retryAttempt + 1);
+          this.metricsService?.recordRetry(
+            request.transcript.videoId,
+            !retryResult.error && Array.isArray(retryResult.items) && retryResult.items.length > 0
+          );
+          return retryResult;
         }
 
         // Filter out items with critical errors
@@ -461,6 +539,14 @@ export class LLMService {
           console.log(`📊 Validation: ${validCount}/${totalItems} valid, ${errorCount} errors, ${warningCount} warnings`);
         }
 
+        if (errorCount > 0) {
+          this.metricsService?.recordValidationFailure(
+            request.transcript.videoId,
+            validationResults.flatMap(r => r.validation.errors),
+            validationResults.flatMap(r => r.validation.warnings)
+          );
+        }
+
         return { items: validItems };
       }
 
@@ -489,7 +575,7 @@ export class LLMService {
 
     console.log(`🤝 Using ${this.consensusConfig.strategy} consensus validation`);
 
-    const systemPrompt = this.getSystemPrompt(request.sourceType);
+    const systemPrompt = this.getSystemPrompt(request.sourceType, this.isArticle(request));
     const userPrompt = this.buildPrompt(chunk, request);
     const modelResults: ModelResult[] = [];
 
@@ -573,8 +659,11 @@ export class LLMService {
     }
 
     // Track total cost and tokens
-    this.totalCost += consensusResult.metrics.totalCost;
-    this.totalTokensUsed += modelResults.reduce((sum, r) => sum + r.tokenUsage.input + r.tokenUsage.output, 0);
+    this.recordUsage(
+      request.transcript.videoId,
+      modelResults.reduce((sum, r) => sum + r.tokenUsage.input + r.tokenUsage.output, 0),
+      consensusResult.metrics.totalCost
+    );
 
     console.log(`🤝 Consensus: ${consensusResult.items.length} items, avg agreement: ${(consensusResult.metrics.averageAgreement * 100).toFixed(1)}%`);
 
@@ -710,7 +799,8 @@ REMEMBER: Quality over quantity. It's better to extract fewer, accurate items th
    */
   private buildPrompt(chunk: ChunkInfo, request: ParseRequest): string {
     const metadata = request.videoMetadata;
-    const timeInfo = chunk.startTime > 0 ?
+    const isArticle = this.isArticle(request);
+    const timeInfo = chunk.startTime > 0 && !isArticle ?
       `\nTiming: ${this.formatTime(chunk.startTime)} - ${this.formatTime(chunk.endTime)}` : '';
 
     // Add validation feedback if this is a retry
@@ -718,8 +808,8 @@ REMEMBER: Quality over quantity. It's better to extract fewer, accurate items th
 
     return `Analyze this ${request.sourceType} content and extract relevant items.
 
-Video: "${metadata.title}"
-Channel: ${metadata.channelName}
+${isArticle ? 'Article' : 'Video'}: "${metadata.title}"
+${isArticle ? 'Publisher' : 'Channel'}: ${metadata.channelName}
 Published: ${metadata.publishedAt.toDateString()}${timeInfo}
 
 Content to analyze:
@@ -748,7 +838,7 @@ Example: A new ChatGPT feature = 8, a research paper = 6, a minor bug fix = 3.${
   /**
    * Get system prompt based on source type
    */
-  private getSystemPrompt(sourceType: 'news' | 'debate' | 'dev'): string {
+  private getSystemPrompt(sourceType: 'news' | 'debate' | 'dev', isArticle: boolean = false): string {
     const base = `Du er en ekspert AI-analytiker som ekstraherer strukturert informasjon fra video-transkripsjoner.
 
 🎯 CHAIN-OF-THOUGHT PROSESS (følg dette steg-for-steg):
@@ -940,7 +1030,23 @@ EKSEMPEL DEV OUTPUT:
 }`
     };
 
-    return base + specific[sourceType];
+    const article = `
+
+📰 KILDEN ER EN SKREVET ARTIKKEL (blogg, changelog eller nyhetsbrev), IKKE en transkripsjon:
+- "Transkripsjonen" over betyr her artikkelteksten - alle regler gjelder likt
+- rawContext kopieres ORDRETT fra artikkelteksten
+- Artikkelen har ingen tidskoder: IKKE sett timestamp på items, og bruk tom streng som timestamp i sitater
+- Kunngjøringer fra selskapets egen blogg/changelog er førstehåndskilde - gi dem tilsvarende høy confidence
+- Lenker og versjonsnumre står ofte eksplisitt i teksten - ta dem med`;
+
+    return base + specific[sourceType] + (isArticle ? article : '');
+  }
+
+  /**
+   * Written sources (article text) rather than spoken transcripts
+   */
+  private isArticle(request: ParseRequest): boolean {
+    return request.transcript.source === 'article';
   }
 
   /**
@@ -961,6 +1067,75 @@ EKSEMPEL DEV OUTPUT:
     return dedupedItems;
   }
 
+  /**
+   * Run hallucination detector on merged items and apply source-type policy.
+   * Runs after every extraction path (single-pass, multi-pass, consensus).
+   */
+  private async applyHallucinationGuard(
+    items: any[],
+    request: ParseRequest,
+    chunkTexts: Map<object, string> = new Map()
+  ): Promise<{ items: any[]; audit: HallucinationAuditEntry[]; stats: HallucinationStats }> {
+    const stats: HallucinationStats = { itemsChecked: 0, dropped: 0, downgraded: 0, flagged: 0, issuesFound: 0 };
+    const audit: HallucinationAuditEntry[] = [];
+    const policy = getHallucinationPolicy(request.sourceType, this.hallucinationPolicies);
+
+    if (!this.useHallucinationCheck || !policy.enabled || items.length === 0) {
+      return { items, audit, stats };
+    }
+
+    const kept: any[] = [];
+
+    for (const item of items) {
+      try {
+        const check = await this.hallucinationDetector.detectHallucinations(item, chunkTexts.get(item) ?? request.transcript.text);
+        const outcome = this.hallucinationDetector.applyPolicy(item, check, policy);
+        stats.itemsChecked++;
+        stats.issuesFound += check.issues.length;
+        if (check.hasHallucinations) {
+          this.metricsService?.recordHallucination(request.transcript.videoId, 1);
+        }
+
+        if (outcome.action === 'drop') stats.dropped++;
+        if (outcome.action === 'downgrade') stats.downgraded++;
+        if (outcome.action === 'flag') stats.flagged++;
+
+        if (check.issues.length > 0) {
+          audit.push({
+            videoId: request.transcript.videoId,
+            sourceType: request.sourceType,
+            itemTitle: item.title || item.topic || '',
+            action: outcome.action,
+            originalConfidence: item.confidence || 'medium',
+            adjustedConfidence: outcome.adjustedConfidence,
+            recommendedAdjustment: check.recommendedConfidenceAdjustment,
+            detectorConfidence: check.confidence,
+            issues: check.issues
+          });
+        }
+
+        if (outcome.item) {
+          // Remember demoted items so later confidence recalculation keeps the demotion
+          if (outcome.action === 'downgrade') this.hallucinationDemoted.add(outcome.item);
+          kept.push(outcome.item);
+        }
+      } catch (error) {
+        // Detector failures must not lose items
+        console.warn(`⚠️ Hallucination check failed for "${item.title || item.topic}":`, error);
+        kept.push(item);
+      }
+    }
+
+    return { items: kept, audit, stats };
+  }
+
+  /**
+   * Whether the hallucination check downgraded an item's confidence
+   */
+  public isHallucinationDemoted(item: object): boolean {
+    return this.hallucinationDemoted.has(item);
+  }
+
   /**
    * Simple deduplication for chunk-level duplicates
    */
@@ -1343,7 +1518,7 @@ EKSEMPEL DEV OUTPUT:
 
     const focusedPrompt = this.buildGapFillingPrompt(chunk, gaps, request);
 
-    const response = await this.openai.chat.completions.create({
+    const response = await this.chatLimiter.schedule(() => this.openai.chat.completions.create({
       model: 'gpt-4o-mini',
       messages: [
         {
@@ -1357,7 +1532,7 @@ EKSEMPEL DEV OUTPUT:
       ],
       response_format: createResponseFormat(request.sourceType),
       temperature: 0.3 // Lower temp for focused extraction
-    });
+    }));
 
     const result = JSON.parse(response.choices[0].message.content || '{"items":[]}');
 
@@ -1365,11 +1540,10 @@ EKSEMPEL DEV OUTPUT:
     const usage = response.usage;
     let cost = 0;
     if (usage) {
-      this.totalTokensUsed += usage.total_tokens;
       const inputCost = (usage.prompt_tokens / 1000) * 0.000150;
       const outputCost = (usage.completion_tokens / 1000) * 0.000600;
       cost = inputCost + outputCost;
-      this.totalCost += cost;
+      this.recordUsage(request.transcript.videoId, usage.total_tokens, cost);
     }
 
     console.log(`    ✅ Found ${result.items.length} additional items`);
@@ -1439,7 +1613,7 @@ Focus on finding items that were missed, especially in the uncovered time ranges
   ): Promise<Pass3Result> {
     const refinementPrompt = this.buildRefinementPrompt(allItems, chunk, request);
 
-    const response = await this.openai.chat.completions.create({
+    const response = await this.chatLimiter.schedule(() => this.openai.chat.completions.create({
       model: 'gpt-4o-mini',
       messages: [
         {
@@ -1453,7 +1627,7 @@ Focus on finding items that were missed, especially in the uncovered time ranges
       ],
       response_format: createResponseFormat(request.sourceType),
       temperature: 0.2 // Very low temp for refinement
-    });
+    }));
 
     const result = JSON.parse(response.choices[0].message.content || '{"items":[]}');
 
@@ -1461,11 +1635,10 @@ Focus on finding items that were missed, especially in the uncovered time ranges
     const usage = response.usage;
     let cost = 0;
     if (usage) {
-      this.totalTokensUsed += usage.total_tokens;
       const inputCost = (usage.prompt_tokens / 1000) * 0.000150;
       const outputCost = (usage.completion_tokens / 1000) * 0.000600;
       cost = inputCost + outputCost;
-      this.totalCost += cost;
+      this.recordUsage(request.transcript.videoId, usage.total_tokens, cost);
     }
 
     // Ensure items array exists
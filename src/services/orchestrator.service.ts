@@ -1,10 +1,42 @@
 import { YouTubeService } from './youtube.service.js';
-import { TranscriptProcessor } from '../processors/transcript.processor.js';
+import { YouTubeQuotaService, planYouTubeSources, usageSince } from './youtube-quota.service.js';
+import { PodcastService } from './podcast.service.js';
+import { WrittenSourceService } from './written-source.service.js';
+import { GitHubService, releaseTitle } from './github.service.js';
+import { ArxivService, findPaperMentions, isPaperItem, parseKeywords } from './arxiv.service.js';
+import { TranscriptProcessor, TranscriptTarget } from '../processors/transcript.processor.js';
 import { ItemProcessor } from '../processors/item.processor.js';
 import { DedupProcessor } from '../processors/dedup.processor.js';
-import { SlackService, SlackBriefData } from './slack.service.js';
+import { SlackService, SlackBriefData, SlackThreadMessage } from './slack.service.js';
+import { EmailConfig } from './email.service.js';
+import { DeliveryService } from './delivery.service.js';
+import { ArchiveService } from './archive.service.js';
+import { FeedService } from './feed.service.js';
+import { AlertService, selectBreakingAlerts } from './alert.service.js';
+import { LLMMetricsService } from './llm-metrics.service.js';
 import { getDatabase } from '../db/database.js';
+import { upsertSql } from '../db/query.js';
+import { loadNewsItemsSince } from '../db/items.js';
 import { NewsItem, DebateItem, DevItem } from '../types/schemas.js';
+import { TranscriptTier } from '../types/transcript.types.js';
+import { StageTimings } from '../types/concurrency.types.js';
+import { DeliveryTargetConfig } from '../types/delivery.types.js';
+import { AlertConfig, AlertCheckResult } from '../types/alert.types.js';
+import { EndpointUsage, YouTubeEndpoint, YouTubeQuotaConfig, YouTubeQuotaReport } from '../types/youtube-quota.types.js';
+import { DEFAULT_VIDEO_CONCURRENCY } from '../config/concurrency.config.js';
+import { DEFAULT_ALERT_CONFIG } from '../config/alert.config.js';
+import { briefItemKey } from '../utils/brief-sections.js';
+import { mapWithConcurrency } from '../utils/rate-limiter.js';
+
+/**
+ * Papers announced this many days back can still be linked to today's discussion
+ */
+const PAPER_LOOKBACK_DAYS = 7;
+
+/**
+ * Runs a video may fail in before later runs stop picking it up as unfinished
+ */
+const DEFAULT_MAX_VIDEO_ATTEMPTS = 3;
 
 export interface OrchestratorConfig {
   youtubeApiKey: string;
@@ -14,11 +46,46 @@ export interface OrchestratorConfig {
   maxVideosPerSource?: number;
   maxTranscriptionMinutes?: number;
   similarityThreshold?: number;
-  lookbackHours?: number;
+  lookbackHours?: number;       // Window for sources without a watermark (first run)
+  maxBackfillHours?: number;    // How far back a stale watermark may reach
   dryRun?: boolean;
   rapidApiKey?: string;
   rapidApiHost?: string;
   rapidApiRateLimit?: number;
+  githubToken?: string | undefined; // GitHub sources - optional, raises the API rate limit
+  videoConcurrency?: number;       // Videos processed in parallel per stage
+  maxVideoAttempts?: number;       // Failed runs before an unfinished video is given up on
+  qualityReportChannelId?: string; // Slack channel for weekly LLM quality report
+  email?: EmailConfig | undefined;  // SMTP digest, sent alongside the Slack brief
+  deliveryTargets?: DeliveryTargetConfig[] | undefined; // Extra targets besides slackChannelId and email
+  archiveDir?: string | undefined; // Rebuild the static brief archive here after each run
+  feedDir?: string | undefined;    // Write RSS/Atom feeds here after each run (dry runs default to ./feeds)
+  feedBaseUrl?: string | undefined; // Public URL the feeds are served from
+  alerts?: AlertConfig | undefined; // Breaking-news alert checks between briefs
+  youtubeQuota?: YouTubeQuotaConfig | undefined; // Daily Data API budget for youtubeApiKey
+}
+
+/**
+ * Pipeline stage a video has completed (in order)
+ */
+export type VideoStage = 'discovered' | 'transcribed' | 'extracted' | 'deduped' | 'delivered';
+
+/**
+ * Daily brief pipeline run, or a breaking-news alert check
+ */
+export type RunKind = 'brief' | 'alert';
+
+export interface RunOptions {
+  resumeRunId?: string; // Finish a failed run instead of starting a new one
+}
+
+/**
+ * Where a source's next fetch starts: videos after `since`, and at `since` itself those
+ * sorting after the watermark video (a per-run cap can cut between same-instant videos)
+ */
+export interface FetchWatermark {
+  since: Date;
+  videoId?: string | undefined;
 }
 
 export interface RunStats {
@@ -35,130 +102,356 @@ export interface RunStats {
     duplicatesRemoved: number;
     totalProcessingTimeMs: number;
     totalCost: number;
+    transcriptSources: Partial<Record<TranscriptTier, number>>;
+    whisperMinutesSaved: number;
+    stageTimings: StageTimings;
+    youtubeQuota: YouTubeQuotaReport;
   };
   errors: string[];
 }
 
 export class OrchestratorService {
   private youtubeService: YouTubeService;
+  private youtubeQuota: YouTubeQuotaService;
+  private podcastService: PodcastService;
+  private writtenSourceService: WrittenSourceService;
+  private githubService: GitHubService;
+  private arxivService: ArxivService;
   private transcriptProcessor: TranscriptProcessor;
   private itemProcessor: ItemProcessor;
   private dedupProcessor: DedupProcessor;
   private slackService: SlackService;
+  private deliveryService: DeliveryService;
+  private archiveService: ArchiveService;
+  private feedService: FeedService;
+  private alertService: AlertService;
+  private metricsService: LLMMetricsService;
   private db;
   private config: OrchestratorConfig;
+  private pendingWatermarks: Map<string, { publishedAt: Date; videoId: string }> = new Map();
+  private quotaBaselines: Map<string, Partial<Record<YouTubeEndpoint, EndpointUsage>>> = new Map();
 
   constructor(config: OrchestratorConfig) {
     this.config = config;
-    this.youtubeService = new YouTubeService(config.youtubeApiKey);
+    this.youtubeQuota = new YouTubeQuotaService(config.youtubeApiKey, config.youtubeQuota);
+    this.youtubeService = new YouTubeService(config.youtubeApiKey, this.youtubeQuota);
+    this.podcastService = new PodcastService();
+    this.writtenSourceService = new WrittenSourceService();
+    this.githubService = new GitHubService(config.githubToken);
+    this.arxivService = new ArxivService();
     this.transcriptProcessor = new TranscriptProcessor(
       config.openaiApiKey,
       config.maxTranscriptionMinutes || 180,
       config.rapidApiKey,
       config.rapidApiHost,
-      config.rapidApiRateLimit
+      config.rapidApiRateLimit,
+      this.youtubeService,
+      this.githubService,
+      this.arxivService
     );
     this.itemProcessor = new ItemProcessor(config.openaiApiKey);
     this.dedupProcessor = new DedupProcessor(config.openaiApiKey);
     this.slackService = new SlackService(config.slackBotToken);
+    this.deliveryService = new DeliveryService([
+      { name: 'slack', kind: 'slack', channelId: config.slackChannelId },
+      ...(config.email ? [{ name: 'email', kind: 'email' as const, email: config.email }] : []),
+      ...(config.deliveryTargets || [])
+    ], this.slackService);
+    this.archiveService = new ArchiveService();
+    this.feedService = new FeedService();
+    this.alertService = new AlertService(this.slackService);
+    this.metricsService = new LLMMetricsService();
     this.db = getDatabase();
   }
 
   /**
    * Main orchestration method - runs complete pipeline
    */
-  async runPipeline(): Promise<RunStats> {
-    const runId = `run_${Date.now()}`;
-    const startTime = Date.now();
+  async runPipeline(options: RunOptions = {}): Promise<RunStats> {
+    const runId = options.resumeRunId || `run_${Date.now()}`;
     
-    const runStats: RunStats = {
-      runId,
-      startedAt: new Date(),
-      status: 'running',
-      stats: {
-        sourcesProcessed: 0,
-        videosFound: 0,
-        videosTranscribed: 0,
-        itemsExtracted: 0,
-        itemsAfterDedup: 0,
-        duplicatesRemoved: 0,
-        totalProcessingTimeMs: 0,
-        totalCost: 0
-      },
-      errors: []
-    };
+    const runStats = this.createRunStats(runId);
+
+    // Validate resume target before touching its run record
+    if (options.resumeRunId) {
+      await this.reopenRunRecord(runStats);
+    }
+
+    const timings = runStats.stats.stageTimings;
+    let stageStart = Date.now();
 
     try {
-      console.log(`🚀 Starting AI-nyhetsagent pipeline - Run ID: ${runId}`);
-      
-      // Save run record
-      await this.saveRunRecord(runStats);
+      let newVideos: any[];
 
-      // Step 1: Get active sources and find new videos
-      console.log('📡 Step 1: Fetching new videos from sources...');
-      const { newVideos, sourcesProcessed } = await this.fetchNewVideos();
-      
-      runStats.stats.sourcesProcessed = sourcesProcessed;
-      runStats.stats.videosFound = newVideos.length;
+      if (options.resumeRunId) {
+        console.log(`🔁 Resuming AI-nyhetsagent pipeline - Run ID: ${runId}`);
+
+        // Step 1: Only the run's own unfinished videos - completed stages are served from cache
+        console.log('📡 Step 1: Loading unfinished videos from run...');
+        newVideos = await this.getUnfinishedVideos(runId);
+        runStats.stats.videosFound = newVideos.length;
+      } else {
+        console.log(`🚀 Starting AI-nyhetsagent pipeline - Run ID: ${runId}`);
+
+        // Save run record
+        await this.saveRunRecord(runStats);
+
+        // Step 1: Get active sources and find new videos
+        console.log('📡 Step 1: Fetching new videos from sources...');
+        const fetched = await this.fetchNewVideos(runId);
+        runStats.stats.sourcesProcessed = fetched.sourcesProcessed;
+        runStats.stats.videosFound = fetched.newVideos.length;
+        runStats.stats.youtubeQuota.sourcesSkipped = fetched.sourcesSkipped;
+
+        // Pick up videos left unfinished by earlier interrupted runs
+        const fetchedIds = new Set(fetched.newVideos.map(v => v.id));
+        const unfinished = (await this.getUnfinishedVideos()).filter(v => !fetchedIds.has(v.id));
+        if (unfinished.length > 0) {
+          console.log(`🔁 Resuming ${unfinished.length} unfinished videos from earlier runs`);
+        }
+        newVideos = [...fetched.newVideos, ...unfinished];
+      }
+      timings.fetchMs = Date.now() - stageStart;
       
       if (newVideos.length === 0) {
         console.log('ℹ️ No new videos found since last run');
+        await this.updateSourceWatermarks(runId);
         return await this.finishRun(runStats, 'success');
       }
 
-      console.log(`📹 Found ${newVideos.length} new videos across ${sourcesProcessed} sources`);
+      console.log(`📹 Processing ${newVideos.length} videos across ${runStats.stats.sourcesProcessed} sources`);
 
       // Step 2: Process transcripts
       console.log('\n📝 Step 2: Processing transcripts...');
+      stageStart = Date.now();
       const { processedVideos, transcriptionCost } = await this.processTranscripts(newVideos);
+      timings.transcribeMs = Date.now() - stageStart;
       
       runStats.stats.videosTranscribed = processedVideos.length;
       runStats.stats.totalCost += transcriptionCost;
+      await this.setVideoStage(processedVideos.map(v => v.id), 'transcribed', runId);
+      const transcribedIds = new Set(processedVideos.map(v => v.id));
+      await this.recordFailedAttempts(newVideos.filter(v => !transcribedIds.has(v.id)).map(v => v.id));
+
+      const tierStats = this.transcriptProcessor.getTierStats();
+      runStats.stats.transcriptSources = tierStats.bySource;
+      runStats.stats.whisperMinutesSaved = Math.round(tierStats.whisperMinutesSaved * 10) / 10;
 
       // Step 3: Extract items from transcripts
       console.log('\n🧠 Step 3: Extracting structured items...');
-      const { allItems, extractionCost } = await this.extractItems(processedVideos);
+      stageStart = Date.now();
+      const { allItems, extractionCost, extractedVideoIds } = await this.extractItems(processedVideos, runId);
+      timings.extractMs = Date.now() - stageStart;
       
       runStats.stats.itemsExtracted = allItems.length;
       runStats.stats.totalCost += extractionCost;
+      await this.setVideoStage(extractedVideoIds, 'extracted', runId);
+      await this.recordFailedAttempts(processedVideos.map(v => v.id).filter(id => !extractedVideoIds.includes(id)));
 
       // Step 4: Deduplication
       console.log('\n🔍 Step 4: Deduplicating items...');
+      stageStart = Date.now();
       const { deduplicatedItems, duplicatesRemoved, dedupCost } = await this.deduplicateItems(allItems);
+      timings.dedupMs = Date.now() - stageStart;
       
       runStats.stats.itemsAfterDedup = deduplicatedItems.length;
       runStats.stats.duplicatesRemoved = duplicatesRemoved;
       runStats.stats.totalCost += dedupCost;
+      await this.setVideoStage(extractedVideoIds, 'deduped', runId);
 
-      // Step 5: Send Slack brief (if not dry run)
+      // Step 5: Deliver brief (if not dry run)
+      const briefData = this.buildBriefData(deduplicatedItems, runStats);
+      await this.markAnnouncedItems(briefData);
+      await this.linkPaperDiscussions(briefData);
       if (!this.config.dryRun) {
-        console.log('\n📤 Step 5: Sending Slack brief...');
-        await this.sendSlackBrief(deduplicatedItems, runStats);
+        console.log('\n📤 Step 5: Delivering brief...');
+        stageStart = Date.now();
+        await this.deliverBrief(briefData);
+        timings.deliverMs = Date.now() - stageStart;
+        await this.setVideoStage(extractedVideoIds, 'delivered', runId);
       } else {
-        console.log('\n🧪 Step 5: Dry run - skipping Slack posting');
+        console.log('\n🧪 Step 5: Dry run - skipping delivery');
         console.log(`📋 Would send brief with ${deduplicatedItems.length} items`);
       }
 
-      // Step 6: Update last run timestamp
-      await this.updateLastRunTimestamp();
+      // Step 6: Advance per-source watermarks
+      await this.updateSourceWatermarks(runId);
+
+      // Step 7: Weekly LLM quality report
+      await this.sendQualityReportIfDue(runId);
+
+      // Step 8: Static brief archive
+      await this.rebuildArchive();
+
+      // Step 9: RSS/Atom feeds (dry runs include the undelivered brief)
+      await this.writeFeeds(this.config.dryRun ? briefData : undefined);
 
       return await this.finishRun(runStats, 'success');
 
     } catch (error) {
       console.error('❌ Pipeline failed:', error);
       runStats.errors.push(error.message);
+      this.pendingWatermarks.clear(); // Keep old watermarks so next run retries this window
+      return await this.finishRun(runStats, 'failed');
+    }
+  }
+
+  /**
+   * Transcribe and extract a single video on demand (no dedup or delivery)
+   */
+  async processSingleVideo(videoId: string): Promise<RunStats> {
+    const runStats = this.createRunStats(`run_${Date.now()}`);
+    console.log(`🎯 Processing single video ${videoId} - Run ID: ${runStats.runId}`);
+
+    const [video] = await this.youtubeService.getVideoMetadata([videoId]);
+    if (!video) {
+      throw new Error(`Video not found on YouTube: ${videoId}`);
+    }
+
+    const sources = await this.db.query('SELECT * FROM sources WHERE channel_id = ?', [video.channelId]);
+    const source = sources[0];
+    if (!source) {
+      throw new Error(`No source configured for channel ${video.channelId}`);
+    }
+
+    await this.saveRunRecord(runStats);
+
+    try {
+      if (!(await this.isVideoInDatabase(video.id))) {
+        await this.saveVideoToDatabase(video, source, runStats.runId);
+      }
+      const videos = [{ ...video, channelTitle: source.name, sourceId: source.id, sourceType: source.type }];
+      runStats.stats.sourcesProcessed = 1;
+      runStats.stats.videosFound = 1;
+
+      const { processedVideos, transcriptionCost } = await this.processTranscripts(videos);
+      runStats.stats.videosTranscribed = processedVideos.length;
+      runStats.stats.totalCost += transcriptionCost;
+      await this.setVideoStage(processedVideos.map(v => v.id), 'transcribed', runStats.runId);
+
+      const { allItems, extractionCost, extractedVideoIds } = await this.extractItems(processedVideos, runStats.runId);
+      runStats.stats.itemsExtracted = allItems.length;
+      runStats.stats.itemsAfterDedup = allItems.length;
+      runStats.stats.totalCost += extractionCost;
+      await this.setVideoStage(extractedVideoIds, 'extracted', runStats.runId);
+
+      if (processedVideos.length === 0) {
+        runStats.errors.push(`No transcript available for ${videoId}`);
+        return await this.finishRun(runStats, 'failed');
+      }
+
+      return await this.finishRun(runStats, 'success');
+    } catch (error) {
+      runStats.errors.push(error instanceof Error ? error.message : String(error));
       return await this.finishRun(runStats, 'failed');
     }
   }
 
   /**
-   * Fetch new videos from all active sources
+   * Breaking-news check between daily briefs: news sources only, alerting on corroborated breaking stories.
+   * Videos are left at 'extracted' and watermarks untouched, so the next daily run delivers them from cache.
+   */
+  async runAlertCheck(): Promise<AlertCheckResult> {
+    const alertConfig = this.config.alerts || DEFAULT_ALERT_CONFIG;
+    const runStats = this.createRunStats(`alert_${Date.now()}`);
+    const runId = runStats.runId;
+    const result: AlertCheckResult = { runId, videosProcessed: 0, candidates: 0, alerted: [], errors: runStats.errors };
+
+    console.log(`🚨 Checking for breaking news - Run ID: ${runId}`);
+    await this.saveRunRecord(runStats, 'alert');
+
+    try {
+      const since = new Date(Date.now() - alertConfig.windowHours * 60 * 60 * 1000);
+      const fetched = await this.fetchNewVideos(runId, { sourceType: 'news', since });
+      runStats.stats.sourcesProcessed = fetched.sourcesProcessed;
+      runStats.stats.videosFound = fetched.newVideos.length;
+      runStats.stats.youtubeQuota.sourcesSkipped = fetched.sourcesSkipped;
+
+      const { processedVideos, transcriptionCost } = await this.processTranscripts(fetched.newVideos);
+      runStats.stats.videosTranscribed = processedVideos.length;
+      runStats.stats.totalCost += transcriptionCost;
+      await this.setVideoStage(processedVideos.map(v => v.id), 'transcribed', runId);
+
+      const { allItems, extractionCost, extractedVideoIds } = await this.extractItems(processedVideos, runId, 'news');
+      runStats.stats.itemsExtracted = allItems.length;
+      runStats.stats.totalCost += extractionCost;
+      await this.setVideoStage(extractedVideoIds, 'extracted', runId);
+      result.videosProcessed = extractedVideoIds.length;
+
+      if (allItems.length === 0) {
+        console.log('ℹ️ No new news items since last check');
+        await this.finishRun(runStats, 'success');
+        return result;
+      }
+
+      // Cluster with the window's stored news, so coverage picked up by earlier checks corroborates.
+      // Every check re-clusters the whole window - the daily brief stores the clusters, not the checks.
+      const dedup = await this.dedupProcessor.deduplicateItems(
+        await loadNewsItemsSince(this.db, since),
+        this.config.similarityThreshold || 0.85,
+        { persist: false }
+      );
+      runStats.stats.itemsAfterDedup = dedup.deduplicatedItems.length;
+      runStats.stats.totalCost += dedup.processing_stats.embedding_cost;
+
+      // Only stories this check added coverage to
+      const newVideoIds = new Set(extractedVideoIds);
+      const clusters = dedup.clusters.filter(cluster => cluster.members.some(member => newVideoIds.has(member.videoId)));
+      const alerts = selectBreakingAlerts(clusters, alertConfig);
+      result.candidates = alerts.length;
+
+      result.alerted = await this.alertService.sendAlerts(alerts, {
+        slackChannelId: alertConfig.slackChannelId || this.config.slackChannelId,
+        runId,
+        dryRun: this.config.dryRun
+      });
+      console.log(`🚨 ${alerts.length} breaking stories, ${result.alerted.length} alerted`);
+
+      await this.finishRun(runStats, 'success');
+    } catch (error) {
+      console.error('❌ Breaking-news check failed:', error);
+      runStats.errors.push(error instanceof Error ? error.message : String(error));
+      await this.finishRun(runStats, 'failed');
+    }
+
+    return result;
+  }
+
+  /**
+   * Rebuild the Slack brief thread for a stored run without posting it
    */
-  private async fetchNewVideos(): Promise<{ newVideos: any[]; sourcesProcessed: number }> {
-    const sources = await this.db.query('SELECT * FROM sources WHERE active = 1');
+  async previewBrief(runId: string): Promise<{ briefData: SlackBriefData; messages: SlackThreadMessage[] }> {
+    const briefData = await this.archiveService.loadBrief(runId);
+    if (!briefData) {
+      throw new Error(`Run not found: ${runId}`);
+    }
+
+    const messages = await this.slackService.buildThreadMessages(briefData);
+    return { briefData, messages };
+  }
+
+  /**
+   * Fetch new videos (and podcast episodes, articles, releases, papers) from all active sources (or one source type).
+   * With since, fetch from that date instead of the source watermarks and leave the watermarks alone.
+   * Sources are checked by weight; YouTube sources the day's quota can't cover are skipped, lowest weight first.
+   */
+  private async fetchNewVideos(
+    runId: string,
+    options: { sourceType?: string; since?: Date } = {}
+  ): Promise<{ newVideos: any[]; sourcesProcessed: number; sourcesSkipped: string[] }> {
+    const sources = options.sourceType
+      ? await this.db.query('SELECT * FROM sources WHERE active = TRUE AND type = ? ORDER BY weight DESC', [options.sourceType])
+      : await this.db.query('SELECT * FROM sources WHERE active = TRUE ORDER BY weight DESC');
     const newVideos: any[] = [];
     let sourcesProcessed = 0;
 
+    const youtubeSources = sources.filter(source => (source.kind || 'youtube') === 'youtube' && source.channel_id);
+    const plan = planYouTubeSources(youtubeSources, await this.youtubeQuota.getRemainingUnits(), this.youtubeQuota.getConfig());
+    const skipped = new Set(plan.skipped);
+    if (skipped.size > 0) {
+      console.log(`📺 YouTube quota low - skipping ${skipped.size} of ${youtubeSources.length} YouTube sources with the lowest weight`);
+    }
+
     for (const source of sources) {
       try {
         console.log(`📡 Checking ${source.name}...`);
@@ -168,21 +461,41 @@ export class OrchestratorService {
           console.log(`  ⚠️ Skipping - missing channel_id`);
           continue;
         }
+
+        if (skipped.has(source)) {
+          console.log(`  ⏭️ Skipping - not enough YouTube quota left today (weight ${source.weight})`);
+          continue;
+        }
         
-        // Get lookback date for filtering videos
-        const lookbackDate = this.getLookbackDate();
-        
-        // Fetch recent videos from YouTube
-        const videos = await this.youtubeService.getChannelVideos(
-          source.channel_id,
-          this.config.maxVideosPerSource || 10
-        );
+        // Fetch everything published since the source watermark (capped by backfill window)
+        const watermark = options.since ? { since: options.since } : await this.getFetchWatermark(source.id);
+        const sinceDate = watermark.since;
+        const videos: TranscriptTarget[] = source.kind === 'podcast'
+          ? await this.fetchPodcastEpisodes(source, sinceDate)
+          : source.kind === 'written'
+            ? await this.fetchWrittenEntries(source, sinceDate)
+            : source.kind === 'github'
+              ? await this.fetchGitHubReleases(source, sinceDate)
+              : source.kind === 'arxiv'
+                ? await this.fetchArxivPapers(source, sinceDate)
+                : await this.fetchYouTubeVideos(source, sinceDate);
 
-        // Filter for videos published within the lookback window
-        const recentVideos = videos.filter(video => {
-          const publishedAt = new Date(video.publishedAt);
-          return publishedAt > lookbackDate;
-        });
+        // Oldest first (id breaks ties), so a per-run cap leaves the newest for the next run.
+        // Videos published at the watermark instant are kept unless they sort up to the watermark video.
+        // arXiv listings only carry today's announcements, so papers left for the next run would be gone.
+        const perRunCap = source.kind === 'arxiv' ? Infinity : this.config.maxVideosPerSource || 10;
+        const recentVideos = videos
+          .filter(video => isAfterWatermark(video, watermark))
+          .sort((a, b) => new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime() || a.id.localeCompare(b.id))
+          .slice(0, perRunCap);
+
+        const newest = recentVideos[recentVideos.length - 1];
+        if (newest && !options.since) {
+          this.pendingWatermarks.set(source.id, {
+            publishedAt: new Date(newest.publishedAt),
+            videoId: newest.id
+          });
+        }
 
         // Check which videos are already in database
         let existingCount = 0;
@@ -194,22 +507,103 @@ export class OrchestratorService {
             existingCount++;
           } else {
             // Save new video to database
-            await this.saveVideoToDatabase(video, source);
-            newVideosFromSource.push({ ...video, sourceId: source.id, sourceType: source.type });
+            await this.saveVideoToDatabase(video, source, runId);
+            newVideosFromSource.push({ ...video, channelTitle: source.name, sourceId: source.id, sourceType: source.type });
           }
         }
         
         newVideos.push(...newVideosFromSource);
 
         sourcesProcessed++;
-        console.log(`  📊 YouTube: ${videos.length} total, ${recentVideos.length} recent, ${existingCount} existing, ${newVideosFromSource.length} new`);
+        const kindLabel = { podcast: 'Podcast', written: 'Feed', github: 'GitHub', arxiv: 'arXiv' }[source.kind as string] || 'YouTube';
+        console.log(`  📊 ${kindLabel} since ${sinceDate.toISOString()}: ${videos.length} total, ${recentVideos.length} in window, ${existingCount} existing, ${newVideosFromSource.length} new`);
 
       } catch (error) {
         console.error(`⚠️ Error processing source ${source.name}:`, error.message);
       }
     }
 
-    return { newVideos, sourcesProcessed };
+    return { newVideos, sourcesProcessed, sourcesSkipped: plan.skipped.map(source => source.name) };
+  }
+
+  /**
+   * Uploads published on a YouTube channel since a date
+   */
+  private async fetchYouTubeVideos(source: any, since: Date): Promise<TranscriptTarget[]> {
+    const uploadsPlaylistId = await this.youtubeService.getChannelUploadsPlaylistId(source.channel_id);
+    const videoIds = await this.youtubeService.getNewVideosSince(uploadsPlaylistId, since);
+    return this.youtubeService.getVideoMetadata(videoIds);
+  }
+
+  /**
+   * Episodes published in a podcast feed (channel_url) since a date, as videos carrying their media
+   */
+  private async fetchPodcastEpisodes(source: any, since: Date): Promise<TranscriptTarget[]> {
+    const episodes = await this.podcastService.getEpisodesSince(source.channel_url, since);
+    return episodes.map(episode => ({
+      id: episode.id,
+      title: episode.title,
+      publishedAt: new Date(episode.publishedAt),
+      duration: episode.durationSeconds,
+      channelId: source.channel_id,
+      url: episode.url,
+      hasCaptions: Boolean(episode.media.transcriptUrl),
+      media: episode.media
+    }));
+  }
+
+  /**
+   * Articles published in a written source's feed (channel_url) since a date, as videos carrying
+   * the article to extract
+   */
+  private async fetchWrittenEntries(source: any, since: Date): Promise<TranscriptTarget[]> {
+    const entries = await this.writtenSourceService.getEntriesSince(source.channel_url, since);
+    return entries.map(entry => ({
+      id: entry.id,
+      title: entry.title,
+      publishedAt: new Date(entry.publishedAt),
+      duration: 0,
+      channelId: source.channel_id,
+      url: entry.url,
+      hasCaptions: true,
+      article: { url: entry.url, feedHtml: entry.contentHtml }
+    }));
+  }
+
+  /**
+   * Releases (and release-less tags) of a GitHub repository (channel_url) since a date, as videos
+   * carrying their notes
+   */
+  private async fetchGitHubReleases(source: any, since: Date): Promise<TranscriptTarget[]> {
+    const releases = await this.githubService.getReleasesSince(source.channel_url, since);
+    return releases.map(release => ({
+      id: release.id,
+      title: releaseTitle(release),
+      publishedAt: new Date(release.publishedAt),
+      duration: 0,
+      channelId: source.channel_id,
+      url: release.url,
+      hasCaptions: true,
+      release: { url: release.url, body: release.body }
+    }));
+  }
+
+  /**
+   * Papers in an arXiv listing feed (channel_url) since a date that match the source's keywords,
+   * as videos carrying their abstract
+   */
+  private async fetchArxivPapers(source: any, since: Date): Promise<TranscriptTarget[]> {
+    const papers = await this.arxivService.getPapersSince(source.channel_url, since, parseKeywords(source.keywords));
+    return papers.map(paper => ({
+      id: paper.id,
+      title: paper.title,
+      publishedAt: new Date(paper.publishedAt),
+      duration: 0,
+      channelId: source.channel_id,
+      url: paper.url,
+      hasCaptions: true,
+      paper: { arxivId: paper.arxivId, authors: paper.authors, abstract: paper.abstract }
+    }));
   }
 
   /**
@@ -219,21 +613,24 @@ export class OrchestratorService {
     const processedVideos: any[] = [];
     let transcriptionCost = 0;
 
-    for (const video of videos) {
+    const transcripts = await mapWithConcurrency(videos, this.getVideoConcurrency(), async video => {
       try {
         console.log(`📝 Processing: ${video.title}`);
-        
-        const transcript = await this.transcriptProcessor.processVideoTranscript(video);
-        
-        if (transcript) {
-          processedVideos.push({ ...video, transcript });
-          transcriptionCost += transcript.cost || 0;
-        }
-
+        return await this.transcriptProcessor.processVideoTranscript(video);
       } catch (error) {
         console.error(`⚠️ Transcript failed for ${video.title}:`, error.message);
+        return null;
       }
-    }
+    });
+
+    // Collect in input order so runs are reproducible
+    videos.forEach((video, index) => {
+      const transcript = transcripts[index];
+      if (transcript) {
+        processedVideos.push({ ...video, transcript });
+        transcriptionCost += transcript.cost || 0;
+      }
+    });
 
     return { processedVideos, transcriptionCost };
   }
@@ -241,11 +638,21 @@ export class OrchestratorService {
   /**
    * Extract structured items from transcripts
    */
-  private async extractItems(videos: any[]): Promise<{ allItems: any[]; extractionCost: number }> {
+  private async extractItems(videos: any[], runId: string, sourceType?: 'news' | 'debate' | 'dev'): Promise<{
+    allItems: any[];
+    extractionCost: number;
+    extractedVideoIds: string[];
+  }> {
     const allItems: any[] = [];
+    const extractedVideoIds: string[] = [];
     let extractionCost = 0;
 
-    for (const video of videos) {
+    // Alert checks only run the news extraction path
+    if (sourceType) {
+      videos = videos.filter(video => video.sourceType === sourceType);
+    }
+
+    const results = await mapWithConcurrency(videos, this.getVideoConcurrency(), async video => {
       try {
         const videoMetadata = {
           id: video.id,
@@ -255,30 +662,45 @@ export class OrchestratorService {
           channelName: video.channelTitle,
           duration: video.durationSeconds || video.duration,
           publishedAt: new Date(video.publishedAt),
-          url: video.url || `https://www.youtube.com/watch?v=${video.id}`
+          url: video.url || `https://www.youtube.com/watch?v=${video.id}`,
+          authors: video.paper?.authors
         };
 
-        const result = await this.itemProcessor.processVideo(
+        return await this.itemProcessor.processVideo(
           videoMetadata,
-          video.transcript
+          video.transcript,
+          { runId }
         );
 
-        // Collect all items regardless of type
-        const items = [
-          ...(result.newsItems || []),
-          ...(result.debateItems || []),
-          ...(result.devItems || [])
-        ];
-
-        allItems.push(...items);
-        extractionCost += result.estimatedCost || 0;
-
       } catch (error) {
         console.error(`⚠️ Item extraction failed for ${video.title}:`, error.message);
+        return null;
       }
-    }
+    });
 
-    return { allItems, extractionCost };
+    // Collect in input order so runs are reproducible
+    videos.forEach((video, index) => {
+      const result = results[index];
+      if (!result) return;
+
+      // Collect all items regardless of type
+      allItems.push(
+        ...(result.newsItems || []),
+        ...(result.debateItems || []),
+        ...(result.devItems || [])
+      );
+      extractionCost += result.estimatedCost || 0;
+      extractedVideoIds.push(video.id);
+    });
+
+    return { allItems, extractionCost, extractedVideoIds };
+  }
+
+  /**
+   * Number of videos processed in parallel per stage
+   */
+  private getVideoConcurrency(): number {
+    return Math.max(1, this.config.videoConcurrency || DEFAULT_VIDEO_CONCURRENCY);
   }
 
   /**
@@ -306,9 +728,9 @@ export class OrchestratorService {
   }
 
   /**
-   * Send Slack brief with deduplicated items
+   * Group deduplicated items into the brief for this run
    */
-  private async sendSlackBrief(items: any[], runStats: RunStats): Promise<void> {
+  private buildBriefData(items: any[], runStats: RunStats): SlackBriefData {
     // Group items by type
     const newsItems: NewsItem[] = [];
     const debateItems: DebateItem[] = [];
@@ -324,7 +746,7 @@ export class OrchestratorService {
       }
     });
 
-    const briefData: SlackBriefData = {
+    return {
       newsItems,
       debateItems,
       devItems,
@@ -337,14 +759,126 @@ export class OrchestratorService {
         cost: runStats.stats.totalCost
       }
     };
+  }
 
-    const result = await this.slackService.sendBrief(briefData, this.config.slackChannelId);
-    
-    if (!result.success) {
-      throw new Error(`Slack posting failed: ${result.error}`);
+  /**
+   * Flag brief items that were already sent as breaking-news alerts
+   */
+  private async markAnnouncedItems(briefData: SlackBriefData): Promise<void> {
+    try {
+      const itemKeys = [...briefData.newsItems, ...briefData.debateItems, ...briefData.devItems].map(briefItemKey);
+      const announced = await this.alertService.getAnnouncedItemKeys(itemKeys);
+      if (announced.length > 0) {
+        briefData.announcedItemKeys = announced;
+        console.log(`📣 ${announced.length} items were already announced as breaking news`);
+      }
+    } catch (error) {
+      // The brief still goes out, just without the markers
+      console.error('⚠️ Looking up announced items failed:', error instanceof Error ? error.message : error);
     }
+  }
+
+  /**
+   * Link arXiv papers to the brief items that discuss them. Papers from the past week that are
+   * discussed today come back into the brief, so the research section shows what people talk about.
+   */
+  private async linkPaperDiscussions(briefData: SlackBriefData): Promise<void> {
+    try {
+      const briefPapers = briefData.newsItems.filter(isPaperItem);
+      const inBrief = new Set(briefPapers.map(paper => paper.paper.arxivId));
+      const since = new Date(Date.now() - PAPER_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+      const earlierPapers = (await loadNewsItemsSince(this.db, since))
+        .filter(isPaperItem)
+        .filter(paper => !inBrief.has(paper.paper.arxivId));
 
-    console.log('✅ Slack brief sent successfully');
+      const mentions = findPaperMentions(
+        [...briefPapers, ...earlierPapers],
+        [...briefData.newsItems, ...briefData.debateItems, ...briefData.devItems]
+      );
+      if (Object.keys(mentions).length === 0) return;
+
+      briefData.paperMentions = mentions;
+      briefData.newsItems.push(...earlierPapers.filter(paper => mentions[paper.paper.arxivId]));
+      console.log(`🔬 ${Object.keys(mentions).length} papers are discussed in this brief`);
+    } catch (error) {
+      // The brief still goes out, just without the links
+      console.error('⚠️ Linking paper discussions failed:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Deliver brief to every target
+   */
+  private async deliverBrief(briefData: SlackBriefData): Promise<void> {
+    // Keep what was sent - deduplicated items aren't otherwise linked to the run
+    await this.archiveService.saveBrief(briefData);
+
+    const results = await this.deliveryService.deliverAll(briefData);
+    const failed = results.filter(result => !result.success);
+
+    // Every target was attempted; deliveries are idempotent per run, so a resumed run only retries these
+    if (failed.length > 0) {
+      throw new Error(`Delivery failed for ${failed.map(result => `${result.target} (${result.error})`).join(', ')}`);
+    }
+
+    console.log(`✅ Brief delivered to ${results.length} target(s)`);
+  }
+
+  /**
+   * Rebuild static archive pages when an archive directory is configured
+   */
+  private async rebuildArchive(): Promise<void> {
+    if (!this.config.archiveDir || this.config.dryRun) return;
+
+    try {
+      await this.archiveService.rebuild(this.config.archiveDir);
+    } catch (error) {
+      // The archive can always be rebuilt from the database - don't fail the run
+      console.error('⚠️ Archive rebuild failed:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Write RSS/Atom feeds when a feed directory is configured, and always on dry runs
+   */
+  private async writeFeeds(pendingBrief?: SlackBriefData): Promise<void> {
+    const outDir = this.config.feedDir || (this.config.dryRun ? './feeds' : undefined);
+    if (!outDir) return;
+
+    try {
+      await this.feedService.writeFeeds(outDir, { baseUrl: this.config.feedBaseUrl || '' }, pendingBrief);
+    } catch (error) {
+      // Feeds are regenerated from stored briefs on the next run
+      console.error('⚠️ Feed generation failed:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Generate weekly LLM quality report (at most once per 7 days). The week only counts as
+   * reported once the report is posted (or logged, without a report channel) - not on dry runs.
+   */
+  private async sendQualityReportIfDue(runId: string): Promise<void> {
+    if (this.config.dryRun) return;
+
+    try {
+      const report = await this.metricsService.generateQualityReportIfDue(7);
+      if (!report) return;
+
+      console.log(report);
+
+      if (this.config.qualityReportChannelId) {
+        const posted = await this.slackService.sendText(report, this.config.qualityReportChannelId);
+        if (!posted.success) {
+          console.error(`⚠️ Quality report not posted, retrying next run: ${posted.error}`);
+          return;
+        }
+      }
+
+      await this.metricsService.recordQualityReport(runId, report, 7);
+    } catch (error) {
+      // Reporting is non-critical - don't fail the run
+      console.error('⚠️ Quality report failed:', error instanceof Error ? error.message : error);
+    }
   }
 
   /**
@@ -361,36 +895,166 @@ export class OrchestratorService {
   /**
    * Save video to database
    */
-  private async saveVideoToDatabase(video: any, source: any): Promise<void> {
+  private async saveVideoToDatabase(video: any, source: any, runId: string): Promise<void> {
     await this.db.run(`
       INSERT OR IGNORE INTO videos (
-        video_id, source_id, title, duration_seconds, published_at, url
-      ) VALUES (?, ?, ?, ?, ?, ?)
+        video_id, source_id, title, duration_seconds, published_at, url,
+        transcript_url, transcript_type, authors, stage, run_id, stage_updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'discovered', ?, ?)
     `, [
       video.id,
       source.id,
       video.title,
       video.duration,
       new Date(video.publishedAt).toISOString(),
-      `https://www.youtube.com/watch?v=${video.id}`
+      video.url || `https://www.youtube.com/watch?v=${video.id}`,
+      video.media?.transcriptUrl || null,
+      video.media?.transcriptType || null,
+      video.paper ? JSON.stringify(video.paper.authors) : null,
+      runId,
+      new Date().toISOString()
     ]);
   }
 
+  /**
+   * Record completed pipeline stage for videos
+   */
+  private async setVideoStage(videoIds: string[], stage: VideoStage, runId: string): Promise<void> {
+    for (const videoId of videoIds) {
+      await this.db.run(`
+        UPDATE videos SET stage = ?, run_id = ?, stage_updated_at = ?
+        WHERE video_id = ?
+      `, [stage, runId, new Date().toISOString(), videoId]);
+    }
+  }
+
+  /**
+   * Count a failed attempt for videos a run couldn't advance
+   */
+  private async recordFailedAttempts(videoIds: string[]): Promise<void> {
+    for (const videoId of videoIds) {
+      await this.db.run('UPDATE videos SET failed_attempts = failed_attempts + 1 WHERE video_id = ?', [videoId]);
+    }
+  }
+
+  /**
+   * Load videos that have not reached 'delivered'.
+   * With runId: only that run's videos. Without: any run, within the backfill window, that hasn't
+   * failed maxVideoAttempts runs already.
+   */
+  private async getUnfinishedVideos(runId?: string): Promise<any[]> {
+    const backfillHours = this.config.maxBackfillHours || 7 * 24;
+    const filter = runId
+      ? { sql: 'v.run_id = ?', params: [runId] }
+      : {
+        sql: 'v.published_at >= ? AND v.failed_attempts < ?',
+        params: [
+          new Date(Date.now() - backfillHours * 60 * 60 * 1000).toISOString(),
+          this.config.maxVideoAttempts || DEFAULT_MAX_VIDEO_ATTEMPTS
+        ]
+      };
+
+    const rows = await this.db.query(`
+      SELECT v.video_id, v.title, v.published_at, v.duration_seconds, v.url, v.stage,
+             v.transcript_url, v.transcript_type, v.authors,
+             s.id AS source_id, s.type AS source_type, s.kind AS source_kind, s.channel_id, s.name AS source_name
+      FROM videos v
+      JOIN sources s ON v.source_id = s.id
+      WHERE v.stage != 'delivered' AND s.active = TRUE AND ${filter.sql}
+      ORDER BY v.published_at ASC
+    `, filter.params);
+
+    return rows.map(row => ({
+      id: row.video_id,
+      title: row.title,
+      publishedAt: new Date(row.published_at),
+      duration: row.duration_seconds || 0,
+      channelId: row.channel_id,
+      channelTitle: row.source_name,
+      url: row.url,
+      hasCaptions: false,
+      sourceId: row.source_id,
+      sourceType: row.source_type,
+      stage: row.stage as VideoStage,
+      ...(row.source_kind === 'podcast' && {
+        media: { audioUrl: row.url, transcriptUrl: row.transcript_url || undefined, transcriptType: row.transcript_type || undefined }
+      }),
+      // The feed's copy of the body isn't stored; a resumed article is read from its page
+      ...(row.source_kind === 'written' && { article: { url: row.url } }),
+      ...(row.source_kind === 'github' && { release: { url: row.url } }),
+      ...(row.source_kind === 'arxiv' && {
+        paper: { arxivId: row.video_id.replace(/^arxiv_/, ''), authors: row.authors ? JSON.parse(row.authors) : [] }
+      })
+    }));
+  }
+
+  /**
+   * Empty stats for a new run
+   */
+  private createRunStats(runId: string): RunStats {
+    this.quotaBaselines.set(runId, this.youtubeQuota.getSessionUsage());
+    const quotaConfig = this.youtubeQuota.getConfig();
+
+    return {
+      runId,
+      startedAt: new Date(),
+      status: 'running',
+      stats: {
+        sourcesProcessed: 0,
+        videosFound: 0,
+        videosTranscribed: 0,
+        itemsExtracted: 0,
+        itemsAfterDedup: 0,
+        duplicatesRemoved: 0,
+        totalProcessingTimeMs: 0,
+        totalCost: 0,
+        transcriptSources: {},
+        whisperMinutesSaved: 0,
+        stageTimings: { fetchMs: 0, transcribeMs: 0, extractMs: 0, dedupMs: 0, deliverMs: 0 },
+        youtubeQuota: {
+          day: '', limit: quotaConfig.dailyLimit, runUnits: 0, usedToday: 0, remaining: quotaConfig.dailyLimit,
+          byEndpoint: {}, sourcesSkipped: []
+        }
+      },
+      errors: []
+    };
+  }
+
   /**
    * Save run record to database
    */
-  private async saveRunRecord(runStats: RunStats): Promise<void> {
+  private async saveRunRecord(runStats: RunStats, kind: RunKind = 'brief'): Promise<void> {
     await this.db.run(`
-      INSERT INTO runs (id, started_at, status, stats)
-      VALUES (?, ?, ?, ?)
+      INSERT INTO runs (id, started_at, status, stats, kind)
+      VALUES (?, ?, ?, ?, ?)
     `, [
       runStats.runId,
       runStats.startedAt.toISOString(),
       runStats.status,
-      JSON.stringify(runStats.stats)
+      JSON.stringify(runStats.stats),
+      kind
     ]);
   }
 
+  /**
+   * Mark an existing run as running again (resume mode)
+   */
+  private async reopenRunRecord(runStats: RunStats): Promise<void> {
+    const rows = await this.db.query('SELECT status, started_at FROM runs WHERE id = ?', [runStats.runId]);
+    if (rows.length === 0) {
+      throw new Error(`Run not found: ${runStats.runId}`);
+    }
+    if (rows[0].status === 'success') {
+      throw new Error(`Run ${runStats.runId} already finished successfully`);
+    }
+
+    runStats.startedAt = new Date(rows[0].started_at);
+    await this.db.run(
+      "UPDATE runs SET status = 'running', finished_at = NULL WHERE id = ?",
+      [runStats.runId]
+    );
+  }
+
   /**
    * Finish run and update database
    */
@@ -398,6 +1062,7 @@ export class OrchestratorService {
     runStats.finishedAt = new Date();
     runStats.status = status;
     runStats.stats.totalProcessingTimeMs = runStats.finishedAt.getTime() - runStats.startedAt.getTime();
+    await this.updateQuotaReport(runStats);
 
     await this.db.run(`
       UPDATE runs 
@@ -420,14 +1085,42 @@ export class OrchestratorService {
     console.log(`📊 Final stats:`);
     console.log(`   ${runStats.stats.sourcesProcessed} sources processed`);
     console.log(`   ${runStats.stats.videosFound} videos found`);
-    console.log(`   ${runStats.stats.videosTranscribed} transcribed`);
+    console.log(`   ${runStats.stats.videosTranscribed} transcribed (${runStats.stats.whisperMinutesSaved} Whisper minutes saved)`);
     console.log(`   ${runStats.stats.itemsExtracted} items extracted`);
     console.log(`   ${runStats.stats.duplicatesRemoved} duplicates removed`);
     console.log(`   ${runStats.stats.itemsAfterDedup} final items`);
+    const t = runStats.stats.stageTimings;
+    console.log(`⏱️ Stages: fetch ${Math.round(t.fetchMs / 1000)}s, transcribe ${Math.round(t.transcribeMs / 1000)}s, extract ${Math.round(t.extractMs / 1000)}s, dedup ${Math.round(t.dedupMs / 1000)}s, deliver ${Math.round(t.deliverMs / 1000)}s`);
+    const quota = runStats.stats.youtubeQuota;
+    console.log(`📺 YouTube quota (${quota.day}): ${quota.runUnits} units this run, ${quota.usedToday}/${quota.limit} used today, ${quota.remaining} left`);
+    for (const [endpoint, usage] of Object.entries(quota.byEndpoint)) {
+      console.log(`   ${endpoint}: ${usage.calls} calls, ${usage.units} units`);
+    }
+    if (quota.sourcesSkipped.length > 0) {
+      console.log(`   ⏭️ Skipped (quota): ${quota.sourcesSkipped.join(', ')}`);
+    }
 
     return runStats;
   }
 
+  /**
+   * Fill in the run's quota section: units it spent by endpoint, and what's left today on the key
+   */
+  private async updateQuotaReport(runStats: RunStats): Promise<void> {
+    const quota = runStats.stats.youtubeQuota;
+    const byEndpoint = usageSince(this.youtubeQuota.getSessionUsage(), this.quotaBaselines.get(runStats.runId) || {});
+    this.quotaBaselines.delete(runStats.runId);
+
+    try {
+      const today = await this.youtubeQuota.getDailyUsage();
+      Object.assign(quota, { day: today.day, limit: today.limit, usedToday: today.used, remaining: today.remaining });
+    } catch (error) {
+      console.warn('⚠️ Could not read YouTube quota usage:', error instanceof Error ? error.message : error);
+    }
+    quota.byEndpoint = byEndpoint;
+    quota.runUnits = Object.values(byEndpoint).reduce((sum, usage) => sum + usage.units, 0);
+  }
+
   /**
    * Get lookback date for finding videos within the specified time window
    */
@@ -438,11 +1131,55 @@ export class OrchestratorService {
   }
 
   /**
-   * Update last run timestamp for next execution
+   * Get the point to fetch videos from: source watermark, capped by backfill window.
+   * Sources without a watermark use the regular lookback window.
+   */
+  private async getFetchWatermark(sourceId: string): Promise<FetchWatermark> {
+    const rows = await this.db.query(
+      'SELECT last_published_at, last_video_id FROM source_watermarks WHERE source_id = ?',
+      [sourceId]
+    );
+
+    if (rows.length === 0) {
+      return { since: this.getLookbackDate() };
+    }
+
+    const watermark = new Date(rows[0].last_published_at);
+    const backfillHours = this.config.maxBackfillHours || 7 * 24;
+    const backfillLimit = new Date(Date.now() - backfillHours * 60 * 60 * 1000);
+
+    if (watermark < backfillLimit) {
+      console.log(`  ⚠️ Watermark ${watermark.toISOString()} older than backfill cap (${backfillHours}h) - videos before ${backfillLimit.toISOString()} are skipped`);
+      return { since: backfillLimit };
+    }
+
+    return { since: watermark, videoId: rows[0].last_video_id };
+  }
+
+  /**
+   * Advance per-source watermarks after a successful run (dry runs leave them for the real run)
    */
-  private async updateLastRunTimestamp(): Promise<void> {
-    // This could be stored in a separate settings table
-    // For now, we rely on the runs table
+  private async updateSourceWatermarks(runId: string): Promise<void> {
+    if (this.config.dryRun) {
+      if (this.pendingWatermarks.size > 0) {
+        console.log(`🧪 Dry run - not advancing watermarks for ${this.pendingWatermarks.size} sources`);
+      }
+      this.pendingWatermarks.clear();
+      return;
+    }
+
+    for (const [sourceId, mark] of this.pendingWatermarks) {
+      await this.db.run(upsertSql(
+        'source_watermarks',
+        ['source_id', 'last_published_at', 'last_video_id', 'last_run_id', 'updated_at'],
+        ['source_id']
+      ), [sourceId, mark.publishedAt.toISOString(), mark.videoId, runId, new Date().toISOString()]);
+    }
+
+    if (this.pendingWatermarks.size > 0) {
+      console.log(`📌 Advanced watermarks for ${this.pendingWatermarks.size} sources`);
+    }
+    this.pendingWatermarks.clear();
   }
 
   /**
@@ -452,6 +1189,18 @@ export class OrchestratorService {
     await this.transcriptProcessor.cleanup();
     await this.itemProcessor.cleanup();
     await this.dedupProcessor.cleanup();
+    this.deliveryService.close();
     await this.db.close();
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Whether a fetched video comes after a source watermark, by publish time then video id
+ */
+export function isAfterWatermark(video: { id: string; publishedAt: string | Date }, watermark: FetchWatermark): boolean {
+  const published = new Date(video.publishedAt).getTime();
+  const since = watermark.since.getTime();
+
+  if (published !== since) return published > since;
+  return watermark.videoId === undefined || video.id.localeCompare(watermark.videoId) > 0;
+}
@@ -0,0 +1,171 @@
+import { createHash } from 'node:crypto';
+import { WhisperTranscript, WhisperSegment } from './whisper.service.js';
+import { EpisodeMedia, PodcastEpisode, PodcastFeed } from '../types/podcast.types.js';
+import { xmlAttribute, xmlElements, xmlText } from '../utils/xml.js';
+import { htmlToText } from '../utils/html.js';
+
+/**
+ * Feed transcript formats with timings, preferred over plain text/HTML when an episode offers several
+ */
+const TIMED_TRANSCRIPT_TYPES = ['application/json', 'text/vtt', 'application/x-subrip', 'application/srt'];
+
+/**
+ * Podcast RSS feeds: episodes with audio enclosures, and the transcripts feeds publish alongside them
+ */
+export class PodcastService {
+  /**
+   * Fetch and parse a podcast RSS feed
+   */
+  async fetchFeed(feedUrl: string): Promise<PodcastFeed> {
+    return parsePodcastFeed(await this.fetchText(feedUrl), feedUrl);
+  }
+
+  /**
+   * Episodes published at or after a date, oldest first (the caller's watermark settles ties)
+   */
+  async getEpisodesSince(feedUrl: string, since: Date): Promise<PodcastEpisode[]> {
+    const feed = await this.fetchFeed(feedUrl);
+    return feed.episodes
+      .filter(episode => new Date(episode.publishedAt) >= since)
+      .sort((a, b) => new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime());
+  }
+
+  /**
+   * Transcript the feed publishes for an episode (<podcast:transcript>), or null when it has none
+   */
+  async fetchTranscript(media: EpisodeMedia): Promise<Pick<WhisperTranscript, 'text' | 'segments' | 'language'> | null> {
+    if (!media.transcriptUrl) return null;
+
+    const body = await this.fetchText(media.transcriptUrl);
+    const transcript = parseTranscript(body, media.transcriptType);
+    return transcript.text ? transcript : null;
+  }
+
+  private async fetchText(url: string): Promise<string> {
+    const response = await fetch(url, { headers: { 'User-Agent': 'ai-nyhetsagent' } });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} fetching ${url}`);
+    }
+
+    return response.text();
+  }
+}
+
+/**
+ * Stable source id (sources.channel_id) for a feed - items and dedup clusters reference sources by it,
+ * and "channelId/videoId" coverage entries rule out using the URL itself
+ */
+export function podcastChannelId(feedUrl: string): string {
+  return `podcast_${createHash('sha256').update(feedUrl).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Stable episode id (videos.video_id) from the feed and the episode GUID
+ */
+export function podcastEpisodeId(feedUrl: string, guid: string): string {
+  return `episode_${createHash('sha256').update(`${feedUrl}\n${guid}`).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Episodes with an audio enclosure and a valid pubDate; anything else in the feed is skipped
+ */
+export function parsePodcastFeed(xml: string, feedUrl: string): PodcastFeed {
+  const channelHead = xml.split(/<item[\s>]/i)[0] || '';
+  const episodes: PodcastEpisode[] = [];
+
+  for (const item of xmlElements(xml, 'item')) {
+    const [enclosure] = xmlElements(item, 'enclosure');
+    const audioUrl = enclosure && xmlAttribute(enclosure, 'url');
+    const publishedAt = new Date(xmlText(item, 'pubDate') || '');
+    if (!audioUrl || isNaN(publishedAt.getTime())) continue;
+
+    const guid = xmlText(item, 'guid') || audioUrl;
+    const transcript = pickTranscript(xmlElements(item, 'podcast:transcript'));
+
+    episodes.push({
+      id: podcastEpisodeId(feedUrl, guid),
+      guid,
+      title: xmlText(item, 'title') || xmlText(item, 'itunes:title') || guid,
+      publishedAt: publishedAt.toISOString(),
+      durationSeconds: parseDuration(xmlText(item, 'itunes:duration')),
+      url: audioUrl,
+      media: {
+        audioUrl,
+        transcriptUrl: transcript && xmlAttribute(transcript, 'url'),
+        transcriptType: transcript && xmlAttribute(transcript, 'type')
+      }
+    });
+  }
+
+  return { title: xmlText(channelHead, 'title') || feedUrl, episodes };
+}
+
+/**
+ * Plain text and (when the format has timings) segments from a feed transcript
+ */
+export function parseTranscript(body: string, type: string = ''): Pick<WhisperTranscript, 'text' | 'segments' | 'language'> {
+  const mimeType = type.toLowerCase();
+  let segments: WhisperSegment[] = [];
+
+  if (mimeType === 'application/json') {
+    // Podcasting 2.0 JSON: { segments: [{ startTime, endTime, body, speaker? }] }
+    const parsed = JSON.parse(body);
+    segments = (parsed.segments || [])
+      .filter((segment: any) => typeof segment.body === 'string' && segment.body.trim())
+      .map((segment: any, index: number) => ({
+        id: index,
+        start: Number(segment.startTime) || 0,
+        end: Number(segment.endTime) || Number(segment.startTime) || 0,
+        text: segment.body.trim()
+      }));
+  } else if (mimeType === 'text/vtt' || mimeType.includes('subrip') || mimeType === 'application/srt' || body.includes('-->')) {
+    segments = parseCues(body);
+  } else {
+    const text = mimeType === 'text/html' ? htmlToText(body) : body;
+    return { text: text.replace(/\s+/g, ' ').trim(), language: 'unknown' };
+  }
+
+  return { text: segments.map(segment => segment.text).join(' '), segments, language: 'unknown' };
+}
+
+/**
+ * Prefer a timed transcript, so items can link to where in the episode they were said
+ */
+function pickTranscript(transcripts: string[]): string | undefined {
+  return transcripts.find(transcript => TIMED_TRANSCRIPT_TYPES.includes((xmlAttribute(transcript, 'type') || '').toLowerCase()))
+    || transcripts[0];
+}
+
+/**
+ * WebVTT/SRT cues: "00:01:02.500 --> 00:01:05.000" (SRT uses a comma) followed by text lines
+ */
+function parseCues(body: string): WhisperSegment[] {
+  const segments: WhisperSegment[] = [];
+
+  for (const block of body.replace(/\r/g, '').split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const [start, end] = lines[timingIndex]!.split('-->').map(part => parseCueTime(part.trim().split(/\s+/)[0] || ''));
+    const text = htmlToText(lines.slice(timingIndex + 1).join(' ')).trim();
+    if (!text) continue;
+
+    segments.push({ id: segments.length, start: start!, end: end!, text });
+  }
+
+  return segments;
+}
+
+function parseCueTime(time: string): number {
+  return time.replace(',', '.').split(':').reduce((total, part) => total * 60 + (parseFloat(part) || 0), 0);
+}
+
+/**
+ * itunes:duration is either seconds or [HH:]MM:SS
+ */
+function parseDuration(duration?: string): number {
+  if (!duration) return 0;
+  return Math.round(duration.split(':').reduce((total, part) => total * 60 + (parseFloat(part) || 0), 0));
+}
@@ -1,4 +1,5 @@
 import { WhisperTranscript, WhisperSegment } from './whisper.service.js';
+import { getRateLimiter, configureRateLimiter } from '../utils/rate-limiter.js';
 
 export interface RapidAPIConfig {
   apiKey: string;
@@ -21,11 +22,12 @@ interface RapidAPIResponse {
 
 export class RapidAPITranscriptService {
   private config: RapidAPIConfig;
-  private lastRequestTime: number = 0;
   private requestCount: number = 0;
+  private rateLimiter = getRateLimiter('rapidapi');
 
   constructor(config: RapidAPIConfig) {
     this.config = config;
+    configureRateLimiter('rapidapi', { minIntervalMs: 1000 / config.rateLimit });
   }
 
   /**
@@ -35,9 +37,7 @@ export class RapidAPITranscriptService {
     try {
       console.log(`🔄 RapidAPI: Fetching transcript for ${videoTitle || videoId}`);
       
-      await this.throttleRequests();
-      
-      const response = await this.makeAPIRequest(videoId);
+      const response = await this.throttleRequests(() => this.makeAPIRequest(videoId));
       
       if (!response.transcript || response.transcript.length === 0) {
         throw new Error(response.error || response.message || 'No transcript data received');
@@ -59,7 +59,7 @@ export class RapidAPITranscriptService {
         
         // Try once more after rate limit wait
         try {
-          const retryResponse = await this.makeAPIRequest(videoId);
+          const retryResponse = await this.throttleRequests(() => this.makeAPIRequest(videoId));
           if (retryResponse.transcript && retryResponse.transcript.length > 0) {
             return this.parseAPIResponse(retryResponse, videoId);
           }
@@ -172,19 +172,11 @@ export class RapidAPITranscriptService {
 
   /**
    * Rate limiting to avoid hitting API limits
+   * (shared limiter, so concurrent videos respect one rate budget)
    */
-  private async throttleRequests(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    const minInterval = 1000 / this.config.rateLimit; // milliseconds between requests
-    
-    if (timeSinceLastRequest < minInterval) {
-      const waitTime = minInterval - timeSinceLastRequest;
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
-    
-    this.lastRequestTime = Date.now();
+  private async throttleRequests<T>(request: () => Promise<T>): Promise<T> {
     this.requestCount++;
+    return this.rateLimiter.schedule(request);
   }
 
   /**
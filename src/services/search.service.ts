@@ -0,0 +1,227 @@
+import { getDatabase } from '../db/database.js';
+import { itemFromRow, sectionForPart } from '../db/items.js';
+import { itemsMatchCondition, searchableTerms, searchTranscriptSegments } from '../db/fulltext.js';
+import { BriefSection } from '../types/delivery.types.js';
+import { ItemSearchQuery, ItemSearchResult, TranscriptSearchResult } from '../types/search.types.js';
+import { secondsUrl } from '../utils/brief-sections.js';
+
+const SECTION_ALIASES: Record<string, BriefSection> = {
+  news: 'news', nyheter: 'news', nytt: 'news',
+  debate: 'debate', debatt: 'debate', debatter: 'debate',
+  dev: 'dev', utvikler: 'dev', utviklere: 'dev',
+};
+
+const SECTION_PARTS: Record<BriefSection, number> = { news: 1, debate: 2, dev: 3 };
+
+const MAX_CANDIDATES = 500;   // Newest matching rows scored in memory
+const RECENCY_HALF_DAYS = 7;  // Recency boost halves after this many days
+const UNTIMED_TRANSCRIPT_SOURCES = ['article', 'github-release', 'arxiv-abstract']; // Segments are paragraphs, not times
+
+/**
+ * Parse "/nyheter" text: words, "quoted phrases", entity:X, section:news, from:/to: YYYY-MM-DD, since:7d / since:2w.
+ * Norwegian filter names (entitet, seksjon, fra, til, siden) work too.
+ */
+export function parseSearchQuery(text: string, now: Date = new Date()): ItemSearchQuery {
+  const query: ItemSearchQuery = { terms: [], entities: [] };
+  const tokens = text.matchAll(/([\p{L}]+):("[^"]*"|\S+)|"([^"]*)"|(\S+)/gu);
+
+  for (const [token, filter, rawValue, phrase, word] of tokens) {
+    if (phrase !== undefined || word !== undefined) {
+      const term = (phrase ?? word)!.trim().toLowerCase();
+      if (term) query.terms.push(term);
+      continue;
+    }
+
+    const value = rawValue!.replace(/^"|"$/g, '');
+    switch (filter!.toLowerCase()) {
+      case 'entity':
+      case 'entitet':
+        query.entities.push(value.toLowerCase());
+        break;
+      case 'section':
+      case 'seksjon': {
+        const section = SECTION_ALIASES[value.toLowerCase()];
+        if (!section) throw new Error(`Ukjent seksjon: ${value} (news, debate eller dev)`);
+        query.section = section;
+        break;
+      }
+      case 'from':
+      case 'fra':
+        query.from = parseDate(value);
+        break;
+      case 'to':
+      case 'til':
+        query.to = new Date(parseDate(value).getTime() + 24 * 60 * 60 * 1000); // Whole day included
+        break;
+      case 'since':
+      case 'siden': {
+        const match = value.match(/^(\d+)([dwu])$/i);
+        if (!match) throw new Error(`Ugyldig periode: ${value} (f.eks. 7d eller 2w)`);
+        const days = parseInt(match[1]!) * (match[2]!.toLowerCase() === 'd' ? 1 : 7);
+        query.from = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+        break;
+      }
+      default:
+        query.terms.push(token.toLowerCase()); // e.g. "gpt-4:turbo" is just text
+    }
+  }
+
+  return query;
+}
+
+/**
+ * Search stored items (ranked by match quality, relevance and recency) and transcripts
+ */
+export class SearchService {
+  private db;
+
+  constructor() {
+    this.db = getDatabase();
+  }
+
+  async search(query: ItemSearchQuery, limit: number = 10, now: Date = new Date()): Promise<ItemSearchResult[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (query.section) {
+      conditions.push('i.part = ?');
+      params.push(SECTION_PARTS[query.section]);
+    }
+    if (query.from) {
+      conditions.push('v.published_at >= ?');
+      params.push(query.from.toISOString());
+    }
+    if (query.to) {
+      conditions.push('v.published_at < ?');
+      params.push(query.to.toISOString());
+    }
+    if (query.terms.length > 0) {
+      const terms = searchableTerms(query.terms);
+      if (terms.length === 0) return [];
+
+      const match = itemsMatchCondition(this.db, terms);
+      conditions.push(match.sql);
+      params.push(...match.params);
+    }
+    // Entities are substrings of names ("gemini" finds "Gemini 2.0"), so they stay LIKE matches.
+    // Rows saved before item_data existed only have their flat columns.
+    for (const entity of query.entities) {
+      conditions.push(`LOWER(COALESCE(i.item_data, i.title || ' ' || COALESCE(i.summary, ''))) LIKE ? ESCAPE '\\'`);
+      params.push(`%${entity.replace(/[\\%_]/g, character => `\\${character}`)}%`);
+    }
+
+    const rows = await this.db.query(`
+      SELECT i.*, v.video_id AS youtube_video_id, v.url, v.published_at, s.channel_id
+      FROM items i
+      JOIN videos v ON i.video_id = v.id
+      JOIN sources s ON v.source_id = s.id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY v.published_at DESC
+      LIMIT ?
+    `, [...params, MAX_CANDIDATES]);
+
+    const results: ItemSearchResult[] = [];
+    for (const row of rows) {
+      const item = itemFromRow(row);
+      const match = scoreMatch(item, query);
+      if (match === null) continue;
+
+      const publishedAt = new Date(row.published_at);
+      const ageDays = Math.max(0, (now.getTime() - publishedAt.getTime()) / (24 * 60 * 60 * 1000));
+      const recency = 1 / (1 + ageDays / RECENCY_HALF_DAYS);
+
+      results.push({
+        section: sectionForPart(row.part),
+        item,
+        publishedAt,
+        score: match + (item.relevance_score || 5) / 10 + recency
+      });
+    }
+
+    // The same story from several videos shows once, best-scored first
+    const seen = new Set<string>();
+    return results
+      .sort((a, b) => b.score - a.score)
+      .filter(result => {
+        const title = ('topic' in result.item ? result.item.topic : result.item.title).toLowerCase();
+        if (seen.has(title)) return false;
+        seen.add(title);
+        return true;
+      })
+      .slice(0, limit);
+  }
+
+  /**
+   * Transcript segments mentioning every term, best match first, with the second each was said
+   * (article paragraphs, release notes and paper abstracts have no time and link to the page itself).
+   * from/to filter on the video's publish date; entity and section filters don't apply to transcripts.
+   */
+  async searchTranscripts(
+    query: ItemSearchQuery,
+    limit: number = 10,
+    highlight: [string, string] = ['**', '**']
+  ): Promise<TranscriptSearchResult[]> {
+    const terms = searchableTerms(query.terms);
+    if (terms.length === 0) return [];
+
+    const rows = await searchTranscriptSegments(this.db, { terms, from: query.from, to: query.to, limit, highlight });
+
+    return rows.map(row => {
+      const startSeconds = row.start_seconds === null || UNTIMED_TRANSCRIPT_SOURCES.includes(row.transcript_source)
+        ? null
+        : Math.floor(Number(row.start_seconds));
+      return {
+        videoId: row.youtube_video_id,
+        videoTitle: row.title,
+        channelId: row.channel_id ?? null,
+        sourceName: row.source_name ?? null,
+        publishedAt: new Date(row.published_at),
+        startSeconds,
+        timestamp: startSeconds === null ? null : formatSeconds(startSeconds),
+        url: startSeconds === null ? row.url : secondsUrl(row.youtube_video_id, row.url, startSeconds),
+        text: row.text,
+        snippet: row.snippet
+      };
+    });
+  }
+}
+
+/**
+ * Where the query hits an item: title 3, entities 2, summary text 1, elsewhere (raw context) 0.5.
+ * Null when an entity: filter doesn't match the item's entities.
+ */
+function scoreMatch(item: any, query: ItemSearchQuery): number | null {
+  const title = String(item.title || item.topic || '').toLowerCase();
+  const entities: string[] = [...(item.entities || []), ...(item.affectedTechnologies || []), ...(item.affectedCompanies || [])]
+    .map((entity: string) => entity.toLowerCase());
+  const text = [item.summary, item.whatWasDiscussed, item.whatChanged, item.implications]
+    .filter(Boolean).join(' ').toLowerCase();
+
+  if (query.entities.some(entity => !entities.some(candidate => candidate.includes(entity)))) return null;
+
+  const hits = query.terms.map((term): number => {
+    if (title.includes(term)) return 3;
+    if (entities.some(entity => entity.includes(term))) return 2;
+    if (text.includes(term)) return 1;
+    return 0.5;
+  });
+  hits.push(...query.entities.map(() => 2));
+
+  return hits.length > 0 ? hits.reduce((sum, hit) => sum + hit, 0) / hits.length : 0;
+}
+
+// 3723 -> '01:02:03'
+function formatSeconds(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(part => String(part).padStart(2, '0')).join(':');
+}
+
+function parseDate(value: string): Date {
+  const date = new Date(`${value}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime())) {
+    throw new Error(`Ugyldig dato: ${value} (bruk ÅÅÅÅ-MM-DD)`);
+  }
+  return date;
+}
@@ -8,10 +8,12 @@
 import { ParsedItem } from '../types/schemas.js';
 import { EventType, ContextualSimilarity } from '../types/dedup.types.js';
 import OpenAI from 'openai';
+import { getRateLimiter } from '../utils/rate-limiter.js';
 
 export class SemanticMatcherService {
   private openai: OpenAI;
   private eventTypeCache: Map<string, EventType> = new Map();
+  private rateLimiter = getRateLimiter('chat');
 
   constructor(apiKey: string) {
     this.openai = new OpenAI({ apiKey });
@@ -75,7 +77,7 @@ export class SemanticMatcherService {
     }
 
     try {
-      const response = await this.openai.chat.completions.create({
+      const response = await this.rateLimiter.schedule(() => this.openai.chat.completions.create({
         model: 'gpt-4o-mini',
         messages: [
           {
@@ -101,7 +103,7 @@ Respond with ONLY the category name, nothing else.`,
         ],
         temperature: 0.1,
         max_tokens: 20,
-      });
+      }));
 
       const classification = response.choices[0]?.message?.content?.trim().toLowerCase();
 
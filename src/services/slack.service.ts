@@ -1,6 +1,15 @@
-import { WebClient } from '@slack/web-api';
+import { WebClient, WebClientOptions } from '@slack/web-api';
 import { NewsItem, DebateItem, DevItem } from '../types/schemas.js';
 import { getDatabase } from '../db/database.js';
+import { BriefLanguage, BriefSection } from '../types/delivery.types.js';
+import { FeedbackValue } from '../types/feedback.types.js';
+import { ItemSearchResult } from '../types/search.types.js';
+import { BreakingAlert } from '../types/alert.types.js';
+import { PaperMention } from '../types/arxiv.types.js';
+import {
+  selectBriefSections, formatBriefDate, getBriefLabels, videoTimestampUrl, briefItemKey, isAlreadyAnnounced, paperMentions,
+  formatAuthors, BriefLabels, BriefSections
+} from '../utils/brief-sections.js';
 
 export interface SlackBriefData {
   newsItems: NewsItem[];
@@ -14,6 +23,9 @@ export interface SlackBriefData {
     processingTimeMs: number;
     cost: number;
   };
+  language?: BriefLanguage; // Set per delivery target (default Norwegian)
+  announcedItemKeys?: string[] | undefined; // Items already sent as breaking-news alerts
+  paperMentions?: Record<string, PaperMention[]> | undefined; // Brief items discussing each paper, by arXiv id
 }
 
 export interface SlackPostResult {
@@ -23,17 +35,42 @@ export interface SlackPostResult {
   error?: string;
 }
 
+/**
+ * One message of a brief thread: 'headline', or a section reply ('news', 'research', 'debate', 'dev', 'deepDives',
+ * continued as 'news:2' when a section needs more than one message)
+ */
+export interface SlackThreadMessage {
+  part: string;
+  text: string;
+  blocks: any[];
+}
+
+export interface SlackThreadMessageRecord {
+  part: string;
+  messageTs: string;
+  threadTs?: string | undefined; // Headline ts for replies
+}
+
+const MAX_BLOCKS_PER_MESSAGE = 50; // Slack limit
+const MAX_SECTION_TEXT = 3000;     // Slack limit for a section block's text
+const HEADLINE_ITEMS_PER_SECTION = 3;
+const CONFIDENCE_LABELS = { high: 'H', medium: 'M', low: 'L' };
+
+// Button action_id is the prefix + FeedbackValue; the value carries { runId, itemKey }
+export const FEEDBACK_ACTION_PREFIX = 'feedback:';
+
 export class SlackService {
   private client: WebClient;
   private db;
 
-  constructor(token: string) {
-    this.client = new WebClient(token);
+  constructor(token: string, clientOptions: WebClientOptions = {}) {
+    this.client = new WebClient(token, clientOptions);
     this.db = getDatabase();
   }
 
   /**
-   * Send AI brief to Slack channel
+   * Send AI brief to Slack channel as a headline message with one threaded reply per section.
+   * Every posted ts is stored, so a retried run only posts the messages that are missing.
    */
   async sendBrief(briefData: SlackBriefData, channelId: string): Promise<SlackPostResult> {
     try {
@@ -48,307 +85,387 @@ export class SlackService {
         };
       }
 
-      // Build Slack blocks
-      const blocks = await this.buildSlackBlocks(briefData);
+      const posted = new Map(
+        (await this.getThreadMessages(briefData.runId, channelId)).map(message => [message.part, message.messageTs])
+      );
+      const messages = await this.buildThreadMessages(briefData);
+      let threadTs = posted.get('headline');
+
+      console.log(`📤 Sending AI brief to channel ${channelId} (${messages.length} messages)`);
+      for (const message of messages) {
+        if (posted.has(message.part)) continue;
+
+        const result = await this.client.chat.postMessage({
+          channel: channelId,
+          blocks: message.blocks,
+          text: message.text, // Fallback text
+          unfurl_links: false,
+          unfurl_media: false,
+          ...(threadTs ? { thread_ts: threadTs } : {})
+        });
+
+        if (!result.ok || !result.ts) {
+          throw new Error(`Slack API error: ${result.error}`);
+        }
+
+        await this.saveThreadMessage(briefData.runId, channelId, message.part, result.ts, threadTs);
+        if (message.part === 'headline') threadTs = result.ts;
+      }
+
+      // Save post record for idempotency once the whole thread is out
+      await this.savePostRecord(briefData.runId, channelId, threadTs!);
+
+      console.log(`✅ Brief sent successfully to ${channelId}`);
+      return {
+        success: true,
+        channelId,
+        timestamp: threadTs!
+      };
 
-      // Send message
-      console.log(`📤 Sending AI brief to channel ${channelId}`);
+    } catch (error) {
+      console.error(`❌ Failed to send brief to ${channelId}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Posted messages of a run's brief thread (headline first)
+   */
+  async getThreadMessages(runId: string, channelId: string): Promise<SlackThreadMessageRecord[]> {
+    const rows = await this.db.query(
+      'SELECT part, message_ts, thread_ts FROM slack_messages WHERE run_id = ? AND channel_id = ? ORDER BY posted_at, message_ts',
+      [runId, channelId]
+    );
+    return rows.map(row => ({ part: row.part, messageTs: row.message_ts, threadTs: row.thread_ts || undefined }));
+  }
+
+  /**
+   * Send plain preformatted text (e.g. quality reports) to Slack channel
+   */
+  async sendText(text: string, channelId: string): Promise<SlackPostResult> {
+    try {
       const result = await this.client.chat.postMessage({
         channel: channelId,
-        blocks,
-        text: `ARTI AI-brief • ${this.formatDate(briefData.generatedAt)}`, // Fallback text
+        text: '```' + text.trim() + '```',
         unfurl_links: false,
         unfurl_media: false
       });
 
-      if (result.ok && result.ts) {
-        // Save post record for idempotency
-        await this.savePostRecord(briefData.runId, channelId, result.ts);
-        
-        console.log(`✅ Brief sent successfully to ${channelId}`);
-        return {
-          success: true,
-          channelId,
-          timestamp: result.ts
-        };
-      } else {
+      if (!result.ok || !result.ts) {
         throw new Error(`Slack API error: ${result.error}`);
       }
 
+      return { success: true, channelId, timestamp: result.ts };
+
     } catch (error) {
-      console.error(`❌ Failed to send brief to ${channelId}:`, error);
+      console.error(`❌ Failed to send message to ${channelId}:`, error);
       return {
         success: false,
-        error: error.message
+        error: error instanceof Error ? error.message : String(error)
       };
     }
   }
 
   /**
-   * Build Slack Block Kit message
+   * Post a breaking-news alert as a standalone message (not part of a brief thread)
    */
-  private async buildSlackBlocks(briefData: SlackBriefData) {
-    const blocks: any[] = [];
-    const date = this.formatDate(briefData.generatedAt);
+  async sendAlert(alert: BreakingAlert, channelId: string): Promise<SlackPostResult> {
+    try {
+      const result = await this.client.chat.postMessage({
+        channel: channelId,
+        text: `${getBriefLabels().breaking}: ${alert.item.title}`,
+        blocks: await this.buildAlertBlocks(alert),
+        unfurl_links: false,
+        unfurl_media: false
+      });
 
-    // Header
-    blocks.push({
-      type: 'header',
-      text: {
-        type: 'plain_text',
-        text: `🤖 ARTI AI-brief • ${date}`,
-        emoji: true
+      if (!result.ok || !result.ts) {
+        throw new Error(`Slack API error: ${result.error}`);
       }
-    });
 
-    // Stats divider
-    blocks.push({
-      type: 'context',
-      elements: [
-        {
-          type: 'mrkdwn',
-          text: `📊 ${briefData.stats.totalVideos} videoer • ${briefData.stats.totalItems} items • ${Math.round(briefData.stats.processingTimeMs / 1000)}s • $${briefData.stats.cost.toFixed(4)}`
-        }
-      ]
-    });
+      return { success: true, channelId, timestamp: result.ts };
 
-    blocks.push({ type: 'divider' });
-
-    // Del 1: 📰 Siste nytt
-    if (briefData.newsItems.length > 0) {
-      // Filter by relevance score and sort
-      const relevantNewsItems = briefData.newsItems
-        .filter(item => (item.relevance_score || 5) >= 5) // Only show relevant items
-        .sort((a, b) => {
-          // Sort by confidence (high > medium > low)
-          const confidenceOrder = { high: 3, medium: 2, low: 1 };
-          const aScore = confidenceOrder[a.confidence] || 0;
-          const bScore = confidenceOrder[b.confidence] || 0;
-          
-          if (aScore !== bScore) return bScore - aScore;
-          
-          // If same confidence, sort by relevance_score
-          const aRelevance = a.relevance_score || 0;
-          const bRelevance = b.relevance_score || 0;
-          return bRelevance - aRelevance;
-        });
+    } catch (error) {
+      console.error(`❌ Failed to send breaking alert to ${channelId}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
 
-      blocks.push({
+  /**
+   * Alert blocks: headline, summary, and every channel that covered the story
+   */
+  async buildAlertBlocks(alert: BreakingAlert): Promise<any[]> {
+    const labels = getBriefLabels();
+    const { item } = alert;
+    const channelNames = await Promise.all(alert.channelIds.map(channelId => this.getChannelName(channelId)));
+    const link = `<${videoTimestampUrl(item, item.timestamp)}|▶ ${item.timestamp || labels.watchVideo}>`;
+
+    return [
+      {
+        type: 'header',
+        text: { type: 'plain_text', text: this.truncateText(`${labels.breaking}: ${item.title}`, 150), emoji: true }
+      },
+      {
         type: 'section',
-        text: {
+        text: { type: 'mrkdwn', text: this.truncateText(item.summary, MAX_SECTION_TEXT) }
+      },
+      {
+        type: 'context',
+        elements: [{
           type: 'mrkdwn',
-          text: `*📰 SISTE NYTT* (${relevantNewsItems.length})`
-        }
-      });
-
-      // Format all relevant items (no artificial limit)
-      const formattedNewsItems = await Promise.all(
-        relevantNewsItems.map(item => this.formatNewsItem(item))
-      );
+          text: `📺 ${labels.corroboratedBy}: ${channelNames.join(', ')} • ${link}${item.entities.length > 0 ? ` • _${item.entities.join(', ')}_` : ''}`
+        }]
+      }
+    ];
+  }
 
-      // Split into multiple blocks if needed
-      const newsBlocks = this.splitIntoBlocks(formattedNewsItems);
-      newsBlocks.forEach((blockContent) => {
-        blocks.push({
-          type: 'section',
-          text: {
-            type: 'mrkdwn',
-            text: blockContent
-          }
+  /**
+   * Build the brief thread: headline message, then one reply per section (also used for CLI previews)
+   */
+  async buildThreadMessages(briefData: SlackBriefData): Promise<SlackThreadMessage[]> {
+    const date = formatBriefDate(briefData.generatedAt, briefData.language);
+    const labels = getBriefLabels(briefData.language);
+    const sections = selectBriefSections(briefData);
+    const replies: SlackThreadMessage[] = [];
+
+    // Items get feedback buttons; deep-dives repeat debate items, so theirs would be duplicates
+    const withKey = (item: NewsItem | DebateItem | DevItem, text: string) => ({ text, itemKey: briefItemKey(item) });
+    const sectionReplies: Array<[BriefSection | 'research' | 'deepDives', string, Array<{ text: string; itemKey?: string }>]> = [
+      ['news', labels.news, await Promise.all(sections.newsItems.map(async item =>
+        withKey(item, await this.formatNewsItem(item, labels, isAlreadyAnnounced(briefData, item)))))],
+      ['research', labels.research, sections.researchItems.map(item =>
+        withKey(item, this.formatResearchItem(item, labels, paperMentions(briefData, item))))],
+      ['debate', labels.debate, await Promise.all(sections.debateItems.map(async item => withKey(item, await this.formatDebateItem(item, labels))))],
+      ['dev', labels.dev, await Promise.all(sections.devItems.map(async item => withKey(item, await this.formatDevItem(item, labels))))],
+      ['deepDives', labels.deepDives, sections.deepDiveItems.map(item =>
+        ({ text: `• *${item.topic}* - ${item.implications} ${this.formatSourceLink(item)}` })
+      )],
+    ];
+
+    for (const [part, label, formattedItems] of sectionReplies) {
+      if (formattedItems.length === 0) continue;
+
+      // A section too long for one message continues in part:2, part:3...
+      const blocksPerItem = formattedItems[0]!.itemKey ? 2 : 1;
+      const itemsPerMessage = Math.floor((MAX_BLOCKS_PER_MESSAGE - 1) / blocksPerItem);
+      for (let offset = 0; offset < formattedItems.length; offset += itemsPerMessage) {
+        const chunk = formattedItems.slice(offset, offset + itemsPerMessage);
+        const page = offset / itemsPerMessage + 1;
+        replies.push({
+          part: page === 1 ? part : `${part}:${page}`,
+          text: `${label} (${formattedItems.length})`,
+          blocks: [
+            {
+              type: 'section',
+              text: { type: 'mrkdwn', text: `*${label.toUpperCase()}* (${formattedItems.length})${page > 1 ? ` • ${page}` : ''}` }
+            },
+            ...chunk.flatMap(({ text, itemKey }) => [
+              { type: 'section', text: { type: 'mrkdwn', text: this.truncateText(text, MAX_SECTION_TEXT) } },
+              ...(itemKey ? [this.buildFeedbackActions(briefData.runId, itemKey, labels)] : [])
+            ])
+          ]
         });
-      });
+      }
+    }
+
+    return [this.buildHeadlineMessage(briefData, date, labels, sections), ...replies];
+  }
 
-      blocks.push({ type: 'divider' });
+  /**
+   * Block Kit list of archive search results (/nyheter), each linking to the video timestamp
+   */
+  async buildSearchBlocks(queryText: string, results: ItemSearchResult[]): Promise<any[]> {
+    const labels = getBriefLabels();
+
+    if (results.length === 0) {
+      return [{ type: 'section', text: { type: 'mrkdwn', text: `🔎 Ingen treff for “${queryText}”` } }];
     }
 
-    // Del 2: 🧠 Temaer & debatter
-    if (briefData.debateItems.length > 0) {
-      // Filter by relevance score
-      const relevantDebateItems = briefData.debateItems
-        .filter(item => (item.relevance_score || 4) >= 4) // Slightly lower threshold for debates
-        .sort((a, b) => {
-          // Sort by relevance_score primarily
-          const aRelevance = a.relevance_score || 0;
-          const bRelevance = b.relevance_score || 0;
-          return bRelevance - aRelevance;
-        });
+    const blocks: any[] = [{
+      type: 'section',
+      text: { type: 'mrkdwn', text: `🔎 *${results.length} treff for* “${queryText}”` }
+    }];
+
+    for (const { section, item, publishedAt } of results) {
+      const title = 'topic' in item ? item.topic : item.title;
+      const text = 'summary' in item ? item.summary : 'whatWasDiscussed' in item ? item.whatWasDiscussed : item.whatChanged;
+      const channelName = await this.getChannelName(item.channelId);
+      const link = `<${videoTimestampUrl(item, item.timestamp)}|▶ ${item.timestamp || labels.watchVideo}>`;
 
       blocks.push({
         type: 'section',
         text: {
           type: 'mrkdwn',
-          text: `*🧠 TEMAER & DEBATTER* (${relevantDebateItems.length})`
+          text: `• *${this.truncateText(title, 120)}*\n${this.truncateText(text, 300)}\n${labels[section]} • 📺 ${channelName} • ${link} • ${formatBriefDate(publishedAt)}`
         }
       });
+    }
 
-      // Format all relevant debate items
-      const formattedDebateItems = await Promise.all(
-        relevantDebateItems.map(item => this.formatDebateItem(item))
-      );
+    return blocks;
+  }
 
-      // Split into multiple blocks if needed
-      const debateBlocks = this.splitIntoBlocks(formattedDebateItems);
-      debateBlocks.forEach((blockContent) => {
-        blocks.push({
-          type: 'section',
-          text: {
-            type: 'mrkdwn',
-            text: blockContent
-          }
-        });
-      });
+  /**
+   * 👍/👎/"not AI news" buttons for one item - handled by the Slack interactions endpoint
+   */
+  private buildFeedbackActions(runId: string, itemKey: string, labels: BriefLabels): any {
+    const value = JSON.stringify({ runId, itemKey });
+    const buttons: Array<[FeedbackValue, string]> = [['up', '👍'], ['down', '👎'], ['not_ai', labels.notAiNews]];
 
-      blocks.push({ type: 'divider' });
-    }
+    return {
+      type: 'actions',
+      elements: buttons.map(([feedback, text]) => ({
+        type: 'button',
+        action_id: `${FEEDBACK_ACTION_PREFIX}${feedback}`,
+        text: { type: 'plain_text', text, emoji: true },
+        value
+      }))
+    };
+  }
 
-    // Del 3: 🛠️ For utviklere
-    if (briefData.devItems.length > 0) {
-      // Filter by relevance score
-      const relevantDevItems = briefData.devItems
-        .filter(item => (item.relevance_score || 5) >= 5) // Focus on practical utility
-        .sort((a, b) => {
-          // Sort by relevance_score primarily
-          const aRelevance = a.relevance_score || 0;
-          const bRelevance = b.relevance_score || 0;
-          return bRelevance - aRelevance;
-        });
+  /**
+   * Compact headline: stats and the top items per section, details follow in the thread
+   */
+  private buildHeadlineMessage(briefData: SlackBriefData, date: string, labels: BriefLabels, sections: BriefSections): SlackThreadMessage {
+    const blocks: any[] = [];
 
-      blocks.push({
-        type: 'section',
-        text: {
+    blocks.push({
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: `🤖 ARTI AI-brief • ${date}`,
+        emoji: true
+      }
+    });
+
+    blocks.push({
+      type: 'context',
+      elements: [
+        {
           type: 'mrkdwn',
-          text: `*🛠️ FOR UTVIKLERE* (${relevantDevItems.length})`
+          text: `📊 ${briefData.stats.totalVideos} ${labels.videos} • ${briefData.stats.totalItems} items • ${Math.round(briefData.stats.processingTimeMs / 1000)}s • $${briefData.stats.cost.toFixed(4)}`
         }
-      });
+      ]
+    });
 
-      // Format all relevant dev items
-      const formattedDevItems = await Promise.all(
-        relevantDevItems.map(item => this.formatDevItem(item))
-      );
+    const headlines: Array<[string, Array<NewsItem | DebateItem | DevItem>]> = [
+      [labels.news, sections.newsItems],
+      [labels.research, sections.researchItems],
+      [labels.debate, sections.debateItems],
+      [labels.dev, sections.devItems],
+    ];
 
-      // Split into multiple blocks if needed
-      const devBlocks = this.splitIntoBlocks(formattedDevItems);
-      devBlocks.forEach((blockContent) => {
-        blocks.push({
-          type: 'section',
-          text: {
-            type: 'mrkdwn',
-            text: blockContent
-          }
-        });
-      });
+    for (const [label, items] of headlines) {
+      if (items.length === 0) continue;
 
-      blocks.push({ type: 'divider' });
-    }
+      const top = items.slice(0, HEADLINE_ITEMS_PER_SECTION).map(item =>
+        `• ${this.truncateText('topic' in item ? item.topic : item.title, 120)} <${videoTimestampUrl(item, item.timestamp)}|▶>` +
+        (isAlreadyAnnounced(briefData, item) ? ` _${labels.alreadyAnnounced}_` : '')
+      );
+      const more = items.length > HEADLINE_ITEMS_PER_SECTION ? `\n_+${items.length - HEADLINE_ITEMS_PER_SECTION}_` : '';
 
-    // Deep-dives å vurdere (items with recommendedDeepDive flag)
-    const deepDiveItems = briefData.debateItems.filter(item => item.recommendedDeepDive);
-    if (deepDiveItems.length > 0) {
       blocks.push({
         type: 'section',
         text: {
           type: 'mrkdwn',
-          text: `*🔍 Deep-dives å vurdere* (${deepDiveItems.length})`
+          text: `*${label}* (${items.length})\n${top.join('\n')}${more}`
         }
       });
-
-      // Format all deep-dive items (no artificial limit)
-      const formattedDeepDiveItems = deepDiveItems.map(item => 
-        `• *${this.truncateText(item.topic, 150)}* - ${this.truncateText(item.implications, 400)} ${this.formatSourceLink(item)}`
-      );
-
-      // Split into multiple blocks if needed
-      const deepDiveBlocks = this.splitIntoBlocks(formattedDeepDiveItems);
-      deepDiveBlocks.forEach((blockContent) => {
-        blocks.push({
-          type: 'section',
-          text: {
-            type: 'mrkdwn',
-            text: blockContent
-          }
-        });
-      });
     }
 
-    // Footer with enhanced stats
-    const totalItemsShown = (briefData.newsItems.filter(item => (item.relevance_score || 5) >= 5).length) +
-                            (briefData.debateItems.filter(item => (item.relevance_score || 4) >= 4).length) +
-                            (briefData.devItems.filter(item => (item.relevance_score || 5) >= 5).length) +
-                            (briefData.debateItems.filter(item => item.recommendedDeepDive).length);
-
     blocks.push({
       type: 'context',
       elements: [
         {
           type: 'mrkdwn',
-          text: `🤖 Generert automatisk • ${briefData.runId} • ${totalItemsShown} items vist i ${blocks.length} blocks`
+          text: `${labels.inThread} • ${labels.generated} • ${briefData.runId}`
         }
       ]
     });
 
-    return blocks;
+    return {
+      part: 'headline',
+      text: `ARTI AI-brief • ${date}`,
+      blocks
+    };
   }
 
   /**
-   * Format news item according to PRD template
+   * Format news item with full details
    */
-  private async formatNewsItem(item: NewsItem): Promise<string> {
-    const confidenceMap = { high: 'H', medium: 'M', low: 'L' };
-    const confidence = confidenceMap[item.confidence];
-    const title = this.truncateText(item.title, 120);
-    const summary = this.truncateText(item.summary, 350);
-    const sourceInfo = await this.formatSourceInfo(item);
-    
-    return `• *${title}*\n${summary}\n📺 ${sourceInfo} • (${confidence})`;
+  private async formatNewsItem(item: NewsItem, labels: BriefLabels, announced: boolean = false): Promise<string> {
+    const confidence = CONFIDENCE_LABELS[item.confidence];
+    const sourceInfo = await this.formatSourceInfo(item, labels);
+    const entities = item.entities.length > 0 ? `\n_${item.entities.join(', ')}_` : '';
+    const marker = announced ? ` _${labels.alreadyAnnounced}_` : '';
+
+    return `• *${item.title}*${marker}\n${item.summary}${entities}\n📺 ${sourceInfo} • (${confidence})`;
   }
 
   /**
-   * Format debate item according to PRD template
+   * Format arXiv paper with authors, PDF and the brief items discussing it
    */
-  private async formatDebateItem(item: DebateItem): Promise<string> {
-    const proPoints = item.positions.pro?.join(', ') || '';
-    const contraPoints = item.positions.contra?.join(', ') || '';
-    const perspectives = [];
-    
-    if (proPoints) perspectives.push(`Pro: ${this.truncateText(proPoints, 180)}`);
-    if (contraPoints) perspectives.push(`Contra: ${this.truncateText(contraPoints, 180)}`);
-    
-    const perspectiveText = perspectives.join(' | ');
-    const topic = this.truncateText(item.topic, 100);
-    const whatDiscussed = this.truncateText(item.whatWasDiscussed, 250);
-    const implications = this.truncateText(item.implications, 300);
-    const sourceInfo = await this.formatSourceInfo(item);
-
-    return `• *${topic}*\n*Diskutert:* ${whatDiscussed}\n*Perspektiver:* ${perspectiveText}\n*Implikasjoner:* ${implications}\n📺 ${sourceInfo}`;
+  private formatResearchItem(item: NewsItem, labels: BriefLabels, mentions: PaperMention[]): string {
+    const links = [
+      `<${item.sourceUrl}|${labels.abstract}>`,
+      ...(item.paper ? [`<${item.paper.pdfUrl}|PDF>`] : [])
+    ];
+
+    return [
+      `• *${item.title}*`,
+      item.summary,
+      ...(item.entities.length > 0 ? [`_${formatAuthors(item.entities)}_`] : []),
+      ...(mentions.length > 0 ? [`💬 *${labels.discussedIn}:* ${mentions.map(mention => `<${mention.url}|${mention.title}>`).join(' • ')}`] : []),
+      `📄 ${links.join(' • ')}`
+    ].join('\n');
   }
 
   /**
-   * Format dev item according to PRD template
+   * Format debate item with all perspectives and key quotes
    */
-  private async formatDevItem(item: DevItem): Promise<string> {
-    const confidenceMap = { high: 'H', medium: 'M', low: 'L' };
-    const confidence = confidenceMap[item.confidence];
-    const action = this.formatDeveloperAction(item.developerAction);
-    const title = this.truncateText(item.title, 120);
-    const whatChanged = this.truncateText(item.whatChanged, 300);
-    const sourceInfo = await this.formatSourceInfo(item);
-
-    return `• *${title}*\n${whatChanged}\n*Handling:* ${action} • (${confidence})\n📺 ${sourceInfo}`;
+  private async formatDebateItem(item: DebateItem, labels: BriefLabels): Promise<string> {
+    const perspectives = [];
+
+    if (item.positions.pro?.length) perspectives.push(`Pro: ${item.positions.pro.join(', ')}`);
+    if (item.positions.contra?.length) perspectives.push(`Contra: ${item.positions.contra.join(', ')}`);
+    if (item.positions.neutral?.length) perspectives.push(`Nøytral: ${item.positions.neutral.join(', ')}`);
+
+    const quotes = item.keyQuotes.map(quote =>
+      `> “${quote.quote}”${quote.speaker ? ` — ${quote.speaker}` : ''} <${videoTimestampUrl(item, quote.timestamp)}|▶ ${quote.timestamp}>`
+    );
+    const sourceInfo = await this.formatSourceInfo(item, labels);
+
+    return [
+      `• *${item.topic}*`,
+      `*${labels.discussed}:* ${item.whatWasDiscussed}`,
+      ...(perspectives.length > 0 ? [`*${labels.perspectives}:* ${perspectives.join(' | ')}`] : []),
+      `*${labels.implications}:* ${item.implications}`,
+      ...quotes,
+      `📺 ${sourceInfo}`
+    ].join('\n');
   }
 
   /**
-   * Format developer action
+   * Format dev item with code example and links
    */
-  private formatDeveloperAction(action: string): string {
-    const actionMap = {
-      try: '🚀 Prøv ut',
-      update: '🔄 Oppdater',
-      evaluate: '🤔 Vurder',
-      migrate: '📦 Migrer', 
-      test: '🧪 Test',
-      learn: '📚 Lær'
-    };
-    return actionMap[action] || action;
+  private async formatDevItem(item: DevItem, labels: BriefLabels): Promise<string> {
+    const confidence = CONFIDENCE_LABELS[item.confidence];
+    const action = labels.developerActions[item.developerAction] || item.developerAction;
+    const sourceInfo = await this.formatSourceInfo(item, labels);
+
+    return [
+      `• *${item.title}*`,
+      item.whatChanged,
+      `*${labels.action}:* ${action} • (${confidence})`,
+      ...(item.codeExample ? ['```' + item.codeExample + '```'] : []),
+      ...(item.links.length > 0 ? [item.links.map(link => `<${link}>`).join(' • ')] : []),
+      `📺 ${sourceInfo}`
+    ].join('\n');
   }
 
   /**
@@ -361,12 +478,12 @@ export class SlackService {
   /**
    * Format source info with channel and YouTube link
    */
-  private async formatSourceInfo(item: NewsItem | DebateItem | DevItem): Promise<string> {
+  private async formatSourceInfo(item: NewsItem | DebateItem | DevItem, labels: BriefLabels): Promise<string> {
     // Get channel name from database
     const channelName = await this.getChannelName(item.channelId);
     const youtubeUrl = item.sourceUrl || `https://youtube.com/watch?v=${item.videoId}`;
     
-    return `${channelName} • <${youtubeUrl}|Se video>`;
+    return `${channelName} • <${youtubeUrl}|${labels.watchVideo}>`;
   }
 
   /**
@@ -375,7 +492,7 @@ export class SlackService {
   private async getChannelName(channelId: string): Promise<string> {
     try {
       const rows = await this.db.query(
-        'SELECT name FROM sources WHERE channel_id = ? AND active = 1',
+        'SELECT name FROM sources WHERE channel_id = ? AND active = TRUE',
         [channelId]
       );
       
@@ -386,17 +503,6 @@ export class SlackService {
     }
   }
 
-  /**
-   * Format date in Norwegian format
-   */
-  private formatDate(date: Date): string {
-    return date.toLocaleDateString('nb-NO', {
-      day: '2-digit',
-      month: '2-digit', 
-      year: 'numeric'
-    });
-  }
-
   /**
    * Truncate text to avoid Slack Block Kit limits
    */
@@ -405,35 +511,6 @@ export class SlackService {
     return text.substring(0, maxLength - 3) + '...';
   }
 
-  /**
-   * Split items into multiple blocks to handle unlimited content
-   */
-  private splitIntoBlocks(items: string[], maxCharsPerBlock: number = 2900): string[] {
-    const blocks: string[] = [];
-    let currentBlock = '';
-    
-    for (const item of items) {
-      // Check if adding this item would exceed the limit
-      const potentialLength = currentBlock.length + (currentBlock ? 2 : 0) + item.length; // +2 for \n\n
-      
-      if (potentialLength > maxCharsPerBlock && currentBlock) {
-        // Save current block and start a new one
-        blocks.push(currentBlock);
-        currentBlock = item;
-      } else {
-        // Add to current block
-        currentBlock += currentBlock ? '\n\n' + item : item;
-      }
-    }
-    
-    // Add the final block if not empty
-    if (currentBlock) {
-      blocks.push(currentBlock);
-    }
-    
-    return blocks.length > 0 ? blocks : [''];
-  }
-
   /**
    * Check for existing post (idempotency)
    */
@@ -470,6 +547,19 @@ export class SlackService {
     }
   }
 
+  /**
+   * Store a posted message's ts so retries and later runs can reference it
+   */
+  private async saveThreadMessage(runId: string, channelId: string, part: string, messageTs: string, threadTs?: string): Promise<void> {
+    // For test runs, skip saving to avoid foreign key constraint
+    if (runId.startsWith('test_')) return;
+
+    await this.db.run(`
+      INSERT INTO slack_messages (run_id, channel_id, part, message_ts, thread_ts)
+      VALUES (?, ?, ?, ?, ?)
+    `, [runId, channelId, part, messageTs, threadTs || null]);
+  }
+
   /**
    * Send direct message to user (for error notifications)
    */
@@ -0,0 +1,118 @@
+/**
+ * Base Vector Store Interface
+ *
+ * Abstract interface for embedding backends used by deduplication
+ * (ChromaDB server, in-process memory store)
+ */
+
+import { randomUUID } from 'node:crypto';
+import { ParsedItem } from '../../types/schemas.js';
+import { EmbeddingData } from '../embedding.service.js';
+
+export interface SimilarityResult {
+  itemId: string;
+  similarity: number;
+  metadata: Record<string, any>;
+}
+
+/**
+ * Base vector store
+ */
+export abstract class BaseVectorStore {
+  protected collectionName: string;
+
+  // In-memory collections are shared process-wide, so every store gets its own name
+  constructor(collectionName: string = `dedup_${randomUUID()}`) {
+    this.collectionName = collectionName;
+  }
+
+  /**
+   * Initialize collection for current session
+   */
+  abstract initializeCollection(): Promise<void>;
+
+  /**
+   * Add embeddings for items to the collection
+   */
+  abstract addEmbeddings(embeddingData: EmbeddingData[], items: ParsedItem[]): Promise<void>;
+
+  /**
+   * Find items with cosine similarity >= threshold, highest first
+   */
+  abstract findSimilarItems(
+    queryEmbedding: number[],
+    threshold?: number,
+    nResults?: number,
+    excludeIds?: string[]
+  ): Promise<SimilarityResult[]>;
+
+  /**
+   * Find items sharing the same canonical key (exact matches)
+   */
+  abstract findByCanonicalKey(canonicalKey: string): Promise<SimilarityResult[]>;
+
+  /**
+   * Get all items in collection
+   */
+  abstract getAllItems(): Promise<{ ids: string[]; metadatas: Record<string, any>[] }>;
+
+  /**
+   * Delete current collection
+   */
+  abstract deleteCollection(): Promise<void>;
+
+  /**
+   * Get collection statistics
+   */
+  abstract getStats(): Promise<{ name: string; count: number }>;
+
+  /**
+   * Check if backend is available
+   */
+  abstract healthCheck(): Promise<boolean>;
+
+  /**
+   * Get collection name
+   */
+  getCollectionName(): string {
+    return this.collectionName;
+  }
+
+  /**
+   * Build metadata stored alongside each embedding.
+   * Shared by all backends so query results look the same everywhere.
+   */
+  protected buildMetadata(embeddingData: EmbeddingData[], items: ParsedItem[]): Record<string, any>[] {
+    if (embeddingData.length !== items.length) {
+      throw new Error('Embedding data and items arrays must have the same length');
+    }
+
+    return items.map((item, index) => ({
+      videoId: item.videoId,
+      channelId: item.channelId,
+      confidence: item.confidence,
+      canonicalKey: embeddingData[index]!.canonicalKey,
+      textContent: embeddingData[index]!.textContent,
+      title: 'title' in item ? item.title : 'topic' in item ? item.topic : '',
+      type: 'type' in item ? item.type : 'changeType' in item ? item.changeType : 'unknown',
+      timestamp: item.timestamp || null
+    }));
+  }
+
+  /**
+   * Apply threshold, exclusion and limit consistently across backends
+   */
+  protected filterResults(
+    candidates: SimilarityResult[],
+    threshold: number,
+    nResults: number,
+    excludeIds: string[]
+  ): SimilarityResult[] {
+    const excluded = new Set(excludeIds);
+
+    return candidates
+      .filter(result => !excluded.has(result.itemId) && result.similarity >= threshold)
+      .sort((a, b) => b.similarity - a.similarity || a.itemId.localeCompare(b.itemId))
+      .slice(0, nResults);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * In-Memory Vector Store
+ *
+ * In-process backend with brute-force cosine search.
+ * Needs no external server, so dedup runs locally and in tests.
+ */
+
+import { ParsedItem } from '../../types/schemas.js';
+import { EmbeddingData, EmbeddingService } from '../embedding.service.js';
+import { BaseVectorStore, SimilarityResult } from './base-vector-store.js';
+
+interface StoredVector {
+  id: string;
+  embedding: number[];
+  metadata: Record<string, any>;
+  document: string;
+}
+
+export class InMemoryVectorStore extends BaseVectorStore {
+  // Shared across instances so collections survive like they would on a server
+  private static collections = new Map<string, Map<string, StoredVector>>();
+
+  /**
+   * Initialize in-memory collection for current session
+   */
+  async initializeCollection(): Promise<void> {
+    if (!InMemoryVectorStore.collections.has(this.collectionName)) {
+      InMemoryVectorStore.collections.set(this.collectionName, new Map());
+    }
+    console.log(`🗄️ Initialized in-memory vector collection: ${this.collectionName}`);
+  }
+
+  /**
+   * Add embeddings to collection (existing ids are overwritten)
+   */
+  async addEmbeddings(embeddingData: EmbeddingData[], items: ParsedItem[]): Promise<void> {
+    const metadatas = this.buildMetadata(embeddingData, items);
+    const collection = this.getCollection();
+
+    embeddingData.forEach((data, index) => {
+      collection.set(data.itemId, {
+        id: data.itemId,
+        embedding: data.embedding,
+        metadata: metadatas[index] || {},
+        document: data.textContent
+      });
+    });
+
+    console.log(`📥 Added ${embeddingData.length} embeddings to in-memory store`);
+  }
+
+  /**
+   * Find similar items using brute-force cosine similarity
+   */
+  async findSimilarItems(
+    queryEmbedding: number[],
+    threshold = 0.85,
+    nResults = 10,
+    excludeIds: string[] = []
+  ): Promise<SimilarityResult[]> {
+    const candidates: SimilarityResult[] = [];
+
+    for (const stored of this.storedVectors()) {
+      if (stored.embedding.length !== queryEmbedding.length) {
+        continue;
+      }
+
+      candidates.push({
+        itemId: stored.id,
+        similarity: EmbeddingService.cosineSimilarity(queryEmbedding, stored.embedding),
+        metadata: stored.metadata
+      });
+    }
+
+    return this.filterResults(candidates, threshold, nResults, excludeIds);
+  }
+
+  /**
+   * Find items by canonical key (exact matches)
+   */
+  async findByCanonicalKey(canonicalKey: string): Promise<SimilarityResult[]> {
+    return this.storedVectors()
+      .filter(stored => stored.metadata.canonicalKey === canonicalKey)
+      .map(stored => ({
+        itemId: stored.id,
+        similarity: 1.0, // Exact match
+        metadata: stored.metadata
+      }));
+  }
+
+  /**
+   * Get all items in collection
+   */
+  async getAllItems(): Promise<{ ids: string[]; metadatas: Record<string, any>[] }> {
+    const stored = this.storedVectors();
+    return {
+      ids: stored.map(s => s.id),
+      metadatas: stored.map(s => s.metadata)
+    };
+  }
+
+  /**
+   * Delete current collection
+   */
+  async deleteCollection(): Promise<void> {
+    InMemoryVectorStore.collections.delete(this.collectionName);
+  }
+
+  /**
+   * Get collection statistics
+   */
+  async getStats(): Promise<{ name: string; count: number }> {
+    return {
+      name: this.collectionName,
+      count: this.storedVectors().length
+    };
+  }
+
+  /**
+   * In-process store is always available
+   */
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Get stored vectors (empty when the collection does not exist)
+   */
+  private storedVectors(): StoredVector[] {
+    const collection = InMemoryVectorStore.collections.get(this.collectionName);
+    return collection ? Array.from(collection.values()) : [];
+  }
+
+  /**
+   * Get current collection, failing like ChromaDB does when it was never created
+   */
+  private getCollection(): Map<string, StoredVector> {
+    const collection = InMemoryVectorStore.collections.get(this.collectionName);
+    if (!collection) {
+      throw new Error(`Collection not initialized: ${this.collectionName}`);
+    }
+    return collection;
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Vector Store Factory
+ *
+ * Creates the configured vector store backend
+ */
+
+import { BaseVectorStore } from './base-vector-store.js';
+import { InMemoryVectorStore } from './memory-vector-store.js';
+import { ChromaDBService } from '../chromadb.service.js';
+import { dbConfig, VectorStoreBackend } from '../../config/database.js';
+
+/**
+ * Create vector store for the given backend
+ */
+export function createVectorStore(
+  backend: VectorStoreBackend = dbConfig.vectorStore.backend,
+  options: { host?: string; port?: number } = {}
+): BaseVectorStore {
+  switch (backend) {
+    case 'chromadb':
+      return new ChromaDBService(
+        options.host || dbConfig.chroma.host,
+        options.port || dbConfig.chroma.port
+      );
+
+    case 'memory':
+      return new InMemoryVectorStore();
+
+    default:
+      throw new Error(`Unsupported vector store backend: ${backend}`);
+  }
+}
@@ -1,11 +1,20 @@
 import OpenAI from 'openai';
 import fs from 'fs';
 import path from 'path';
-import { execSync, spawn } from 'child_process';
+import { execFileSync, spawn } from 'child_process';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream } from 'stream/web';
 import YTDlpWrap from 'yt-dlp-wrap';
 // @ts-ignore - youtube-transcript has inconsistent types
 const youtubeTranscript = require('youtube-transcript');
 import { RapidAPITranscriptService, RapidAPIConfig } from './rapidapi-transcript.service.js';
+import { getRateLimiter } from '../utils/rate-limiter.js';
+
+/**
+ * Audio containers podcast enclosures are downloaded as (anything else is saved as .mp3)
+ */
+const AUDIO_EXTENSIONS = ['.mp3', '.m4a', '.aac', '.ogg', '.opus', '.wav'];
 
 export interface WhisperTranscript {
   text: string;
@@ -30,6 +39,7 @@ export class WhisperService {
   private tempDir: string;
   private totalMinutesUsed: number = 0;
   private rapidApiService: RapidAPITranscriptService | null = null;
+  private rateLimiter = getRateLimiter('whisper');
 
   constructor(apiKey: string, maxDurationMinutes: number = 180, rapidApiConfig?: RapidAPIConfig) {
     this.openai = new OpenAI({ apiKey });
@@ -54,12 +64,6 @@ export class WhisperService {
    * 3. Python youtube-transcript-api (fallback for local development)
    */
   async transcribeVideo(videoId: string, videoTitle: string = '', videoDuration: number = 0): Promise<WhisperTranscript | null> {
-    // Check if we've exceeded duration limit
-    if (this.totalMinutesUsed >= this.maxDurationMinutes) {
-      console.warn(`⚠ Whisper quota exceeded (${this.totalMinutesUsed}/${this.maxDurationMinutes} minutes)`);
-      return null;
-    }
-
     const videoUrl = `https://www.youtube.com/watch?v=${videoId}`;
     const audioPath = path.join(this.tempDir, `${videoId}.m4a`);
     
@@ -83,35 +87,15 @@ export class WhisperService {
     try {
       console.log(`🎧 Tier 2: Attempting Whisper transcription for: ${videoTitle || videoId}`);
       
-      // Check if we've exceeded duration limit
-      if (this.totalMinutesUsed >= this.maxDurationMinutes) {
+      // Only the paid step is gated - the free fallback below still runs once the budget is spent
+      if (!this.canTranscribe(videoDuration / 60)) {
         throw new Error(`Whisper quota exceeded (${this.totalMinutesUsed}/${this.maxDurationMinutes} minutes)`);
       }
       
       // Download audio from YouTube
       await this.downloadAudio(videoUrl, audioPath);
       
-      // Check file size and handle accordingly
-      const stats = fs.statSync(audioPath);
-      const fileSizeMB = stats.size / (1024 * 1024);
-      
-      let transcript: WhisperTranscript;
-      
-      if (fileSizeMB <= this.maxFileSizeMB) {
-        console.log(`🔄 Transcribing with Whisper (${fileSizeMB.toFixed(1)}MB)...`);
-        transcript = await this.transcribeAudioFile(audioPath, videoDuration);
-      } else {
-        console.log(`⚠ File too large: ${fileSizeMB.toFixed(1)}MB > ${this.maxFileSizeMB}MB`);
-        console.log(`🔪 Splitting audio into chunks for transcription...`);
-        transcript = await this.transcribeAudioInChunks(audioPath, videoDuration);
-      }
-      
-      // Update usage tracking
-      const durationMinutes = videoDuration / 60;
-      this.totalMinutesUsed += durationMinutes;
-      
-      console.log(`✅ Whisper transcription complete (${durationMinutes.toFixed(1)} min)`);
-      console.log(`📊 Whisper usage: ${this.totalMinutesUsed.toFixed(1)}/${this.maxDurationMinutes} minutes`);
+      const transcript = await this.transcribeDownloadedAudio(audioPath, videoDuration);
       
       // Clean up temp file
       fs.unlinkSync(audioPath);
@@ -156,6 +140,91 @@ export class WhisperService {
     return null;
   }
 
+  /**
+   * Transcribe audio published at a URL (podcast enclosures) with Whisper.
+   * Without a feed duration the audio is measured after download; the transcript carries the length used.
+   */
+  async transcribeAudioUrl(audioUrl: string, episodeId: string, title: string = '', duration: number = 0): Promise<WhisperTranscript | null> {
+    if (!this.canTranscribe(duration / 60)) {
+      console.warn(`⚠ Whisper quota exceeded (${this.totalMinutesUsed}/${this.maxDurationMinutes} minutes, episode needs ${(duration / 60).toFixed(1)})`);
+      return null;
+    }
+
+    // The feed controls the URL - only a known container extension makes it into the file name
+    const urlExtension = path.extname(new URL(audioUrl).pathname).toLowerCase();
+    const extension = AUDIO_EXTENSIONS.includes(urlExtension) ? urlExtension : '.mp3';
+    const audioPath = path.join(this.tempDir, `${episodeId}${extension}`);
+
+    try {
+      console.log(`🎧 Downloading episode audio for: ${title || episodeId}`);
+      const response = await fetch(audioUrl);
+      if (!response.ok || !response.body) {
+        throw new Error(`HTTP ${response.status} downloading ${audioUrl}`);
+      }
+      // Episodes run to hundreds of MB - stream them to disk rather than holding them in memory
+      // (fetch's body is typed as the DOM stream, which is Node's web stream at runtime)
+      await pipeline(Readable.fromWeb(response.body as ReadableStream<Uint8Array>), fs.createWriteStream(audioPath));
+
+
+      const audioDuration = duration || this.probeDuration(audioPath);
+      if (!this.canTranscribe(audioDuration / 60)) {
+        console.warn(`⚠ Whisper quota exceeded (${this.totalMinutesUsed}/${this.maxDurationMinutes} minutes, episode needs ${(audioDuration / 60).toFixed(1)})`);
+        return null;
+      }
+
+      return await this.transcribeDownloadedAudio(audioPath, audioDuration);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠ Whisper failed for ${episodeId}: ${errorMessage}`);
+      return null;
+    } finally {
+      if (fs.existsSync(audioPath)) {
+        fs.unlinkSync(audioPath);
+      }
+    }
+  }
+
+  /**
+   * Transcribe a downloaded audio file (split when over the upload limit) and track usage
+   */
+  private async transcribeDownloadedAudio(audioPath: string, duration: number): Promise<WhisperTranscript> {
+    // Check file size and handle accordingly
+    const stats = fs.statSync(audioPath);
+    const fileSizeMB = stats.size / (1024 * 1024);
+    
+    let transcript: WhisperTranscript;
+    
+    if (fileSizeMB <= this.maxFileSizeMB) {
+      console.log(`🔄 Transcribing with Whisper (${fileSizeMB.toFixed(1)}MB)...`);
+      transcript = await this.transcribeAudioFile(audioPath, duration);
+    } else {
+      console.log(`⚠ File too large: ${fileSizeMB.toFixed(1)}MB > ${this.maxFileSizeMB}MB`);
+      console.log(`🔪 Splitting audio into chunks for transcription...`);
+      transcript = await this.transcribeAudioInChunks(audioPath, duration);
+    }
+    
+    // Update usage tracking
+    const durationMinutes = duration / 60;
+    this.totalMinutesUsed += durationMinutes;
+    
+    console.log(`✅ Whisper transcription complete (${durationMinutes.toFixed(1)} min)`);
+    console.log(`📊 Whisper usage: ${this.totalMinutesUsed.toFixed(1)}/${this.maxDurationMinutes} minutes`);
+    
+    return transcript;
+  }
+
+  /**
+   * Audio length in seconds via ffprobe (feeds without itunes:duration)
+   */
+  private probeDuration(audioPath: string): number {
+    try {
+      const output = execFileSync('ffprobe', ['-v', 'error', '-show_entries', 'format=duration', '-of', 'csv=p=0', audioPath]).toString();
+      return Math.round(parseFloat(output)) || 0;
+    } catch {
+      return 0;
+    }
+  }
+
   /**
    * Download audio from YouTube video using yt-dlp
    */
@@ -202,12 +271,12 @@ export class WhisperService {
     
     try {
       // Use Whisper with timestamp information
-      const response = await this.openai.audio.transcriptions.create({
+      const response = await this.rateLimiter.schedule(() => this.openai.audio.transcriptions.create({
         file: audioFile,
         model: 'whisper-1',
         response_format: 'verbose_json',
         timestamp_granularities: ['segment'],
-      });
+      }));
 
       // Map OpenAI response to our interface
       const transcript: WhisperTranscript = {
@@ -249,7 +318,7 @@ export class WhisperService {
       for (let i = 0; i < chunks; i++) {
         const startTime = Math.max(0, i * chunkDuration - (i > 0 ? overlapSeconds : 0));
         const endTime = Math.min(videoDuration, (i + 1) * chunkDuration);
-        const chunkPath = audioPath.replace('.m4a', `_chunk${i}.m4a`);
+        const chunkPath = this.chunkPath(audioPath, i);
         
         console.log(`🔪 Processing chunk ${i + 1}/${chunks} (${startTime}s-${endTime}s)`);
         
@@ -303,7 +372,7 @@ export class WhisperService {
       console.error('Error in chunked transcription:', error);
       // Clean up any remaining chunk files
       for (let i = 0; i < chunks; i++) {
-        const chunkPath = audioPath.replace('.m4a', `_chunk${i}.m4a`);
+        const chunkPath = this.chunkPath(audioPath, i);
         if (fs.existsSync(chunkPath)) {
           fs.unlinkSync(chunkPath);
         }
@@ -312,14 +381,23 @@ export class WhisperService {
     }
   }
 
+  /**
+   * Chunk file next to the source audio, keeping its container extension
+   */
+  private chunkPath(audioPath: string, index: number): string {
+    const extension = path.extname(audioPath);
+    return `${audioPath.slice(0, audioPath.length - extension.length)}_chunk${index}${extension}`;
+  }
+
   /**
    * Split audio file using ffmpeg
    */
   private async splitAudio(inputPath: string, outputPath: string, startSeconds: number, durationSeconds: number): Promise<void> {
     
     try {
-      const command = `ffmpeg -i "${inputPath}" -ss ${startSeconds} -t ${durationSeconds} -c copy "${outputPath}" -y -loglevel error`;
-      execSync(command);
+      execFileSync('ffmpeg', [
+        '-i', inputPath, '-ss', String(startSeconds), '-t', String(durationSeconds), '-c', 'copy', outputPath, '-y', '-loglevel', 'error'
+      ]);
       
       // Verify output file exists
       if (!fs.existsSync(outputPath)) {
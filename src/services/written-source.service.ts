@@ -0,0 +1,180 @@
+import { createHash } from 'node:crypto';
+import { ArticleMedia, ExtractedArticle, WrittenEntry, WrittenFeed } from '../types/written-source.types.js';
+import { xmlAttribute, xmlElements, xmlText } from '../utils/xml.js';
+import { htmlToText } from '../utils/html.js';
+
+/**
+ * Page furniture that is never article content
+ */
+const BOILERPLATE_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'form', 'nav', 'header', 'footer', 'aside', 'button'];
+
+/**
+ * Elements read as one paragraph each (nested blocks belong to the outermost match)
+ */
+const BLOCK_PATTERN = /<(p|h[1-6]|li|blockquote|pre|figcaption|dt|dd)\b[^>]*>([\s\S]*?)<\/\1\s*>/gi;
+
+/**
+ * Written sources: RSS/Atom feeds of vendor blogs, changelogs and newsletters, read as article text
+ */
+export class WrittenSourceService {
+  /**
+   * Fetch and parse an RSS 2.0 or Atom feed
+   */
+  async fetchFeed(feedUrl: string): Promise<WrittenFeed> {
+    return parseWrittenFeed(await this.fetchText(feedUrl), feedUrl);
+  }
+
+  /**
+   * Entries published at or after a date, oldest first (the caller's watermark settles ties)
+   */
+  async getEntriesSince(feedUrl: string, since: Date): Promise<WrittenEntry[]> {
+    const feed = await this.fetchFeed(feedUrl);
+    return feed.entries
+      .filter(entry => new Date(entry.publishedAt) >= since)
+      .sort((a, b) => new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime());
+  }
+
+  /**
+   * Main content of an article. Uses the feed's copy of the body instead when it is longer
+   * (teaser pages, paywalls) or the page can't be fetched. Null when neither has text.
+   */
+  async fetchArticle(media: ArticleMedia): Promise<ExtractedArticle | null> {
+    let page: ExtractedArticle | null = null;
+    try {
+      page = extractArticle(await this.fetchText(media.url));
+    } catch (error) {
+      if (!media.feedHtml) throw error;
+      console.warn(`⚠️ Article page failed, using feed content: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const fromFeed = media.feedHtml ? extractArticle(media.feedHtml) : null;
+    const best = [page, fromFeed]
+      .filter((article): article is ExtractedArticle => article !== null && article.paragraphs.length > 0)
+      .sort((a, b) => wordCount(b) - wordCount(a))[0];
+
+    return best ? { ...best, title: page?.title || best.title } : null;
+  }
+
+  private async fetchText(url: string): Promise<string> {
+    const response = await fetch(url, { headers: { 'User-Agent': 'ai-nyhetsagent' } });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} fetching ${url}`);
+    }
+
+    return response.text();
+  }
+}
+
+/**
+ * Stable source id (sources.channel_id) for a written feed
+ */
+export function writtenChannelId(feedUrl: string): string {
+  return `written_${createHash('sha256').update(feedUrl).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Stable article id (videos.video_id) from the feed and the entry GUID
+ */
+export function writtenEntryId(feedUrl: string, guid: string): string {
+  return `article_${createHash('sha256').update(`${feedUrl}\n${guid}`).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * RSS 2.0 items or Atom entries with a link and a valid date; anything else in the feed is skipped
+ */
+export function parseWrittenFeed(xml: string, feedUrl: string): WrittenFeed {
+  const atom = !/<rss[\s>]/i.test(xml) && /<feed[\s>]/i.test(xml);
+  const entryTag = atom ? 'entry' : 'item';
+  const feedHead = xml.split(new RegExp(`<${entryTag}[\\s>]`, 'i'))[0] || '';
+  const entries: WrittenEntry[] = [];
+
+  for (const element of xmlElements(xml, entryTag)) {
+    const link = atom ? atomLink(element) : xmlText(element, 'link');
+    const publishedAt = new Date(
+      (atom ? xmlText(element, 'published') || xmlText(element, 'updated') : xmlText(element, 'pubDate') || xmlText(element, 'dc:date')) || ''
+    );
+    if (!link || isNaN(publishedAt.getTime())) continue;
+
+    const url = new URL(link, feedUrl).toString();
+    const guid = xmlText(element, atom ? 'id' : 'guid') || url;
+    const contentHtml = atom
+      ? xmlText(element, 'content') || xmlText(element, 'summary')
+      : xmlText(element, 'content:encoded') || xmlText(element, 'description');
+
+    entries.push({
+      id: writtenEntryId(feedUrl, guid),
+      guid,
+      title: collapse(htmlToText(xmlText(element, 'title') || '')) || url,
+      publishedAt: publishedAt.toISOString(),
+      url,
+      contentHtml: contentHtml || undefined
+    });
+  }
+
+  return { title: collapse(htmlToText(xmlText(feedHead, 'title') || '')) || feedUrl, entries };
+}
+
+/**
+ * Main content of an HTML page: the largest <article> (else <main>, else <body>) without page
+ * furniture, as one paragraph per text block
+ */
+export function extractArticle(html: string): ExtractedArticle {
+  const cleaned = BOILERPLATE_ELEMENTS.reduce(
+    (text, tag) => text.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?</${tag}\\s*>`, 'gi'), ' '),
+    html.replace(/<!--[\s\S]*?-->/g, ' ')
+  );
+
+  const articles = xmlElements(cleaned, 'article').sort((a, b) => b.length - a.length);
+  const container = articles[0] || xmlElements(cleaned, 'main')[0] || xmlElements(cleaned, 'body')[0] || cleaned;
+
+  const paragraphs: string[] = [];
+  for (const [, tag, inner] of container.matchAll(BLOCK_PATTERN)) {
+    // Code keeps its line breaks; everything else is reflowed
+    const text = tag!.toLowerCase() === 'pre' ? htmlToText(inner!).replace(/^\n+|\s+$/g, '') : collapse(htmlToText(inner!));
+    if (text && text !== paragraphs[paragraphs.length - 1]) paragraphs.push(text);
+  }
+
+  // Bare text (no block markup), e.g. a feed body that is one run of text with <br>s
+  if (paragraphs.length === 0) {
+    paragraphs.push(...htmlToText(container).split(/\n\s*\n/).map(collapse).filter(Boolean));
+  }
+
+  // Titles and dates often sit in the article's <header>, so look them up in the original page
+  const heading = xmlElements(html, 'h1')[0];
+  const [time] = xmlElements(html, 'time');
+  return {
+    title: metaContent(html, 'og:title') || (heading && collapse(htmlToText(heading))) || collapse(htmlToText(xmlText(html, 'title') || '')),
+    publishedAt: metaContent(html, 'article:published_time') || (time && xmlAttribute(time, 'datetime')),
+    paragraphs
+  };
+}
+
+/**
+ * Atom <link href>: the alternate (or unqualified) link
+ */
+function atomLink(entry: string): string | undefined {
+  const links = xmlElements(entry, 'link');
+  const alternate = links.find(link => (xmlAttribute(link, 'rel') || 'alternate') === 'alternate') || links[0];
+  return alternate && xmlAttribute(alternate, 'href');
+}
+
+/**
+ * <meta property|name="..." content="..."> (meta tags are void elements, so not xmlElements)
+ */
+function metaContent(html: string, property: string): string | undefined {
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    if ((xmlAttribute(tag, 'property') || xmlAttribute(tag, 'name')) === property) {
+      return xmlAttribute(tag, 'content') || undefined;
+    }
+  }
+  return undefined;
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function wordCount(article: ExtractedArticle): number {
+  return article.paragraphs.join(' ').split(/\s+/).length;
+}
@@ -0,0 +1,158 @@
+import { createHash } from 'node:crypto';
+import { DatabaseInterface, getDatabase } from '../db/database.js';
+import { DEFAULT_YOUTUBE_QUOTA_CONFIG } from '../config/youtube-quota.config.js';
+import {
+  DailyQuotaUsage, EndpointUsage, YouTubeEndpoint, YouTubeQuotaConfig
+} from '../types/youtube-quota.types.js';
+
+/**
+ * YouTube resets Data API quota at midnight Pacific time
+ */
+const QUOTA_TIME_ZONE = 'America/Los_Angeles';
+
+/**
+ * Per-day YouTube Data API quota for one API key, shared through the database by every
+ * process using the key. Calls are charged before they are made - YouTube charges failed
+ * requests too - and refused when they would go over the daily limit.
+ */
+export class YouTubeQuotaService {
+  private db: DatabaseInterface;
+  private keyHash: string;
+  private config: YouTubeQuotaConfig;
+  private session: Partial<Record<YouTubeEndpoint, EndpointUsage>> = {};
+
+  constructor(apiKey: string, config: YouTubeQuotaConfig = DEFAULT_YOUTUBE_QUOTA_CONFIG, db: DatabaseInterface = getDatabase()) {
+    this.db = db;
+    this.keyHash = quotaKeyHash(apiKey);
+    this.config = config;
+  }
+
+  /**
+   * Charge one call to an endpoint, or throw when today's budget can't cover it.
+   * Check and charge are one statement; on Postgres charges on the key also queue behind an
+   * advisory lock, since read committed would let two connections both see the old total.
+   */
+  async charge(endpoint: YouTubeEndpoint): Promise<void> {
+    const units = this.config.costs[endpoint];
+    const day = quotaDay();
+
+    const result = await this.db.transaction(async tx => {
+      if (tx.dialect === 'postgres') {
+        await tx.query('SELECT pg_advisory_xact_lock(hashtext(?))', [`youtube_quota:${day}:${this.keyHash}`]);
+      }
+
+      return tx.run(`
+        INSERT INTO youtube_quota_usage (day, key_hash, endpoint, units, calls, updated_at)
+        SELECT ?, ?, ?, CAST(? AS INTEGER), 1, CURRENT_TIMESTAMP
+        WHERE (SELECT COALESCE(SUM(units), 0) FROM youtube_quota_usage WHERE day = ? AND key_hash = ?) + ? <= ?
+        ON CONFLICT(day, key_hash, endpoint) DO UPDATE SET
+          units = youtube_quota_usage.units + excluded.units,
+          calls = youtube_quota_usage.calls + 1,
+          updated_at = excluded.updated_at
+      `, [day, this.keyHash, endpoint, units, day, this.keyHash, units, this.config.dailyLimit]);
+    });
+
+    if (result.changes === 0) {
+      const used = await this.getUsedUnits(day);
+      throw new Error(
+        `YouTube quota exhausted: ${endpoint} needs ${units} units, ${Math.max(0, this.config.dailyLimit - used)} left today (${used}/${this.config.dailyLimit})`
+      );
+    }
+
+    const session = (this.session[endpoint] ||= { units: 0, calls: 0 });
+    session.units += units;
+    session.calls++;
+  }
+
+  /**
+   * Units left today for the key
+   */
+  async getRemainingUnits(): Promise<number> {
+    return Math.max(0, this.config.dailyLimit - await this.getUsedUnits(quotaDay()));
+  }
+
+  /**
+   * Units spent on a quota day (today by default), by endpoint
+   */
+  async getDailyUsage(day: string = quotaDay()): Promise<DailyQuotaUsage> {
+    const rows = await this.db.query(
+      'SELECT endpoint, units, calls FROM youtube_quota_usage WHERE day = ? AND key_hash = ? ORDER BY endpoint',
+      [day, this.keyHash]
+    );
+    const byEndpoint: DailyQuotaUsage['byEndpoint'] = Object.fromEntries(
+      rows.map(row => [row.endpoint, { units: Number(row.units), calls: Number(row.calls) }])
+    );
+    const used = rows.reduce((sum, row) => sum + Number(row.units), 0);
+
+    return { day, limit: this.config.dailyLimit, used, remaining: Math.max(0, this.config.dailyLimit - used), byEndpoint };
+  }
+
+  /**
+   * Units charged by this process, by endpoint
+   */
+  getSessionUsage(): Partial<Record<YouTubeEndpoint, EndpointUsage>> {
+    return Object.fromEntries(
+      Object.entries(this.session).map(([endpoint, usage]) => [endpoint, { ...usage }])
+    );
+  }
+
+  getConfig(): YouTubeQuotaConfig {
+    return this.config;
+  }
+
+  private async getUsedUnits(day: string): Promise<number> {
+    const [row] = await this.db.query(
+      'SELECT COALESCE(SUM(units), 0) AS used FROM youtube_quota_usage WHERE day = ? AND key_hash = ?',
+      [day, this.keyHash]
+    );
+    return Number(row?.used ?? 0);
+  }
+}
+
+/**
+ * Quota day (Pacific date, YYYY-MM-DD) a moment falls on
+ */
+export function quotaDay(date: Date = new Date()): string {
+  return date.toLocaleDateString('en-CA', { timeZone: QUOTA_TIME_ZONE });
+}
+
+/**
+ * Short hash identifying an API key in youtube_quota_usage - the key itself is never stored
+ */
+export function quotaKeyHash(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex').slice(0, 12);
+}
+
+/**
+ * Split YouTube sources into those to check and those to skip with the budget left:
+ * highest weight first, each estimated at sourceUnits, keeping reserveUnits unspent.
+ * Low-weight sources are the first to go when quota runs short.
+ */
+export function planYouTubeSources<T extends { weight?: number | null }>(
+  sources: T[],
+  remainingUnits: number,
+  config: Pick<YouTubeQuotaConfig, 'reserveUnits' | 'sourceUnits'> = DEFAULT_YOUTUBE_QUOTA_CONFIG
+): { checked: T[]; skipped: T[] } {
+  const byWeight = [...sources].sort((a, b) => Number(b.weight ?? 1) - Number(a.weight ?? 1));
+  const affordable = Math.max(0, Math.floor((remainingUnits - config.reserveUnits) / config.sourceUnits));
+
+  return { checked: byWeight.slice(0, affordable), skipped: byWeight.slice(affordable) };
+}
+
+/**
+ * Usage added since an earlier snapshot of the same counters
+ */
+export function usageSince(
+  current: Partial<Record<YouTubeEndpoint, EndpointUsage>>,
+  before: Partial<Record<YouTubeEndpoint, EndpointUsage>>
+): Partial<Record<YouTubeEndpoint, EndpointUsage>> {
+  const added: Partial<Record<YouTubeEndpoint, EndpointUsage>> = {};
+
+  for (const [endpoint, usage] of Object.entries(current) as Array<[YouTubeEndpoint, EndpointUsage]>) {
+    const units = usage.units - (before[endpoint]?.units ?? 0);
+    const calls = usage.calls - (before[endpoint]?.calls ?? 0);
+    if (calls > 0) added[endpoint] = { units, calls };
+  }
+
+  return added;
+}
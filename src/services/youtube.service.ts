@@ -1,14 +1,18 @@
 import { google } from 'googleapis';
-import { YouTubeVideo, YouTubeChannel, VideoMetadata } from '../types/youtube.types.js';
+import { YouTubeVideo, YouTubeChannel, VideoMetadata, CaptionTrack, VideoCaptions } from '../types/youtube.types.js';
+import { getRateLimiter } from '../utils/rate-limiter.js';
+import { YouTubeQuotaService } from './youtube-quota.service.js';
+import { YouTubeEndpoint } from '../types/youtube-quota.types.js';
 
 export class YouTubeService {
   private youtube;
   private apiKey: string;
-  private quotaUsed: number = 0;
-  private maxQuota: number = 10000; // Daily quota limit
+  private quota: YouTubeQuotaService;
+  private rateLimiter = getRateLimiter('youtube');
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, quota: YouTubeQuotaService = new YouTubeQuotaService(apiKey)) {
     this.apiKey = apiKey;
+    this.quota = quota;
     this.youtube = google.youtube({
       version: 'v3',
       auth: apiKey,
@@ -51,34 +55,32 @@ export class YouTubeService {
    */
   async resolveChannelId(identifier: string): Promise<string> {
     try {
-      this.quotaUsed += 1; // channels.list costs 1 unit
-
       let response;
       
       if (identifier.startsWith('@')) {
         // Handle format: @username
-        response = await this.youtube.channels.list({
+        response = await this.call('channels.list', () => this.youtube.channels.list({
           part: ['id'],
           forHandle: identifier,
-        });
+        }));
       } else if (identifier.startsWith('UC')) {
         // Direct channel ID
-        response = await this.youtube.channels.list({
+        response = await this.call('channels.list', () => this.youtube.channels.list({
           part: ['id'], 
           id: [identifier],
-        });
+        }));
       } else {
         // Username format - try both forHandle and forUsername
         try {
-          response = await this.youtube.channels.list({
+          response = await this.call('channels.list', () => this.youtube.channels.list({
             part: ['id'],
             forHandle: `@${identifier}`,
-          });
+          }));
         } catch (error) {
-          response = await this.youtube.channels.list({
+          response = await this.call('channels.list', () => this.youtube.channels.list({
             part: ['id'],
             forUsername: identifier,
-          });
+          }));
         }
       }
 
@@ -98,12 +100,10 @@ export class YouTubeService {
    */
   async getChannelUploadsPlaylistId(channelId: string): Promise<string> {
     try {
-      this.quotaUsed += 1; // channels.list costs 1 unit
-
-      const response = await this.youtube.channels.list({
+      const response = await this.call('channels.list', () => this.youtube.channels.list({
         part: ['contentDetails'],
         id: [channelId],
-      });
+      }));
 
       if (!response.data.items || response.data.items.length === 0) {
         throw new Error(`Channel not found: ${channelId}`);
@@ -123,7 +123,9 @@ export class YouTubeService {
   }
 
   /**
-   * Get new videos from playlist since a given date
+   * Get videos from playlist published at or after a given date (the caller's watermark settles ties).
+   * Pages all the way back to the date: the playlist is newest first, so stopping early would lose
+   * the oldest uploads the caller's oldest-first cap keeps.
    */
   async getNewVideosSince(playlistId: string, sinceDate: Date): Promise<string[]> {
     const videoIds: string[] = [];
@@ -132,22 +134,20 @@ export class YouTubeService {
 
     try {
       do {
-        this.quotaUsed += 1; // playlistItems.list costs 1 unit
-
-        const response = await this.youtube.playlistItems.list({
+        const response = await this.call('playlistItems.list', () => this.youtube.playlistItems.list({
           part: ['snippet'],
           playlistId: playlistId,
           maxResults: maxResults,
           pageToken: pageToken,
           order: 'date', // Most recent first
-        });
+        }));
 
         if (!response.data.items) break;
 
         for (const item of response.data.items) {
           const publishedAt = new Date(item.snippet?.publishedAt || '');
           
-          if (publishedAt <= sinceDate) {
+          if (publishedAt < sinceDate) {
             // Videos are ordered by date, so we can stop here
             return videoIds;
           }
@@ -159,7 +159,7 @@ export class YouTubeService {
 
         pageToken = response.data.nextPageToken || undefined;
 
-      } while (pageToken && videoIds.length < 100); // Safety limit
+      } while (pageToken);
 
       return videoIds;
 
@@ -182,12 +182,10 @@ export class YouTubeService {
       // Process in batches of 50
       for (let i = 0; i < videoIds.length; i += batchSize) {
         const batchIds = videoIds.slice(i, i + batchSize);
-        this.quotaUsed += 1; // videos.list costs 1 unit per request
-
-        const response = await this.youtube.videos.list({
+        const response = await this.call('videos.list', () => this.youtube.videos.list({
           part: ['snippet', 'contentDetails'],
           id: batchIds,
-        });
+        }));
 
         if (!response.data.items) continue;
 
@@ -260,14 +258,12 @@ export class YouTubeService {
    */
   private async getRecentVideoIds(playlistId: string, maxResults = 10): Promise<string[]> {
     try {
-      this.quotaUsed += 1; // playlistItems.list costs 1 unit
-
-      const response = await this.youtube.playlistItems.list({
+      const response = await this.call('playlistItems.list', () => this.youtube.playlistItems.list({
         part: ['contentDetails'],
         playlistId,
         maxResults,
         order: 'date'
-      });
+      }));
 
       const videoIds: string[] = [];
       
@@ -293,12 +289,10 @@ export class YouTubeService {
    */
   async checkCaptions(videoId: string): Promise<boolean> {
     try {
-      this.quotaUsed += 1; // captions.list costs 1 unit
-
-      const response = await this.youtube.captions.list({
+      const response = await this.call('captions.list', () => this.youtube.captions.list({
         part: ['id'],
         videoId: videoId,
-      });
+      }));
 
       return (response.data.items?.length || 0) > 0;
 
@@ -311,44 +305,47 @@ export class YouTubeService {
 
   /**
    * Get captions for a video
+   * @param kind - Restrict to manual (uploader) or auto-generated (ASR) tracks
    */
-  async getCaptions(videoId: string): Promise<{
-    text: string;
-    segments: Array<{ start: number; end: number; text: string }>;
-    language: string;
-    source: 'youtube-captions';
-  } | null> {
-    try {
-      this.quotaUsed += 1; // captions.list costs 1 unit
+  async getCaptions(videoId: string, kind?: CaptionTrack['kind']): Promise<VideoCaptions | null> {
+    const track = selectCaptionTrack(await this.listCaptionTracks(videoId) || [], kind);
+    return track ? this.downloadCaptionTrack(videoId, track) : null;
+  }
 
-      const response = await this.youtube.captions.list({
+  /**
+   * Caption tracks of a video (one captions.list call), or null when they can't be listed.
+   * List once per video and pick tracks with selectCaptionTrack - every call costs quota.
+   */
+  async listCaptionTracks(videoId: string): Promise<CaptionTrack[] | null> {
+    try {
+      const response = await this.call('captions.list', () => this.youtube.captions.list({
         part: ['id', 'snippet'],
         videoId: videoId,
-      });
-
-      const captions = response.data.items;
-      if (!captions || captions.length === 0) {
-        return null;
-      }
+      }));
 
-      // Prefer auto-generated captions in English
-      let selectedCaption = captions.find(cap => 
-        cap.snippet?.language === 'en' && cap.snippet?.trackKind === 'asr'
-      ) || captions.find(cap => 
-        cap.snippet?.language === 'en'
-      ) || captions[0];
+      return (response.data.items || [])
+        .filter(cap => cap.id)
+        .map(cap => ({
+          id: cap.id!,
+          language: cap.snippet?.language || 'en',
+          kind: cap.snippet?.trackKind === 'asr' ? 'auto' as const : 'manual' as const,
+        }));
 
-      if (!selectedCaption?.id) {
-        return null;
-      }
+    } catch (error) {
+      console.warn(`Could not get captions for video ${videoId}:`, error);
+      return null;
+    }
+  }
 
-      // Download caption content
-      this.quotaUsed += 1; // captions.download costs 1 unit
-      
-      const downloadResponse = await this.youtube.captions.download({
-        id: selectedCaption.id,
+  /**
+   * Download and parse one caption track
+   */
+  async downloadCaptionTrack(videoId: string, track: CaptionTrack): Promise<VideoCaptions | null> {
+    try {
+      const downloadResponse = await this.call('captions.download', () => this.youtube.captions.download({
+        id: track.id,
         tfmt: 'vtt' // WebVTT format with timestamps
-      });
+      }));
 
       if (!downloadResponse.data) {
         return null;
@@ -361,8 +358,8 @@ export class YouTubeService {
       return {
         text: parsed.text,
         segments: parsed.segments,
-        language: selectedCaption.snippet?.language || 'en',
-        source: 'youtube-captions'
+        language: track.language,
+        source: track.kind === 'auto' ? 'youtube-auto' : 'youtube-manual'
       };
 
     } catch (error) {
@@ -446,20 +443,46 @@ export class YouTubeService {
   }
 
   /**
-   * Get current quota usage
+   * Charge an API call to today's quota, then make it through the rate limiter
+   */
+  private async call<T>(endpoint: YouTubeEndpoint, request: () => Promise<T>): Promise<T> {
+    await this.quota.charge(endpoint);
+    return this.rateLimiter.schedule(request);
+  }
+
+  /**
+   * Quota spent today on this API key (by every process using it), and by this process
    */
-  getQuotaUsage(): { used: number; remaining: number; percentage: number } {
+  async getQuotaUsage(): Promise<{ used: number; remaining: number; percentage: number; session: number }> {
+    const usage = await this.quota.getDailyUsage();
     return {
-      used: this.quotaUsed,
-      remaining: this.maxQuota - this.quotaUsed,
-      percentage: (this.quotaUsed / this.maxQuota) * 100,
+      used: usage.used,
+      remaining: usage.remaining,
+      percentage: (usage.used / usage.limit) * 100,
+      session: Object.values(this.quota.getSessionUsage()).reduce((sum, endpoint) => sum + endpoint.units, 0),
     };
   }
 
+  getQuota(): YouTubeQuotaService {
+    return this.quota;
+  }
+
   /**
    * Add delay for rate limiting
    */
   private async delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Track to download for a caption kind (any kind when not given), English first
+ */
+export function selectCaptionTrack(tracks: CaptionTrack[], kind?: CaptionTrack['kind']): CaptionTrack | null {
+  const candidates = kind ? tracks.filter(track => track.kind === kind) : tracks;
+  // Prefer auto-generated captions in English
+  return candidates.find(track => track.language === 'en' && track.kind === 'auto')
+    || candidates.find(track => track.language === 'en')
+    || candidates[0]
+    || null;
+}
@@ -0,0 +1,36 @@
+/**
+ * Alert Type Definitions
+ *
+ * Types for breaking-news alerts posted between daily briefs
+ */
+
+import type { NewsItem } from './schemas.js';
+
+/**
+ * When a story is worth an alert, and where it goes
+ */
+export interface AlertConfig {
+  slackChannelId?: string | undefined; // Defaults to the brief channel
+  minRelevance: number;                // relevance_score (1-10) the breaking item needs
+  minChannels: number;                 // Distinct YouTube channels covering the story
+  windowHours: number;                 // Videos this recent are polled and clustered together
+  intervalMinutes: number;             // Poll interval for `alerts watch`
+}
+
+/**
+ * A corroborated breaking story from one dedup cluster
+ */
+export interface BreakingAlert {
+  itemKey: string;       // Dedup item key of the alerted item
+  item: NewsItem;
+  memberKeys: string[];  // Every item key in the cluster - the daily brief may pick any of them
+  channelIds: string[];  // Distinct YouTube channels covering the story
+}
+
+export interface AlertCheckResult {
+  runId: string;
+  videosProcessed: number;
+  candidates: number;    // Corroborated breaking stories found
+  alerted: BreakingAlert[];
+  errors: string[];
+}
@@ -0,0 +1,39 @@
+/**
+ * arXiv Type Definitions
+ *
+ * Types for arXiv listing feeds, the papers announced in them and the brief items discussing them
+ */
+
+export interface ArxivPaper {
+  id: string;           // Stable paper id used as videos.video_id
+  arxivId: string;      // 2501.01234 (without version)
+  title: string;
+  abstract: string;
+  authors: string[];
+  categories: string[]; // cs.CL, cs.AI, ...
+  publishedAt: string;  // ISO 8601 (announcement date for listing feeds)
+  url: string;          // https://arxiv.org/abs/<arXiv id>
+  pdfUrl: string;       // https://arxiv.org/pdf/<arXiv id>
+}
+
+export interface ArxivListing {
+  title: string;
+  papers: ArxivPaper[];
+}
+
+/**
+ * Paper behind a video row (plus the abstract, when fetched in the same run)
+ */
+export interface PaperMedia {
+  arxivId: string;
+  authors: string[];
+  abstract?: string | undefined;
+}
+
+/**
+ * Brief item (news, debate or dev) that discusses a paper
+ */
+export interface PaperMention {
+  title: string;
+  url: string;
+}
@@ -0,0 +1,25 @@
+/**
+ * Concurrency Type Definitions
+ *
+ * Types for the video worker pool and shared provider rate limits
+ */
+
+export type RateLimitedProvider = 'youtube' | 'rapidapi' | 'whisper' | 'chat' | 'embeddings';
+
+export interface ProviderLimit {
+  maxConcurrent: number; // In-flight requests across the whole process
+  minIntervalMs: number; // Minimum spacing between request starts
+}
+
+export type ProviderLimitConfig = Record<RateLimitedProvider, ProviderLimit>;
+
+/**
+ * Wall-clock time spent in each pipeline stage
+ */
+export interface StageTimings {
+  fetchMs: number;
+  transcribeMs: number;
+  extractMs: number;
+  dedupMs: number;
+  deliverMs: number;
+}
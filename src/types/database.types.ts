@@ -0,0 +1,10 @@
+/**
+ * Database Type Definitions
+ */
+
+export type SqlDialect = 'sqlite' | 'postgres';
+
+export interface RunResult {
+  changes: number;
+  lastInsertRowid?: number | string; // SQLite rowid, or `id` from a RETURNING clause on Postgres
+}
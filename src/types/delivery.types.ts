@@ -0,0 +1,52 @@
+/**
+ * Delivery Type Definitions
+ *
+ * Types for brief delivery targets (Slack, email, webhooks, Teams, Discord)
+ */
+
+import type { EmailConfig } from '../services/email.service.js';
+import type { SlackBriefData } from '../services/slack.service.js';
+
+export type DeliveryTargetKind = 'slack' | 'email' | 'webhook' | 'teams' | 'discord';
+
+export type BriefSection = 'news' | 'debate' | 'dev'; // Deep-dives follow 'debate', research follows 'news'
+
+export type BriefLanguage = 'nb' | 'en';
+
+/**
+ * Per-target configuration (DELIVERY_TARGETS JSON entries use the same shape)
+ */
+export interface DeliveryTargetConfig {
+  name: string;                              // Unique per target - part of the idempotency key
+  kind: DeliveryTargetKind;
+  sections?: BriefSection[];                 // Default: all sections
+  minRelevance?: number;                     // Drop items scored below this (1-10)
+  minConfidence?: 'low' | 'medium' | 'high'; // Drop items with lower confidence
+  language?: BriefLanguage;                  // Default: 'nb'
+  channelId?: string;                        // slack
+  url?: string;                              // webhook, teams, discord
+  headers?: Record<string, string>;          // webhook
+  email?: EmailConfig;                       // email
+}
+
+/**
+ * Outcome of delivering one brief to one target
+ */
+export interface DeliveryResult {
+  target: string;
+  success: boolean;
+  deliveryId?: string; // Slack ts, email message id, HTTP status...
+  skipped?: boolean;   // Already delivered for this run
+  error?: string;
+}
+
+/**
+ * A place the brief can be sent to
+ */
+export interface DeliveryTarget {
+  readonly name: string;
+  readonly kind: DeliveryTargetKind;
+  readonly deliveryKey: string; // slack_posts.channel_id for idempotency
+  send(briefData: SlackBriefData): Promise<DeliveryResult>;
+  close?(): void;
+}
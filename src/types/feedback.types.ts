@@ -0,0 +1,33 @@
+/**
+ * Reader feedback on brief items (Slack buttons)
+ */
+
+import { BriefSection } from './delivery.types.js';
+
+export type FeedbackValue = 'up' | 'down' | 'not_ai';
+
+export interface ItemFeedback {
+  itemKey: string;  // briefItemKey() of the delivered item
+  runId: string;
+  userId: string;   // Slack user ID - one vote per user and item
+  value: FeedbackValue;
+}
+
+/**
+ * Item details stored with each vote so ranking and source weights don't need the brief again
+ */
+export interface FeedbackItemDetails {
+  section: BriefSection;
+  channelId: string;
+  videoId: string;
+  itemType: string;      // News type, dev changeType or 'debate'
+  entities: string[];    // News entities or dev affectedTechnologies
+}
+
+/**
+ * Learned preferences, each score in [-1, 1]
+ */
+export interface FeedbackSignals {
+  entities: Map<string, number>;
+  types: Map<string, number>;
+}
@@ -0,0 +1,24 @@
+/**
+ * GitHub Type Definitions
+ *
+ * Types for GitHub repository sources and their releases and tags
+ */
+
+export interface GitHubRelease {
+  id: string;          // Stable release id used as videos.video_id
+  repo: string;        // owner/name
+  tag: string;
+  name: string;        // Release title (the tag for tags without a release)
+  body: string;        // Release notes (Markdown) - empty for tags without a release
+  publishedAt: string; // ISO 8601
+  url: string;         // https://github.com/<owner>/<name>/releases/tag/<tag>
+  fromTag: boolean;    // Tag pushed without a GitHub release
+}
+
+/**
+ * Release page (plus the notes, when fetched in the same run)
+ */
+export interface ReleaseMedia {
+  url: string;
+  body?: string | undefined;
+}
@@ -0,0 +1,47 @@
+/**
+ * Hallucination Guard Type Definitions
+ *
+ * Types for the post-extraction hallucination stage and its audit trail
+ */
+
+import { HallucinationIssue } from '../services/hallucination-detector.service.js';
+
+export type SourceType = 'news' | 'debate' | 'dev';
+
+/**
+ * What to do with an item the detector distrusts:
+ * - drop: remove the item entirely
+ * - downgrade: keep the item with lowered confidence
+ * - flag: keep the item untouched, only record the issues
+ */
+export type HallucinationAction = 'drop' | 'downgrade' | 'flag';
+
+export interface HallucinationPolicy {
+  enabled: boolean;
+  action: HallucinationAction;
+}
+
+export type HallucinationPolicyConfig = Record<SourceType, HallucinationPolicy>;
+
+/**
+ * Audit record for one checked item (persisted one row per issue)
+ */
+export interface HallucinationAuditEntry {
+  videoId: string;
+  sourceType: SourceType;
+  itemTitle: string;
+  action: HallucinationAction | 'none';
+  originalConfidence: 'high' | 'medium' | 'low';
+  adjustedConfidence: 'high' | 'medium' | 'low' | null; // null when dropped
+  recommendedAdjustment: 'high' | 'medium' | 'low' | 'reject';
+  detectorConfidence: number;
+  issues: HallucinationIssue[];
+}
+
+export interface HallucinationStats {
+  itemsChecked: number;
+  dropped: number;
+  downgraded: number;
+  flagged: number;
+  issuesFound: number;
+}
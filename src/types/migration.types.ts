@@ -0,0 +1,47 @@
+/**
+ * Migration Type Definitions
+ *
+ * Types for the versioned schema migration runner
+ */
+
+import { SqlDialect } from './database.types.js';
+
+/**
+ * A migration file resolved for one dialect
+ */
+export interface MigrationFile {
+  version: number;
+  name: string;      // e.g. "add_embeddings"
+  filename: string;  // File actually applied for this dialect
+  sql: string;
+  checksum: string;  // sha256 of file contents
+}
+
+/**
+ * - applied: recorded and file unchanged
+ * - pending: not applied yet
+ * - changed: applied, but file contents differ from recorded checksum
+ * - missing: recorded as applied, but the file is gone
+ * - gap: version intentionally absent (see KNOWN_MIGRATION_GAPS)
+ */
+export type MigrationState = 'applied' | 'pending' | 'changed' | 'missing' | 'gap';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState;
+  filename?: string;
+  appliedAt?: string;
+  baseline?: boolean; // Recorded without executing (schema pre-dated the runner)
+  note?: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  dialect: SqlDialect;
+  appliedAt: string;
+  executionMs: number;
+  baseline: boolean;
+}
@@ -0,0 +1,29 @@
+/**
+ * Podcast Type Definitions
+ *
+ * Types for podcast RSS sources and their episodes
+ */
+
+/**
+ * Audio and feed-provided transcript for an episode (podcast sources only)
+ */
+export interface EpisodeMedia {
+  audioUrl: string;
+  transcriptUrl?: string | undefined;  // <podcast:transcript url>
+  transcriptType?: string | undefined; // MIME type: text/vtt, application/x-subrip, application/json, text/plain, text/html
+}
+
+export interface PodcastEpisode {
+  id: string;          // Stable episode id used as videos.video_id
+  guid: string;
+  title: string;
+  publishedAt: string; // ISO 8601
+  durationSeconds: number;
+  url: string;         // Audio enclosure - playable, and seekable with #t=
+  media: EpisodeMedia;
+}
+
+export interface PodcastFeed {
+  title: string;
+  episodes: PodcastEpisode[];
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { HallucinationAuditEntry } from './hallucination.types.js';
 
 // Base schema som alle items arver fra
 export const BaseItemSchema = z.object({
@@ -37,6 +38,10 @@ export const NewsItemSchema = BaseItemSchema.extend({
   }),
   impact: z.enum(['breaking', 'significant', 'minor']).optional(),
   affectedCompanies: z.array(z.string()).optional(),
+  paper: z.object({ // arXiv-artikler (forskningsseksjonen)
+    arxivId: z.string(),
+    pdfUrl: z.string().url(),
+  }).optional(),
 });
 
 // Del 2: Tema, debatter & perspektiver  
@@ -138,6 +143,14 @@ export const VideoParsingResultSchema = z.object({
     totalTime: z.number(),
     skippedPasses: z.array(z.string())
   }).optional(),
+  hallucinationAudit: z.array(z.custom<HallucinationAuditEntry>()).optional(),
+  hallucinationStats: z.object({
+    itemsChecked: z.number(),
+    dropped: z.number(),
+    downgraded: z.number(),
+    flagged: z.number(),
+    issuesFound: z.number()
+  }).optional(),
 });
 
 export type NewsParsingResult = z.infer<typeof NewsParsingResultSchema>;
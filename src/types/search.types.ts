@@ -0,0 +1,42 @@
+/**
+ * Search Type Definitions
+ *
+ * Types for searching stored items (/nyheter slash command) and transcripts
+ */
+
+import type { NewsItem, DebateItem, DevItem } from './schemas.js';
+import type { BriefSection } from './delivery.types.js';
+
+/**
+ * Parsed query: free text plus entity:, section:, from:, to: and since: filters
+ */
+export interface ItemSearchQuery {
+  terms: string[];          // Lowercased words and "quoted phrases" - every term must match
+  entities: string[];       // entity:Gemini - matches news entities and dev technologies
+  section?: BriefSection | undefined;
+  from?: Date | undefined;  // Video published at or after
+  to?: Date | undefined;    // Video published before
+}
+
+export interface ItemSearchResult {
+  section: BriefSection;
+  item: NewsItem | DebateItem | DevItem;
+  score: number;
+  publishedAt: Date;
+}
+
+/**
+ * Transcript segment matching a search, linked to the second it starts
+ */
+export interface TranscriptSearchResult {
+  videoId: string;               // YouTube video ID
+  videoTitle: string;
+  channelId: string | null;
+  sourceName: string | null;
+  publishedAt: Date;
+  startSeconds: number | null;   // Null for transcripts stored without segments
+  timestamp: string | null;      // HH:MM:SS
+  url: string;                   // Starts playback at the segment
+  text: string;                  // Full segment text
+  snippet: string;               // Matched words wrapped in the highlight markers
+}
@@ -0,0 +1,15 @@
+/**
+ * Source Type Definitions
+ *
+ * Types for where sources publish (sources.kind)
+ */
+
+/**
+ * Where a source publishes:
+ * - youtube: channel_id is the YouTube channel, episodes are videos
+ * - podcast: channel_url is the RSS feed, episodes are audio enclosures
+ * - written: channel_url is an RSS/Atom feed of articles (blogs, changelogs, newsletters)
+ * - github: channel_url is a GitHub repository, episodes are its releases (and release-less tags)
+ * - arxiv: channel_url is an arXiv listing feed, episodes are its papers (narrowed by sources.keywords)
+ */
+export type SourceKind = 'youtube' | 'podcast' | 'written' | 'github' | 'arxiv';
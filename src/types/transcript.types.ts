@@ -0,0 +1,31 @@
+/**
+ * Transcript Tier Type Definitions
+ *
+ * Types for the tiered transcript strategy (cheapest source first)
+ */
+
+/**
+ * Transcript tiers in default fallback order:
+ * - cached: transcript already stored in database
+ * - podcast-feed: transcript a podcast feed publishes with the episode (<podcast:transcript>)
+ * - article: main text of a written source's article page, one segment per paragraph
+ * - github-release: release notes of a GitHub release, one segment per line
+ * - arxiv-abstract: abstract of an arXiv paper, one segment per paragraph
+ * - youtube-manual: uploader-provided captions
+ * - youtube-auto: YouTube auto-generated (ASR) captions
+ * - rapidapi: RapidAPI YouTube Transcript service
+ * - whisper: OpenAI Whisper on downloaded audio (paid per minute)
+ */
+export type TranscriptTier = 'cached' | 'podcast-feed' | 'article' | 'github-release' | 'arxiv-abstract' | 'youtube-manual' | 'youtube-auto' | 'rapidapi' | 'whisper';
+
+export interface TranscriptTierConfig {
+  tier: TranscriptTier;
+  enabled: boolean;
+  minQuality: number; // 0-1, transcripts below this fall through to next tier
+}
+
+export interface TranscriptTierStats {
+  bySource: Partial<Record<TranscriptTier, number>>;
+  whisperMinutesSaved: number; // Minutes served by free caption tiers instead of Whisper (not cached or RapidAPI)
+  whisperMinutesUsed: number;
+}
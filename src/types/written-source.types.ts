@@ -0,0 +1,36 @@
+/**
+ * Written Source Type Definitions
+ *
+ * Types for article feeds (blogs, changelogs, newsletters) and extracted article text
+ */
+
+export interface WrittenEntry {
+  id: string;          // Stable article id used as videos.video_id
+  guid: string;
+  title: string;
+  publishedAt: string; // ISO 8601
+  url: string;         // Article page
+  contentHtml?: string | undefined; // Body the feed carries (content:encoded, Atom content/summary)
+}
+
+export interface WrittenFeed {
+  title: string;
+  entries: WrittenEntry[];
+}
+
+/**
+ * Article page (plus the feed's copy of the body, when fetched in the same run)
+ */
+export interface ArticleMedia {
+  url: string;
+  feedHtml?: string | undefined;
+}
+
+/**
+ * Main content of an article page, one entry per paragraph, heading, list item or code block
+ */
+export interface ExtractedArticle {
+  title: string;
+  publishedAt?: string | undefined;
+  paragraphs: string[];
+}
@@ -0,0 +1,51 @@
+/**
+ * YouTube Quota Type Definitions
+ *
+ * Types for per-day YouTube Data API quota accounting and the budget the pipeline spends it by
+ */
+
+/**
+ * Data API endpoints the pipeline calls (quota is charged per endpoint)
+ */
+export type YouTubeEndpoint =
+  | 'channels.list'
+  | 'playlistItems.list'
+  | 'videos.list'
+  | 'captions.list'
+  | 'captions.download';
+
+export interface YouTubeQuotaConfig {
+  dailyLimit: number;                     // Units per API key per quota day (Pacific time)
+  reserveUnits: number;                   // Left unspent by source checks, for captions and other scripts on the key
+  sourceUnits: number;                    // Estimated cost of checking one channel for uploads
+  costs: Record<YouTubeEndpoint, number>; // Units per call
+}
+
+export interface EndpointUsage {
+  units: number;
+  calls: number;
+}
+
+/**
+ * Units spent on one quota day for one API key
+ */
+export interface DailyQuotaUsage {
+  day: string;           // YYYY-MM-DD (America/Los_Angeles)
+  limit: number;
+  used: number;
+  remaining: number;
+  byEndpoint: Partial<Record<YouTubeEndpoint, EndpointUsage>>;
+}
+
+/**
+ * Quota section of a run report
+ */
+export interface YouTubeQuotaReport {
+  day: string;
+  limit: number;
+  runUnits: number;      // Spent by this run
+  usedToday: number;     // Spent by every run and script on the key today
+  remaining: number;
+  byEndpoint: Partial<Record<YouTubeEndpoint, EndpointUsage>>; // This run's calls
+  sourcesSkipped: string[]; // YouTube sources left unchecked to stay within budget
+}
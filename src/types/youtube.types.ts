@@ -28,6 +28,25 @@ export interface YouTubeCaption {
   source: 'auto' | 'manual';
 }
 
+/**
+ * Caption track listed by captions.list
+ */
+export interface CaptionTrack {
+  id: string;
+  language: string;
+  kind: 'manual' | 'auto'; // auto: YouTube speech recognition (ASR)
+}
+
+/**
+ * Downloaded caption track, parsed into timed segments
+ */
+export interface VideoCaptions {
+  text: string;
+  segments: Array<{ start: number; end: number; text: string }>;
+  language: string;
+  source: 'youtube-manual' | 'youtube-auto';
+}
+
 export interface YouTubeCaptionSegment {
   start: number; // seconds
   duration: number; // seconds
@@ -0,0 +1,236 @@
+import { NewsItem, DebateItem, DevItem } from '../types/schemas.js';
+import { BriefLanguage } from '../types/delivery.types.js';
+import { PaperMention } from '../types/arxiv.types.js';
+
+/**
+ * Papers shown in the research section - discussed papers first
+ */
+const MAX_RESEARCH_ITEMS = 5;
+
+/**
+ * Authors listed before "et al."
+ */
+const MAX_LISTED_AUTHORS = 3;
+
+/**
+ * Items shown in each brief section, after relevance filtering and sorting.
+ * Shared by every delivery channel so Slack and email show the same brief.
+ */
+export interface BriefSections {
+  newsItems: NewsItem[];
+  researchItems: NewsItem[]; // arXiv papers, kept out of newsItems
+  debateItems: DebateItem[];
+  devItems: DevItem[];
+  deepDiveItems: DebateItem[];
+}
+
+export interface BriefLabels {
+  locale: string;
+  news: string;
+  debate: string;
+  dev: string;
+  deepDives: string;
+  research: string;
+  discussed: string;
+  discussedIn: string;
+  abstract: string;
+  perspectives: string;
+  implications: string;
+  action: string;
+  watchVideo: string;
+  videos: string;
+  generated: string;
+  inThread: string;
+  notAiNews: string;
+  breaking: string;
+  alreadyAnnounced: string;
+  corroboratedBy: string;
+  developerActions: Record<string, string>;
+}
+
+export const BRIEF_LABELS: Record<BriefLanguage, BriefLabels> = {
+  nb: {
+    locale: 'nb-NO',
+    news: '📰 Siste nytt',
+    debate: '🧠 Temaer & debatter',
+    dev: '🛠️ For utviklere',
+    deepDives: '🔍 Deep-dives å vurdere',
+    research: '🔬 Forskning',
+    discussed: 'Diskutert',
+    discussedIn: 'Diskutert i',
+    abstract: 'Sammendrag',
+    perspectives: 'Perspektiver',
+    implications: 'Implikasjoner',
+    action: 'Handling',
+    watchVideo: 'Se video',
+    videos: 'videoer',
+    generated: 'Generert automatisk',
+    inThread: '🧵 Detaljer i tråden',
+    notAiNews: '🚫 Ikke AI-nyhet',
+    breaking: '🚨 Nyhetsvarsel',
+    alreadyAnnounced: '📣 Allerede varslet',
+    corroboratedBy: 'Meldt av',
+    developerActions: {
+      try: '🚀 Prøv ut',
+      update: '🔄 Oppdater',
+      evaluate: '🤔 Vurder',
+      migrate: '📦 Migrer',
+      test: '🧪 Test',
+      learn: '📚 Lær'
+    }
+  },
+  en: {
+    locale: 'en-GB',
+    news: '📰 Latest news',
+    debate: '🧠 Themes & debates',
+    dev: '🛠️ For developers',
+    deepDives: '🔍 Deep dives to consider',
+    research: '🔬 Research',
+    discussed: 'Discussed',
+    discussedIn: 'Discussed in',
+    abstract: 'Abstract',
+    perspectives: 'Perspectives',
+    implications: 'Implications',
+    action: 'Action',
+    watchVideo: 'Watch video',
+    videos: 'videos',
+    generated: 'Generated automatically',
+    inThread: '🧵 Details in thread',
+    notAiNews: '🚫 Not AI news',
+    breaking: '🚨 Breaking news',
+    alreadyAnnounced: '📣 Already announced',
+    corroboratedBy: 'Reported by',
+    developerActions: {
+      try: '🚀 Try it',
+      update: '🔄 Update',
+      evaluate: '🤔 Evaluate',
+      migrate: '📦 Migrate',
+      test: '🧪 Test',
+      learn: '📚 Learn'
+    }
+  }
+};
+
+const CONFIDENCE_ORDER = { high: 3, medium: 2, low: 1 };
+
+/**
+ * Labels for a brief (Norwegian unless the target asks otherwise)
+ */
+export function getBriefLabels(language?: BriefLanguage): BriefLabels {
+  return BRIEF_LABELS[language || 'nb'];
+}
+
+/**
+ * Select and order items per section
+ */
+export function selectBriefSections(briefData: {
+  newsItems: NewsItem[];
+  debateItems: DebateItem[];
+  devItems: DevItem[];
+  paperMentions?: Record<string, PaperMention[]> | undefined;
+}): BriefSections {
+  const byRelevance = (a: { relevance_score?: number }, b: { relevance_score?: number }) =>
+    (b.relevance_score || 0) - (a.relevance_score || 0);
+
+  const newsItems = briefData.newsItems
+    .filter(item => !item.paper)
+    .filter(item => (item.relevance_score || 5) >= 5) // Only show relevant items
+    .sort((a, b) => {
+      // Sort by confidence (high > medium > low), then relevance_score
+      const confidenceDiff = (CONFIDENCE_ORDER[b.confidence] || 0) - (CONFIDENCE_ORDER[a.confidence] || 0);
+      return confidenceDiff !== 0 ? confidenceDiff : byRelevance(a, b);
+    });
+
+  const debateItems = briefData.debateItems
+    .filter(item => (item.relevance_score || 4) >= 4) // Slightly lower threshold for debates
+    .sort(byRelevance);
+
+  const devItems = briefData.devItems
+    .filter(item => (item.relevance_score || 5) >= 5) // Focus on practical utility
+    .sort(byRelevance);
+
+  // The papers the community talks about most, then the most relevant new ones
+  const mentionCount = (item: NewsItem) => paperMentions(briefData, item).length;
+  const researchItems = briefData.newsItems
+    .filter(item => item.paper)
+    .sort((a, b) => mentionCount(b) - mentionCount(a) || byRelevance(a, b))
+    .slice(0, MAX_RESEARCH_ITEMS);
+
+  const deepDiveItems = briefData.debateItems.filter(item => item.recommendedDeepDive);
+
+  return { newsItems, researchItems, debateItems, devItems, deepDiveItems };
+}
+
+/**
+ * Whether an item clears a target's relevance and confidence filters
+ */
+export function passesItemFilters(
+  item: { relevance_score?: number; confidence: 'low' | 'medium' | 'high' },
+  filters: { minRelevance?: number; minConfidence?: 'low' | 'medium' | 'high' }
+): boolean {
+  if (filters.minRelevance && (item.relevance_score || 0) < filters.minRelevance) return false;
+  if (filters.minConfidence && CONFIDENCE_ORDER[item.confidence] < CONFIDENCE_ORDER[filters.minConfidence]) return false;
+  return true;
+}
+
+/**
+ * Format date for the brief header (dd.mm.yyyy in Norwegian)
+ */
+export function formatBriefDate(date: Date, language?: BriefLanguage): string {
+  return date.toLocaleDateString(getBriefLabels(language).locale, {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric'
+  });
+}
+
+/**
+ * Link that starts playback at an item's timestamp (HH:MM:SS or MM:SS)
+ */
+export function videoTimestampUrl(item: { videoId: string; sourceUrl: string }, timestamp?: string): string {
+  const parts = timestamp?.split(':').map(part => parseInt(part, 10)) || [];
+  if (parts.length < 2 || parts.some(part => isNaN(part))) return item.sourceUrl;
+
+  return secondsUrl(item.videoId, item.sourceUrl, parts.reduce((total, part) => total * 60 + part, 0));
+}
+
+/**
+ * Link that starts playback after a number of seconds: YouTube's t parameter, or a
+ * media fragment (#t=) on anything else, such as a podcast episode's audio
+ */
+export function secondsUrl(videoId: string, url: string, seconds: number): string {
+  if (url && !/^https?:\/\/([\w-]+\.)*(youtube\.com|youtu\.be)\//i.test(url)) {
+    return `${url.split('#')[0]}#t=${seconds}`;
+  }
+  return `https://www.youtube.com/watch?v=${videoId}&t=${seconds}s`;
+}
+
+/**
+ * Whether a brief item was already announced in a breaking-news alert
+ */
+export function isAlreadyAnnounced(briefData: { announcedItemKeys?: string[] | undefined }, item: NewsItem | DebateItem | DevItem): boolean {
+  return briefData.announcedItemKeys?.includes(briefItemKey(item)) ?? false;
+}
+
+/**
+ * Brief items that discuss a paper (none for anything but arXiv papers)
+ */
+export function paperMentions(briefData: { paperMentions?: Record<string, PaperMention[]> | undefined }, item: NewsItem): PaperMention[] {
+  return item.paper ? briefData.paperMentions?.[item.paper.arxivId] ?? [] : [];
+}
+
+/**
+ * Paper authors for display: "Jane Doe, John Smith, Kari Nordmann et al."
+ */
+export function formatAuthors(authors: string[]): string {
+  const listed = authors.slice(0, MAX_LISTED_AUTHORS).join(', ');
+  return authors.length > MAX_LISTED_AUTHORS ? `${listed} et al.` : listed;
+}
+
+/**
+ * Stable key for a brief item: the dedup itemId (videoId + canonical key) when present
+ */
+export function briefItemKey(item: NewsItem | DebateItem | DevItem): string {
+  if ('itemId' in item && typeof item.itemId === 'string') return item.itemId;
+  return `${item.videoId}_${'topic' in item ? item.topic : item.title}`;
+}
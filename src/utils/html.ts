@@ -0,0 +1,39 @@
+import { decodeXmlEntities } from './xml.js';
+
+/**
+ * Escape text for HTML (and XML feed) element content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Named entities common in article pages beyond the XML five
+ */
+const HTML_ENTITIES: Record<string, string> = {
+  nbsp: ' ', ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  laquo: '«', raquo: '»', middot: '·', bull: '•', copy: '©', reg: '®', trade: '™', times: '×'
+};
+
+/**
+ * Tags that separate words; inline tags (<strong>, <a>, <code>) are dropped without a gap
+ */
+const BLOCK_TAG_PATTERN = /<\/?(?:p|div|li|ul|ol|h[1-6]|blockquote|pre|table|tr|td|th|dt|dd|figcaption|section|article)\b[^>]*>/gi;
+
+/**
+ * Plain text of an HTML fragment: tags dropped, entities decoded (whitespace is left to the caller)
+ */
+export function htmlToText(html: string): string {
+  return decodeXmlEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(BLOCK_TAG_PATTERN, ' ')
+      .replace(/<[^>]*>/g, '')
+      .replace(/&([a-z]+);/gi, (match, name: string) => HTML_ENTITIES[name.toLowerCase()] ?? match)
+  );
+}
@@ -0,0 +1,103 @@
+import { ProviderLimit, RateLimitedProvider } from '../types/concurrency.types.js';
+import { DEFAULT_PROVIDER_LIMITS } from '../config/concurrency.config.js';
+
+/**
+ * Semaphore with minimum spacing between task starts
+ */
+export class RateLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private nextStartAt = 0;
+
+  constructor(private limit: ProviderLimit) {}
+
+  /**
+   * Update limits (applies to tasks not yet started)
+   */
+  setLimit(limit: Partial<ProviderLimit>): void {
+    this.limit = { ...this.limit, ...limit };
+  }
+
+  /**
+   * Run task once a slot is free and spacing allows
+   */
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.limit.maxConcurrent) {
+      this.active++;
+    } else {
+      // Slot is handed over directly by release()
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    const now = Date.now();
+    const waitMs = Math.max(0, this.nextStartAt - now);
+    this.nextStartAt = Math.max(now, this.nextStartAt) + this.limit.minIntervalMs;
+
+    if (waitMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+// Process-wide limiters, shared by every service calling the same provider
+const limiters = new Map<RateLimitedProvider, RateLimiter>();
+
+/**
+ * Get shared rate limiter for provider
+ */
+export function getRateLimiter(provider: RateLimitedProvider): RateLimiter {
+  let limiter = limiters.get(provider);
+  if (!limiter) {
+    limiter = new RateLimiter(DEFAULT_PROVIDER_LIMITS[provider]);
+    limiters.set(provider, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Override limits for provider (e.g. from environment)
+ */
+export function configureRateLimiter(provider: RateLimitedProvider, limit: Partial<ProviderLimit>): void {
+  getRateLimiter(provider).setLimit(limit);
+}
+
+/**
+ * Map over items with at most `concurrency` workers.
+ * Results keep input order regardless of completion order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const runners = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index]!, index);
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+}
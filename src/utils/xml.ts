@@ -0,0 +1,46 @@
+/**
+ * Minimal XML reading for RSS/Atom feeds - enough for flat, well-known elements, not a general parser
+ */
+
+/**
+ * Decode the predefined XML entities and numeric character references
+ */
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" } as Record<string, string>)[lower] ?? match;
+  });
+}
+
+/**
+ * Raw markup of every <name ...>...</name> (or self-closing <name .../>) element, in document order
+ */
+export function xmlElements(xml: string, name: string): string[] {
+  const tag = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`<${tag}(?=[\\s/>])[^>]*?(?:/>|>[\\s\\S]*?</${tag}\\s*>)`, 'gi');
+  return xml.match(pattern) || [];
+}
+
+/**
+ * Text content of the first <name> element (CDATA unwrapped, entities decoded), or undefined
+ */
+export function xmlText(xml: string, name: string): string | undefined {
+  const [element] = xmlElements(xml, name);
+  if (!element || element.endsWith('/>')) return undefined;
+
+  const inner = element.slice(element.indexOf('>') + 1, element.lastIndexOf('</'));
+  const cdata = inner.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  return (cdata ? cdata[1]! : decodeXmlEntities(inner)).trim();
+}
+
+/**
+ * Attribute value on an element's opening tag, or undefined
+ */
+export function xmlAttribute(element: string, attribute: string): string | undefined {
+  const openingTag = element.slice(0, element.indexOf('>') + 1);
+  const name = attribute.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = openingTag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return match ? decodeXmlEntities(match[1] ?? match[2] ?? '') : undefined;
+}
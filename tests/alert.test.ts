@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { getDatabase, closeDatabase } from '../src/db/database.js';
+import { MigrationRunner } from '../src/db/migrate.js';
+import { AlertService, selectBreakingAlerts } from '../src/services/alert.service.js';
+import { SlackService } from '../src/services/slack.service.js';
+import { Cluster, DedupProcessor } from '../src/processors/dedup.processor.js';
+import { EmbeddingService } from '../src/services/embedding.service.js';
+import { InMemoryVectorStore } from '../src/services/vector-stores/memory-vector-store.js';
+import { DEFAULT_DEDUP_CONFIG } from '../src/config/dedup.config.js';
+import { NewsItem } from '../src/types/schemas.js';
+
+/**
+ * Slack Web API stand-in recording chat.postMessage calls
+ */
+async function startSlackApi() {
+  const posts: Array<Record<string, any>> = [];
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const params: Record<string, string> = Object.fromEntries(new URLSearchParams(body));
+      posts.push({ ...params, blocks: JSON.parse(params.blocks || '[]') });
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: true, channel: params.channel, ts: `${1000 + posts.length}.000100` }));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, posts, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/` };
+}
+
+function newsItem(videoId: string, channelId: string, overrides: Partial<NewsItem & { itemId: string }> = {}): NewsItem & { itemId: string } {
+  return {
+    itemId: `${videoId}_gpt-5 launch`,
+    videoId,
+    channelId,
+    sourceUrl: `https://www.youtube.com/watch?v=${videoId}`,
+    confidence: 'high',
+    rawContext: 'context',
+    title: 'GPT-5 launches today',
+    summary: 'OpenAI released GPT-5 to all users',
+    entities: ['OpenAI', 'GPT-5'],
+    type: 'release',
+    impact: 'breaking',
+    relevance_score: 9,
+    timestamp: '00:02:05',
+    ...overrides,
+  };
+}
+
+function cluster(members: Array<NewsItem & { itemId: string }>): Cluster {
+  return {
+    id: `cluster_${members[0]!.itemId}`,
+    canonical: members[0]!,
+    members,
+    similarity_scores: members.map(() => 0.95),
+    also_covered_by: members.map(member => `${member.channelId}/${member.videoId}`),
+    avg_similarity_score: 0.95,
+  };
+}
+
+const CRITERIA = { minRelevance: 8, minChannels: 2 };
+
+/**
+ * Every item embeds the same, so the whole window lands in one cluster
+ */
+class SameStoryEmbeddings extends EmbeddingService {
+  async generateBatchEmbeddings(texts: string[]): Promise<number[][]> {
+    return texts.map(() => [1, 0, 0]);
+  }
+}
+
+describe('breaking-news alerts', () => {
+  let slack: Awaited<ReturnType<typeof startSlackApi>>;
+  let slackService: SlackService;
+
+  beforeAll(async () => {
+    const db = getDatabase();
+    await new MigrationRunner(db).migrate();
+    for (const [name, channelId] of [['Alpha News', 'UC_alpha'], ['Beta AI', 'UC_beta']]) {
+      await db.run(`
+        INSERT INTO sources (name, type, channel_url, channel_id, weight, active) VALUES (?, 'news', ?, ?, 1.0, TRUE)
+      `, [name, `https://www.youtube.com/@${channelId}`, channelId]);
+    }
+    await db.run("INSERT INTO runs (id, status, kind) VALUES ('alert_1', 'running', 'alert')");
+
+    slack = await startSlackApi();
+    slackService = new SlackService('xoxb-test', { slackApiUrl: slack.url, retryConfig: { retries: 0 } });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => slack.server.close(() => resolve()));
+    await closeDatabase();
+  });
+
+  it('needs a breaking, relevant item covered by enough distinct channels', () => {
+    const corroborated = cluster([
+      newsItem('vid_a', 'UC_alpha', { impact: 'significant' }),
+      newsItem('vid_b', 'UC_beta'),
+    ]);
+    const [alert] = selectBreakingAlerts([corroborated], CRITERIA);
+
+    expect(alert!.itemKey).toBe('vid_b_gpt-5 launch');
+    expect(alert!.memberKeys).toEqual(['vid_a_gpt-5 launch', 'vid_b_gpt-5 launch']);
+    expect(alert!.channelIds).toEqual(['UC_alpha', 'UC_beta']);
+
+    expect(selectBreakingAlerts([cluster([newsItem('vid_a', 'UC_alpha'), newsItem('vid_c', 'UC_alpha')])], CRITERIA)).toEqual([]);
+    expect(selectBreakingAlerts([cluster([
+      newsItem('vid_a', 'UC_alpha', { relevance_score: 6 }),
+      newsItem('vid_b', 'UC_beta', { impact: 'minor' }),
+    ])], CRITERIA)).toEqual([]);
+  });
+
+  it('posts each story once and remembers every covering item', async () => {
+    const alerts = new AlertService(slackService);
+    const options = { slackChannelId: 'C_ALERTS', runId: 'alert_1' };
+
+    const first = selectBreakingAlerts([cluster([newsItem('vid_a', 'UC_alpha'), newsItem('vid_b', 'UC_beta')])], CRITERIA);
+    expect(await alerts.sendAlerts(first, options)).toHaveLength(1);
+
+    expect(slack.posts).toHaveLength(1);
+    expect(slack.posts[0]!.channel).toBe('C_ALERTS');
+    expect(slack.posts[0]!.blocks[0].text.text).toBe('🚨 Nyhetsvarsel: GPT-5 launches today');
+    expect(slack.posts[0]!.blocks[2].elements[0].text).toContain('Meldt av: Alpha News, Beta AI');
+    expect(slack.posts[0]!.blocks[2].elements[0].text).toContain('<https://www.youtube.com/watch?v=vid_a&t=125s|▶ 00:02:05>');
+
+    // A later check sees a third channel join the story
+    const later = selectBreakingAlerts([cluster([
+      newsItem('vid_a', 'UC_alpha'), newsItem('vid_b', 'UC_beta'), newsItem('vid_d', 'UC_gamma'),
+    ])], CRITERIA);
+    expect(await alerts.sendAlerts(later, options)).toEqual([]);
+    expect(slack.posts).toHaveLength(1);
+
+    expect((await alerts.getAnnouncedItemKeys(['vid_d_gpt-5 launch', 'vid_x_other'])).sort()).toEqual(['vid_d_gpt-5 launch']);
+  });
+
+  it('marks announced items in the daily brief', async () => {
+    const announced = newsItem('vid_d', 'UC_gamma');
+    const fresh = newsItem('vid_e', 'UC_alpha', { itemId: 'vid_e_new model', title: 'New model', impact: 'significant' });
+    const messages = await slackService.buildThreadMessages({
+      newsItems: [announced, fresh],
+      debateItems: [],
+      devItems: [],
+      runId: 'run_1',
+      generatedAt: new Date('2025-01-15T08:00:00Z'),
+      stats: { totalVideos: 2, totalItems: 2, processingTimeMs: 1_000, cost: 0.01 },
+      announcedItemKeys: ['vid_d_gpt-5 launch'],
+    });
+
+    const news = messages.find(message => message.part === 'news')!;
+    expect(news.blocks[1].text.text).toContain('*GPT-5 launches today* _📣 Allerede varslet_');
+    expect(news.blocks[3].text.text).not.toContain('Allerede varslet');
+    expect(messages[0]!.blocks[2].text.text).toContain('_📣 Allerede varslet_');
+  });
+
+  it('re-clusters the alert window on every check without storing the clusters', async () => {
+    const dedup = new DedupProcessor('sk-test', 'localhost', 8000, DEFAULT_DEDUP_CONFIG, {
+      vectorStore: new InMemoryVectorStore(),
+      embeddingService: new SameStoryEmbeddings('sk-test'),
+    });
+    const window = [newsItem('vid_alpha', 'UC_alpha'), newsItem('vid_beta', 'UC_beta', { title: 'GPT-5 is out now' })];
+    const [before] = await getDatabase().query('SELECT COUNT(*) AS count FROM clusters');
+
+    for (let check = 0; check < 3; check++) {
+      const result = await dedup.deduplicateItems(window, 0.85, { persist: false });
+      expect(result.clusters).toHaveLength(1);
+    }
+
+    const [after] = await getDatabase().query('SELECT COUNT(*) AS count FROM clusters');
+    expect(Number(after.count)).toBe(Number(before.count));
+  });
+});
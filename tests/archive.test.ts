@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getDatabase, closeDatabase } from '../src/db/database.js';
+import { MigrationRunner } from '../src/db/migrate.js';
+import { ArchiveService } from '../src/services/archive.service.js';
+import { SlackBriefData } from '../src/services/slack.service.js';
+import { briefData, newsItem, debateItem } from './helpers/brief.js';
+
+function archivedBrief(runId: string, generatedAt: string): SlackBriefData {
+  return briefData(runId, {
+    newsItems: [newsItem({ timestamp: '01:02:03' })],
+    debateItems: [debateItem({ positions: { pro: ['Transparency'], contra: [] } })],
+    devItems: [],
+    generatedAt: new Date(generatedAt),
+  });
+}
+
+describe('ArchiveService', () => {
+  const archive = () => new ArchiveService();
+  let outDir: string;
+
+  beforeAll(async () => {
+    const db = getDatabase();
+    await new MigrationRunner(db).migrate();
+    await db.run(`
+      INSERT INTO sources (name, type, channel_url, channel_id, weight, active)
+      VALUES ('Alpha News', 'news', 'https://www.youtube.com/@alpha', 'UC_alpha', 1.0, TRUE)
+    `);
+    for (const [runId, generatedAt] of [['run_1', '2025-01-14T08:00:00Z'], ['run_2', '2025-01-15T08:00:00Z']] as const) {
+      await db.run("INSERT INTO runs (id, status) VALUES (?, 'success')", [runId]);
+      await archive().saveBrief(archivedBrief(runId, generatedAt));
+    }
+    outDir = await mkdtemp(join(tmpdir(), 'brief-archive-'));
+  });
+
+  afterAll(async () => {
+    await rm(outDir, { recursive: true, force: true });
+    await closeDatabase();
+  });
+
+  it('round-trips a stored brief', async () => {
+    const loaded = await archive().loadBrief('run_1');
+
+    expect(loaded).toEqual(archivedBrief('run_1', '2025-01-14T08:00:00Z'));
+    expect(await archive().loadBrief('run_missing')).toBeNull();
+  });
+
+  it('rebuilds pages with anchors, timestamp links and a newest-first index', async () => {
+    const entries = await archive().rebuild(outDir);
+
+    expect(entries.map(entry => entry.runId)).toEqual(['run_2', 'run_1']);
+    expect((await readdir(outDir)).sort()).toEqual([
+      '2025-01-14-run_1.html', '2025-01-14-run_1.md',
+      '2025-01-15-run_2.html', '2025-01-15-run_2.md',
+      'index.html', 'index.md',
+    ]);
+
+    const markdown = await readFile(join(outDir, '2025-01-15-run_2.md'), 'utf8');
+    expect(markdown).toContain('[📰 Siste nytt](#news)');
+    expect(markdown).toContain('[▶ 01:02:03](https://www.youtube.com/watch?v=vid_1&t=3723s)');
+    expect(markdown).toContain('— Ada [▶ 12:30](https://www.youtube.com/watch?v=vid_1&t=750s)');
+    expect(markdown).toContain('📺 Alpha News');
+
+    const html = await readFile(join(outDir, '2025-01-15-run_2.html'), 'utf8');
+    expect(html).toContain('<section id="debate">');
+    expect(html).toContain('Model &lt;launch&gt;');
+
+    const index = await readFile(join(outDir, 'index.md'), 'utf8');
+    expect(index.indexOf('run_2')).toBeLessThan(index.indexOf('run_1'));
+  });
+});
@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getDatabase, closeDatabase } from '../src/db/database.js';
+import { MigrationRunner } from '../src/db/migrate.js';
+import {
+  ArxivService, arxivChannelId, arxivListingUrl, findPaperMentions, parseArxivFeed, paperToResearchItem
+} from '../src/services/arxiv.service.js';
+import { TranscriptProcessor } from '../src/processors/transcript.processor.js';
+import { ItemProcessor } from '../src/processors/item.processor.js';
+import { DedupProcessor } from '../src/processors/dedup.processor.js';
+import { EmbeddingService } from '../src/services/embedding.service.js';
+import { InMemoryVectorStore } from '../src/services/vector-stores/memory-vector-store.js';
+import { ArchiveService } from '../src/services/archive.service.js';
+import { DEFAULT_DEDUP_CONFIG } from '../src/config/dedup.config.js';
+import { selectBriefSections } from '../src/utils/brief-sections.js';
+import { DebateItem, NewsItem } from '../src/types/schemas.js';
+import { startFixtureHost } from './helpers/fixture-host.js';
+
+const TOOLWEAVER_ABSTRACT = 'Language model agents call tools one at a time, which makes long tasks slow and expensive. '
+  + 'We present ToolWeaver, a planner that builds a dependency graph of tool calls and runs independent calls in parallel. '
+  + 'On three agent benchmarks ToolWeaver cuts wall-clock time by 41% and token cost by 23% without hurting task success. '
+  + 'Code and data are released.';
+
+const API_ENTRY = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:arxiv="http://arxiv.org/schemas/atom">
+  <title type="html">ArXiv Query: search_query=&amp;id_list=2501.07301</title>
+  <id>http://arxiv.org/api/cHxbiOdZaP56ODnBPIenZhzg5f8</id>
+  <updated>2025-01-15T00:00:00-05:00</updated>
+  <entry>
+    <id>http://arxiv.org/abs/2501.07301v1</id>
+    <updated>2025-01-13T17:42:10Z</updated>
+    <published>2025-01-13T17:42:10Z</published>
+    <title>ToolWeaver: Planning Parallel Tool Calls for
+  Language Model Agents</title>
+    <summary>  Language model agents call tools one at a time, which makes long tasks slow and
+expensive. We present ToolWeaver, a planner that builds a dependency graph of tool calls and runs
+independent calls in parallel. On three agent benchmarks ToolWeaver cuts wall-clock time by 41% and
+token cost by 23% without hurting task success. Code and data are released.
+</summary>
+    <author><name>Ingrid Solberg</name></author>
+    <author><name>Marcus Chen</name></author>
+    <author><name>Priya Raman</name></author>
+    <author><name>Tomás Alvarez</name></author>
+    <link href="http://arxiv.org/abs/2501.07301v1" rel="alternate" type="text/html"/>
+    <link title="pdf" href="http://arxiv.org/pdf/2501.07301v1" rel="related" type="application/pdf"/>
+    <arxiv:primary_category xmlns:arxiv="http://arxiv.org/schemas/atom" term="cs.CL" scheme="http://arxiv.org/schemas/atom"/>
+    <category term="cs.CL" scheme="http://arxiv.org/schemas/atom"/>
+    <category term="cs.AI" scheme="http://arxiv.org/schemas/atom"/>
+  </entry>
+</feed>`;
+
+/**
+ * Embeddings that always match, so only the paper rule can keep items apart
+ */
+class IdenticalEmbeddings extends EmbeddingService {
+  async generateBatchEmbeddings(texts: string[]): Promise<number[][]> {
+    return texts.map(() => [1, 0, 0]);
+  }
+}
+
+/**
+ * arXiv stand-in: the cs.CL listing fixture and the API's answer for one paper
+ */
+async function startArxiv() {
+  const host = await startFixtureHost({
+    '/rss/cs.CL': ['application/xml', await readFile(join(__dirname, 'fixtures', 'arxiv-listing.xml'), 'utf8')],
+    '/api/query?id_list=2501.07301': ['application/xml', API_ENTRY],
+  });
+  return { ...host, feedUrl: `${host.base}/rss/cs.CL`, arxiv: new ArxivService(`${host.base}/api/query`) };
+}
+
+describe('arXiv sources', () => {
+  let host: Awaited<ReturnType<typeof startArxiv>>;
+
+  beforeAll(async () => {
+    await new MigrationRunner(getDatabase()).migrate();
+    host = await startArxiv();
+  });
+
+  afterAll(async () => {
+    await host.close();
+    await closeDatabase();
+  });
+
+  it('reads new and cross-listed papers matching the keywords, without revisions', async () => {
+    const listing = await host.arxiv.fetchListing(host.feedUrl);
+    expect(listing.title).toBe('cs.CL updates on arXiv.org');
+    expect(listing.papers.map(paper => paper.arxivId)).toEqual(['2501.07301', '2501.06998', '2501.07012']);
+
+    const papers = await host.arxiv.getPapersSince(host.feedUrl, new Date('2025-01-13T00:00:00Z'), ['agent', 'reasoning']);
+    expect(papers.map(paper => paper.arxivId)).toEqual(['2501.07301', '2501.06998']);
+
+    const [toolweaver, calibration] = papers;
+    expect(toolweaver).toEqual({
+      id: 'arxiv_2501.07301',
+      arxivId: '2501.07301',
+      title: 'ToolWeaver: Planning Parallel Tool Calls for Language Model Agents',
+      abstract: TOOLWEAVER_ABSTRACT,
+      authors: ['Ingrid Solberg', 'Marcus Chen', 'Priya Raman', 'Tomás Alvarez'],
+      categories: ['cs.CL', 'cs.AI'],
+      publishedAt: '2025-01-14T05:00:00.000Z',
+      url: 'https://arxiv.org/abs/2501.07301',
+      pdfUrl: 'https://arxiv.org/pdf/2501.07301',
+    });
+    expect(calibration!.authors).toEqual(['Lena Fischer', 'Omar Haddad']);
+
+    // Papers at the watermark instant are left for the orchestrator's watermark to settle
+    expect(await host.arxiv.getPapersSince(host.feedUrl, new Date('2025-01-14T05:00:00Z'))).toHaveLength(3);
+    expect(await host.arxiv.getPapersSince(host.feedUrl, new Date('2025-01-14T05:00:01Z'))).toEqual([]);
+    expect(arxivListingUrl('cs.CL+cs.AI')).toBe('https://rss.arxiv.org/rss/cs.CL+cs.AI');
+    expect(arxivChannelId('cs.CL', ['agent'])).toBe(arxivChannelId('https://rss.arxiv.org/rss/cs.CL', ['agent']));
+    expect(arxivChannelId('cs.CL', ['agent'])).not.toBe(arxivChannelId('cs.CL'));
+  });
+
+  it('maps an abstract to a research item with authors and the PDF link', () => {
+    const [paper] = parseArxivFeed(API_ENTRY).papers;
+    expect(paper).toMatchObject({ arxivId: '2501.07301', abstract: TOOLWEAVER_ABSTRACT, publishedAt: '2025-01-13T17:42:10.000Z' });
+
+    const item = paperToResearchItem(paper!);
+    expect(item).toEqual({
+      title: 'ToolWeaver: Planning Parallel Tool Calls for Language Model Agents',
+      summary: 'Language model agents call tools one at a time, which makes long tasks slow and expensive. '
+        + 'We present ToolWeaver, a planner that builds a dependency graph of tool calls and runs independent calls in parallel.',
+      entities: ['Ingrid Solberg', 'Marcus Chen', 'Priya Raman', 'Tomás Alvarez'],
+      type: 'research',
+      confidence: 'high',
+      rawContext: expect.stringMatching(/^Language model agents/),
+      relevance_score: 5,
+      paper: { arxivId: '2501.07301', pdfUrl: 'https://arxiv.org/pdf/2501.07301' },
+    });
+  });
+
+  it('stores papers as research items and links them to the items discussing them', async () => {
+    const db = getDatabase();
+    const channelId = arxivChannelId(host.feedUrl, ['agent']);
+    const sourceId = await db.insert(`
+      INSERT INTO sources (name, type, kind, channel_url, channel_id, keywords, weight, active)
+      VALUES ('arXiv cs.CL', 'news', 'arxiv', ?, ?, 'agent', 1.0, TRUE)
+    `, [host.feedUrl, channelId]);
+
+    const authors = ['Ingrid Solberg', 'Marcus Chen', 'Priya Raman', 'Tomás Alvarez'];
+    const title = 'ToolWeaver: Planning Parallel Tool Calls for Language Model Agents';
+    await db.run(`
+      INSERT INTO videos (video_id, source_id, title, duration_seconds, published_at, url, authors)
+      VALUES ('arxiv_2501.07301', ?, ?, 0, '2025-01-14T05:00:00.000Z', 'https://arxiv.org/abs/2501.07301', ?)
+    `, [sourceId, title, JSON.stringify(authors)]);
+
+    // Resumed runs don't carry the abstract - the tier reads it from the API
+    const transcript = await new TranscriptProcessor('sk-test', 180, undefined, undefined, undefined, undefined, undefined, host.arxiv)
+      .processVideoTranscript({
+        id: 'arxiv_2501.07301',
+        title,
+        publishedAt: new Date('2025-01-14T05:00:00.000Z'),
+        duration: 0,
+        channelId,
+        url: 'https://arxiv.org/abs/2501.07301',
+        hasCaptions: true,
+        paper: { arxivId: '2501.07301', authors },
+      });
+    expect(transcript).toMatchObject({ source: 'arxiv-abstract', text: TOOLWEAVER_ABSTRACT });
+    expect(host.requests).toContain('/api/query?id_list=2501.07301');
+
+    const result = await new ItemProcessor('sk-test').processVideo({
+      id: 'arxiv_2501.07301',
+      title,
+      sourceId,
+      channelId,
+      channelName: 'arXiv cs.CL',
+      duration: 0,
+      publishedAt: new Date('2025-01-14T05:00:00.000Z'),
+      url: 'https://arxiv.org/abs/2501.07301',
+      authors,
+    }, transcript!);
+
+    expect(result.estimatedCost).toBe(0);
+    const paper = result.newsItems![0]!;
+    expect(paper).toMatchObject({
+      videoId: 'arxiv_2501.07301',
+      sourceUrl: 'https://arxiv.org/abs/2501.07301',
+      type: 'research',
+      entities: authors,
+      paper: { arxivId: '2501.07301', pdfUrl: 'https://arxiv.org/pdf/2501.07301' },
+    });
+
+    const otherPaper: NewsItem = {
+      ...paper,
+      videoId: 'arxiv_2501.06998',
+      sourceUrl: 'https://arxiv.org/abs/2501.06998',
+      title: 'Do Reasoning Models Know When to Stop? Calibrating Test-Time Compute',
+      entities: ['Lena Fischer', 'Omar Haddad'],
+      relevance_score: 6,
+      paper: { arxivId: '2501.06998', pdfUrl: 'https://arxiv.org/pdf/2501.06998' },
+    };
+    const newsItem: NewsItem = {
+      videoId: 'yt_toolweaver',
+      channelId: 'UC_news',
+      sourceUrl: 'https://www.youtube.com/watch?v=yt_toolweaver',
+      title: 'ToolWeaver gjør agenter raskere',
+      summary: 'Ny forskning viser at agenter kan kalle verktøy parallelt og spare 41 prosent tid.',
+      entities: ['ToolWeaver'],
+      type: 'research',
+      confidence: 'medium',
+      rawContext: 'this new paper toolweaver plans the tool calls as a graph',
+      relevance_score: 7,
+    };
+    const debateItem: DebateItem = {
+      videoId: 'yt_agents_debate',
+      channelId: 'UC_debate',
+      sourceUrl: 'https://www.youtube.com/watch?v=yt_agents_debate',
+      topic: 'Hvor mye tenketid trenger agenter?',
+      whatWasDiscussed: 'Panelet diskuterte om resonneringsmodeller bruker for mye tenketid, og om ToolWeaver-tilnærmingen med parallelle kall hjelper.',
+      positions: { pro: [], contra: [] },
+      keyQuotes: [],
+      implications: 'Kortere resonnering kan gjøre agenter billigere å kjøre.',
+      recommendedDeepDive: false,
+      confidence: 'medium',
+      rawContext: 'see arxiv.org/abs/2501.06998v2 on when to stop thinking',
+      relevance_score: 6,
+    };
+
+    // Identical embeddings would merge everything - a paper still stays apart from the news about it
+    const dedup = new DedupProcessor('sk-test', 'localhost', 8000, DEFAULT_DEDUP_CONFIG, {
+      vectorStore: new InMemoryVectorStore(),
+      embeddingService: new IdenticalEmbeddings('sk-test'),
+    });
+    const deduped = await dedup.deduplicateItems([newsItem, paper]);
+    expect(deduped.deduplicatedItems.map(item => item.videoId).sort()).toEqual(['arxiv_2501.07301', 'yt_toolweaver']);
+
+    const paperMentions = findPaperMentions([otherPaper, paper], [otherPaper, paper, newsItem, debateItem]);
+    expect(paperMentions).toEqual({
+      '2501.07301': [
+        { title: 'ToolWeaver gjør agenter raskere', url: newsItem.sourceUrl },
+        { title: 'Hvor mye tenketid trenger agenter?', url: debateItem.sourceUrl },
+      ],
+      '2501.06998': [{ title: 'Hvor mye tenketid trenger agenter?', url: debateItem.sourceUrl }],
+    });
+
+    // The most discussed paper leads the research section; papers stay out of the news section
+    const briefData = {
+      newsItems: [otherPaper, paper, newsItem],
+      debateItems: [debateItem],
+      devItems: [],
+      paperMentions,
+      runId: 'run_arxiv',
+      generatedAt: new Date('2025-01-14T08:30:00Z'),
+      stats: { totalVideos: 4, totalItems: 4, processingTimeMs: 1000, cost: 0 },
+    };
+    const sections = selectBriefSections(briefData);
+    expect(sections.newsItems.map(item => item.videoId)).toEqual(['yt_toolweaver']);
+    expect(sections.researchItems.map(item => item.videoId)).toEqual(['arxiv_2501.07301', 'arxiv_2501.06998']);
+
+    const markdown = new ArchiveService().renderMarkdown(briefData, new Map([[channelId, 'arXiv cs.CL']]));
+    expect(markdown).toContain('## 🔬 Forskning (2)');
+    expect(markdown).toContain('_Ingrid Solberg, Marcus Chen, Priya Raman et al._');
+    expect(markdown).toContain(`**Diskutert i:** [ToolWeaver gjør agenter raskere](${newsItem.sourceUrl}) • [Hvor mye tenketid trenger agenter?](${debateItem.sourceUrl})`);
+    expect(markdown).toContain('📄 arXiv cs.CL • [Sammendrag](https://arxiv.org/abs/2501.07301) • [PDF](https://arxiv.org/pdf/2501.07301)');
+  });
+});
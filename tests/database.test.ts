@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseInterface } from '../src/db/database.js';
+import { MigrationRunner } from '../src/db/migrate.js';
+import { upsertSql } from '../src/db/query.js';
+import { itemsMatchCondition, searchTranscriptSegments } from '../src/db/fulltext.js';
+import { engines } from './helpers/engines.js';
+
+describe.each(engines)('database ($name)', ({ create }) => {
+  let db: DatabaseInterface;
+
+  const insertSource = (name: string, channelId: string) => db.insert(`
+    INSERT INTO sources (name, type, channel_url, channel_id, weight, active)
+    VALUES (?, 'news', ?, ?, 1.0, TRUE)
+  `, [name, `https://www.youtube.com/@${name}`, channelId]);
+
+  beforeEach(async () => {
+    db = await create();
+    await new MigrationRunner(db).migrate();
+  }, 60_000);
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('applies every migration and records it', async () => {
+    const statuses = await new MigrationRunner(db).status();
+
+    expect(statuses.filter(s => s.state === 'pending' || s.state === 'changed')).toEqual([]);
+    expect(statuses.find(s => s.version === 5)?.state).toBe('gap');
+    expect(await new MigrationRunner(db).migrate()).toEqual([]);
+  });
+
+  it('keeps the temporal cluster columns through the cluster key rebuild', async () => {
+    await db.run(`
+      INSERT INTO clusters (canonical_item_id, member_item_ids, also_covered_by, first_reported_at, first_reported_by,
+        story_phase, time_window, source_diversity, cluster_quality_score)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, ['vid1_gpt5', '[]', '[]', '2025-01-14T09:00:00.000Z', 'UC_alpha', 'breaking', '24h', 0.8, 0.9]);
+
+    const [cluster] = await db.query('SELECT canonical_item_id, first_reported_by, story_phase, time_window, source_diversity, cluster_quality_score FROM clusters');
+    expect(cluster).toEqual({
+      canonical_item_id: 'vid1_gpt5', first_reported_by: 'UC_alpha', story_phase: 'breaking', time_window: '24h',
+      source_diversity: 0.8, cluster_quality_score: 0.9
+    });
+  });
+
+  it('returns generated ids from inserts', async () => {
+    const id = await insertSource('alpha', 'UC_alpha');
+
+    expect(id).toBeTruthy();
+    const rows = await db.query('SELECT name FROM sources WHERE id = ?', [id]);
+    expect(rows[0].name).toBe('alpha');
+  });
+
+  it('binds ? placeholders and boolean literals', async () => {
+    await insertSource('alpha', 'UC_alpha');
+    await insertSource('beta', 'UC_beta');
+    await db.run('UPDATE sources SET active = FALSE WHERE CAST(id AS TEXT) = ? OR name = ?', ['missing', 'beta']);
+
+    const rows = await db.query('SELECT name FROM sources WHERE active = TRUE AND type = ? ORDER BY name', ['news']);
+    expect(rows.map(row => row.name)).toEqual(['alpha']);
+  });
+
+  it('ignores duplicate rows with INSERT OR IGNORE', async () => {
+    const sourceId = await insertSource('alpha', 'UC_alpha');
+    const insertVideo = (title: string) => db.run(`
+      INSERT OR IGNORE INTO videos (video_id, source_id, title, published_at, url)
+      VALUES (?, ?, ?, ?, ?)
+    `, ['vid1', sourceId, title, new Date().toISOString(), 'https://www.youtube.com/watch?v=vid1']);
+
+    expect((await insertVideo('first')).changes).toBe(1);
+    expect((await insertVideo('second')).changes).toBe(0);
+
+    const rows = await db.query('SELECT title FROM videos WHERE video_id = ?', ['vid1']);
+    expect(rows).toEqual([{ title: 'first' }]);
+  });
+
+  it('updates existing rows with upsertSql', async () => {
+    const sourceId = await insertSource('alpha', 'UC_alpha');
+    const videoId = await db.insert(`
+      INSERT INTO videos (video_id, source_id, title, published_at, url) VALUES (?, ?, ?, ?, ?)
+    `, ['vid1', sourceId, 'Video', new Date().toISOString(), 'https://www.youtube.com/watch?v=vid1']);
+
+    const sql = upsertSql('transcripts', ['video_id', 'text', 'segments', 'quality_score', 'transcript_source'], ['video_id']);
+    await db.run(sql, [videoId, 'old', '[]', 0.5, 'youtube-auto']);
+    await db.run(sql, [videoId, 'new', '[{"start":0,"end":1,"text":"new"}]', 0.9, 'whisper']);
+
+    const rows = await db.query('SELECT text, segments, quality_score FROM transcripts WHERE video_id = ?', [videoId]);
+    expect(rows).toHaveLength(1);
+    expect(rows[0].text).toBe('new');
+    expect(JSON.parse(rows[0].segments)).toEqual([{ start: 0, end: 1, text: 'new' }]);
+    expect(rows[0].quality_score).toBeCloseTo(0.9);
+  });
+
+  it('accepts text run ids and returns counts as numbers', async () => {
+    await db.run('INSERT INTO runs (id, started_at, status, stats) VALUES (?, ?, ?, ?)',
+      ['run_1700000000000', new Date().toISOString(), 'running', JSON.stringify({ totalCost: 0.25 })]);
+
+    const [run] = await db.query('SELECT stats FROM runs WHERE id = ?', ['run_1700000000000']);
+    expect(JSON.parse(run.stats)).toEqual({ totalCost: 0.25 });
+
+    const [count] = await db.query('SELECT COUNT(*) AS count FROM runs');
+    expect(count.count).toBe(1);
+  });
+
+  it('stores the full item payload with its run', async () => {
+    const sourceId = await insertSource('alpha', 'UC_alpha');
+    await db.run("INSERT INTO runs (id, status) VALUES (?, 'running')", ['run_items']);
+    const videoId = await db.insert(`
+      INSERT INTO videos (source_id, video_id, title, published_at, url)
+      VALUES (?, ?, ?, ?, ?)
+    `, [sourceId, 'vid_1', 'Debate', new Date().toISOString(), 'https://www.youtube.com/watch?v=vid_1']);
+    const item = {
+      topic: 'Open weights', whatWasDiscussed: 'Release policy',
+      positions: { pro: ['Transparency'], contra: ['Misuse'] },
+      keyQuotes: [{ quote: 'Ship it', timestamp: '00:01:02' }],
+      implications: 'Policy shift', rawContext: 'Ship it, they said', qualityScore: 0.82,
+    };
+
+    await db.run(`
+      INSERT INTO items (run_id, video_id, part, type, title, relevance_score, quality_score, item_index, item_data)
+      VALUES (?, ?, 2, 'debate', ?, ?, ?, ?, ?)
+    `, ['run_items', videoId, item.topic, 7, item.qualityScore, 0, JSON.stringify(item)]);
+
+    const [row] = await db.query('SELECT * FROM items WHERE run_id = ?', ['run_items']);
+    expect(JSON.parse(row.item_data)).toEqual(item);
+    expect(row.relevance_score).toBe(7);
+    expect(row.quality_score).toBeCloseTo(0.82);
+  });
+
+  it('keeps the full-text index in sync with items and transcript upserts', async () => {
+    const sourceId = await insertSource('alpha', 'UC_alpha');
+    const videoId = await db.insert(`
+      INSERT INTO videos (source_id, video_id, title, published_at, url) VALUES (?, ?, ?, ?, ?)
+    `, [sourceId, 'vid_1', 'Weekly AI', new Date().toISOString(), 'https://www.youtube.com/watch?v=vid_1']);
+    await db.run(`
+      INSERT INTO items (video_id, part, type, title, summary, entities, item_index, item_data) VALUES (?, 1, 'release', ?, ?, ?, 0, ?)
+    `, [videoId, 'Gemini 2.0 Flash', 'Faster multimodal model', '["Google"]', JSON.stringify({ rawContext: 'a longer context window' })]);
+
+    const findItems = async (terms: string[]) => {
+      const match = itemsMatchCondition(db, terms);
+      const rows = await db.query(`SELECT i.title FROM items i WHERE ${match.sql}`, match.params);
+      return rows.map(row => row.title);
+    };
+    expect(await findItems(['flash', 'google'])).toEqual(['Gemini 2.0 Flash']);
+    expect(await findItems(['context window'])).toEqual(['Gemini 2.0 Flash']);
+    expect(await findItems(['window context'])).toEqual([]);
+
+    const sql = upsertSql('transcripts', ['video_id', 'text', 'segments'], ['video_id']);
+    await db.run(sql, [videoId, 'Old talk about tokenizers', '[{"start":5,"duration":3,"text":"Old talk about tokenizers"}]']);
+    await db.run(sql, [videoId, 'Intro. The context window doubled.', JSON.stringify([
+      { start: 0, end: 4.5, text: 'Intro.' },
+      { start: 83.2, end: 90, text: 'The context window doubled.' },
+    ])]);
+
+    const search = (terms: string[]) => searchTranscriptSegments(db, { terms, limit: 10, highlight: ['[', ']'] });
+    expect(await search(['tokenizers'])).toEqual([]);
+
+    const [hit, ...rest] = await search(['context window']);
+    expect(rest).toEqual([]);
+    expect(hit.youtube_video_id).toBe('vid_1');
+    expect(hit.start_seconds).toBeCloseTo(83.2);
+    expect(hit.end_seconds).toBe(90);
+    // FTS5 marks the phrase as one span, ts_headline word by word
+    expect(hit.snippet).toContain('[context');
+    expect(hit.snippet.replace(/[[\]]/g, '')).toBe('The context window doubled.');
+  });
+
+  it('rolls back a failed transaction', async () => {
+    await expect(db.transaction(async tx => {
+      await tx.run("INSERT INTO runs (id, status) VALUES (?, 'running')", ['run_rollback']);
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    expect(await db.query('SELECT id FROM runs WHERE id = ?', ['run_rollback'])).toEqual([]);
+  });
+});
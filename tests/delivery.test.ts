@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { getDatabase, closeDatabase } from '../src/db/database.js';
+import { MigrationRunner } from '../src/db/migrate.js';
+import { DeliveryService } from '../src/services/delivery.service.js';
+import { SlackService } from '../src/services/slack.service.js';
+import { DevItem } from '../src/types/schemas.js';
+import { briefData, newsItem, devItem } from './helpers/brief.js';
+
+/**
+ * Local HTTP stand-in: /fail answers 500, everything else records the body
+ */
+async function startHttpServer(): Promise<{ server: Server; baseUrl: string; requests: Array<{ path: string; body: any }> }> {
+  const requests: Array<{ path: string; body: any }> = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const path = (req.url || '').split('?')[0]!;
+      requests.push({ path, body: JSON.parse(body) });
+      if (path === '/fail') {
+        res.writeHead(500).end('boom');
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ id: 'msg_1' }));
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests };
+}
+
+const BRIEF_ITEMS = {
+  newsItems: [newsItem({ title: 'Minor tweak', summary: 'Small change', type: 'other', confidence: 'low', relevance_score: 5 })],
+  debateItems: [],
+  devItems: [devItem({ relevance_score: 9 })],
+};
+
+describe('DeliveryService', () => {
+  let http: Awaited<ReturnType<typeof startHttpServer>>;
+  let service: DeliveryService;
+
+  beforeAll(async () => {
+    await new MigrationRunner(getDatabase()).migrate();
+    http = await startHttpServer();
+    service = new DeliveryService([
+      { name: 'ops-teams', kind: 'teams', url: `${http.baseUrl}/fail` },
+      { name: 'dev-hook', kind: 'webhook', url: `${http.baseUrl}/hook`, sections: ['dev'], minConfidence: 'medium', language: 'en' },
+      { name: 'dev-discord', kind: 'discord', url: `${http.baseUrl}/discord` },
+    ], new SlackService('xoxb-test'));
+  });
+
+  afterAll(async () => {
+    service.close();
+    await new Promise<void>(resolve => http.server.close(() => resolve()));
+    await closeDatabase();
+  });
+
+  it('rejects duplicate target names', () => {
+    expect(() => new DeliveryService([
+      { name: 'hook', kind: 'webhook', url: 'http://127.0.0.1/a' },
+      { name: 'hook', kind: 'webhook', url: 'http://127.0.0.1/b' },
+    ], new SlackService('xoxb-test'))).toThrow('Duplicate delivery target name: hook');
+  });
+
+  it('keeps delivering when one target fails, and only retries failures', async () => {
+    await getDatabase().run("INSERT INTO runs (id, status) VALUES (?, 'running')", ['run_delivery']);
+
+    const first = await service.deliverAll(briefData('run_delivery', BRIEF_ITEMS));
+    expect(first.map(result => [result.target, result.success])).toEqual([
+      ['ops-teams', false], ['dev-hook', true], ['dev-discord', true],
+    ]);
+    expect(first[0]!.error).toContain('HTTP 500');
+    expect(first[2]!.deliveryId).toBe('msg_1');
+
+    const second = await service.deliverAll(briefData('run_delivery', BRIEF_ITEMS));
+    expect(second.map(result => [result.target, !!result.skipped])).toEqual([
+      ['ops-teams', false], ['dev-hook', true], ['dev-discord', true],
+    ]);
+    expect(http.requests.map(request => request.path)).toEqual(['/fail', '/hook', '/discord', '/fail']);
+  });
+
+  it('applies per-target sections, filters and language', () => {
+    const hook = http.requests.find(request => request.path === '/hook')!.body;
+
+    expect(hook.language).toBe('en');
+    expect(hook.sections.news).toEqual([]);
+    expect(hook.sections.dev.map((item: DevItem) => item.title)).toEqual(['SDK 2.0']);
+
+    const discord = http.requests.find(request => request.path === '/discord')!.body;
+    expect(discord.embeds.map((embed: any) => embed.title)).toEqual(['📰 Siste nytt (1)', '🛠️ For utviklere (1)']);
+  });
+});
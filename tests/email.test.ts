@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { AddressInfo } from 'node:net';
+import { SMTPServer } from 'smtp-server';
+import { getDatabase, closeDatabase } from '../src/db/database.js';
+import { MigrationRunner } from '../src/db/migrate.js';
+import { EmailService } from '../src/services/email.service.js';
+import { briefData, newsItem, debateItem, devItem } from './helpers/brief.js';
+
+interface ReceivedMessage {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+/**
+ * Local SMTP stand-in that keeps every accepted message
+ */
+async function startSmtpServer(): Promise<{ server: SMTPServer; port: number; messages: ReceivedMessage[] }> {
+  const messages: ReceivedMessage[] = [];
+  const server = new SMTPServer({
+    authOptional: true,
+    disabledCommands: ['STARTTLS'],
+    logger: false,
+    onData(stream, session, callback) {
+      const chunks: Buffer[] = [];
+      stream.on('data', chunk => chunks.push(chunk));
+      stream.on('end', () => {
+        messages.push({
+          from: session.envelope.mailFrom ? session.envelope.mailFrom.address : '',
+          to: session.envelope.rcptTo.map(rcpt => rcpt.address),
+          data: Buffer.concat(chunks).toString('utf8'),
+        });
+        callback();
+      });
+    },
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, port: (server.server.address() as AddressInfo).port, messages };
+}
+
+const BRIEF_ITEMS = {
+  newsItems: [newsItem({ title: 'GPT <5> & friends', entities: ['OpenAI'] })],
+  debateItems: [debateItem({ keyQuotes: [], recommendedDeepDive: true })],
+  devItems: [devItem()],
+  stats: { processingTimeMs: 12_000, cost: 0.0123 },
+};
+
+describe('EmailService', () => {
+  let smtp: Awaited<ReturnType<typeof startSmtpServer>>;
+  let service: EmailService;
+
+  beforeAll(async () => {
+    const db = getDatabase();
+    await new MigrationRunner(db).migrate();
+    await db.run(`
+      INSERT INTO sources (name, type, channel_url, channel_id, weight, active)
+      VALUES ('Alpha News', 'news', 'https://www.youtube.com/@alpha', 'UC_alpha', 1.0, TRUE)
+    `);
+
+    smtp = await startSmtpServer();
+    service = new EmailService({
+      host: '127.0.0.1',
+      port: smtp.port,
+      secure: false,
+      from: 'brief@example.com',
+      to: ['a@example.com', 'b@example.com'],
+    });
+  });
+
+  afterAll(async () => {
+    service.close();
+    await new Promise<void>(resolve => smtp.server.close(() => resolve()));
+    await closeDatabase();
+  });
+
+  it('renders every section as escaped HTML and plain text', async () => {
+    const email = await service.renderBrief(briefData('run_render', BRIEF_ITEMS));
+
+    expect(email.subject).toContain('ARTI AI-brief');
+    expect(email.html).toContain('GPT &lt;5&gt; &amp; friends');
+    expect(email.html).toContain('Alpha News');
+    expect(email.html).toContain('🔍 Deep-dives å vurdere (1)');
+    expect(email.text).toContain('GPT <5> & friends');
+    expect(email.text).toContain('Handling: 🔄 Oppdater • (H)');
+    expect(email.text).not.toContain('<div');
+  });
+
+  it('sends a multipart message once per run', async () => {
+    await getDatabase().run("INSERT INTO runs (id, status) VALUES (?, 'success')", ['run_email']);
+
+    const first = await service.sendBrief(briefData('run_email', BRIEF_ITEMS));
+    const second = await service.sendBrief(briefData('run_email', BRIEF_ITEMS));
+
+    expect(first.success).toBe(true);
+    expect(second).toEqual(first);
+    expect(smtp.messages).toHaveLength(1);
+    expect(smtp.messages[0]!.to).toEqual(['a@example.com', 'b@example.com']);
+    expect(smtp.messages[0]!.data).toContain('multipart/alternative');
+    expect(smtp.messages[0]!.data).toContain('text/html');
+
+    const posts = await getDatabase().query('SELECT channel_id FROM slack_posts WHERE run_id = ?', ['run_email']);
+    expect(posts).toEqual([{ channel_id: 'email:a@example.com,b@example.com' }]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getDatabase, closeDatabase } from '../src/db/database.js';
+import { MigrationRunner } from '../src/db/migrate.js';
+import { ArchiveService } from '../src/services/archive.service.js';
+import { FeedService } from '../src/services/feed.service.js';
+import { SlackBriefData } from '../src/services/slack.service.js';
+import { DevItem } from '../src/types/schemas.js';
+import { briefData, newsItem, devItem } from './helpers/brief.js';
+
+// Deduplicated items carry their dedup key alongside the schema fields
+const news = {
+  ...newsItem({ entities: ['OpenAI'], timestamp: '01:02:03' }),
+  itemId: 'vid_1_model_launch',
+};
+
+const dev = devItem({
+  videoId: 'vid_3', sourceUrl: 'https://www.youtube.com/watch?v=vid_3', affectedTechnologies: ['TypeScript'],
+});
+
+function feedBrief(runId: string, generatedAt: string, devItems: DevItem[] = []): SlackBriefData {
+  return briefData(runId, { newsItems: [news], debateItems: [], devItems, generatedAt: new Date(generatedAt) });
+}
+
+describe('FeedService', () => {
+  let outDir: string;
+
+  beforeAll(async () => {
+    const db = getDatabase();
+    await new MigrationRunner(db).migrate();
+    await db.run(`
+      INSERT INTO sources (name, type, channel_url, channel_id, weight, active)
+      VALUES ('Beta Daily', 'news', 'https://www.youtube.com/@beta', 'UC_beta', 1.0, TRUE)
+    `);
+    await db.run(
+      'INSERT INTO clusters (id, canonical_item_id, member_item_ids, also_covered_by) VALUES (?, ?, ?, ?)',
+      ['cluster_1', 'vid_1_model_launch', '[]', JSON.stringify(['UC_alpha/vid_1', 'UC_beta/vid_2'])]
+    );
+    // The same canonical item delivered on two days
+    for (const [runId, generatedAt] of [['run_1', '2025-01-14T08:00:00Z'], ['run_2', '2025-01-15T08:00:00Z']] as const) {
+      await db.run("INSERT INTO runs (id, status) VALUES (?, 'success')", [runId]);
+      await new ArchiveService().saveBrief(feedBrief(runId, generatedAt));
+    }
+    outDir = await mkdtemp(join(tmpdir(), 'brief-feeds-'));
+  });
+
+  afterAll(async () => {
+    await rm(outDir, { recursive: true, force: true });
+    await closeDatabase();
+  });
+
+  it('writes RSS and Atom feeds per section plus a combined feed', async () => {
+    const pending = feedBrief('run_dry', '2025-01-16T08:00:00Z', [dev]);
+    await new FeedService().writeFeeds(outDir, { baseUrl: 'https://brief.example.com/feeds/' }, pending);
+
+    expect((await readdir(outDir)).sort()).toEqual([
+      'all.atom.xml', 'all.rss.xml', 'debate.atom.xml', 'debate.rss.xml',
+      'dev.atom.xml', 'dev.rss.xml', 'news.atom.xml', 'news.rss.xml',
+    ]);
+
+    const all = await readFile(join(outDir, 'all.rss.xml'), 'utf8');
+    expect(all.match(/<item>/g)).toHaveLength(2);
+    expect(all).toContain('<atom:link href="https://brief.example.com/feeds/all.rss.xml" rel="self"');
+    expect(all).toContain('<category>TypeScript</category>');
+
+    const newsRss = await readFile(join(outDir, 'news.rss.xml'), 'utf8');
+    expect(newsRss).toContain('<title>Model &lt;launch&gt;</title>');
+    expect(newsRss).toContain('<link>https://www.youtube.com/watch?v=vid_1&amp;t=3723s</link>');
+    expect(newsRss).toContain('<category>OpenAI</category>');
+    expect(newsRss).toContain('Beta Daily (https://www.youtube.com/watch?v=vid_2)');
+    expect(newsRss).not.toContain('SDK 2.0');
+
+    const newsAtom = await readFile(join(outDir, 'news.atom.xml'), 'utf8');
+    expect(newsAtom).toContain('<link rel="related" href="https://www.youtube.com/watch?v=vid_2" title="Beta Daily"/>');
+    expect(newsAtom).toContain('<category term="release"/>');
+  });
+
+  it('keeps GUIDs stable across runs', async () => {
+    const entries = await new FeedService().loadEntries();
+    const again = await new FeedService().loadEntries(50, feedBrief('run_dry', '2025-01-16T08:00:00Z'));
+
+    expect(entries).toHaveLength(1);
+    expect(again.map(entry => entry.guid)).toEqual(entries.map(entry => entry.guid));
+    expect(entries[0]!.guid).toMatch(/^urn:sha1:[0-9a-f]{40}$/);
+    // First seen in the newest brief
+    expect(entries[0]!.published.toISOString()).toBe('2025-01-15T08:00:00.000Z');
+  });
+});
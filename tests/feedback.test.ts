@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createHmac } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getDatabase, closeDatabase } from '../src/db/database.js';
+import { MigrationRunner } from '../src/db/migrate.js';
+import { ArchiveService } from '../src/services/archive.service.js';
+import { FeedbackService, feedbackBoost } from '../src/services/feedback.service.js';
+import { SlackServer, verifySlackSignature } from '../src/server/slack.server.js';
+import { briefData, newsItem } from './helpers/brief.js';
+
+const SIGNING_SECRET = 'test-signing-secret';
+
+function sign(body: string, timestamp: number = Math.floor(Date.now() / 1000)): Record<string, string> {
+  const signature = `v0=${createHmac('sha256', SIGNING_SECRET).update(`v0:${timestamp}:${body}`).digest('hex')}`;
+  return {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    'X-Slack-Request-Timestamp': String(timestamp),
+    'X-Slack-Signature': signature,
+  };
+}
+
+// Deduplicated items carry their dedup key alongside the schema fields
+const BRIEF_ITEMS = {
+  newsItems: [{
+    ...newsItem({ title: 'Celebrity gossip', summary: 'Not really about AI', entities: ['Hollywood'], type: 'other' }),
+    itemId: 'vid_1_model_launch',
+  }],
+  debateItems: [],
+  devItems: [],
+};
+
+describe('Slack feedback', () => {
+  let server: SlackServer;
+  let baseUrl: string;
+  let body: string;
+
+  beforeAll(async () => {
+    const db = getDatabase();
+    await new MigrationRunner(db).migrate();
+    await db.run(`
+      INSERT INTO sources (name, type, channel_url, channel_id, weight, active)
+      VALUES ('Alpha News', 'news', 'https://www.youtube.com/@alpha', 'UC_alpha', 1.0, TRUE)
+    `);
+    await db.run("INSERT INTO runs (id, status) VALUES (?, 'success')", ['run_feedback']);
+    await new ArchiveService().saveBrief(briefData('run_feedback', BRIEF_ITEMS));
+
+    const payload = await readFile(join(__dirname, 'fixtures', 'slack-block-actions.json'), 'utf8');
+    body = new URLSearchParams({ payload }).toString();
+
+    server = new SlackServer({ signingSecret: SIGNING_SECRET });
+    baseUrl = `http://127.0.0.1:${await server.start(0, '127.0.0.1')}`;
+  });
+
+  afterAll(async () => {
+    await server.close();
+    await closeDatabase();
+  });
+
+  it('verifies signatures and rejects stale or tampered requests', () => {
+    const now = Date.now();
+    const timestamp = String(Math.floor(now / 1000));
+    const headers = sign('payload=x', Number(timestamp));
+
+    expect(verifySlackSignature(SIGNING_SECRET, timestamp, headers['X-Slack-Signature'], 'payload=x', now)).toBe(true);
+    expect(verifySlackSignature(SIGNING_SECRET, timestamp, headers['X-Slack-Signature'], 'payload=y', now)).toBe(false);
+    expect(verifySlackSignature(SIGNING_SECRET, timestamp, headers['X-Slack-Signature'], 'payload=x', now + 10 * 60_000)).toBe(false);
+    expect(verifySlackSignature(SIGNING_SECRET, undefined, undefined, 'payload=x', now)).toBe(false);
+  });
+
+  it('answers 401 to unsigned interaction payloads', async () => {
+    const response = await fetch(`${baseUrl}/slack/interactions`, {
+      method: 'POST',
+      headers: { ...sign(body), 'X-Slack-Signature': 'v0=deadbeef' },
+      body,
+    });
+
+    expect(response.status).toBe(401);
+    expect(await getDatabase().query('SELECT * FROM item_feedback')).toEqual([]);
+  });
+
+  it('stores one vote per item and user, and feeds it into source weights and ranking', async () => {
+    for (let i = 0; i < 2; i++) {
+      const response = await fetch(`${baseUrl}/slack/interactions`, { method: 'POST', headers: sign(body), body });
+      expect(response.status).toBe(200);
+    }
+
+    const rows = await getDatabase().query('SELECT item_key, user_id, feedback, source_channel_id, item_type FROM item_feedback');
+    expect(rows).toEqual([{
+      item_key: 'vid_1_model_launch', user_id: 'U0ADA', feedback: 'not_ai', source_channel_id: 'UC_alpha', item_type: 'other',
+    }]);
+
+    const [source] = await getDatabase().query("SELECT weight, base_weight FROM sources WHERE channel_id = 'UC_alpha'");
+    expect(source.base_weight).toBe(1);
+    expect(source.weight).toBeLessThan(1);
+
+    const signals = await new FeedbackService().getRankingSignals();
+    expect(feedbackBoost({ type: 'other', entities: ['Hollywood'] }, signals)).toBeLessThan(0);
+    expect(feedbackBoost({ type: 'release', entities: ['OpenAI'] }, signals)).toBe(0);
+  });
+
+  it('ignores votes on items outside the stored brief', async () => {
+    const recorded = await new FeedbackService().record({ itemKey: 'vid_9_unknown', runId: 'run_feedback', userId: 'U0ADA', value: 'up' });
+    expect(recorded).toBe(false);
+  });
+});
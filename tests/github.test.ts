@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getDatabase, closeDatabase } from '../src/db/database.js';
+import { MigrationRunner } from '../src/db/migrate.js';
+import {
+  GitHubService, githubChannelId, githubReleaseId, parseRepository, releaseKeys, releaseTitle, releaseToDevItem
+} from '../src/services/github.service.js';
+import { TranscriptProcessor } from '../src/processors/transcript.processor.js';
+import { ItemProcessor } from '../src/processors/item.processor.js';
+import { DedupProcessor } from '../src/processors/dedup.processor.js';
+import { EmbeddingService } from '../src/services/embedding.service.js';
+import { InMemoryVectorStore } from '../src/services/vector-stores/memory-vector-store.js';
+import { DEFAULT_DEDUP_CONFIG } from '../src/config/dedup.config.js';
+import { DevItem } from '../src/types/schemas.js';
+import { startFixtureHost } from './helpers/fixture-host.js';
+
+const REPO = 'acme/agent-kit';
+
+const TAGS = [
+  { name: 'v2.1.0-beta.1', commit: { sha: 'c4' } },
+  { name: 'v2.0.0', commit: { sha: 'c3' } },
+  { name: 'v1.9.2', commit: { sha: 'c2' } },
+  { name: 'v1.9.1', commit: { sha: 'c1' } },
+];
+
+/**
+ * Embeddings that never match, so only the release keys can merge items
+ */
+class UnrelatedEmbeddings extends EmbeddingService {
+  async generateBatchEmbeddings(texts: string[]): Promise<number[][]> {
+    return texts.map((_, i) => texts.map((_, j) => (i === j ? 1 : 0)));
+  }
+}
+
+/**
+ * GitHub API stand-in: the releases fixture, tags, and the commit behind the release-less tag
+ */
+async function startGitHubApi() {
+  const releases = await readFile(join(__dirname, 'fixtures', 'github-releases.json'), 'utf8');
+  const json = (body: unknown): [string, string] => ['application/json', JSON.stringify(body)];
+  const host = await startFixtureHost({
+    [`/repos/${REPO}`]: json({ full_name: REPO, description: 'Agents with tools' }),
+    [`/repos/${REPO}/releases`]: ['application/json', releases],
+    [`/repos/${REPO}/releases/tags/v2.0.0`]: json(JSON.parse(releases)[1]),
+    [`/repos/${REPO}/tags`]: json(TAGS),
+    [`/repos/${REPO}/commits/c2`]: json({ sha: 'c2', commit: { committer: { date: '2025-01-10T16:20:00Z' } } }),
+  });
+  return { ...host, github: new GitHubService(undefined, host.base) };
+}
+
+describe('GitHub release sources', () => {
+  let api: Awaited<ReturnType<typeof startGitHubApi>>;
+
+  beforeAll(async () => {
+    await new MigrationRunner(getDatabase()).migrate();
+    api = await startGitHubApi();
+  });
+
+  afterAll(async () => {
+    await api.close();
+    await closeDatabase();
+  });
+
+  it('lists published releases and release-less tags, oldest first', async () => {
+    expect(parseRepository('https://github.com/acme/agent-kit.git')).toBe(REPO);
+    expect(parseRepository('acme/agent-kit')).toBe(REPO);
+    expect(() => parseRepository('https://example.com/acme')).toThrow('Not a GitHub repository');
+    expect(await api.github.fetchRepository(`https://github.com/${REPO}/tree/main`)).toEqual({ fullName: REPO, description: 'Agents with tools' });
+
+    // Drafts, prereleases and anything before the cutoff are left out
+    const releases = await api.github.getReleasesSince(`https://github.com/${REPO}`, new Date('2025-01-01T00:00:00Z'));
+    expect(releases.map(release => [release.tag, release.fromTag])).toEqual([['v1.9.1', false], ['v1.9.2', true], ['v2.0.0', false]]);
+
+    const [patch, tagOnly, major] = releases;
+    expect(tagOnly).toMatchObject({ id: githubReleaseId(REPO, 'v1.9.2'), body: '', publishedAt: '2025-01-10T16:20:00.000Z' });
+    expect(major).toMatchObject({ url: `https://github.com/${REPO}/releases/tag/v2.0.0`, publishedAt: '2025-01-14T09:00:00.000Z' });
+
+    // Only the tag without a release needs its commit looked up
+    expect(api.requests.filter(url => url.includes('/commits/'))).toEqual([`/repos/${REPO}/commits/c2`]);
+
+    expect(releaseTitle(major!)).toBe('agent-kit v2.0.0 – Streaming tools');
+    expect(releaseTitle(patch!)).toBe('agent-kit v1.9.1');
+    expect(githubChannelId(REPO)).toBe('github_acme_agent-kit');
+  });
+
+  it('maps release notes to a dev item without the LLM', () => {
+    const item = releaseToDevItem({
+      title: 'agent-kit v1.9.1',
+      url: `https://github.com/${REPO}/releases/tag/v1.9.1`,
+      notes: ['Bug fixes', 'Retry on HTTP 529 overloaded responses'],
+    });
+
+    expect(item).toMatchObject({
+      changeType: 'release',
+      developerAction: 'update',
+      whatChanged: 'Retry on HTTP 529 overloaded responses',
+      links: [`https://github.com/${REPO}/releases/tag/v1.9.1`],
+      affectedTechnologies: ['agent-kit'],
+      relevance_score: 3,
+      confidence: 'high',
+    });
+
+    // A tag pushed without a release still announces the version
+    const tag = releaseToDevItem({ title: 'agent-kit v1.9.2', url: `https://github.com/${REPO}/releases/tag/v1.9.2`, notes: [`${REPO} v1.9.2`] });
+    expect(tag).toMatchObject({ whatChanged: `Ny versjon v1.9.2 av ${REPO}`, confidence: 'medium', rawContext: 'agent-kit v1.9.2' });
+  });
+
+  it('turns a release into a stored dev item and merges the YouTube item about it', async () => {
+    const db = getDatabase();
+    const channelId = githubChannelId(REPO);
+    const sourceId = await db.insert(`
+      INSERT INTO sources (name, type, kind, channel_url, channel_id, weight, active)
+      VALUES ('Agent Kit', 'dev', 'github', ?, ?, 1.0, TRUE)
+    `, [`https://github.com/${REPO}`, channelId]);
+
+    const releases = await api.github.getReleasesSince(REPO, new Date('2025-01-12T00:00:00Z'));
+    const release = releases[0]!;
+    await db.run(`
+      INSERT INTO videos (video_id, source_id, title, duration_seconds, published_at, url)
+      VALUES (?, ?, ?, 0, ?, ?)
+    `, [release.id, sourceId, releaseTitle(release), release.publishedAt, release.url]);
+
+    // Resumed runs don't carry the notes - the tier reads them from the API
+    const transcript = await new TranscriptProcessor('sk-test', 180, undefined, undefined, undefined, undefined, api.github)
+      .processVideoTranscript({
+        id: release.id,
+        title: releaseTitle(release),
+        publishedAt: new Date(release.publishedAt),
+        duration: 0,
+        channelId,
+        url: release.url,
+        hasCaptions: true,
+        release: { url: release.url },
+      });
+    expect(transcript!.source).toBe('github-release');
+    expect(api.requests).toContain(`/repos/${REPO}/releases/tags/v2.0.0`);
+
+    const result = await new ItemProcessor('sk-test').processVideo({
+      id: release.id,
+      title: releaseTitle(release),
+      sourceId,
+      channelId,
+      channelName: 'Agent Kit',
+      duration: 0,
+      publishedAt: new Date(release.publishedAt),
+      url: release.url,
+    }, transcript!);
+
+    expect(result.estimatedCost).toBe(0);
+    expect(result.devItems).toHaveLength(1);
+    const releaseItem = result.devItems![0]!;
+    expect(releaseItem).toMatchObject({
+      videoId: release.id,
+      channelId,
+      sourceUrl: release.url,
+      title: 'agent-kit v2.0.0 – Streaming tools',
+      changeType: 'breaking',
+      developerAction: 'migrate',
+      whatChanged: 'Agent.run() now returns an async iterator instead of a promise; Stream tool calls as they are generated; '
+        + 'Add parallel tool use to the OpenAI and Anthropic adapters; See the migration guide (https://agent-kit.dev/docs/migrate-v2) '
+        + 'for upgrade steps; npm install agent-kit@2',
+      links: [
+        release.url,
+        'https://agent-kit.dev/docs/migrate-v2',
+        `https://github.com/${REPO}/compare/v1.9.1...v2.0.0`,
+        `https://github.com/${REPO}/pull/812`,
+        `https://github.com/${REPO}/pull/799`,
+      ],
+      relevance_score: 8,
+    });
+
+    const [stored] = await db.query('SELECT COUNT(*) AS count FROM items i JOIN videos v ON i.video_id = v.id WHERE v.video_id = ?', [release.id]);
+    expect(Number(stored.count)).toBe(1);
+
+    const youtubeItem: DevItem = {
+      videoId: 'yt_agentkit2',
+      channelId: 'UC_devchannel',
+      sourceUrl: 'https://www.youtube.com/watch?v=yt_agentkit2',
+      title: 'Agent Kit 2.0 strømmer verktøykall',
+      whatChanged: 'Agent Kit 2.0 strømmer verktøykall mens de genereres og støtter parallelle verktøy',
+      changeType: 'release',
+      developerAction: 'try',
+      links: [],
+      affectedTechnologies: ['Agent Kit'],
+      confidence: 'medium',
+      rawContext: 'agent kit two point oh streams the tool calls',
+      relevance_score: 7,
+    };
+    const olderVersion: DevItem = { ...youtubeItem, videoId: 'yt_agentkit19', title: 'Agent Kit 1.9 får retries', whatChanged: 'Agent Kit 1.9 prøver på nytt ved overbelastning' };
+    expect(releaseKeys(releaseItem)).toEqual(['agentkit@2.0']);
+    expect(releaseKeys(youtubeItem)).toEqual(['agentkit@2.0']);
+
+    const dedup = new DedupProcessor('sk-test', 'localhost', 8000, DEFAULT_DEDUP_CONFIG, {
+      vectorStore: new InMemoryVectorStore(),
+      embeddingService: new UnrelatedEmbeddings('sk-test'),
+    });
+    const deduped = await dedup.deduplicateItems([youtubeItem, releaseItem, olderVersion]);
+
+    expect(deduped.clusters).toHaveLength(2);
+    expect(deduped.deduplicatedItems.map(item => item.videoId)).toEqual([release.id, 'yt_agentkit19']);
+    expect(deduped.clusters[0]!.also_covered_by).toEqual(['UC_devchannel/yt_agentkit2', `${channelId}/${release.id}`]);
+  });
+});
@@ -0,0 +1,65 @@
+import { SlackBriefData } from '../../src/services/slack.service.js';
+import { NewsItem, DebateItem, DevItem } from '../../src/types/schemas.js';
+
+/**
+ * Schema fields every brief item needs, from one video on the Alpha channel
+ */
+export const ITEM_BASE = {
+  videoId: 'vid_1',
+  channelId: 'UC_alpha',
+  sourceUrl: 'https://www.youtube.com/watch?v=vid_1',
+  confidence: 'high' as const,
+  rawContext: 'context',
+  relevance_score: 8,
+};
+
+export function newsItem(fields: Partial<NewsItem> = {}): NewsItem {
+  return { ...ITEM_BASE, title: 'Model <launch>', summary: 'New model released', entities: [], type: 'release', ...fields };
+}
+
+export function debateItem(fields: Partial<DebateItem> = {}): DebateItem {
+  return {
+    ...ITEM_BASE, topic: 'Open weights', whatWasDiscussed: 'Release policy',
+    positions: { pro: ['Transparency'], contra: ['Misuse'] },
+    keyQuotes: [{ quote: 'We should ship it openly', speaker: 'Ada', timestamp: '12:30' }],
+    implications: 'Policy shift', recommendedDeepDive: false,
+    ...fields,
+  };
+}
+
+export function devItem(fields: Partial<DevItem> = {}): DevItem {
+  return {
+    ...ITEM_BASE, title: 'SDK 2.0', changeType: 'release', whatChanged: 'Streaming API',
+    developerAction: 'update', links: [], affectedTechnologies: [],
+    ...fields,
+  };
+}
+
+/**
+ * Brief for a run: one item per section unless given, stats counting the items
+ */
+export function briefData(
+  runId: string,
+  fields: Partial<Omit<SlackBriefData, 'runId' | 'stats'>> & { stats?: Partial<SlackBriefData['stats']> } = {}
+): SlackBriefData {
+  const { stats, ...rest } = fields;
+  const brief = {
+    newsItems: [newsItem()],
+    debateItems: [debateItem()],
+    devItems: [devItem()],
+    generatedAt: new Date('2025-01-15T08:00:00Z'),
+    ...rest,
+    runId,
+  };
+
+  return {
+    ...brief,
+    stats: {
+      totalVideos: 1,
+      totalItems: brief.newsItems.length + brief.debateItems.length + brief.devItems.length,
+      processingTimeMs: 1_000,
+      cost: 0.01,
+      ...stats,
+    },
+  };
+}
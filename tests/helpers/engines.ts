@@ -0,0 +1,44 @@
+import { PGlite } from '@electric-sql/pglite';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+import { vector } from '@electric-sql/pglite-pgvector';
+import type { Pool } from 'pg';
+import { DatabaseInterface, SQLiteDatabase, PostgreSQLDatabase, PG_TYPE_PARSERS } from '../../src/db/database.js';
+
+/**
+ * Expose PGlite (in-process Postgres) through the subset of pg.Pool the adapter uses
+ */
+function pgliteAsPool(pg: PGlite): Pool {
+  const query = async (sql: string, params: any[] = []) => {
+    // Multi-statement scripts (migrations) need the simple query protocol
+    if (params.length === 0) {
+      const results = await pg.exec(sql);
+      const last = results[results.length - 1];
+      return { rows: last?.rows ?? [], rowCount: last?.affectedRows ?? 0 };
+    }
+    const result = await pg.query(sql, params);
+    return { rows: result.rows, rowCount: result.affectedRows ?? 0 };
+  };
+
+  return {
+    query,
+    connect: async () => ({ query, release: () => {} }),
+    end: () => pg.close(),
+  } as unknown as Pool;
+}
+
+/**
+ * Fresh empty database per engine, for describe.each
+ */
+export const engines: Array<{ name: string; create: () => Promise<DatabaseInterface> }> = [
+  {
+    name: 'sqlite',
+    create: async () => new SQLiteDatabase(':memory:'),
+  },
+  {
+    name: 'postgres',
+    create: async () => {
+      const pg = await PGlite.create({ extensions: { uuid_ossp, vector }, parsers: PG_TYPE_PARSERS });
+      return new PostgreSQLDatabase({}, pgliteAsPool(pg));
+    },
+  },
+];
@@ -0,0 +1,39 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+/**
+ * Responses by request URL (exact, or path without the query string): content type and body.
+ * {{BASE}} in a body becomes the host's own base URL, so fixtures can link back to it.
+ */
+export type FixtureRoutes = Record<string, [contentType: string, body: string]>;
+
+export interface FixtureHost {
+  server: Server;
+  requests: string[]; // Request URLs in arrival order
+  base: string;       // http://127.0.0.1:<port>
+  close(): Promise<void>;
+}
+
+/**
+ * Local HTTP stand-in serving fixtures, 404 for everything else
+ */
+export async function startFixtureHost(routes: FixtureRoutes): Promise<FixtureHost> {
+  const requests: string[] = [];
+  const server = createServer((req, res) => {
+    const url = req.url || '';
+    requests.push(url);
+    const route = routes[url] || routes[url.split('?')[0]!];
+    res.writeHead(route ? 200 : 404, { 'Content-Type': route?.[0] || 'text/plain' });
+    res.end(route ? route[1].replaceAll('{{BASE}}', base) : 'not found');
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    server,
+    requests,
+    base,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { getDatabase, closeDatabase } from '../src/db/database.js';
+import { MigrationRunner } from '../src/db/migrate.js';
+import { ItemProcessor } from '../src/processors/item.processor.js';
+import { DebateItem, DevItem, VideoParsingResult } from '../src/types/schemas.js';
+
+const DEBATE_ITEMS: DebateItem[] = [
+  {
+    videoId: 'vid_debate', channelId: 'UC_debate', sourceUrl: 'https://www.youtube.com/watch?v=vid_debate',
+    timestamp: '00:01:02', confidence: 'high', rawContext: 'Ship it, they said - the weights are the documentation',
+    qualityScore: 0.82, relevance_score: 7,
+    topic: 'Open weights', whatWasDiscussed: 'Whether labs should publish model weights for frontier models',
+    positions: { pro: ['Transparency'], contra: ['Misuse'], neutral: ['Depends on capability'] },
+    keyQuotes: [{ quote: 'Ship it, the weights are the documentation', speaker: 'Host', timestamp: '00:01:02', context: 'Opening' }],
+    implications: 'Release policy may shift toward staged access',
+    recommendedDeepDive: true, controversyLevel: 'high',
+  },
+  {
+    videoId: 'vid_debate', channelId: 'UC_debate', sourceUrl: 'https://www.youtube.com/watch?v=vid_debate',
+    confidence: 'medium', rawContext: 'Benchmarks saturate within a year of release',
+    relevance_score: 5,
+    topic: 'Benchmark saturation', whatWasDiscussed: 'Benchmarks stop separating models within a year of release',
+    positions: { pro: ['Private evals'], contra: [] },
+    keyQuotes: [],
+    implications: 'Leaderboards say less than they used to',
+    recommendedDeepDive: false,
+  },
+];
+
+const DEV_ITEMS: DevItem[] = [
+  {
+    videoId: 'vid_dev', channelId: 'UC_dev', sourceUrl: 'https://www.youtube.com/watch?v=vid_dev',
+    timestamp: '00:10:00', confidence: 'high', rawContext: 'The SDK now streams tool calls',
+    qualityScore: 0.9, relevance_score: 8,
+    title: 'SDK streams tool calls', changeType: 'api', whatChanged: 'Tool calls arrive as stream events',
+    developerAction: 'update', codeExample: 'for await (const event of stream) {}',
+    links: ['https://example.com/changelog'], affectedTechnologies: ['TypeScript'],
+    difficulty: 'intermediate', estimatedTimeToImplement: '2 hours',
+  },
+];
+
+function parsingResult(videoId: string, sourceType: 'debate' | 'dev', items: Pick<VideoParsingResult, 'debateItems' | 'devItems'>): VideoParsingResult {
+  const totalItems = (items.debateItems?.length ?? 0) + (items.devItems?.length ?? 0);
+  return { videoId, sourceType, totalItems, processingTimeMs: 0, ...items };
+}
+
+describe('item processor storage', () => {
+  beforeAll(async () => {
+    const db = getDatabase();
+    await new MigrationRunner(db).migrate();
+    await db.run("INSERT INTO runs (id, status) VALUES (?, 'running')", ['run_items']);
+
+    for (const [name, type] of [['debate', 'debate'], ['dev', 'dev']]) {
+      const sourceId = await db.insert(`
+        INSERT INTO sources (name, type, channel_url, channel_id, weight, active)
+        VALUES (?, ?, ?, ?, 1.0, TRUE)
+      `, [name, type, `https://www.youtube.com/@${name}`, `UC_${name}`]);
+      await db.run(`
+        INSERT INTO videos (source_id, video_id, title, published_at, url) VALUES (?, ?, ?, ?, ?)
+      `, [sourceId, `vid_${name}`, name, '2025-01-15T08:00:00Z', `https://www.youtube.com/watch?v=vid_${name}`]);
+    }
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  it('reads saved items back unchanged, with their run and order', async () => {
+    const processor = new ItemProcessor('sk-test');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await processor['saveItems'](parsingResult('vid_debate', 'debate', { debateItems: DEBATE_ITEMS }), 'vid_debate', 'run_items');
+    await processor['saveItems'](parsingResult('vid_dev', 'dev', { devItems: DEV_ITEMS }), 'vid_dev', 'run_items');
+
+    expect(await processor['getExistingItems']('vid_debate')).toEqual(
+      parsingResult('vid_debate', 'debate', { debateItems: DEBATE_ITEMS })
+    );
+    expect(await processor['getExistingItems']('vid_dev')).toEqual(
+      parsingResult('vid_dev', 'dev', { devItems: DEV_ITEMS })
+    );
+    expect(await processor['getExistingItems']('vid_missing')).toBeNull();
+
+    const rows = await getDatabase().query(`
+      SELECT v.video_id, i.run_id, i.item_index, i.part, i.title
+      FROM items i JOIN videos v ON i.video_id = v.id
+      ORDER BY v.video_id, i.item_index
+    `);
+    expect(rows).toEqual([
+      { video_id: 'vid_debate', run_id: 'run_items', item_index: 0, part: 2, title: 'Open weights' },
+      { video_id: 'vid_debate', run_id: 'run_items', item_index: 1, part: 2, title: 'Benchmark saturation' },
+      { video_id: 'vid_dev', run_id: 'run_items', item_index: 0, part: 3, title: 'SDK streams tool calls' },
+    ]);
+  });
+
+  it('records a failed extraction in the metrics', async () => {
+    const processor = new ItemProcessor('sk-test');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(processor['llmService'], 'parseTranscript').mockRejectedValue(new Error('Model overloaded'));
+    const [source] = await getDatabase().query("SELECT id FROM sources WHERE channel_id = 'UC_debate'");
+
+    await expect(processor.processVideo({
+      id: 'vid_overloaded', title: 'Overloaded', sourceId: source.id, channelId: 'UC_debate', channelName: 'debate',
+      duration: 600, publishedAt: new Date('2025-01-15T08:00:00Z'), url: 'https://www.youtube.com/watch?v=vid_overloaded',
+    }, {
+      videoId: 'vid_overloaded', text: 'Ship it.', segments: [], language: 'en', source: 'youtube-manual', qualityScore: 0.8, duration: 600,
+    }, { runId: 'run_items' })).rejects.toThrow('Model overloaded');
+
+    expect(processor['metricsService']['sessionMetrics'].size).toBe(0);
+    const rows = await getDatabase().query('SELECT run_id, status, validation_failures, validation_errors FROM llm_extraction_metrics WHERE video_id = ?', ['vid_overloaded']);
+    expect(rows).toEqual([{ run_id: 'run_items', status: 'failed', validation_failures: 1, validation_errors: '["Model overloaded"]' }]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getDatabase, closeDatabase } from '../src/db/database.js';
+import { MigrationRunner } from '../src/db/migrate.js';
+import { OrchestratorService, isAfterWatermark } from '../src/services/orchestrator.service.js';
+import { writtenEntryId } from '../src/services/written-source.service.js';
+import { startFixtureHost, FixtureHost } from './helpers/fixture-host.js';
+
+/**
+ * One early post, then four published at the same instant - more than one run's cap
+ */
+const FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Acme AI Blog</title>
+    <link>{{BASE}}/blog</link>
+    ${['post-1', 'post-2', 'post-3', 'post-4', 'post-5'].map((guid, index) => `<item>
+      <title>Post ${guid}</title>
+      <link>{{BASE}}/blog/${guid}</link>
+      <guid>${guid}</guid>
+      <pubDate>${index === 0 ? 'Mon, 13 Jan 2025 09:00:00 GMT' : 'Tue, 14 Jan 2025 09:00:00 GMT'}</pubDate>
+      <description>Post ${guid} body.</description>
+    </item>`).join('\n    ')}
+  </channel>
+</rss>`;
+
+function orchestrator(dryRun = false): OrchestratorService {
+  return new OrchestratorService({
+    youtubeApiKey: 'yt-test', openaiApiKey: 'sk-test', slackBotToken: 'xoxb-test', slackChannelId: 'C_test',
+    maxVideosPerSource: 2, lookbackHours: 24 * 365 * 100, maxBackfillHours: 24 * 365 * 100, dryRun,
+  });
+}
+
+describe('source watermarks', () => {
+  let host: FixtureHost;
+  let feedUrl: string;
+  let sourceId: string;
+
+  const fetchIds = async (service: OrchestratorService, runId: string) => {
+    await getDatabase().run("INSERT INTO runs (id, status) VALUES (?, 'running')", [runId]);
+    const { newVideos } = await service['fetchNewVideos'](runId);
+    await service['updateSourceWatermarks'](runId);
+    return newVideos.map(video => video.id);
+  };
+
+  const watermark = async () => (await getDatabase().query(
+    'SELECT last_published_at, last_video_id FROM source_watermarks WHERE source_id = ?', [sourceId]
+  ))[0];
+
+  beforeAll(async () => {
+    const db = getDatabase();
+    await new MigrationRunner(db).migrate();
+    host = await startFixtureHost({
+      '/feed.xml': ['application/rss+xml', FEED],
+      '/rss/cs.CL': ['application/xml', await readFile(join(__dirname, 'fixtures', 'arxiv-listing.xml'), 'utf8')],
+    });
+    feedUrl = `${host.base}/feed.xml`;
+    sourceId = await db.insert(`
+      INSERT INTO sources (name, type, kind, channel_url, channel_id, weight, active)
+      VALUES ('Acme AI Blog', 'news', 'written', ?, 'written_acme', 1.0, TRUE)
+    `, [feedUrl]);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    await host.close();
+    await closeDatabase();
+  });
+
+  it('orders ties by video id', () => {
+    const since = new Date('2025-01-14T09:00:00Z');
+    const at = (id: string, publishedAt = '2025-01-14T09:00:00Z') => ({ id, publishedAt });
+
+    expect(isAfterWatermark(at('b'), { since, videoId: 'b' })).toBe(false);
+    expect(isAfterWatermark(at('a'), { since, videoId: 'b' })).toBe(false);
+    expect(isAfterWatermark(at('c'), { since, videoId: 'b' })).toBe(true);
+    expect(isAfterWatermark(at('a'), { since })).toBe(true);
+    expect(isAfterWatermark(at('a', '2025-01-14T08:59:59Z'), { since })).toBe(false);
+  });
+
+  it('picks up same-instant posts cut off by the per-run cap on the next run', async () => {
+    const sameInstant = ['post-2', 'post-3', 'post-4', 'post-5'].map(guid => writtenEntryId(feedUrl, guid)).sort();
+
+    // Dry runs fetch but leave the watermark alone
+    expect(await fetchIds(orchestrator(true), 'run_dry')).toEqual([writtenEntryId(feedUrl, 'post-1'), sameInstant[0]]);
+    expect(await watermark()).toBeUndefined();
+    await getDatabase().run('DELETE FROM videos');
+
+    expect(await fetchIds(orchestrator(), 'run_1')).toEqual([writtenEntryId(feedUrl, 'post-1'), sameInstant[0]]);
+    expect(await watermark()).toMatchObject({ last_video_id: sameInstant[0] });
+    expect(new Date((await watermark()).last_published_at).toISOString()).toBe('2025-01-14T09:00:00.000Z');
+
+    expect(await fetchIds(orchestrator(), 'run_2')).toEqual(sameInstant.slice(1, 3));
+    expect(await fetchIds(orchestrator(), 'run_3')).toEqual(sameInstant.slice(3));
+    expect(await fetchIds(orchestrator(), 'run_4')).toEqual([]);
+    expect(await watermark()).toMatchObject({ last_video_id: sameInstant[3] });
+  });
+
+  it('takes a whole arXiv listing in one run, past the per-run cap', async () => {
+    await getDatabase().run(`
+      INSERT INTO sources (name, type, kind, channel_url, channel_id, weight, active)
+      VALUES ('arXiv cs.CL', 'news', 'arxiv', ?, 'arxiv_cs_cl', 1.0, TRUE)
+    `, [`${host.base}/rss/cs.CL`]);
+
+    // All three papers share the listing's announcement time - the next listing won't carry them
+    expect(await fetchIds(orchestrator(), 'run_arxiv')).toEqual(['arxiv_2501.06998', 'arxiv_2501.07012', 'arxiv_2501.07301']);
+  });
+
+  it('stops picking up unfinished videos that failed too many runs', async () => {
+    const service = orchestrator();
+    const unfinished = async (runId?: string) => (await service['getUnfinishedVideos'](runId)).map(video => video.id);
+    const failing = writtenEntryId(feedUrl, 'post-1');
+    expect(await unfinished()).toContain(failing);
+
+    // Two failed runs still leave it for the next run, the third gives up on it
+    await service['recordFailedAttempts']([failing]);
+    await service['recordFailedAttempts']([failing]);
+    expect(await unfinished()).toContain(failing);
+    await service['recordFailedAttempts']([failing]);
+    expect(await unfinished()).not.toContain(failing);
+    expect(await unfinished()).toContain(writtenEntryId(feedUrl, 'post-2'));
+
+    // Resuming the run it was fetched in still tries it
+    expect(await unfinished('run_1')).toContain(failing);
+  });
+});
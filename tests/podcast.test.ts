@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getDatabase, closeDatabase } from '../src/db/database.js';
+import { MigrationRunner } from '../src/db/migrate.js';
+import { PodcastService, parseTranscript, podcastChannelId, podcastEpisodeId } from '../src/services/podcast.service.js';
+import { TranscriptProcessor } from '../src/processors/transcript.processor.js';
+import { videoTimestampUrl } from '../src/utils/brief-sections.js';
+import { startFixtureHost } from './helpers/fixture-host.js';
+
+const VTT = `WEBVTT
+
+1
+00:00:00.000 --> 00:00:04.500
+<v Host>Welcome back to Latent Talk.
+
+2
+00:02:05.000 --> 00:02:09.250
+<v Guest>Evals are the bottleneck for agents &amp; tools.
+`;
+
+/**
+ * Podcast host stand-in: the feed (with links back to itself) and its transcripts
+ */
+async function startPodcastHost() {
+  const host = await startFixtureHost({
+    '/feed.xml': ['application/rss+xml', await readFile(join(__dirname, 'fixtures', 'podcast-feed.xml'), 'utf8')],
+    '/transcripts/ep42.vtt': ['text/vtt', VTT],
+    '/transcripts/ep42.html': ['text/html', '<p>Welcome back</p>'],
+    '/audio/ep40.mp3': ['audio/mpeg', 'ID3 not really audio'],
+  });
+  return { ...host, feedUrl: `${host.base}/feed.xml` };
+}
+
+describe('podcast sources', () => {
+  let host: Awaited<ReturnType<typeof startPodcastHost>>;
+
+  beforeAll(async () => {
+    await new MigrationRunner(getDatabase()).migrate();
+    host = await startPodcastHost();
+  });
+
+  afterAll(async () => {
+    await host.close();
+    await closeDatabase();
+  });
+
+  it('reads episodes with audio from the feed, oldest first', async () => {
+    const feed = await new PodcastService().fetchFeed(host.feedUrl);
+    expect(feed.title).toBe('Latent Talk');
+    expect(feed.episodes.map(episode => episode.guid)).toEqual(['latent-42', 'latent-41', 'latent-40']);
+
+    const episodes = await new PodcastService().getEpisodesSince(host.feedUrl, new Date('2025-01-01T00:00:00Z'));
+    expect(episodes.map(episode => episode.title)).toEqual(['Scaling laws revisited', "Agents & evals: what's next"]);
+
+    const [older, latest] = episodes;
+    expect(older!.durationSeconds).toBe(2400);
+    expect(older!.media.transcriptUrl).toBeUndefined();
+    expect(latest).toMatchObject({
+      id: podcastEpisodeId(host.feedUrl, 'latent-42'),
+      publishedAt: '2025-01-15T06:00:00.000Z',
+      durationSeconds: 3725,
+      url: `${host.base}/audio/ep42.mp3?source=rss&v=2`,
+      // The timed transcript wins over the HTML one
+      media: { transcriptUrl: `${host.base}/transcripts/ep42.vtt`, transcriptType: 'text/vtt' },
+    });
+
+    // Ids are stable across fetches and distinct per feed
+    expect(podcastEpisodeId(host.feedUrl, 'latent-42')).toBe(latest!.id);
+    expect(podcastEpisodeId(`${host.base}/other.xml`, 'latent-42')).not.toBe(latest!.id);
+    expect(podcastChannelId(host.feedUrl)).toMatch(/^podcast_[0-9a-f]{16}$/);
+  });
+
+  it('parses SRT, Podcasting 2.0 JSON and plain transcripts', () => {
+    const srt = parseTranscript('1\r\n00:01:02,500 --> 00:01:04,000\r\nHello there\r\n\r\n2\r\n00:01:04,000 --> 00:01:06,000\r\nGeneral Kenobi\r\n', 'application/x-subrip');
+    expect(srt.segments).toEqual([
+      { id: 0, start: 62.5, end: 64, text: 'Hello there' },
+      { id: 1, start: 64, end: 66, text: 'General Kenobi' },
+    ]);
+    expect(srt.text).toBe('Hello there General Kenobi');
+
+    const json = parseTranscript(JSON.stringify({
+      version: '1.0.0',
+      segments: [{ speaker: 'Host', startTime: 0.5, endTime: 2, body: 'Hi' }, { startTime: 2, endTime: 3, body: ' ' }],
+    }), 'application/json');
+    expect(json.segments).toEqual([{ id: 0, start: 0.5, end: 2, text: 'Hi' }]);
+
+    expect(parseTranscript('<p>Just &amp; only</p>\n<p>text</p>', 'text/html')).toEqual({ text: 'Just & only text', language: 'unknown' });
+  });
+
+  it("uses the feed's transcript instead of Whisper and keeps its timings", async () => {
+    const db = getDatabase();
+    const channelId = podcastChannelId(host.feedUrl);
+    const sourceId = await db.insert(`
+      INSERT INTO sources (name, type, kind, channel_url, channel_id, weight, active)
+      VALUES ('Latent Talk', 'debate', 'podcast', ?, ?, 1.0, TRUE)
+    `, [host.feedUrl, channelId]);
+
+    const [, episode] = await new PodcastService().getEpisodesSince(host.feedUrl, new Date('2025-01-01T00:00:00Z'));
+    await db.run(`
+      INSERT INTO videos (video_id, source_id, title, duration_seconds, published_at, url, transcript_url, transcript_type)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [episode!.id, sourceId, episode!.title, episode!.durationSeconds, episode!.publishedAt, episode!.url,
+      episode!.media.transcriptUrl, episode!.media.transcriptType]);
+
+    const processor = new TranscriptProcessor('sk-test');
+    const transcript = await processor.processVideoTranscript({
+      id: episode!.id,
+      title: episode!.title,
+      publishedAt: new Date(episode!.publishedAt),
+      duration: episode!.durationSeconds,
+      channelId,
+      url: episode!.url,
+      hasCaptions: true,
+      media: episode!.media,
+    });
+
+    expect(transcript!.source).toBe('podcast-feed');
+    expect(transcript!.segments).toEqual([
+      { start: 0, end: 4.5, text: 'Welcome back to Latent Talk.' },
+      { start: 125, end: 129.25, text: 'Evals are the bottleneck for agents & tools.' },
+    ]);
+    expect(processor.getTierStats().bySource).toEqual({ 'podcast-feed': 1 });
+    expect(host.requests).toContain('/transcripts/ep42.vtt');
+
+    const [stored] = await db.query(`
+      SELECT t.transcript_source, v.transcript_source AS video_source FROM transcripts t JOIN videos v ON t.video_id = v.id WHERE v.video_id = ?
+    `, [episode!.id]);
+    expect(stored).toMatchObject({ transcript_source: 'podcast-feed', video_source: 'podcast-feed' });
+
+    // A resume keeps the stored transcript, however low it scored
+    await db.run(`
+      UPDATE transcripts SET quality_score = 0.2 WHERE video_id = (SELECT id FROM videos WHERE video_id = ?)
+    `, [episode!.id]);
+    const resumed = new TranscriptProcessor('sk-test');
+    const requests = host.requests.length;
+    expect(await resumed.processVideoTranscript({
+      id: episode!.id, title: episode!.title, publishedAt: new Date(episode!.publishedAt),
+      duration: episode!.durationSeconds, channelId, url: episode!.url, hasCaptions: true, media: episode!.media,
+    })).toMatchObject({ source: 'podcast-feed', qualityScore: 0.2 });
+    expect(resumed.getTierStats().bySource).toEqual({ cached: 1 });
+    expect(host.requests).toHaveLength(requests);
+  });
+
+  it('measures episodes without a feed duration before spending Whisper minutes on them', async () => {
+    const db = getDatabase();
+    const channelId = podcastChannelId(host.feedUrl);
+    const episode = (await new PodcastService().fetchFeed(host.feedUrl)).episodes.find(entry => entry.guid === 'latent-40')!;
+    expect(episode.durationSeconds).toBe(0);
+    await db.run(`
+      INSERT INTO videos (video_id, source_id, title, published_at, url)
+      VALUES (?, (SELECT id FROM sources WHERE channel_id = ?), ?, ?, ?)
+    `, [episode.id, channelId, episode.title, episode.publishedAt, episode.url]);
+    const target = {
+      id: episode.id, title: episode.title, publishedAt: new Date(episode.publishedAt),
+      duration: episode.durationSeconds, channelId, url: episode.url, hasCaptions: false, media: episode.media,
+    };
+
+    const transcribe = (maxWhisperMinutes: number) => {
+      const processor = new TranscriptProcessor('sk-test', maxWhisperMinutes);
+      processor.setTiers([{ tier: 'whisper', enabled: true, minQuality: 0 }]);
+      const whisper = processor['whisperService'];
+      vi.spyOn(whisper as never, 'probeDuration').mockReturnValue(1800 as never);
+      const upload = vi.spyOn(whisper as never, 'transcribeAudioFile').mockImplementation((async (_path: string, duration: number) => ({
+        text: 'Scaling laws, revisited once more.', language: 'en', duration, source: 'whisper',
+      })) as never);
+      return { processor, upload, transcript: processor.processVideoTranscript(target) };
+    };
+
+    // 30 minutes of audio doesn't fit a 20 minute budget
+    const tight = transcribe(20);
+    expect(await tight.transcript).toBeNull();
+    expect(tight.upload).not.toHaveBeenCalled();
+
+    const roomy = transcribe(60);
+    expect(await roomy.transcript).toMatchObject({ source: 'whisper', duration: 1800, cost: 0.18 });
+    expect(roomy.processor.getTierStats()).toMatchObject({ bySource: { whisper: 1 }, whisperMinutesUsed: 30 });
+    expect(host.requests.filter(url => url === '/audio/ep40.mp3')).toHaveLength(2);
+  });
+
+  it('links items into the episode audio at their timestamp', () => {
+    const episodeItem = { videoId: 'episode_0123456789abcdef', sourceUrl: 'https://cdn.example.com/ep42.mp3?v=2' };
+    expect(videoTimestampUrl(episodeItem, '00:02:05')).toBe('https://cdn.example.com/ep42.mp3?v=2#t=125');
+    expect(videoTimestampUrl(episodeItem)).toBe('https://cdn.example.com/ep42.mp3?v=2');
+
+    const videoItem = { videoId: 'vid_1', sourceUrl: 'https://www.youtube.com/watch?v=vid_1' };
+    expect(videoTimestampUrl(videoItem, '02:05')).toBe('https://www.youtube.com/watch?v=vid_1&t=125s');
+  });
+});
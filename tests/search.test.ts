@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createHmac } from 'node:crypto';
+import { getDatabase, closeDatabase } from '../src/db/database.js';
+import { MigrationRunner } from '../src/db/migrate.js';
+import { SearchService, parseSearchQuery } from '../src/services/search.service.js';
+import { SlackServer } from '../src/server/slack.server.js';
+
+const SIGNING_SECRET = 'test-signing-secret';
+const NOW = new Date('2025-01-20T12:00:00Z');
+
+function sign(body: string): Record<string, string> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  return {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    'X-Slack-Request-Timestamp': String(timestamp),
+    'X-Slack-Signature': `v0=${createHmac('sha256', SIGNING_SECRET).update(`v0:${timestamp}:${body}`).digest('hex')}`,
+  };
+}
+
+describe('item search', () => {
+  beforeAll(async () => {
+    const db = getDatabase();
+    await new MigrationRunner(db).migrate();
+    const sourceId = await db.insert(`
+      INSERT INTO sources (name, type, channel_url, channel_id, weight, active)
+      VALUES ('Alpha News', 'news', 'https://www.youtube.com/@alpha', 'UC_alpha', 1.0, TRUE)
+    `);
+
+    const videoIds: Record<string, string> = {};
+    const videos: Array<[string, string, number, object]> = [
+      ['vid_old', '2024-11-01T08:00:00Z', 1, {
+        title: 'Gemini 1.5 released', summary: 'Google ships a long-context model', entities: ['Google', 'Gemini'],
+        type: 'release', relevance_score: 9, timestamp: '00:05:00',
+      }],
+      ['vid_new', '2025-01-15T08:00:00Z', 1, {
+        title: 'Gemini 2.0 Flash', summary: 'Google updates its fast model', entities: ['Google', 'Gemini'],
+        type: 'release', relevance_score: 8, timestamp: '00:01:30',
+      }],
+      ['vid_mention', '2025-01-16T08:00:00Z', 1, {
+        title: 'OpenAI pricing cut', summary: 'Cheaper than Gemini now', entities: ['OpenAI'],
+        type: 'business', relevance_score: 7,
+      }],
+      ['vid_dev', '2025-01-17T08:00:00Z', 3, {
+        title: 'Gemini API adds streaming', whatChanged: 'Streaming responses in the SDK', changeType: 'api',
+        developerAction: 'update', links: [], affectedTechnologies: ['Gemini'], relevance_score: 8,
+      }],
+    ];
+
+    for (const [videoId, publishedAt, part, item] of videos) {
+      const id = videoIds[videoId] = await db.insert(`
+        INSERT INTO videos (source_id, video_id, title, published_at, url) VALUES (?, ?, ?, ?, ?)
+      `, [sourceId, videoId, videoId, publishedAt, `https://www.youtube.com/watch?v=${videoId}`]);
+      const fullItem = {
+        videoId, channelId: 'UC_alpha', sourceUrl: `https://www.youtube.com/watch?v=${videoId}`,
+        confidence: 'high', rawContext: 'context', ...item,
+      };
+      await db.run(`
+        INSERT INTO items (video_id, part, type, title, summary, item_index, item_data) VALUES (?, ?, ?, ?, ?, 0, ?)
+      `, [id, part, 'release', (item as any).title, (item as any).summary || '', JSON.stringify(fullItem)]);
+    }
+
+    await db.run('INSERT INTO transcripts (video_id, text, segments) VALUES (?, ?, ?)', [
+      videoIds.vid_new, 'Welcome back. Flash is twice as fast with a bigger context window.',
+      JSON.stringify([
+        { start: 0, duration: 2.5, text: 'Welcome back.' },
+        { start: 3723.4, duration: 4, text: 'Flash is twice as fast with a bigger context window.' },
+      ]),
+    ]);
+    await db.run('INSERT INTO transcripts (video_id, text, segments) VALUES (?, ?, ?)', [
+      videoIds.vid_old, 'A long context window for everyone.', null,
+    ]);
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  it('parses words, phrases and filters', () => {
+    const query = parseSearchQuery('Gemini "long context" entity:Google seksjon:nyheter since:7d to:2025-01-19', NOW);
+
+    expect(query.terms).toEqual(['gemini', 'long context']);
+    expect(query.entities).toEqual(['google']);
+    expect(query.section).toBe('news');
+    expect(query.from!.toISOString()).toBe('2025-01-13T12:00:00.000Z');
+    expect(query.to!.toISOString()).toBe('2025-01-20T00:00:00.000Z');
+    expect(() => parseSearchQuery('section:sport')).toThrow('Ukjent seksjon');
+    expect(() => parseSearchQuery('from:yesterday')).toThrow('Ugyldig dato');
+  });
+
+  it('ranks title hits and recent items first', async () => {
+    const results = await new SearchService().search(parseSearchQuery('gemini'), 10, NOW);
+
+    expect(results.map(result => result.item.videoId)).toEqual(['vid_dev', 'vid_new', 'vid_old', 'vid_mention']);
+    expect(results[0]!.section).toBe('dev');
+  });
+
+  it('filters by entity, section and date range', async () => {
+    const search = (text: string) => new SearchService().search(parseSearchQuery(text, NOW), 10, NOW)
+      .then(results => results.map(result => result.item.videoId));
+
+    expect(await search('entity:gemini section:news')).toEqual(['vid_new', 'vid_old']);
+    expect(await search('gemini from:2025-01-01 to:2025-01-15')).toEqual(['vid_new']);
+    expect(await search('100%')).toEqual([]);
+  });
+
+  it('finds transcript segments with highlighted snippets and timestamp links', async () => {
+    const results = await new SearchService().searchTranscripts(parseSearchQuery('"context window" from:2025-01-01', NOW));
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      videoId: 'vid_new',
+      sourceName: 'Alpha News',
+      startSeconds: 3723,
+      timestamp: '01:02:03',
+      url: 'https://www.youtube.com/watch?v=vid_new&t=3723s',
+      snippet: 'Flash is twice as fast with a bigger **context window**.',
+    });
+
+    // Transcripts stored without segments are searchable as one block without a timestamp
+    const [unsegmented] = await new SearchService().searchTranscripts(parseSearchQuery('everyone'));
+    expect(unsegmented).toMatchObject({ videoId: 'vid_old', startSeconds: null, url: 'https://www.youtube.com/watch?v=vid_old' });
+    expect(await new SearchService().searchTranscripts(parseSearchQuery('!!!'))).toEqual([]);
+  });
+
+  it('answers /nyheter with a Block Kit list linking to video timestamps', async () => {
+    const server = new SlackServer({ signingSecret: SIGNING_SECRET });
+    const port = await server.start(0, '127.0.0.1');
+
+    try {
+      const body = new URLSearchParams({ command: '/nyheter', text: 'gemini flash', user_id: 'U0ADA' }).toString();
+      const response = await fetch(`http://127.0.0.1:${port}/slack/commands`, { method: 'POST', headers: sign(body), body });
+      const reply = await response.json();
+
+      expect(reply.response_type).toBe('ephemeral');
+      expect(reply.blocks[0].text.text).toBe('🔎 *1 treff for* “gemini flash”');
+      expect(reply.blocks[1].text.text).toContain('*Gemini 2.0 Flash*');
+      expect(reply.blocks[1].text.text).toContain('📺 Alpha News • <https://www.youtube.com/watch?v=vid_new&t=90s|▶ 00:01:30>');
+
+      const usage = new URLSearchParams({ command: '/nyheter', text: '' }).toString();
+      const help = await (await fetch(`http://127.0.0.1:${port}/slack/commands`, { method: 'POST', headers: sign(usage), body: usage })).json();
+      expect(help.text).toContain('entity:Gemini');
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { getDatabase, closeDatabase } from '../src/db/database.js';
+import { MigrationRunner } from '../src/db/migrate.js';
+import { SlackService } from '../src/services/slack.service.js';
+import { briefData, newsItem, debateItem, devItem } from './helpers/brief.js';
+
+/**
+ * Slack Web API stand-in: records chat.postMessage calls, fails one threaded reply when failNextReply is set
+ */
+async function startSlackApi() {
+  const api = { posts: [] as Array<Record<string, any>>, failNextReply: false };
+  let ts = 1000;
+
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const params: Record<string, string> = Object.fromEntries(new URLSearchParams(body));
+      const reply: Record<string, any> = { ...params, blocks: JSON.parse(params.blocks || '[]') };
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+
+      if (api.failNextReply && reply.thread_ts) {
+        api.failNextReply = false;
+        res.end(JSON.stringify({ ok: false, error: 'internal_error' }));
+        return;
+      }
+
+      const posted = { ...reply, ts: `${++ts}.000100` };
+      api.posts.push(posted);
+      res.end(JSON.stringify({ ok: true, channel: params.channel, ts: posted.ts }));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, api, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/` };
+}
+
+const BRIEF_ITEMS = {
+  newsItems: Array.from({ length: 60 }, (_, index) => newsItem({ title: `Model launch ${index + 1}`, entities: ['Acme'] })),
+  debateItems: [debateItem()],
+  devItems: [devItem({ codeExample: 'npm i sdk@2', links: ['https://example.com/changelog'] })],
+  stats: { totalVideos: 3 },
+};
+
+describe('SlackService threaded briefs', () => {
+  let slack: Awaited<ReturnType<typeof startSlackApi>>;
+  let service: SlackService;
+
+  beforeAll(async () => {
+    await new MigrationRunner(getDatabase()).migrate();
+    await getDatabase().run(`
+      INSERT INTO sources (name, type, channel_url, channel_id, weight, active)
+      VALUES ('Alpha News', 'news', 'https://www.youtube.com/@alpha', 'UC_alpha', 1.0, TRUE)
+    `);
+    slack = await startSlackApi();
+    service = new SlackService('xoxb-test', { slackApiUrl: slack.url, retryConfig: { retries: 0 } });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => slack.server.close(() => resolve()));
+    await closeDatabase();
+  });
+
+  it('builds a compact headline and per-section replies with feedback buttons within the block limit', async () => {
+    const [headline, ...replies] = await service.buildThreadMessages(briefData('run_preview', BRIEF_ITEMS));
+
+    expect(headline!.part).toBe('headline');
+    expect(headline!.blocks.length).toBeLessThan(10);
+    expect(JSON.stringify(headline!.blocks)).toContain('_+57_');
+
+    expect(replies.map(reply => reply.part)).toEqual(['news', 'news:2', 'news:3', 'debate', 'dev']);
+    expect(replies.every(reply => reply.blocks.length <= 50)).toBe(true);
+
+    const debate = replies.find(reply => reply.part === 'debate')!.blocks[1].text.text;
+    expect(debate).toContain('> “We should ship it openly” — Ada <https://www.youtube.com/watch?v=vid_1&t=750s|▶ 12:30>');
+    expect(debate).toContain('Contra: Misuse');
+
+    const buttons = replies[0]!.blocks[2];
+    expect(buttons.elements.map((button: any) => button.action_id)).toEqual(['feedback:up', 'feedback:down', 'feedback:not_ai']);
+    expect(JSON.parse(buttons.elements[0].value)).toEqual({ runId: 'run_preview', itemKey: 'vid_1_Model launch 1' });
+
+    const dev = replies.find(reply => reply.part === 'dev')!.blocks[1].text.text;
+    expect(dev).toContain('```npm i sdk@2```');
+    expect(dev).toContain('📺 Alpha News');
+  });
+
+  it('posts replies into the headline thread, stores every ts and only retries what is missing', async () => {
+    await getDatabase().run("INSERT INTO runs (id, status) VALUES (?, 'running')", ['run_thread']);
+
+    slack.api.failNextReply = true;
+    const first = await service.sendBrief(briefData('run_thread', BRIEF_ITEMS), 'C_brief');
+    expect(first.success).toBe(false);
+    expect(first.error).toContain('internal_error');
+
+    const second = await service.sendBrief(briefData('run_thread', BRIEF_ITEMS), 'C_brief');
+    expect(second.success).toBe(true);
+
+    const headline = slack.api.posts[0]!;
+    expect(headline.thread_ts).toBeUndefined();
+    expect(second.timestamp).toBe(headline.ts);
+    expect(slack.api.posts.slice(1).every(post => post.thread_ts === second.timestamp)).toBe(true);
+    expect(slack.api.posts).toHaveLength(6); // Headline posted once despite the retry
+
+    const stored = await service.getThreadMessages('run_thread', 'C_brief');
+    expect(stored.map(message => message.part)).toEqual(['headline', 'news', 'news:2', 'news:3', 'debate', 'dev']);
+    expect(stored[0]!.messageTs).toBe(second.timestamp);
+    expect(stored.slice(1).every(message => message.threadTs === second.timestamp)).toBe(true);
+
+    const third = await service.sendBrief(briefData('run_thread', BRIEF_ITEMS), 'C_brief');
+    expect(third.timestamp).toBe(second.timestamp);
+    expect(slack.api.posts).toHaveLength(6);
+  });
+});
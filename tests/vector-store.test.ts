@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { getDatabase, closeDatabase } from '../src/db/database.js';
+import { MigrationRunner } from '../src/db/migrate.js';
+import { InMemoryVectorStore } from '../src/services/vector-stores/memory-vector-store.js';
+import { EmbeddingData, EmbeddingService } from '../src/services/embedding.service.js';
+import { DedupProcessor } from '../src/processors/dedup.processor.js';
+import { DEFAULT_DEDUP_CONFIG } from '../src/config/dedup.config.js';
+import { NewsItem } from '../src/types/schemas.js';
+
+const BASE = {
+  channelId: 'UC_test',
+  confidence: 'high' as const,
+  rawContext: 'Synthetic context for vector store testing',
+  relevance_score: 7,
+  type: 'release',
+};
+
+const ITEMS: NewsItem[] = [
+  { ...BASE, videoId: 'v1', sourceUrl: 'https://www.youtube.com/watch?v=v1', title: 'OpenAI lanserer GPT-5', summary: 'Ny modell fra OpenAI med bedre resonnering.', entities: ['OpenAI'] },
+  { ...BASE, videoId: 'v2', sourceUrl: 'https://www.youtube.com/watch?v=v2', title: 'GPT-5 er lansert av OpenAI', summary: 'OpenAI har sluppet GPT-5 i dag.', entities: ['OpenAI'] },
+  { ...BASE, videoId: 'v3', sourceUrl: 'https://www.youtube.com/watch?v=v3', title: 'Google oppdaterer Gemini', summary: 'Gemini får ny versjon med lengre kontekst.', entities: ['Google'] },
+];
+
+/**
+ * Embeddings by story: the two GPT-5 items nearly coincide, Gemini points elsewhere
+ */
+class StoryEmbeddings extends EmbeddingService {
+  async generateBatchEmbeddings(texts: string[]): Promise<number[][]> {
+    return texts.map(text => (text.includes('Gemini') ? [0, 0, 1, 0] : text.includes('lansert') ? [0.95, 0.05, 0, 0] : [1, 0, 0, 0]));
+  }
+}
+
+function embeddingData(): EmbeddingData[] {
+  const vectors = [[1, 0, 0, 0], [0.95, 0.05, 0, 0], [0, 0, 1, 0]];
+  return ITEMS.map((item, index) => ({
+    itemId: `${item.videoId}_item`,
+    embedding: vectors[index]!,
+    canonicalKey: index < 2 ? 'gpt5' : 'gemini',
+    textContent: `${item.title}. ${item.summary}`,
+  }));
+}
+
+describe('in-process vector store', () => {
+  beforeAll(async () => {
+    await new MigrationRunner(getDatabase()).migrate();
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  it('finds similar items above the threshold, leaving out excluded ids', async () => {
+    const store = new InMemoryVectorStore('vector_store_similar');
+    await store.initializeCollection();
+    await store.addEmbeddings(embeddingData(), ITEMS);
+
+    const similar = await store.findSimilarItems([1, 0, 0, 0], 0.85, 10, ['v1_item']);
+    expect(similar.map(result => result.itemId)).toEqual(['v2_item']);
+    expect(similar[0]!.similarity).toBeGreaterThan(0.99);
+
+    // Vectors of another dimension are never compared
+    expect(await store.findSimilarItems([1, 0, 0], 0.5)).toEqual([]);
+    expect((await store.getStats()).count).toBe(3);
+
+    await store.deleteCollection();
+  });
+
+  it('looks items up by canonical key', async () => {
+    const store = new InMemoryVectorStore('vector_store_canonical');
+    await store.initializeCollection();
+    await store.addEmbeddings(embeddingData(), ITEMS);
+
+    expect((await store.findByCanonicalKey('gpt5')).map(result => result.itemId).sort()).toEqual(['v1_item', 'v2_item']);
+    expect(await store.findByCanonicalKey('claude')).toEqual([]);
+
+    // Collections outlive the instance, like on a server
+    expect((await new InMemoryVectorStore('vector_store_canonical').getStats()).count).toBe(3);
+    await store.deleteCollection();
+  });
+
+  it('gives unnamed stores their own collection, however close together they are created', async () => {
+    const [first, second] = [new InMemoryVectorStore(), new InMemoryVectorStore()];
+    await first.initializeCollection();
+    await second.initializeCollection();
+    await first.addEmbeddings(embeddingData(), ITEMS);
+
+    expect((await first.getStats()).name).not.toBe((await second.getStats()).name);
+    expect((await second.getStats()).count).toBe(0);
+    await first.deleteCollection();
+    await second.deleteCollection();
+  });
+
+  it('clusters the same story from different videos in dedup', async () => {
+    const dedup = new DedupProcessor('sk-test', 'localhost', 8000, DEFAULT_DEDUP_CONFIG, {
+      vectorStore: new InMemoryVectorStore('vector_store_dedup'),
+      embeddingService: new StoryEmbeddings('sk-test'),
+    });
+
+    const result = await dedup.deduplicateItems(ITEMS, 0.85);
+
+    expect(result.clusters).toHaveLength(2);
+    expect(result.duplicatesRemoved).toBe(1);
+    const gpt5 = result.clusters.find(cluster => cluster.members.length === 2)!;
+    expect(gpt5.members.map(member => member.videoId).sort()).toEqual(['v1', 'v2']);
+    expect(result.deduplicatedItems.map(item => item.videoId)).toContain('v3');
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getDatabase, closeDatabase } from '../src/db/database.js';
+import { MigrationRunner } from '../src/db/migrate.js';
+import {
+  WrittenSourceService, extractArticle, parseWrittenFeed, writtenChannelId, writtenEntryId
+} from '../src/services/written-source.service.js';
+import { TranscriptProcessor } from '../src/processors/transcript.processor.js';
+import { SearchService, parseSearchQuery } from '../src/services/search.service.js';
+import { startFixtureHost } from './helpers/fixture-host.js';
+
+const ARTICLE_PARAGRAPHS = [
+  'Today we’re releasing Batch Tools 2.0, which lets the Messages API run up to 10,000 tool calls in a single batch at half the price of synchronous requests.',
+  'What’s new',
+  'Batches now accept tool_choice and parallel tool use.',
+  'Results stream back as each request finishes — no more waiting for the whole batch.',
+  'npm install @acme/sdk@2.0.0\nacme batches create --file requests.jsonl',
+  'Batch Tools cut our evaluation costs in half. — Jane Doe, Example Corp',
+  'The previous batch endpoint is deprecated and will be removed on March 1, 2025. See the migration guide for details.',
+];
+
+/**
+ * Blog stand-in: the feed (with links back to itself) and the saved article page
+ */
+async function startBlogHost() {
+  const host = await startFixtureHost({
+    '/feed.xml': ['application/rss+xml', await readFile(join(__dirname, 'fixtures', 'written-feed.xml'), 'utf8')],
+    '/blog/batch-tools-2': ['text/html', await readFile(join(__dirname, 'fixtures', 'written-article.html'), 'utf8')],
+    '/blog/changelog-sdk-1-9': ['text/html', '<html><body><main><p>Read it in your inbox.</p></main></body></html>'],
+  });
+  return { ...host, feedUrl: `${host.base}/feed.xml` };
+}
+
+describe('written sources', () => {
+  let host: Awaited<ReturnType<typeof startBlogHost>>;
+
+  beforeAll(async () => {
+    await new MigrationRunner(getDatabase()).migrate();
+    host = await startBlogHost();
+  });
+
+  afterAll(async () => {
+    await host.close();
+    await closeDatabase();
+  });
+
+  it('reads dated entries from an RSS feed, oldest first', async () => {
+    const feed = await new WrittenSourceService().fetchFeed(host.feedUrl);
+    expect(feed.title).toBe('Acme AI Blog');
+    expect(feed.entries.map(entry => entry.guid)).toEqual(['acme-post-118', 'acme-post-117', 'acme-post-110']);
+
+    const entries = await new WrittenSourceService().getEntriesSince(host.feedUrl, new Date('2025-01-01T00:00:00Z'));
+    expect(entries.map(entry => entry.title)).toEqual(['Changelog: SDK 1.9 & rate limit headers', 'Introducing Batch Tools 2.0']);
+
+    const [changelog, post] = entries;
+    expect(changelog).toMatchObject({
+      id: writtenEntryId(host.feedUrl, 'acme-post-117'),
+      publishedAt: '2025-01-08T12:30:00.000Z',
+      // Relative links resolve against the feed
+      url: `${host.base}/blog/changelog-sdk-1-9`,
+    });
+    expect(changelog!.contentHtml).toContain('<code>x-ratelimit-remaining</code>');
+    expect(post!.contentHtml).toBe('Batch Tools 2.0 runs tool calls in batches at half price.');
+    expect(writtenChannelId(host.feedUrl)).toMatch(/^written_[0-9a-f]{16}$/);
+  });
+
+  it('reads Atom entries by their alternate link', () => {
+    const feed = parseWrittenFeed(`<?xml version="1.0"?>
+      <feed xmlns="http://www.w3.org/2005/Atom">
+        <title type="text">Model Notes</title>
+        <entry>
+          <title>Evals &amp;amp; agents</title>
+          <id>tag:notes.example.com,2025:7</id>
+          <link rel="replies" href="https://notes.example.com/7#comments"/>
+          <link rel="alternate" href="/posts/7"/>
+          <updated>2025-01-10T10:00:00Z</updated>
+          <content type="html">&lt;p&gt;Agents need evals.&lt;/p&gt;</content>
+        </entry>
+      </feed>`, 'https://notes.example.com/atom.xml');
+
+    expect(feed.title).toBe('Model Notes');
+    expect(feed.entries).toEqual([{
+      id: writtenEntryId('https://notes.example.com/atom.xml', 'tag:notes.example.com,2025:7'),
+      guid: 'tag:notes.example.com,2025:7',
+      title: 'Evals & agents',
+      publishedAt: '2025-01-10T10:00:00.000Z',
+      url: 'https://notes.example.com/posts/7',
+      contentHtml: '<p>Agents need evals.</p>',
+    }]);
+  });
+
+  it('extracts the article body without page furniture', async () => {
+    const article = extractArticle(await readFile(join(__dirname, 'fixtures', 'written-article.html'), 'utf8'));
+
+    expect(article.title).toBe('Introducing Batch Tools 2.0');
+    expect(article.publishedAt).toBe('2025-01-14T09:00:00Z');
+    expect(article.paragraphs).toEqual(ARTICLE_PARAGRAPHS);
+  });
+
+  it("falls back to the feed's copy when the page is a teaser or unavailable", async () => {
+    const service = new WrittenSourceService();
+    const feedHtml = '<h2>SDK 1.9</h2><p>Responses now include <code>x-ratelimit-remaining</code> headers.</p>';
+
+    const teaser = await service.fetchArticle({ url: `${host.base}/blog/changelog-sdk-1-9`, feedHtml });
+    expect(teaser!.paragraphs).toEqual(['SDK 1.9', 'Responses now include x-ratelimit-remaining headers.']);
+
+    const missing = await service.fetchArticle({ url: `${host.base}/blog/gone`, feedHtml });
+    expect(missing!.paragraphs).toHaveLength(2);
+    await expect(service.fetchArticle({ url: `${host.base}/blog/gone` })).rejects.toThrow('HTTP 404');
+  });
+
+  it('turns the article into paragraph segments and searches them without timestamps', async () => {
+    const db = getDatabase();
+    const channelId = writtenChannelId(host.feedUrl);
+    const sourceId = await db.insert(`
+      INSERT INTO sources (name, type, kind, channel_url, channel_id, weight, active)
+      VALUES ('Acme AI Blog', 'dev', 'written', ?, ?, 1.0, TRUE)
+    `, [host.feedUrl, channelId]);
+
+    const [, post] = await new WrittenSourceService().getEntriesSince(host.feedUrl, new Date('2025-01-01T00:00:00Z'));
+    await db.run(`
+      INSERT INTO videos (video_id, source_id, title, duration_seconds, published_at, url)
+      VALUES (?, ?, ?, 0, ?, ?)
+    `, [post!.id, sourceId, post!.title, post!.publishedAt, post!.url]);
+
+    const processor = new TranscriptProcessor('sk-test');
+    const transcript = await processor.processVideoTranscript({
+      id: post!.id,
+      title: post!.title,
+      publishedAt: new Date(post!.publishedAt),
+      duration: 0,
+      channelId,
+      url: post!.url,
+      hasCaptions: true,
+      article: { url: post!.url, feedHtml: post!.contentHtml },
+    });
+
+    expect(transcript!.source).toBe('article');
+    expect(transcript!.text).toBe(ARTICLE_PARAGRAPHS.join('\n\n'));
+    expect(transcript!.segments.slice(0, 2)).toEqual([
+      { start: 0, end: 1, text: ARTICLE_PARAGRAPHS[0] },
+      { start: 1, end: 2, text: 'What’s new' },
+    ]);
+    expect(processor.getTierStats().bySource).toEqual({ article: 1 });
+    expect(host.requests).toContain('/blog/batch-tools-2');
+
+    const [result] = await new SearchService().searchTranscripts(parseSearchQuery('deprecated'));
+    expect(result).toMatchObject({ videoId: post!.id, startSeconds: null, timestamp: null, url: post!.url });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { getDatabase, closeDatabase } from '../src/db/database.js';
+import { MigrationRunner } from '../src/db/migrate.js';
+import {
+  YouTubeQuotaService, planYouTubeSources, quotaDay, quotaKeyHash, usageSince
+} from '../src/services/youtube-quota.service.js';
+import { YouTubeService } from '../src/services/youtube.service.js';
+import { TranscriptProcessor } from '../src/processors/transcript.processor.js';
+import { DEFAULT_YOUTUBE_QUOTA_CONFIG } from '../src/config/youtube-quota.config.js';
+import { engines } from './helpers/engines.js';
+
+const SMALL_BUDGET = { ...DEFAULT_YOUTUBE_QUOTA_CONFIG, dailyLimit: 300 };
+
+describe('YouTube quota accounting', () => {
+  beforeAll(async () => {
+    await new MigrationRunner(getDatabase()).migrate();
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  it('counts quota days in Pacific time', () => {
+    // 07:59 UTC is still the previous day in Los Angeles (PST, UTC-8)
+    expect(quotaDay(new Date('2025-01-15T07:59:00Z'))).toBe('2025-01-14');
+    expect(quotaDay(new Date('2025-01-15T08:00:00Z'))).toBe('2025-01-15');
+    expect(quotaKeyHash('AIza-test-key')).toMatch(/^[0-9a-f]{12}$/);
+  });
+
+  it('persists usage per key and endpoint, shared by every service on the key', async () => {
+    const pipeline = new YouTubeQuotaService('key-shared', SMALL_BUDGET);
+    const script = new YouTubeQuotaService('key-shared', SMALL_BUDGET);
+    const otherKey = new YouTubeQuotaService('key-other', SMALL_BUDGET);
+
+    await pipeline.charge('channels.list');
+    await pipeline.charge('playlistItems.list');
+    await script.charge('captions.list');
+    await script.charge('captions.list');
+    await otherKey.charge('captions.download');
+
+    const usage = await pipeline.getDailyUsage();
+    expect(usage).toEqual({
+      day: quotaDay(),
+      limit: 300,
+      used: 102,
+      remaining: 198,
+      byEndpoint: {
+        'captions.list': { units: 100, calls: 2 },
+        'channels.list': { units: 1, calls: 1 },
+        'playlistItems.list': { units: 1, calls: 1 },
+      },
+    });
+    expect(pipeline.getSessionUsage()).toEqual({ 'channels.list': { units: 1, calls: 1 }, 'playlistItems.list': { units: 1, calls: 1 } });
+    expect(await otherKey.getRemainingUnits()).toBe(100);
+
+    // The raw key never reaches the database
+    const rows = await getDatabase().query('SELECT DISTINCT key_hash FROM youtube_quota_usage');
+    expect(rows.map(row => row.key_hash).sort()).toEqual([quotaKeyHash('key-other'), quotaKeyHash('key-shared')].sort());
+  });
+
+  it('refuses calls the remaining budget cannot cover, before they reach YouTube', async () => {
+    const quota = new YouTubeQuotaService('key-exhausted', SMALL_BUDGET);
+    await quota.charge('captions.download');
+    await quota.charge('captions.list');
+    await quota.charge('playlistItems.list');
+
+    await expect(quota.charge('captions.list')).rejects.toThrow('YouTube quota exhausted: captions.list needs 50 units, 49 left today (251/300)');
+    expect((await quota.getDailyUsage()).used).toBe(251);
+
+    // Cheaper calls still fit
+    await quota.charge('videos.list');
+
+    const youtube = new YouTubeService('key-exhausted', new YouTubeQuotaService('key-exhausted', { ...SMALL_BUDGET, dailyLimit: 252 }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await expect(youtube.getChannelUploadsPlaylistId('UC_anything')).rejects.toThrow('YouTube quota exhausted');
+    expect(await youtube.getCaptions('video123')).toBeNull();
+    expect(await youtube.getQuotaUsage()).toMatchObject({ used: 252, remaining: 0, session: 0 });
+  });
+
+  it('lists caption tracks once per video for both caption tiers', async () => {
+    const db = getDatabase();
+    const sourceId = await db.insert(`
+      INSERT INTO sources (name, type, channel_url, channel_id, weight, active)
+      VALUES ('Alpha News', 'news', 'https://www.youtube.com/@alpha', 'UC_alpha', 1.0, TRUE)
+    `);
+    await db.run(`
+      INSERT INTO videos (source_id, video_id, title, published_at, url) VALUES (?, ?, ?, ?, ?)
+    `, [sourceId, 'vid_captions', 'Weekly AI', '2025-01-15T08:00:00Z', 'https://www.youtube.com/watch?v=vid_captions']);
+
+    const youtube = new YouTubeService('key-captions', new YouTubeQuotaService('key-captions'));
+    const captions = youtube['youtube'].captions;
+    // Only an auto-generated track: the manual tier finds nothing, the auto tier downloads it
+    const list = vi.spyOn(captions, 'list').mockImplementation(async () => ({
+      data: { items: [{ id: 'track_asr', snippet: { language: 'en', trackKind: 'asr' } }] },
+    }) as never);
+    const download = vi.spyOn(captions, 'download').mockImplementation(async () => ({
+      data: 'WEBVTT\n\n00:00:00.000 --> 00:00:05.000\nThis week in AI: new models, new tools and a long look at agent evaluations.\n',
+    }) as never);
+
+    const processor = new TranscriptProcessor('sk-test', 180, undefined, undefined, undefined, youtube);
+    processor.setTiers([
+      { tier: 'youtube-manual', enabled: true, minQuality: 0 },
+      { tier: 'youtube-auto', enabled: true, minQuality: 0 },
+    ]);
+    const transcript = await processor.processVideoTranscript({
+      id: 'vid_captions', title: 'Weekly AI', publishedAt: new Date('2025-01-15T08:00:00Z'), duration: 600,
+      channelId: 'UC_alpha', url: 'https://www.youtube.com/watch?v=vid_captions', hasCaptions: true,
+    });
+
+    expect(transcript?.source).toBe('youtube-auto');
+    expect(list).toHaveBeenCalledTimes(1);
+    expect(download).toHaveBeenCalledTimes(1);
+    expect(youtube['quota'].getSessionUsage()).toEqual({
+      'captions.list': { units: 50, calls: 1 },
+      'captions.download': { units: 200, calls: 1 },
+    });
+  });
+
+  it('skips the lowest-weight YouTube sources when quota runs short', () => {
+    const sources = [
+      { name: 'Minor', weight: 0.5 },
+      { name: 'Major', weight: 2 },
+      { name: 'Regular', weight: 1 },
+      { name: 'Unweighted', weight: null },
+    ];
+    const config = { reserveUnits: 100, sourceUnits: 3 };
+
+    expect(planYouTubeSources(sources, 10000, config).skipped).toEqual([]);
+
+    const tight = planYouTubeSources(sources, 107, config);
+    expect(tight.checked.map(source => source.name)).toEqual(['Major', 'Regular']);
+    expect(tight.skipped.map(source => source.name)).toEqual(['Unweighted', 'Minor']);
+
+    expect(planYouTubeSources(sources, 90, config).checked).toEqual([]);
+  });
+
+  it('reports the usage added since a snapshot', () => {
+    expect(usageSince(
+      { 'videos.list': { units: 3, calls: 3 }, 'captions.list': { units: 100, calls: 2 } },
+      { 'videos.list': { units: 3, calls: 3 }, 'captions.list': { units: 50, calls: 1 } }
+    )).toEqual({ 'captions.list': { units: 50, calls: 1 } });
+  });
+});
+
+describe.each(engines)('YouTube quota charges ($name)', ({ create }) => {
+  it('never lets concurrent charges on one key go over the limit', async () => {
+    const db = await create();
+    await new MigrationRunner(db).migrate();
+    const processes = [1, 2, 3].map(() => new YouTubeQuotaService('key-race', SMALL_BUDGET, db));
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 8 }, (_, index) => processes[index % 3]!.charge('captions.list'))
+    );
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(6);
+    expect((await processes[0]!.getDailyUsage()).used).toBe(300);
+    await expect(processes[1]!.charge('captions.list')).rejects.toThrow('50 units, 0 left today (300/300)');
+    await db.close();
+  }, 60_000);
+});
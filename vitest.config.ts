@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Services use the shared connection - point it at a throwaway database in every test file
+    env: {
+      SQLITE_DB_PATH: ':memory:',
+    },
+  },
+});